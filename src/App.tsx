@@ -1,9 +1,11 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import './App.css';
 import { ApiService } from './apiService';
 
 import ConfigurationPanel from './components/ConfigurationPanel';
 import NetworkQualityDisplay from './components/NetworkQuality';
+import ScriptRunnerPanel from './components/ScriptRunner';
+import DiagnosticsExport from './components/DiagnosticsExport';
 import VideoDisplay from './components/VideoDisplay';
 import ChatInterface from './components/ChatInterface';
 import { NotificationContainer } from './components/NotificationContainer';
@@ -14,7 +16,18 @@ import { useNotifications } from './contexts/NotificationContext';
 import { useProviderAudioControls } from './hooks/useProviderAudioControls';
 import { useStreamingSession } from './hooks/useStreamingSession';
 import { useProviderVideoCamera } from './hooks/useProviderVideoCamera';
-import { useConfigurationStore } from './stores/configurationStore';
+import { useSessionMetrics } from './hooks/useSessionMetrics';
+import { useQualityAlerts } from './hooks/useQualityAlerts';
+import { useSessionLifecycle } from './hooks/useSessionLifecycle';
+import { useSessionTimeLimit } from './hooks/useSessionTimeLimit';
+import { useDiagnosticsExport } from './hooks/useDiagnosticsExport';
+import { useCredentialManager } from './hooks/useCredentialManager';
+import { buildSystemConfig, useConfigurationStore } from './stores/configurationStore';
+import { parseValidationMode } from './validation';
+import { QUALITY_POLICIES } from './providers/common/QualityScorer';
+
+// Responses that drift from api.schemas.ts are logged by default; strict turns them into errors
+const API_VALIDATION_MODE = parseValidationMode(import.meta.env.VITE_API_VALIDATION);
 
 const App: React.FC = () => {
   // Configuration from store
@@ -22,6 +35,7 @@ const App: React.FC = () => {
     openapiHost,
     openapiCredential,
     authMethod,
+    apiProxyPath,
     avatarId,
     knowledgeId,
     sessionDuration,
@@ -33,13 +47,67 @@ const App: React.FC = () => {
     voiceParams,
     sceneMode,
     e2eType,
+    selectedProvider,
+    autoFallback,
+    fallbackOrder,
+    qualityPolicy,
   } = useConfigurationStore();
 
   // Provider context
-  const { providerType } = useStreamingContext();
+  const { provider, providerType, onFailover, onFailoverResult, onVideoAdapted } = useStreamingContext();
 
   // Notifications
-  const { showError } = useNotifications();
+  const { showError, showWarning, showSuccess, showInfo } = useNotifications();
+
+  // Failover configuration
+  const systemConfig = useMemo(
+    () => buildSystemConfig({ selectedProvider, autoFallback, fallbackOrder, sessionDuration }),
+    [selectedProvider, autoFallback, fallbackOrder, sessionDuration],
+  );
+
+  // Score connection quality for the selected use case, including after a provider switch
+  useEffect(() => {
+    provider?.setQualityPolicy(QUALITY_POLICIES[qualityPolicy] ?? QUALITY_POLICIES.balanced);
+  }, [provider, qualityPolicy]);
+
+  // Let the user know when the connection moves to another provider
+  useEffect(() => {
+    return onFailover(({ from, to, error }) => {
+      showWarning(`${from} connection failed (${error.message}), switching to ${to}`, 'Provider Failover');
+    });
+  }, [onFailover, showWarning]);
+
+  // Name the provider that took over; a run where every provider failed surfaces as the start error
+  useEffect(() => {
+    return onFailoverResult(({ provider: connected, attempted }) => {
+      if (connected && attempted.length > 1) {
+        showSuccess(`Connected via ${connected} after ${attempted.length - 1} failed attempt(s)`, 'Provider Failover');
+      }
+    });
+  }, [onFailoverResult, showSuccess]);
+
+  // Explain why the camera looks worse to the avatar, or stopped reaching it
+  useEffect(() => {
+    return onVideoAdapted(({ action, to }) => {
+      switch (action) {
+        case 'downgrade':
+          showInfo(`Your upload is poor, so your camera is now sent at ${to}`, 'Camera Quality');
+          break;
+        case 'unpublish':
+          showWarning(
+            'Your upload is too poor to send your camera; it resumes when the connection recovers',
+            'Camera Paused',
+          );
+          break;
+        case 'republish':
+          showInfo('Your connection recovered, your camera is being sent again', 'Camera Resumed');
+          break;
+        case 'upgrade':
+          showInfo(`Your connection improved, your camera is now sent at ${to}`, 'Camera Quality');
+          break;
+      }
+    });
+  }, [onVideoAdapted, showInfo, showWarning]);
 
   // Media controls (now provider-agnostic)
   const {
@@ -64,8 +132,12 @@ const App: React.FC = () => {
 
   // Initialize API service when credentials change
   useEffect(() => {
-    if (openapiHost && openapiCredential) {
-      const apiService = new ApiService(openapiHost, openapiCredential, authMethod);
+    const proxied = authMethod === 'proxy';
+    if (proxied ? apiProxyPath : openapiHost && openapiCredential) {
+      // The proxy holds the credential, so the browser only knows where it lives
+      const apiService = proxied
+        ? new ApiService(apiProxyPath, '', authMethod, { validationMode: API_VALIDATION_MODE })
+        : new ApiService(openapiHost, openapiCredential, authMethod, { validationMode: API_VALIDATION_MODE });
       // Set up notification callback for API errors
       apiService.setNotificationCallback((message, title) => {
         showError(message, title);
@@ -74,7 +146,7 @@ const App: React.FC = () => {
     } else {
       setApi(null);
     }
-  }, [openapiHost, openapiCredential, authMethod, showError]);
+  }, [openapiHost, openapiCredential, authMethod, apiProxyPath, showError]);
 
   // Camera controls (now provider-agnostic)
   const {
@@ -86,7 +158,16 @@ const App: React.FC = () => {
   } = useProviderVideoCamera();
 
   // Unified streaming hook - now uses store configuration
-  const { isJoined, connected, startStreaming, closeStreaming } = useStreamingSession({
+  const {
+    isJoined,
+    connected,
+    isReconnecting,
+    session,
+    sessionExpiresAt,
+    startStreaming,
+    cancelStart,
+    closeStreaming,
+  } = useStreamingSession({
     avatarId,
     knowledgeId,
     sessionDuration,
@@ -101,16 +182,64 @@ const App: React.FC = () => {
     api,
     localVideoTrack,
     providerType,
+    systemConfig,
   });
 
+  // Session details stamped onto the conversation transcript
+  const transcriptSession = useMemo(
+    () => ({
+      sessionId: session?._id,
+      provider: providerType,
+      avatarId,
+      voiceId,
+      voiceUrl,
+      language,
+      modeType,
+      knowledgeId,
+    }),
+    [session, providerType, avatarId, voiceId, voiceUrl, language, modeType, knowledgeId],
+  );
+
+  // Per-second QoE timeline of the session, kept after it ends so it can still be exported
+  const [isRemoteVideoPlaying, setIsRemoteVideoPlaying] = useState(false);
+  const metricsSession = useMemo(() => ({ sessionId: session?._id, provider: providerType }), [session, providerType]);
+  const sessionMetrics = useSessionMetrics({ sessionInfo: metricsSession, isRemoteVideoPlaying });
+
+  // Toasts and system:warning events when a network quality alert rule holds
+  const qualityAlerts = useQualityAlerts();
+
+  // Renews the OpenAPI and RTC tokens before they run out, or warns when that is not possible
+  useCredentialManager({ session });
+
+  // Countdown to the end of the session's duration, closing it then and offering a continuation
+  const sessionTime = useSessionTimeLimit({ session, sessionExpiresAt, startStreaming, closeStreaming });
+
+  // Start-up timing from the Start click to the avatar's first audio
+  const lifecycle = useSessionLifecycle();
+
+  // One file with logs, events, stats and errors to attach to a support request
+  const diagnostics = useDiagnosticsExport({ getMetricsReport: sessionMetrics.getReport });
+
   // Auto-cleanup media devices when streaming stops or component unmounts
   useEffect(() => {
-    if (!connected) {
+    // Keep local tracks alive during a reconnect so the provider can republish them
+    if (!connected && !isReconnecting) {
       // Cleanup both audio and video when streaming stops
       cleanupAudio();
       cleanupCamera();
     }
-  }, [connected, cleanupAudio, cleanupCamera]);
+  }, [connected, isReconnecting, cleanupAudio, cleanupCamera]);
+
+  // Surface reconnect progress to the user
+  const wasReconnectingRef = useRef(false);
+  useEffect(() => {
+    if (isReconnecting && !wasReconnectingRef.current) {
+      showWarning('Connection lost, trying to reconnect...', 'Reconnecting');
+    } else if (!isReconnecting && wasReconnectingRef.current && connected) {
+      showSuccess('Connection restored', 'Reconnected');
+    }
+    wasReconnectingRef.current = isReconnecting;
+  }, [isReconnecting, connected, showWarning, showSuccess]);
 
   // Cleanup on component unmount only
   const cleanupAudioRef = useRef(cleanupAudio);
@@ -136,6 +265,7 @@ const App: React.FC = () => {
       <ConfigurationPanel
         isJoined={isJoined}
         startStreaming={startStreaming}
+        cancelStart={cancelStart}
         closeStreaming={closeStreaming}
         api={api}
       />
@@ -146,6 +276,8 @@ const App: React.FC = () => {
           avatarVideoUrl={avatarVideoUrl}
           localVideoTrack={localVideoTrack}
           cameraEnabled={cameraEnabled}
+          onRemoteVideoPlayingChange={setIsRemoteVideoPlaying}
+          sessionTime={sessionTime}
         />
 
         <ChatInterface
@@ -165,9 +297,14 @@ const App: React.FC = () => {
           onSystemMessageCallback={(callback) => {
             systemMessageCallbackRef.current = callback;
           }}
+          transcriptSession={transcriptSession}
         />
 
-        {isJoined && <NetworkQualityDisplay />}
+        {(isJoined || sessionMetrics.hasRecording) && (
+          <NetworkQualityDisplay sessionMetrics={sessionMetrics} qualityAlerts={qualityAlerts} lifecycle={lifecycle} />
+        )}
+        {isJoined && <ScriptRunnerPanel connected={connected} />}
+        <DiagnosticsExport diagnostics={diagnostics} />
       </div>
 
       <NotificationContainer />
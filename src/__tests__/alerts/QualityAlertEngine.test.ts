@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import { QualityAlertEngine, QualityAlertSource, parseQualityAlertRules } from '../../alerts';
+import { QualityAlertRule } from '../../types/qualityAlerts.types';
+import { StreamingError } from '../../types/error.types';
+
+const packetLossRule: QualityAlertRule = {
+  id: 'packet-loss',
+  metric: 'packetLoss',
+  operator: '>',
+  threshold: 5,
+  forMs: 10000,
+};
+
+const fpsRule: QualityAlertRule = { id: 'fps', metric: 'videoFrameRate', operator: '<', threshold: 10 };
+
+const source = (packetLoss: number, frameRate?: number): QualityAlertSource => ({
+  networkQuality: { score: 80, uplink: 'good', downlink: 'good', rtt: 50, packetLoss },
+  detailedNetworkStats: frameRate === undefined ? undefined : { video: { frameRate } },
+});
+
+describe('QualityAlertEngine', () => {
+  it('fires once the condition has held for forMs and recovers when it clears', () => {
+    const onAlert = vi.fn();
+    const onRecover = vi.fn();
+    const engine = new QualityAlertEngine([packetLossRule], { onAlert, onRecover });
+
+    engine.evaluate(source(8), 0);
+    engine.evaluate(source(9), 5000);
+    expect(onAlert).not.toHaveBeenCalled();
+
+    engine.evaluate(source(7), 10000);
+    expect(onAlert).toHaveBeenCalledTimes(1);
+    expect(onAlert.mock.calls[0]?.[0]).toMatchObject({ value: 7, since: 0, firedAt: 10000 });
+    expect(engine.getActiveAlerts()).toHaveLength(1);
+
+    // Still holding does not fire again
+    engine.evaluate(source(12), 12000);
+    expect(onAlert).toHaveBeenCalledTimes(1);
+
+    engine.evaluate(source(1), 14000);
+    expect(onRecover).toHaveBeenCalledWith(expect.objectContaining({ value: 1, recoveredAt: 14000 }));
+    expect(engine.getActiveAlerts()).toHaveLength(0);
+  });
+
+  it('restarts the duration when the condition breaks and ignores updates without the metric', () => {
+    const onAlert = vi.fn();
+    const engine = new QualityAlertEngine([packetLossRule, fpsRule], { onAlert });
+
+    engine.evaluate(source(8), 0);
+    engine.evaluate(source(2), 6000);
+    engine.evaluate(source(8), 8000);
+    engine.evaluate(source(8), 16000);
+    expect(onAlert).not.toHaveBeenCalled();
+
+    engine.evaluate(source(8, 4), 18000);
+    expect(onAlert).toHaveBeenCalledTimes(2);
+    expect(engine.getActiveAlerts().map((alert) => alert.rule.id)).toEqual(['packet-loss', 'fps']);
+
+    // No video stats says nothing about the frame rate, so the alert stays
+    engine.evaluate(source(8), 20000);
+    expect(engine.getActiveAlerts()).toHaveLength(2);
+  });
+
+  it('recovers alerts of rules that are edited away, without a value', () => {
+    const onRecover = vi.fn();
+    const engine = new QualityAlertEngine([fpsRule], { onRecover });
+
+    engine.evaluate(source(0, 4), 0);
+    engine.setRules([{ ...fpsRule, enabled: false }], 1000);
+
+    expect(onRecover.mock.calls[0]?.[0]).toEqual({ alert: expect.anything(), recoveredAt: 1000 });
+    expect(engine.getActiveAlerts()).toHaveLength(0);
+  });
+});
+
+describe('parseQualityAlertRules', () => {
+  it('rejects malformed rules with the offending rule', () => {
+    expect(parseQualityAlertRules({ rules: [packetLossRule] }).rules).toEqual([packetLossRule]);
+    expect(() => parseQualityAlertRules({ rules: [{ ...fpsRule, metric: 'jitter' }] })).toThrow(
+      /Rule 1: unknown metric/,
+    );
+    expect(() => parseQualityAlertRules({ rules: [fpsRule, fpsRule] })).toThrow(StreamingError);
+    expect(() => parseQualityAlertRules('{')).toThrow(/not valid JSON/);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ApiTransport } from '../../core/ApiTransport';
+import { StreamingError, ErrorCode } from '../../types/error.types';
+
+const URL = 'https://openapi.example.com/api/open/v3/language/list';
+
+const reply = (status: number, body: unknown) =>
+  Promise.resolve({
+    ok: status < 400,
+    status,
+    text: () => Promise.resolve(typeof body === 'string' ? body : JSON.stringify(body)),
+  } as Response);
+
+// Answers each call with the next response in turn, then stops answering
+const stubFetch = (...responses: (() => Promise<Response>)[]) => {
+  const fetchMock = vi.fn((_url: string, init: RequestInit) => {
+    const next = responses.shift();
+    if (next) return next();
+    return new Promise<Response>((_resolve, reject) =>
+      init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError'))),
+    );
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const catchError = (promise: Promise<unknown>) =>
+  promise.then(
+    () => null,
+    (error: StreamingError) => error,
+  );
+
+describe('ApiTransport', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('retries idempotent requests after outages with jittered backoff', async () => {
+    const fetchMock = stubFetch(
+      () => reply(503, '<html>Service Unavailable</html>'),
+      () => Promise.reject(new TypeError('Failed to fetch')),
+      () => reply(200, { code: 1000, msg: 'OK', data: { lang_list: [] } }),
+    );
+    const transport = new ApiTransport({ retryBaseDelayMs: 1000 }, () => 0.5);
+
+    const result = transport.request({ url: URL, method: 'GET' });
+    await vi.advanceTimersByTimeAsync(499);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    // Second wait is up to twice as long
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(result).resolves.toEqual({ lang_list: [] });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not repeat a POST and keeps the Akool code of business errors', async () => {
+    const fetchMock = stubFetch(() => reply(502, { code: 5000, msg: 'Bad gateway' }));
+    const transport = new ApiTransport();
+
+    const serverError = await catchError(transport.request({ url: URL, method: 'POST', body: {} }));
+    expect(serverError).toMatchObject({ code: ErrorCode.API_SERVER_ERROR, details: { status: 502 } });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    stubFetch(() => reply(200, { code: 1101, msg: 'Invalid authorization or the token has expired' }));
+    const authError = await catchError(transport.request({ url: URL, method: 'GET' }));
+    expect(authError).toBeInstanceOf(StreamingError);
+    expect(authError).toMatchObject({
+      code: ErrorCode.API_AUTH_FAILED,
+      message: 'Invalid authorization or the token has expired',
+      details: { akoolCode: 1101, akoolMsg: 'Invalid authorization or the token has expired' },
+    });
+
+    stubFetch(() => reply(200, { code: 1300, msg: 'Insufficient credits' }));
+    await expect(transport.request({ url: URL, method: 'GET' })).rejects.toMatchObject({
+      code: ErrorCode.API_QUOTA_EXCEEDED,
+    });
+  });
+
+  it('times out a hung request and can be cancelled by the caller', async () => {
+    stubFetch();
+    const transport = new ApiTransport({ timeoutMs: 5000, maxRetries: 0 });
+
+    const timedOut = catchError(transport.request({ url: URL, method: 'POST', body: {} }));
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(await timedOut).toMatchObject({ code: ErrorCode.API_TIMEOUT });
+
+    const controller = new AbortController();
+    const cancelled = catchError(transport.request({ url: URL, method: 'GET', signal: controller.signal }));
+    controller.abort();
+    expect(await cancelled).toMatchObject({ code: ErrorCode.API_ABORTED });
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { EventBus } from '../../core/EventBus';
+import { EventBus, EventBusOptions } from '../../core/EventBus';
 import { StreamingError, ErrorCode } from '../../types/error.types';
+import { Participant } from '../../types/streaming.types';
 
 describe('EventBus', () => {
   let eventBus: EventBus;
@@ -341,6 +342,112 @@ describe('EventBus', () => {
     });
   });
 
+  describe('Middleware, Wildcards and History', () => {
+    // The shared setup replaces EventBus with a mock that has none of these
+    const createRealEventBus = async (options?: Partial<EventBusOptions>) => {
+      const actual = await vi.importActual<typeof import('../../core/EventBus')>('../../core/EventBus');
+      return new actual.EventBus(options);
+    };
+
+    const createParticipant = (id: string, isLocal: boolean): Participant => ({
+      id,
+      isLocal,
+      videoTracks: [],
+      audioTracks: [],
+      connectionQuality: { score: 95, uplink: 'excellent', downlink: 'excellent', rtt: 50, packetLoss: 0 },
+      isSpeaking: false,
+    });
+
+    it('should keep the most recent events even without listeners', async () => {
+      const smallBus = await createRealEventBus({ historySize: 2 });
+
+      smallBus.publish('system:info', { message: 'first' });
+      smallBus.publish('system:info', { message: 'second' });
+      smallBus.publish('system:warning', { message: 'third' });
+
+      expect(smallBus.getHistory().map((entry) => [entry.event, entry.data])).toEqual([
+        ['system:info', { message: 'second' }],
+        ['system:warning', { message: 'third' }],
+      ]);
+
+      smallBus.clearHistory();
+      expect(smallBus.getHistory()).toEqual([]);
+    });
+
+    it('should replay matching history to late subscribers', async () => {
+      const bus = await createRealEventBus({ historySize: 10 });
+      bus.publish('system:info', { message: 'one' });
+      bus.publish('connection:connected', { provider: 'agora' });
+      bus.publish('system:warning', { message: 'two' });
+
+      bus.subscribe('system:*', mockCallback, { replay: true });
+      bus.subscribe('system:info', secondMockCallback, { replay: 1 });
+      bus.publish('system:info', { message: 'three' });
+
+      expect(mockCallback.mock.calls).toEqual([
+        [{ message: 'one' }, 'system:info'],
+        [{ message: 'two' }, 'system:warning'],
+        [{ message: 'three' }, 'system:info'],
+      ]);
+      expect(secondMockCallback.mock.calls.map(([data]) => data)).toEqual([{ message: 'one' }, { message: 'three' }]);
+    });
+
+    it('should deliver to exact, namespace and catch-all listeners in that order', async () => {
+      const bus = await createRealEventBus();
+      const order: string[] = [];
+      bus.subscribe('*', (_data, event) => order.push(`*:${event}`));
+      bus.subscribe('connection:*', (_data, event) => order.push(`connection:*:${event}`));
+      bus.subscribe('connection:connected', () => order.push('exact'));
+      bus.once('*', mockCallback);
+
+      bus.publish('connection:connected', { provider: 'livekit' });
+      bus.publish('system:info', { message: 'not a connection event' });
+
+      expect(order).toEqual(['exact', 'connection:*:connection:connected', '*:connection:connected', '*:system:info']);
+      expect(mockCallback).toHaveBeenCalledOnce();
+      expect(bus.hasListeners('connection:*')).toBe(true);
+    });
+
+    it('should let middleware inspect, transform and drop events', async () => {
+      const bus = await createRealEventBus({ historySize: 10 });
+      const inspected: string[] = [];
+      bus.use((event) => void inspected.push(event));
+      const removeFilter = bus.use((event, data) => {
+        if (event !== 'system:info') return undefined;
+        const { message } = data as { message: string };
+        return message === 'noise' ? null : { message: message.toUpperCase() };
+      });
+      bus.subscribe('system:info', mockCallback);
+
+      bus.publish('system:info', { message: 'noise' });
+      bus.publish('system:info', { message: 'hello' });
+      removeFilter();
+      bus.publish('system:info', { message: 'noise' });
+
+      expect(inspected).toEqual(['system:info', 'system:info', 'system:info']);
+      expect(mockCallback.mock.calls.map(([data]) => data)).toEqual([{ message: 'HELLO' }, { message: 'noise' }]);
+      expect(bus.getHistory()).toHaveLength(2);
+    });
+
+    it('should wait for a matching event or time out', async () => {
+      vi.useFakeTimers();
+      try {
+        const bus = await createRealEventBus();
+        const joined = bus.waitFor('participant:joined', ({ participant }) => !participant.isLocal, 1000);
+        bus.publish('participant:joined', { participant: createParticipant('local', true) });
+        bus.publish('participant:joined', { participant: createParticipant('avatar', false) });
+        await expect(joined).resolves.toMatchObject({ participant: { id: 'avatar' } });
+
+        const left = bus.waitFor('participant:left', undefined, 1000);
+        vi.advanceTimersByTime(1000);
+        await expect(left).rejects.toMatchObject({ code: ErrorCode.OPERATION_TIMEOUT });
+        expect(bus.getListenerCount()).toBe(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
   describe('Real Event Scenarios', () => {
     it('should handle connection events', () => {
       const connectionData = { provider: 'agora' as const };
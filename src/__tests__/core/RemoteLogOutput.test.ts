@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LogEntry, LogLevel } from '../../core/Logger';
+import { RemoteLogBatch, RemoteLogOutput } from '../../core/RemoteLogOutput';
+import { REDACTED, clearLogSecrets, registerLogSecret } from '../../core/logRedaction';
+
+const ENDPOINT = 'http://localhost:4318/logs';
+
+const entry = (level: LogLevel, message: string, context?: Record<string, unknown>): LogEntry => ({
+  level,
+  message,
+  context,
+  timestamp: 1000,
+});
+
+// Stands in for the collector: records every batch and answers with the given statuses in turn
+const createEndpoint = (...statuses: number[]) => {
+  const batches: RemoteLogBatch[] = [];
+  const fetchMock = vi.fn((url: string, init: RequestInit) => {
+    expect(url).toBe(ENDPOINT);
+    batches.push(JSON.parse(init.body as string) as RemoteLogBatch);
+    return Promise.resolve({ ok: (statuses.shift() ?? 200) < 400, status: 500 } as Response);
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return { batches, fetchMock };
+};
+
+describe('RemoteLogOutput', () => {
+  let output: RemoteLogOutput;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    output.destroy();
+    clearLogSecrets();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('sends full batches with sampled levels and secrets redacted', async () => {
+    const { batches } = createEndpoint();
+    registerLogSecret('akool-openapi-credential');
+    output = new RemoteLogOutput({ endpoint: ENDPOINT, batchSize: 2, sampleRates: { [LogLevel.DEBUG]: 0 } });
+
+    output.write(entry(LogLevel.DEBUG, 'dropped by sampling'));
+    output.write(
+      entry(LogLevel.INFO, 'Connecting', {
+        credentials: { agora_token: 'a', livekitToken: 'b', trtc_user_sig: 'c', agora_channel: 'room' },
+        url: 'https://host/?key=akool-openapi-credential',
+      }),
+    );
+    expect(batches).toHaveLength(0);
+
+    output.write(entry(LogLevel.ERROR, 'Bearer abc.def failed', { error: new Error('boom') }));
+    await vi.runAllTimersAsync();
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0]?.entries.map((record) => record.level)).toEqual(['INFO', 'ERROR']);
+    expect(batches[0]?.entries[0]?.context).toEqual({
+      credentials: { agora_token: REDACTED, livekitToken: REDACTED, trtc_user_sig: REDACTED, agora_channel: 'room' },
+      url: `https://host/?key=${REDACTED}`,
+    });
+    expect(batches[0]?.entries[1]?.message).toBe(`Bearer ${REDACTED} failed`);
+    expect(batches[0]?.entries[1]?.context?.error).toMatchObject({ name: 'Error', message: 'boom' });
+  });
+
+  it('retries a failed batch with backoff and keeps the order', async () => {
+    const { batches, fetchMock } = createEndpoint(503, 503);
+    output = new RemoteLogOutput({ endpoint: ENDPOINT, flushIntervalMs: 100, retryBaseDelayMs: 1000 });
+
+    output.write(entry(LogLevel.WARN, 'first'));
+    await vi.advanceTimersByTimeAsync(100);
+    output.write(entry(LogLevel.WARN, 'second'));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    // Second retry waits twice as long
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(batches[2]?.entries.map((record) => record.message)).toEqual(['first', 'second']);
+    expect(output.getQueueLength()).toBe(0);
+    expect(output.getDroppedCount()).toBe(0);
+  });
+
+  it('hands the queue to sendBeacon when the page is hidden', () => {
+    createEndpoint();
+    const sendBeacon = vi.fn().mockReturnValue(true);
+    Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, configurable: true });
+    output = new RemoteLogOutput({ endpoint: ENDPOINT, batchSize: 2 });
+
+    output.write(entry(LogLevel.WARN, 'one'));
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(sendBeacon).toHaveBeenCalledWith(ENDPOINT, expect.any(Blob));
+    expect(output.getQueueLength()).toBe(0);
+  });
+});
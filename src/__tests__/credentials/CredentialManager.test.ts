@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CredentialManager, getTokenExpiry } from '../../credentials';
+import { EventBusInterface } from '../../types/event.types';
+import { ErrorCode } from '../../types/error.types';
+
+const createEventBus = () => ({
+  subscribe: vi.fn(),
+  once: vi.fn(),
+  publish: vi.fn(),
+  use: vi.fn(),
+  waitFor: vi.fn(),
+  clear: vi.fn(),
+});
+
+// Unsigned JWT carrying only an exp claim, in epoch seconds
+const jwt = (expiresAt: number) =>
+  ['e30', btoa(JSON.stringify({ exp: expiresAt / 1000 })).replace(/=+$/, ''), 'signature'].join('.');
+
+const published = (eventBus: ReturnType<typeof createEventBus>) =>
+  eventBus.publish.mock.calls.map(([event]) => event as string);
+
+const MINUTE = 60000;
+
+describe('CredentialManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads the expiry of a JWT and ignores opaque tokens', () => {
+    expect(getTokenExpiry(jwt(10 * MINUTE))).toBe(10 * MINUTE);
+    expect(getTokenExpiry('007eJxTYBBdsanx')).toBeNull();
+    expect(getTokenExpiry('a.not-json.c')).toBeNull();
+  });
+
+  it('refreshes the OpenAPI token ahead of expiry and tracks the new one', async () => {
+    const eventBus = createEventBus();
+    const manager = new CredentialManager(eventBus as EventBusInterface);
+    const refreshApiToken = vi.fn().mockResolvedValue({ token: jwt(70 * MINUTE) });
+    const onApiTokenRefreshed = vi.fn((token: string) => manager.trackApiToken(token));
+    manager.setRefreshHandlers({ refreshApiToken });
+    manager.setCallbacks({ onApiTokenRefreshed });
+
+    manager.trackApiToken(jwt(10 * MINUTE));
+    await vi.advanceTimersByTimeAsync(8 * MINUTE - 1);
+    expect(refreshApiToken).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(onApiTokenRefreshed).toHaveBeenCalledWith(jwt(70 * MINUTE));
+    expect(eventBus.publish).toHaveBeenCalledWith('credentials:refreshed', { kind: 'openapi', expiresAt: 70 * MINUTE });
+    expect(manager.getStatus('openapi')).toMatchObject({ expiresAt: 70 * MINUTE, refreshing: false });
+
+    // Nothing is due for the old expiry any more
+    await vi.advanceTimersByTimeAsync(10 * MINUTE);
+    expect(published(eventBus)).toEqual(['credentials:refreshed']);
+  });
+
+  it('renews the RTC token when the SDK warns and retries a failed refresh while there is time', async () => {
+    const eventBus = createEventBus();
+    const manager = new CredentialManager(eventBus as EventBusInterface, { retryDelayMs: 10000 });
+    const refreshRtcCredentials = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('Backend unavailable'))
+      .mockResolvedValue({ credentials: { agora_token: 'renewed' } });
+    const onRtcCredentialsRefreshed = vi.fn();
+    manager.setRefreshHandlers({ refreshRtcCredentials });
+    manager.setCallbacks({ onRtcCredentialsRefreshed });
+
+    const credentials = { agora_app_id: 'app', agora_channel: 'channel', agora_token: 'opaque', agora_uid: 1 };
+    manager.trackRtcCredentials({ sessionId: 'session-1', providerType: 'agora', credentials });
+    expect(manager.getStatus('rtc')?.expiresAt).toBeNull();
+
+    manager.handleTokenWillExpire('rtc', 30000);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(refreshRtcCredentials).toHaveBeenCalledWith({ sessionId: 'session-1', providerType: 'agora', credentials });
+    expect(eventBus.publish).toHaveBeenCalledWith('credentials:refresh-failed', {
+      kind: 'rtc',
+      error: expect.objectContaining({
+        code: ErrorCode.CREDENTIAL_REFRESH_FAILED,
+        message: 'Could not refresh the streaming token: Backend unavailable',
+      }),
+      willRetry: true,
+    });
+    expect(eventBus.publish).toHaveBeenCalledWith('credentials:expiring', {
+      kind: 'rtc',
+      expiresAt: 30000,
+      remainingMs: 30000,
+      canRefresh: true,
+    });
+
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(onRtcCredentialsRefreshed).toHaveBeenCalledWith({ ...credentials, agora_token: 'renewed' });
+    // The renewed token says nothing about its expiry, so the SDK warning is awaited again
+    await vi.advanceTimersByTimeAsync(MINUTE);
+    expect(published(eventBus)).not.toContain('credentials:expired');
+  });
+
+  it('warns and then reports expiry when nothing can refresh the token', async () => {
+    const eventBus = createEventBus();
+    const manager = new CredentialManager(eventBus as EventBusInterface);
+
+    manager.trackApiToken(jwt(5 * MINUTE));
+    await vi.advanceTimersByTimeAsync(4 * MINUTE);
+    expect(eventBus.publish).toHaveBeenCalledWith('credentials:expiring', {
+      kind: 'openapi',
+      expiresAt: 5 * MINUTE,
+      remainingMs: MINUTE,
+      canRefresh: false,
+    });
+
+    await vi.advanceTimersByTimeAsync(MINUTE);
+    expect(published(eventBus)).toEqual(['credentials:expiring', 'credentials:expired']);
+  });
+});
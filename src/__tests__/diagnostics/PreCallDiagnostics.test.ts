@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DiagnosticCheck,
+  DiagnosticContext,
+  PreCallDiagnostics,
+  avatarCheck,
+  cameraPermissionCheck,
+  deviceEnumerationCheck,
+  formatDiagnosticsReport,
+  microphonePermissionCheck,
+  voiceCheck,
+} from '../../diagnostics';
+import { Avatar, Voice } from '../../types/api.schemas';
+
+const denied = Object.assign(new Error('Permission denied'), { name: 'NotAllowedError' });
+
+const device = (kind: MediaDeviceKind, label = ''): MediaDeviceInfo =>
+  ({ deviceId: kind, groupId: 'default', kind, label }) as MediaDeviceInfo;
+
+const createContext = (overrides: Partial<DiagnosticContext> = {}): DiagnosticContext => ({
+  provider: 'agora',
+  api: null,
+  avatarId: 'avatar-1',
+  voiceId: '',
+  ...overrides,
+});
+
+const createMediaDevices = (overrides: Partial<MediaDevices>) =>
+  ({
+    getUserMedia: vi.fn().mockResolvedValue({ getTracks: () => [{ stop: vi.fn() }] }),
+    enumerateDevices: vi.fn().mockResolvedValue([]),
+    ...overrides,
+  }) as unknown as MediaDevices;
+
+describe('media checks', () => {
+  it('fails on a denied microphone but only warns about the camera', async () => {
+    const mediaDevices = createMediaDevices({ getUserMedia: vi.fn().mockRejectedValue(denied) });
+    const context = createContext({ mediaDevices });
+
+    expect(await microphonePermissionCheck.run(context)).toMatchObject({
+      status: 'fail',
+      message: 'Microphone permission was denied',
+    });
+    expect(await cameraPermissionCheck.run(context)).toMatchObject({ status: 'warn' });
+  });
+
+  it('counts devices and warns when there is no camera', async () => {
+    const mediaDevices = createMediaDevices({
+      enumerateDevices: vi.fn().mockResolvedValue([device('audioinput', 'Built-in'), device('audiooutput')]),
+    });
+
+    const outcome = await deviceEnumerationCheck.run(createContext({ mediaDevices }));
+    expect(outcome.status).toBe('warn');
+    expect(outcome.details).toMatchObject({ microphones: 1, cameras: 0, speakers: 1 });
+
+    const noDevices = await deviceEnumerationCheck.run(createContext({ mediaDevices: createMediaDevices({}) }));
+    expect(noDevices.status).toBe('fail');
+  });
+});
+
+describe('api checks', () => {
+  it('looks up the configured avatar and voice', async () => {
+    const api = {
+      getLangList: vi.fn(),
+      getAvatarList: vi.fn().mockResolvedValue([{ avatar_id: 'other', name: 'Other', available: true } as Avatar]),
+      getVoiceList: vi
+        .fn()
+        .mockImplementation((type: number) =>
+          Promise.resolve(type === 2 ? [{ voice_id: 'voice-1', name: 'Alloy' } as Voice] : []),
+        ),
+    };
+
+    expect(await avatarCheck.run(createContext({ api }))).toMatchObject({ status: 'fail' });
+    expect(await voiceCheck.run(createContext({ api, voiceId: 'voice-1' }))).toMatchObject({
+      status: 'pass',
+      message: 'Voice Alloy exists',
+    });
+    expect(await voiceCheck.run(createContext({ api }))).toMatchObject({ status: 'skip' });
+  });
+});
+
+describe('PreCallDiagnostics', () => {
+  it('keeps running after a check throws or hangs and summarises the results', async () => {
+    const checks: DiagnosticCheck[] = [
+      { id: 'ok', name: 'OK', run: () => Promise.resolve({ status: 'pass', message: 'fine' }) },
+      { id: 'broken', name: 'Broken', run: () => Promise.reject(new Error('boom')) },
+      { id: 'hang', name: 'Hang', run: () => new Promise(() => {}) },
+      { id: 'meh', name: 'Meh', run: () => Promise.resolve({ status: 'warn', message: 'hmm', details: { a: 1 } }) },
+    ];
+    const onCheckComplete = vi.fn();
+    const diagnostics = new PreCallDiagnostics(checks, { checkTimeoutMs: 20 });
+    diagnostics.setCallbacks({ onCheckComplete });
+
+    const report = await diagnostics.run(createContext());
+
+    expect(report.results.map((result) => [result.id, result.status, result.message])).toEqual([
+      ['ok', 'pass', 'fine'],
+      ['broken', 'fail', 'boom'],
+      ['hang', 'fail', 'Timed out after 0.02s'],
+      ['meh', 'warn', 'hmm'],
+    ]);
+    expect(report.summary).toEqual({ pass: 1, warn: 1, fail: 2, skip: 0 });
+    expect(report.passed).toBe(false);
+    expect(onCheckComplete).toHaveBeenCalledTimes(4);
+
+    const text = formatDiagnosticsReport(report);
+    expect(text).toContain('Provider: agora');
+    expect(text).toContain('[FAIL] Broken: boom');
+    expect(text).toContain('{"a":1}');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { collectAudioDump, createDiagnosticsBundle, DiagnosticsBundleSources } from '../../diagnostics';
+import { LogLevel } from '../../core/Logger';
+import { REDACTED } from '../../core/logRedaction';
+import { StreamingError, ErrorCode } from '../../types/error.types';
+import { StreamingState } from '../../types/streaming.types';
+import { MetricsSample, SessionMetricsReport } from '../../types/metrics.types';
+
+const connectionError = new StreamingError(ErrorCode.CONNECTION_FAILED, 'Join timed out');
+
+const createSources = (overrides: Partial<DiagnosticsBundleSources> = {}): DiagnosticsBundleSources => ({
+  provider: 'agora',
+  sdkVersions: { agora: '4.20.0' },
+  configuration: { openapiHost: 'https://openapi.akool.com', openapiCredential: 'secret-credential', avatarId: 'a1' },
+  state: null,
+  logs: [],
+  events: [],
+  metrics: null,
+  lifecycle: null,
+  ...overrides,
+});
+
+describe('createDiagnosticsBundle', () => {
+  it('keeps the latest entries, redacts secrets and lists errors with their codes', () => {
+    const samples: MetricsSample[] = [1, 2, 3].map((timestamp) => ({ timestamp, avatarSpeaking: false }));
+    const state = {
+      isJoined: true,
+      isConnecting: false,
+      participants: [
+        {
+          id: 'avatar',
+          isLocal: false,
+          videoTracks: [{ id: 'v1', kind: 'video', enabled: true, muted: false }],
+          audioTracks: [],
+          connectionQuality: { score: 90 },
+          isSpeaking: false,
+        },
+      ],
+      networkQuality: null,
+      error: connectionError,
+    } as unknown as StreamingState;
+
+    const bundle = createDiagnosticsBundle(
+      createSources({
+        state,
+        logs: [
+          { level: LogLevel.INFO, message: 'old', timestamp: 1 },
+          { level: LogLevel.ERROR, message: 'Join failed', context: { agora_token: 'abc' }, timestamp: 2 },
+        ],
+        events: [
+          { event: 'system:info', data: { message: 'connected' }, timestamp: 10 },
+          { event: 'connection:failed', data: { provider: 'agora', error: connectionError }, timestamp: 20 },
+        ],
+        metrics: { samples } as SessionMetricsReport,
+      }),
+      { maxLogs: 1, maxStatsSamples: 2 },
+      100,
+    );
+
+    expect(bundle.configuration).toEqual({
+      openapiHost: 'https://openapi.akool.com',
+      openapiCredential: REDACTED,
+      avatarId: 'a1',
+    });
+    expect(bundle.logs).toEqual([
+      { level: 'ERROR', message: 'Join failed', context: { agora_token: REDACTED }, timestamp: 2 },
+    ]);
+    expect(bundle.stats).toEqual({ summary: null, sampleCount: 3, samples: samples.slice(1) });
+    expect(bundle.participants[0]?.videoTracks).toEqual([{ id: 'v1', enabled: true, muted: false }]);
+    expect(bundle.events[1]?.data).toMatchObject({ error: { code: ErrorCode.CONNECTION_FAILED } });
+    // The state error was already published, so it is listed once
+    expect(bundle.errors).toEqual([
+      { timestamp: 20, source: 'connection:failed', code: ErrorCode.CONNECTION_FAILED, message: 'Join timed out' },
+    ]);
+    expect(JSON.parse(JSON.stringify(bundle))).toEqual(bundle);
+  });
+
+  it('attaches the audio dump files the provider hands over', async () => {
+    const { files, error } = await collectAudioDump({
+      dumpAudio: async (onFile) => onFile?.(new Blob(['RIFF'], { type: 'audio/wav' }), 'input.wav'),
+    });
+    const bundle = createDiagnosticsBundle(createSources({ audioDumps: files, audioDumpError: error }));
+
+    expect(bundle.audioDumps).toEqual([{ name: 'input.wav', type: 'audio/wav', size: 4, data: btoa('RIFF') }]);
+    expect(bundle.audioDumpError).toBeUndefined();
+    expect(await collectAudioDump({ dumpAudio: async () => undefined })).toEqual({
+      files: [],
+      error: 'The provider produced no audio dump',
+    });
+  });
+});
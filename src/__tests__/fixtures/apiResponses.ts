@@ -0,0 +1,95 @@
+// Envelope data as returned by the Akool OpenAPI, one per endpoint
+// Typed loosely on purpose: tests mutate them into the shapes a changed backend would send
+
+export const langListResponse = {
+  lang_list: [
+    { lang_code: 'en', lang_name: 'English', url: 'https://static.akool.com/flags/en.png' },
+    { lang_code: 'zh', lang_name: 'Chinese', url: 'https://static.akool.com/flags/zh.png' },
+  ],
+};
+
+export const knowledgeListResponse = {
+  knowledge_list: [
+    { _id: '6650a1b2c3d4e5f601234567', name: 'Product FAQ', created_at: 1716000000 },
+    { _id: '6650a1b2c3d4e5f601234568', name: 'Onboarding' },
+  ],
+};
+
+export const voiceListResponse = {
+  result: [
+    {
+      _id: '65f1c2d3e4f5a6b7c8d9e0f1',
+      voice_id: 'Xb7hH8MSUJpSbSDYk0k2',
+      support_stream: true,
+      style: ['calm'],
+      scenario: ['narration'],
+      age: ['middle_aged'],
+      gender: 'female',
+      name: 'Alice',
+      preview: 'https://static.akool.com/voices/alice.mp3',
+      text: 'Hello, I am Alice.',
+      locale: 'en-GB',
+      language: 'English',
+      voice_model_name: 'eleven_multilingual_v2',
+    },
+  ],
+};
+
+export const avatarListResponse = {
+  result: [
+    {
+      name: 'Dana',
+      type: 2,
+      from: 2,
+      gender: 'female',
+      url: 'https://static.akool.com/avatars/dana.mp4',
+      avatar_id: 'dvp_Dana_cloth1_1080P',
+      voice_id: 'Xb7hH8MSUJpSbSDYk0k2',
+      thumbnailUrl: 'https://static.akool.com/avatars/dana.jpg',
+      available: true,
+      is_official: true,
+    },
+  ],
+};
+
+export const agoraSessionResponse = {
+  _id: '6650a1b2c3d4e5f60123abcd',
+  uid: 101400,
+  stream_type: 'agora',
+  status: 1,
+  credentials: {
+    agora_uid: 100000,
+    agora_app_id: 'agora-app-id',
+    agora_channel: 'channel-6650a1b2',
+    agora_token: 'agora-token',
+  },
+};
+
+export const livekitSessionResponse = {
+  _id: '6650a1b2c3d4e5f60123abce',
+  uid: 101400,
+  stream_type: 'livekit',
+  status: 1,
+  credentials: {
+    livekit_url: 'wss://livekit.akool.com',
+    livekit_token: 'livekit-token',
+    livekit_room_name: 'room-6650a1b2',
+    livekit_client_identity: 'client-101400',
+    livekit_server_identity: 'server-101400',
+  },
+};
+
+export const trtcSessionResponse = {
+  _id: '6650a1b2c3d4e5f60123abcf',
+  uid: 101400,
+  stream_type: 'trtc',
+  status: 1,
+  credentials: {
+    trtc_app_id: 1400000000,
+    trtc_user_id: 'user-101400',
+    trtc_user_sig: 'trtc-user-sig',
+    trtc_room_id: 'room-6650a1b2',
+    // Akool leaves the other providers' fields in as null
+    agora_token: null,
+  },
+};
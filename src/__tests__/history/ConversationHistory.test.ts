@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ConversationHistory, InMemoryHistoryStorage, createHistoryStorage, getConversationId } from '../../history';
+import { TranscriptRecorder } from '../../transcript';
+import { Transcript, TranscriptEntry, TRANSCRIPT_FORMAT_VERSION } from '../../types/transcript.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const entry = (id: string, sender: TranscriptEntry['sender'], text: string, timestamp: number): TranscriptEntry => ({
+  id,
+  sender,
+  kind: sender === 'system' ? 'system' : 'chat',
+  text,
+  timestamp,
+});
+
+const transcript = (sessionId: string | undefined, startedAt: number, entries: TranscriptEntry[]): Transcript => ({
+  version: TRANSCRIPT_FORMAT_VERSION,
+  exportedAt: startedAt,
+  session: { sessionId, provider: 'agora', avatarId: 'avatar-1', startedAt },
+  entries,
+});
+
+describe('ConversationHistory', () => {
+  let storage: InMemoryHistoryStorage;
+  let history: ConversationHistory;
+
+  beforeEach(() => {
+    storage = new InMemoryHistoryStorage();
+    history = new ConversationHistory(storage);
+  });
+
+  it('saves conversations and lists them newest first', async () => {
+    await history.save(transcript('s1', 1000, [entry('1', 'user', 'first', 1000)]), 2000);
+    await history.save(transcript('s2', 3000, [entry('2', 'user', 'second', 3000)]), 4000);
+
+    const list = await history.list();
+    expect(list.map((c) => c.id)).toEqual(['s2', 's1']);
+  });
+
+  it('overwrites the same session on later saves', async () => {
+    await history.save(transcript('s1', 1000, [entry('1', 'user', 'hi', 1000)]), 2000);
+    await history.save(
+      transcript('s1', 1000, [entry('1', 'user', 'hi', 1000), entry('2', 'avatar', 'hello', 1500)]),
+      3000,
+    );
+
+    const list = await history.list();
+    expect(list).toHaveLength(1);
+    expect(list[0]?.messageCount).toBe(2);
+    expect(list[0]?.updatedAt).toBe(3000);
+  });
+
+  it('keeps one record for a conversation that was continued in a new session', async () => {
+    const recorder = new TranscriptRecorder();
+    recorder.start({ sessionId: 's1', provider: 'agora', avatarId: 'avatar-1' }, 1000);
+    recorder.record(entry('1', 'user', 'hi', 1000));
+    recorder.end(2000);
+    await history.save(recorder.getTranscript()!, 2000);
+
+    recorder.continue({ sessionId: 's2', provider: 'agora', avatarId: 'avatar-1' });
+    recorder.record(entry('2', 'user', 'still there?', 3000));
+    recorder.end(4000);
+    await history.save(recorder.getTranscript()!, 4000);
+
+    const list = await history.list();
+    expect(list).toHaveLength(1);
+    expect(list[0]).toMatchObject({ id: 's1', messageCount: 2, updatedAt: 4000 });
+  });
+
+  it('keys sessions without an id by their start time', () => {
+    expect(getConversationId(transcript(undefined, 1234, []))).toBe('session-1234');
+  });
+
+  it('summarises a conversation by its first prompt and chat count', async () => {
+    await history.save(
+      transcript('s1', 1000, [
+        entry('0', 'system', 'Connected', 900),
+        entry('1', 'user', 'What is the weather?', 1000),
+        entry('2', 'avatar', 'Sunny', 1500),
+        entry('3', 'user', 'Thanks', 2000),
+      ]),
+      3000,
+    );
+
+    const [summary] = await history.list();
+    expect(summary).toMatchObject({
+      id: 's1',
+      startedAt: 1000,
+      provider: 'agora',
+      avatarId: 'avatar-1',
+      messageCount: 3,
+      preview: 'What is the weather?',
+    });
+  });
+
+  it('keeps only the most recent entries of a long conversation', async () => {
+    history = new ConversationHistory(storage, { maxEntriesPerConversation: 2 });
+    await history.save(
+      transcript('s1', 1000, [
+        entry('1', 'user', 'a', 1000),
+        entry('2', 'user', 'b', 2000),
+        entry('3', 'user', 'c', 3000),
+      ]),
+      4000,
+    );
+
+    const saved = await history.get('s1');
+    expect(saved?.entries.map((e) => e.text)).toEqual(['b', 'c']);
+  });
+
+  it('drops the oldest conversations beyond the count limit', async () => {
+    history = new ConversationHistory(storage, { maxConversations: 2 });
+    await history.save(transcript('s1', 1000, []), 1000);
+    await history.save(transcript('s2', 2000, []), 2000);
+    await history.save(transcript('s3', 3000, []), 3000);
+
+    expect((await history.list()).map((c) => c.id)).toEqual(['s3', 's2']);
+  });
+
+  it('drops conversations older than the age limit', async () => {
+    history = new ConversationHistory(storage, { maxAgeMs: 7 * DAY_MS });
+    await history.save(transcript('old', 0, []), 0);
+    await history.save(transcript('new', 8 * DAY_MS, []), 8 * DAY_MS);
+
+    expect((await history.list()).map((c) => c.id)).toEqual(['new']);
+  });
+
+  it('removes single conversations and clears all of them', async () => {
+    await history.save(transcript('s1', 1000, []), 1000);
+    await history.save(transcript('s2', 2000, []), 2000);
+
+    await history.remove('s1');
+    expect(await history.get('s1')).toBeUndefined();
+    expect(await history.get('s2')).toBeDefined();
+
+    await history.clear();
+    expect(await history.list()).toEqual([]);
+  });
+
+  it('does not persist edits made to a transcript after saving', async () => {
+    const saved = transcript('s1', 1000, [entry('1', 'user', 'original', 1000)]);
+    await history.save(saved, 2000);
+    saved.entries[0]!.text = 'edited';
+
+    expect((await history.get('s1'))?.entries[0]?.text).toBe('original');
+  });
+});
+
+describe('createHistoryStorage', () => {
+  it('falls back to memory when IndexedDB is unavailable', () => {
+    expect(typeof indexedDB).toBe('undefined');
+    expect(createHistoryStorage()).toBeInstanceOf(InMemoryHistoryStorage);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SessionLifecycleTracker } from '../../metrics/SessionLifecycleTracker';
+import { EventBusInterface } from '../../types/event.types';
+
+const createEventBus = () => ({
+  subscribe: vi.fn(),
+  once: vi.fn(),
+  publish: vi.fn(),
+  use: vi.fn(),
+  waitFor: vi.fn(),
+  clear: vi.fn(),
+});
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+describe('SessionLifecycleTracker', () => {
+  it('times each step from Start once and completes after the first audio', () => {
+    const eventBus = createEventBus();
+    const tracker = new SessionLifecycleTracker(eventBus as EventBusInterface);
+
+    tracker.mark('session-created', 50);
+    expect(eventBus.publish).not.toHaveBeenCalled();
+
+    tracker.start('agora', 1000);
+    tracker.mark('session-created', 1300);
+    tracker.update({ sessionId: 'session-1' });
+    tracker.mark('provider-loaded', 1400);
+    tracker.mark('rtc-joined', 2000);
+    tracker.mark('params-acked', 2200);
+    tracker.mark('first-frame', 2500);
+    tracker.mark('first-frame', 2600);
+    expect(tracker.getTimeline()?.endedAt).toBeUndefined();
+
+    tracker.mark('first-audio', 3000);
+
+    expect(tracker.getTimeline()).toEqual({
+      provider: 'agora',
+      sessionId: 'session-1',
+      startedAt: 1000,
+      endedAt: 3000,
+      marks: {
+        'session-created': 300,
+        'provider-loaded': 400,
+        'rtc-joined': 1000,
+        'params-acked': 1200,
+        'first-frame': 1500,
+        'first-audio': 2000,
+      },
+    });
+    expect(eventBus.publish).toHaveBeenCalledWith(
+      'lifecycle:mark',
+      expect.objectContaining({ step: 'rtc-joined', elapsedMs: 1000 }),
+    );
+    expect(eventBus.publish.mock.calls.filter(([event]) => event === 'lifecycle:mark')).toHaveLength(6);
+    expect(eventBus.publish).toHaveBeenLastCalledWith('lifecycle:completed', {
+      timeline: expect.objectContaining({ endedAt: 3000 }),
+    });
+  });
+
+  it('keeps finished timelines across instances and summarises them per provider', () => {
+    const storage = createStorage();
+    const first = new SessionLifecycleTracker(createEventBus() as EventBusInterface, storage);
+
+    first.start('livekit', 0);
+    first.mark('rtc-joined', 800);
+    first.end(5000);
+    first.start('livekit', 10000);
+    first.mark('rtc-joined', 10400);
+    first.fail(new Error('boom'), 10500);
+    first.start('trtc', 20000);
+
+    const second = new SessionLifecycleTracker(createEventBus() as EventBusInterface, storage);
+    expect(second.getHistory().map((timeline) => timeline.error)).toEqual([undefined, 'boom']);
+    expect(second.summarize()).toEqual([{ provider: 'livekit', count: 2, medians: { 'rtc-joined': 400 } }]);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { SessionMetricsRecorder, formatSessionMetricsCsv, percentile, summarizeSessionMetrics } from '../../metrics';
+import { LinkQuality, MetricsSample, QoEMetrics, SessionMetricsInfo } from '../../types/metrics.types';
+
+const STARTED_AT = 1700000000000;
+
+const session: SessionMetricsInfo = { sessionId: 'session-1', provider: 'agora', startedAt: STARTED_AT };
+
+const sample = (elapsedMs: number, overrides: Partial<MetricsSample> = {}): MetricsSample => ({
+  timestamp: STARTED_AT + elapsedMs,
+  avatarSpeaking: false,
+  ...overrides,
+});
+
+const metrics = (timestamp: number, rtt: number, frameRate: number): QoEMetrics => ({
+  provider: 'livekit',
+  timestamp,
+  network: { rtt, packetLoss: 0, uplinkQuality: 'good', downlinkQuality: 'excellent' },
+  inbound: { video: { bitrate: 1_000_000, frameRate, width: 1280, height: 720 } },
+  outbound: {},
+});
+
+describe('percentile', () => {
+  it('takes the nearest rank of an ascending list', () => {
+    const sorted = [15, 20, 35, 40, 50];
+
+    expect(percentile(sorted, 30)).toBe(20);
+    expect(percentile(sorted, 40)).toBe(20);
+    expect(percentile(sorted, 50)).toBe(35);
+    expect(percentile(sorted, 95)).toBe(50);
+    expect(percentile(sorted, 100)).toBe(50);
+    expect(percentile(sorted, 0)).toBe(15);
+  });
+
+  it('handles empty and single-sample series', () => {
+    expect(percentile([], 50)).toBeUndefined();
+    expect(percentile([42], 50)).toBe(42);
+    expect(percentile([42], 95)).toBe(42);
+  });
+});
+
+describe('summarizeSessionMetrics', () => {
+  it('summarises known samples, skipping ones without a value', () => {
+    const rtts = [120, 80, undefined, 100, 300, 90, 110, 95, 105, 85, 115];
+    const samples = rtts.map((rtt, index) => sample(index * 1000, { rtt }));
+
+    const summary = summarizeSessionMetrics({ ...session, endedAt: STARTED_AT + 20000 }, samples, []);
+    expect(summary).toMatchObject({ durationMs: 20000, sampleCount: 11 });
+    expect(summary.rtt).toEqual({ p50: 100, p95: 300, max: 300 });
+    expect(summary.frameRate).toEqual({ p50: undefined, p95: undefined, max: undefined });
+  });
+
+  it('reports an empty series without failing', () => {
+    const summary = summarizeSessionMetrics(session, [], [], STARTED_AT + 5000);
+
+    expect(summary).toMatchObject({
+      durationMs: 5000,
+      sampleCount: 0,
+      freezeTime: 0,
+      freezeRatio: undefined,
+      timeToFirstFrame: undefined,
+      speakingTime: 0,
+    });
+    expect(summary.rtt).toEqual({ p50: undefined, p95: undefined, max: undefined });
+  });
+
+  it('adds up the increases of the provider freeze counter across a resubscribe', () => {
+    const samples = [0, 200, 200, 700, 100, 400].map((freezeTime, index) => sample(index * 1000, { freezeTime }));
+
+    const summary = summarizeSessionMetrics(
+      { ...session, firstFrameAt: STARTED_AT, endedAt: STARTED_AT + 10000 },
+      samples,
+      [],
+    );
+    // 200 + 500 before the counter restarted, then 100 + 300
+    expect(summary.freezeTime).toBe(1100);
+    expect(summary.freezeRatio).toBeCloseTo(0.11);
+  });
+
+  it('counts 0 fps samples after the first frame as frozen without a counter', () => {
+    const samples = [
+      sample(0, { frameRate: 0 }),
+      sample(1000, { frameRate: 25 }),
+      sample(2000, { frameRate: 0 }),
+      sample(3500, { frameRate: 0 }),
+      sample(4000, { frameRate: 24 }),
+      // Trailing frozen sample with nothing after it
+      sample(5000, { frameRate: 0 }),
+    ];
+
+    const summary = summarizeSessionMetrics(
+      { ...session, firstFrameAt: STARTED_AT + 1000, endedAt: STARTED_AT + 6000 },
+      samples,
+      [],
+    );
+    expect(summary.freezeTime).toBe(2000);
+    expect(summary.timeToFirstFrame).toBe(1000);
+  });
+});
+
+describe('SessionMetricsRecorder', () => {
+  it('records samples, speaking time and the first frame into one report', () => {
+    const recorder = new SessionMetricsRecorder();
+    recorder.start({ provider: 'livekit' }, STARTED_AT);
+
+    recorder.record(metrics(STARTED_AT + 1000, 50, 25), STARTED_AT + 1000);
+    recorder.markFirstFrame(STARTED_AT + 1500);
+    recorder.setAvatarSpeaking(true, STARTED_AT + 2000);
+    recorder.record(metrics(STARTED_AT + 2000, 70, 0), STARTED_AT + 2000);
+    // Stats that stopped arriving leave the sample empty
+    recorder.record(metrics(STARTED_AT + 2000, 70, 0), STARTED_AT + 9000);
+    recorder.end(STARTED_AT + 10000);
+    recorder.record(metrics(STARTED_AT + 11000, 90, 25), STARTED_AT + 11000);
+
+    const report = recorder.getReport(STARTED_AT + 12000);
+    expect(report?.samples).toHaveLength(3);
+    expect(report?.samples[2]).toEqual({ timestamp: STARTED_AT + 9000, avatarSpeaking: true });
+    expect(report?.speakingIntervals).toEqual([{ start: STARTED_AT + 2000, end: STARTED_AT + 10000 }]);
+    expect(report?.summary).toMatchObject({
+      durationMs: 10000,
+      timeToFirstFrame: 1500,
+      speakingTime: 8000,
+      speakingCount: 1,
+      freezeTime: 7000,
+    });
+    expect(report?.summary.rtt).toEqual({ p50: 50, p95: 70, max: 70 });
+  });
+});
+
+describe('formatSessionMetricsCsv', () => {
+  const report = (samples: MetricsSample[]) => {
+    const recorder = new SessionMetricsRecorder();
+    recorder.start({ provider: 'agora' }, STARTED_AT);
+    recorder.end(STARTED_AT + 5000);
+    return { ...recorder.getReport(STARTED_AT + 5000)!, samples };
+  };
+
+  it('writes the header in column order and leaves missing values empty', () => {
+    const csv = formatSessionMetricsCsv(
+      report([sample(1000, { rtt: 42, uplinkQuality: 'good', frameRate: 25, avatarSpeaking: true })]),
+    );
+
+    expect(csv.split('\n')).toEqual([
+      'time,elapsed_ms,rtt_ms,packet_loss_pct,uplink,downlink,video_bitrate_bps,audio_bitrate_bps,fps,width,height,' +
+        'freeze_time_ms,outbound_video_bitrate_bps,outbound_audio_bitrate_bps,avatar_speaking',
+      '2023-11-14T22:13:21.000Z,1000,42,,good,,,,25,,,,,,1',
+      '',
+    ]);
+  });
+
+  it('writes only the header for a session without samples', () => {
+    expect(formatSessionMetricsCsv(report([])).split('\n')).toHaveLength(2);
+  });
+
+  it('quotes cells holding separators, quotes or line breaks', () => {
+    const csv = formatSessionMetricsCsv(report([sample(0, { uplinkQuality: 'poor, "lossy"\nlink' as LinkQuality })]));
+
+    expect(csv).toContain(',"poor, ""lossy""\nlink",');
+  });
+});
@@ -391,6 +391,12 @@ export const mockTRTC = {
     UNSUBSCRIBE_FAILED: 'UNSUBSCRIBE_FAILED',
   },
 
+  // Client events
+  EVENT: {
+    NETWORK_QUALITY: 'network-quality',
+    STATISTICS: 'statistics',
+  },
+
   // Client states
   CLIENT_STATE: {
     CONNECTING: 'CONNECTING',
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AdaptiveVideoController } from '../../providers/common/AdaptiveVideoController';
+import { ConnectionQuality, VideoTrack } from '../../types/streaming.types';
+
+const track: VideoTrack = { id: 'camera', kind: 'video', enabled: true, muted: false, source: 'camera' };
+
+const quality = (uplink: ConnectionQuality['uplink']): ConnectionQuality => ({
+  score: 50,
+  uplink,
+  downlink: 'good',
+  rtt: 100,
+  packetLoss: 0,
+});
+
+const createStrategy = () => ({
+  createTrack: vi.fn(),
+  publishTrack: vi.fn().mockResolvedValue(undefined),
+  unpublishTrack: vi.fn().mockResolvedValue(undefined),
+  playTrack: vi.fn(),
+  stopTrack: vi.fn(),
+  setEncoding: vi.fn().mockResolvedValue(undefined),
+});
+
+describe('AdaptiveVideoController', () => {
+  it('steps the camera down on sustained poor uplink and unpublishes it last', async () => {
+    const strategy = createStrategy();
+    const onAdapted = vi.fn();
+    const controller = new AdaptiveVideoController('agora', strategy, { downgradeAfterMs: 5000 });
+    controller.setCallbacks({ onAdapted });
+    controller.setBaseline();
+    controller.trackPublished(track);
+
+    await controller.update(quality('poor'), 0);
+    await controller.update(quality('poor'), 4000);
+    expect(strategy.setEncoding).not.toHaveBeenCalled();
+
+    await controller.update(quality('poor'), 5000);
+    expect(strategy.setEncoding).toHaveBeenLastCalledWith(track, expect.objectContaining({ name: '360p' }));
+
+    // Fair holds the step and restarts the window
+    await controller.update(quality('fair'), 8000);
+    await controller.update(quality('poor'), 9000);
+    await controller.update(quality('poor'), 12000);
+    expect(strategy.setEncoding).toHaveBeenCalledTimes(1);
+
+    for (let now = 14000; now <= 40000; now += 5000) {
+      await controller.update(quality('poor'), now);
+    }
+    expect(onAdapted.mock.calls.map(([event]) => [event.action, event.to])).toEqual([
+      ['downgrade', '360p'],
+      ['downgrade', '240p'],
+      ['downgrade', '180p'],
+      ['unpublish', null],
+    ]);
+    expect(strategy.unpublishTrack).toHaveBeenCalledWith(track);
+    expect(controller.currentStep).toBeNull();
+  });
+
+  it('republishes and steps back up to the configured camera on sustained good uplink', async () => {
+    const strategy = createStrategy();
+    const onAdapted = vi.fn();
+    const controller = new AdaptiveVideoController('trtc', strategy, {
+      downgradeAfterMs: 0,
+      upgradeAfterMs: 10000,
+      steps: [{ name: 'low', width: 320, height: 240, frameRate: 10, bitrate: 250 }],
+    });
+    controller.setCallbacks({ onAdapted });
+    controller.setBaseline({ width: 1280, height: 720, bitrate: 1500 });
+    controller.trackPublished(track);
+
+    await controller.update(quality('poor'), 0);
+    await controller.update(quality('poor'), 1);
+    expect(strategy.unpublishTrack).toHaveBeenCalledTimes(1);
+
+    for (let now = 1000; now <= 31000; now += 10000) {
+      await controller.update(quality('excellent'), now);
+    }
+    expect(strategy.publishTrack).toHaveBeenCalledTimes(1);
+    expect(strategy.setEncoding).toHaveBeenLastCalledWith(
+      track,
+      expect.objectContaining({ name: 'configured', width: 1280, height: 720, frameRate: 15, bitrate: 1500 }),
+    );
+    expect(onAdapted.mock.calls.map(([event]) => event.action)).toEqual([
+      'downgrade',
+      'unpublish',
+      'republish',
+      'upgrade',
+    ]);
+  });
+});
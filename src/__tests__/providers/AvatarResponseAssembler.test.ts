@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AvatarResponseAssembler } from '../../providers/common/AvatarResponseAssembler';
+import { AvatarResponse } from '../../types/provider.interfaces';
+
+describe('AvatarResponseAssembler', () => {
+  let updates: AvatarResponse[];
+  let assembler: AvatarResponseAssembler;
+
+  const last = () => updates[updates.length - 1];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    updates = [];
+    assembler = new AvatarResponseAssembler((response) => updates.push(response));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('orders out-of-order chunks by idx and finalises once the gap before fin is filled', () => {
+    assembler.addChunk('world', 'r1', 2, true);
+    assembler.addChunk('Hello', 'r1', 0);
+    expect(last()).toMatchObject({ text: 'Helloworld', status: 'partial', receivedChunks: 2, totalChunks: 3 });
+
+    vi.setSystemTime(500);
+    assembler.addChunk(', ', 'r1', 1);
+    expect(last()).toMatchObject({
+      responseId: 'r1',
+      text: 'Hello, world',
+      status: 'final',
+      receivedChunks: 3,
+      totalChunks: 3,
+      timings: expect.objectContaining({ firstTokenAt: 0, finalAt: 500 }),
+    });
+  });
+
+  it('ignores a chunk that arrives twice', () => {
+    assembler.addChunk('Hi', 'r1', 0);
+    assembler.addChunk('Hi', 'r1', 0);
+    assembler.addChunk(' there', 'r1', 1, true);
+
+    expect(updates).toHaveLength(2);
+    expect(last()).toMatchObject({ text: 'Hi there', status: 'final', receivedChunks: 2 });
+  });
+
+  it('keeps a reply without fin partial and appends chunks without a mid to it', () => {
+    assembler.addChunk('One', 'r1', 0);
+    assembler.addChunk(' two', 'r1', 1);
+    expect(last()).toMatchObject({ text: 'One two', status: 'partial', totalChunks: undefined });
+
+    assembler.addChunk('Three');
+    assembler.addChunk(' four');
+    expect(updates.map(({ responseId }) => responseId)).toEqual(['r1', 'r1', 'r1', 'r1']);
+    expect(last()).toMatchObject({ text: 'One twoThree four', status: 'partial', receivedChunks: 4 });
+  });
+
+  it('starts a new reply for late chunks of a response that was evicted', () => {
+    for (let i = 0; i <= 20; i++) {
+      assembler.addChunk(`reply ${i}`, `r${i}`, 0);
+    }
+
+    // r1 is still held, r0 was the oldest of 21 and is gone
+    assembler.addChunk(' continued', 'r1', 1, true);
+    expect(last()).toMatchObject({ responseId: 'r1', text: 'reply 1 continued', status: 'final' });
+
+    vi.setSystemTime(9000);
+    assembler.addChunk(' late', 'r0', 1, true);
+    expect(last()).toMatchObject({
+      responseId: 'r0',
+      text: ' late',
+      status: 'partial',
+      receivedChunks: 1,
+      timings: expect.objectContaining({ firstTokenAt: 9000 }),
+    });
+  });
+
+  it('links the question and the speaking events to the reply', () => {
+    assembler.markQuestionSent('q1');
+    vi.setSystemTime(300);
+    // Audio may start before the first text chunk
+    assembler.markAudioStart();
+    vi.setSystemTime(400);
+    assembler.addChunk('Sure.', 'r1', 0, true);
+    expect(last()).toMatchObject({ questionId: 'q1', isSpeaking: true, status: 'final' });
+
+    vi.setSystemTime(2000);
+    assembler.markAudioEnd();
+    expect(last()).toMatchObject({
+      isSpeaking: false,
+      timings: {
+        requestedAt: 0,
+        firstTokenAt: 400,
+        finalAt: 400,
+        audioStartAt: 300,
+        audioEndAt: 2000,
+        completedAt: 2000,
+      },
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CommonMessageController } from '../../providers/common/CommonMessageController';
+import { MessageAdapter } from '../../providers/common/adapters/MessageAdapter';
+import { CommandResponsePayload, StreamMessage } from '../../providers/common/types/message.types';
+import { ErrorCode } from '../../types/error.types';
+
+describe('CommonMessageController commands', () => {
+  let receive: (data: Uint8Array) => void;
+  let adapter: MessageAdapter & { sendData: ReturnType<typeof vi.fn> };
+  let controller: CommonMessageController;
+
+  // mids of the commands sent so far, in send order
+  const sentMids = () =>
+    adapter.sendData.mock.calls.map(([data]) => {
+      const { mid } = JSON.parse(new TextDecoder().decode(data as Uint8Array)) as StreamMessage;
+      return mid ?? '';
+    });
+
+  const ack = (mid: string, pld: CommandResponsePayload) =>
+    receive(new TextEncoder().encode(JSON.stringify({ v: 2, type: 'command', mid, pld })));
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    adapter = {
+      sendData: vi.fn().mockResolvedValue(undefined),
+      isReady: () => true,
+      setupMessageListener: (callback) => {
+        receive = callback;
+      },
+      removeMessageListener: vi.fn(),
+      cleanup: vi.fn(),
+    };
+    controller = new CommonMessageController(adapter, { maxEncodedSize: 960, bytesPerSecond: 6000 });
+    controller.setCallbacks({});
+  });
+
+  afterEach(() => {
+    controller.cleanup();
+    vi.useRealTimers();
+  });
+
+  it('settles the command whose mid the ack echoes', async () => {
+    const first = controller.sendCommand('set-params', { vid: 'voice-1' });
+    const second = controller.sendCommand('set-params', { vid: 'voice-2' });
+    await vi.advanceTimersByTimeAsync(0);
+    const [firstMid = '', secondMid = ''] = sentMids();
+    expect(firstMid).not.toBe(secondMid);
+
+    const settled = vi.fn();
+    void first.then(settled);
+    ack(secondMid, { cmd: 'set-params', code: 1000 });
+    await expect(second).resolves.toEqual({ cmd: 'set-params', code: 1000 });
+    expect(settled).not.toHaveBeenCalled();
+
+    ack(firstMid, { cmd: 'set-params', code: 1000, msg: 'ok' });
+    await expect(first).resolves.toEqual({ cmd: 'set-params', code: 1000, msg: 'ok' });
+  });
+
+  it('falls back to the oldest waiter for the same command when the ack mid is unknown', async () => {
+    const interrupt = controller.sendCommand('interrupt');
+    const first = controller.sendCommand('set-params', { vid: 'voice-1' });
+    const second = controller.sendCommand('set-params', { vid: 'voice-2' });
+    await vi.advanceTimersByTimeAsync(0);
+    const [interruptMid = '', , secondMid = ''] = sentMids();
+
+    const pending = vi.fn();
+    void interrupt.then(pending);
+    void second.then(pending);
+
+    ack('server-generated', { cmd: 'set-params', code: 1000, msg: 'first' });
+    await expect(first).resolves.toMatchObject({ msg: 'first' });
+    expect(pending).not.toHaveBeenCalled();
+
+    // The second ack names its own mid and cannot be taken by the first waiter
+    ack(secondMid, { cmd: 'set-params', code: 1000, msg: 'second' });
+    ack(interruptMid, { cmd: 'interrupt', code: 1000 });
+    await expect(second).resolves.toMatchObject({ msg: 'second' });
+    await expect(interrupt).resolves.toMatchObject({ cmd: 'interrupt' });
+  });
+
+  it('rejects a command the server answers with a code other than 1000', async () => {
+    const response = controller.sendCommand('set-params', { vid: 'missing' });
+    await vi.advanceTimersByTimeAsync(0);
+    const [mid = ''] = sentMids();
+
+    ack(mid, { cmd: 'set-params', code: 1006, msg: 'voice not found' });
+    await expect(response).rejects.toMatchObject({
+      code: ErrorCode.COMMAND_REJECTED,
+      message: 'set-params rejected: voice not found',
+      details: { details: expect.objectContaining({ code: 1006, messageId: mid }) },
+    });
+  });
+
+  it.each([
+    ['set-params', 15000],
+    ['interrupt', 5000],
+    ['custom-command', 10000],
+  ])('times out %s after %ims without an ack', async (cmd, timeoutMs) => {
+    const response = controller.sendCommand(cmd);
+    const settled = vi.fn();
+    response.catch(settled);
+
+    await vi.advanceTimersByTimeAsync(timeoutMs - 1);
+    expect(settled).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(response).rejects.toMatchObject({
+      code: ErrorCode.OPERATION_TIMEOUT,
+      message: `No ack for ${cmd} within ${timeoutMs}ms`,
+    });
+  });
+
+  it('lets the config and the caller override the command timeout', async () => {
+    controller.cleanup();
+    controller = new CommonMessageController(adapter, {
+      maxEncodedSize: 960,
+      bytesPerSecond: 6000,
+      commandTimeouts: { interrupt: 2000 },
+    });
+    const configured = controller.sendCommand('interrupt');
+    const explicit = controller.sendCommand('interrupt', undefined, { timeoutMs: 500 });
+    const configuredError = expect(configured).rejects.toMatchObject({ message: 'No ack for interrupt within 2000ms' });
+    const explicitError = expect(explicit).rejects.toMatchObject({ message: 'No ack for interrupt within 500ms' });
+
+    await vi.advanceTimersByTimeAsync(2000);
+    await explicitError;
+    await configuredError;
+  });
+
+  it('rejects pending commands on cleanup', async () => {
+    const setParams = controller.sendCommand('set-params', { vid: 'voice-1' });
+    const interrupt = controller.sendCommand('interrupt');
+    await vi.advanceTimersByTimeAsync(0);
+
+    controller.cleanup();
+
+    await expect(setParams).rejects.toMatchObject({
+      code: ErrorCode.MESSAGE_SEND_FAILED,
+      message: 'set-params cancelled: message channel closed',
+    });
+    await expect(interrupt).rejects.toMatchObject({ code: ErrorCode.MESSAGE_SEND_FAILED });
+    expect(adapter.cleanup).toHaveBeenCalled();
+  });
+});
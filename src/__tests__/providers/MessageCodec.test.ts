@@ -0,0 +1,310 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { IAgoraRTCClient } from 'agora-rtc-sdk-ng';
+import { createMessageCodec, JsonMessageCodec, MessagePackCodec } from '../../providers/common/codecs';
+import { CommonMessageController } from '../../providers/common/CommonMessageController';
+import { messageCodecsFromEnv } from '../../providers/StreamingProviderFactory';
+import { AgoraMessageAdapter } from '../../providers/agora/adapters/AgoraMessageAdapter';
+import { MessageCodecType, StreamMessage, StreamMessageCodec } from '../../providers/common/types/message.types';
+import { StreamingError } from '../../types/error.types';
+import { createMockAgoraClient, MockAgoraClient } from '../mocks/streamingSdks/agoraMocks';
+
+const MAX_ENCODED_SIZE = 960;
+
+const chatMessage: StreamMessage = {
+  v: 2,
+  type: 'chat',
+  mid: 'msg-1700000000000',
+  idx: 3,
+  fin: true,
+  pld: { text: 'Hello "avatar", how are you?\nLine two with a tab\t and a backslash \\' },
+};
+
+const commandMessage: StreamMessage = {
+  v: 2,
+  type: 'command',
+  mid: 'cmd-1700000000000-1',
+  pld: {
+    cmd: 'set-params',
+    data: {
+      vid: 'voice-42',
+      lang: 'en',
+      mode: 1,
+      vparams: { speed: 1.25, pitch: -3, volume: 70000, stable: false, tags: ['calm', 'warm'], extra: null },
+    },
+  },
+};
+
+const unicodeMessage: StreamMessage = {
+  v: 2,
+  type: 'chat',
+  mid: 'msg-unicode',
+  idx: 0,
+  fin: false,
+  pld: { text: 'Grüße, 你好, привет 👋🏽 and a family 👨‍👩‍👧', from: 'bot' },
+};
+
+describe('Message codecs', () => {
+  const codecs: StreamMessageCodec[] = [new JsonMessageCodec(), new MessagePackCodec()];
+
+  describe.each(codecs.map((codec) => [codec.name, codec] as const))('%s', (_name, codec) => {
+    it.each([
+      ['chat', chatMessage],
+      ['command', commandMessage],
+      ['unicode', unicodeMessage],
+    ])('should round-trip a %s message', (_kind, message) => {
+      expect(codec.decode(codec.encode(message))).toEqual(message);
+    });
+
+    it('should leave out keys whose value is undefined', () => {
+      const message: StreamMessage = { v: 2, type: 'command', mid: undefined, pld: { cmd: 'interrupt' } };
+
+      expect(codec.decode(codec.encode(message))).toEqual({ v: 2, type: 'command', pld: { cmd: 'interrupt' } });
+    });
+  });
+
+  describe('MessagePackCodec', () => {
+    const codec = new MessagePackCodec();
+
+    it('should encode the same message in fewer bytes than JSON', () => {
+      const json = new JsonMessageCodec();
+
+      [chatMessage, commandMessage, unicodeMessage].forEach((message) => {
+        expect(codec.encode(message).length).toBeLessThan(json.encode(message).length);
+      });
+    });
+
+    it('should round-trip integers at every width boundary', () => {
+      const values = [0, 127, 128, 255, 256, 65535, 65536, 2 ** 32 - 1, 2 ** 32, -1, -32, -33, -128, -129, -32769];
+      const message: StreamMessage = { v: 2, type: 'custom', pld: { values } };
+
+      expect(codec.decode(codec.encode(message))).toEqual(message);
+    });
+
+    it('should round-trip strings that need 8, 16 and 32-bit length headers', () => {
+      const message: StreamMessage = {
+        v: 2,
+        type: 'custom',
+        pld: { short: 'a'.repeat(40), medium: 'b'.repeat(300), long: 'c'.repeat(70000) },
+      };
+
+      expect(codec.decode(codec.encode(message))).toEqual(message);
+    });
+
+    it('should reject JSON bytes', () => {
+      expect(() => codec.decode(new JsonMessageCodec().encode(chatMessage))).toThrow(StreamingError);
+    });
+
+    it('should reject truncated data', () => {
+      const encoded = codec.encode(chatMessage);
+
+      expect(() => codec.decode(encoded.subarray(0, encoded.length - 5))).toThrow(StreamingError);
+    });
+
+    it('should reject trailing bytes and non-map messages', () => {
+      const encoded = codec.encode(chatMessage);
+      const padded = new Uint8Array(encoded.length + 1);
+      padded.set(encoded);
+
+      expect(() => codec.decode(padded)).toThrow(StreamingError);
+      expect(() => codec.decode(new Uint8Array([0x92, 0x01, 0x02]))).toThrow(StreamingError);
+    });
+
+    it('should decode a __proto__ key as plain data, like JSON.parse does', () => {
+      const message = JSON.parse('{"v":2,"type":"custom","pld":{"__proto__":{"polluted":true}}}') as StreamMessage;
+
+      const decoded = codec.decode(codec.encode(message));
+      const pld = decoded.pld as Record<string, unknown>;
+      expect(Object.getPrototypeOf(pld)).toBe(Object.prototype);
+      expect(pld.polluted).toBeUndefined();
+      expect(Object.getOwnPropertyDescriptor(pld, '__proto__')?.value).toEqual({ polluted: true });
+    });
+  });
+
+  describe('createMessageCodec', () => {
+    it('should default to JSON', () => {
+      expect(createMessageCodec().name).toBe('json');
+      expect(createMessageCodec('msgpack').name).toBe('msgpack');
+    });
+  });
+
+  describe('messageCodecsFromEnv', () => {
+    it('should read one codec for every provider or one per provider', () => {
+      expect(messageCodecsFromEnv({ VITE_MESSAGE_CODEC: 'msgpack' })).toEqual({ default: 'msgpack' });
+      expect(messageCodecsFromEnv({ VITE_MESSAGE_CODEC: 'agora:msgpack, trtc:json,json' })).toEqual({
+        agora: 'msgpack',
+        trtc: 'json',
+        default: 'json',
+      });
+      expect(messageCodecsFromEnv({})).toEqual({});
+    });
+
+    it('should skip unknown providers and codecs', () => {
+      expect(messageCodecsFromEnv({ VITE_MESSAGE_CODEC: 'zoom:msgpack,livekit:cbor,livekit:msgpack' })).toEqual({
+        livekit: 'msgpack',
+      });
+    });
+  });
+});
+
+describe('CommonMessageController chunking', () => {
+  let client: MockAgoraClient & { sendStreamMessage: ReturnType<typeof vi.fn> };
+  let controller: CommonMessageController;
+
+  const createController = (codecType: MessageCodecType) =>
+    new CommonMessageController(new AgoraMessageAdapter(client as unknown as IAgoraRTCClient), {
+      maxEncodedSize: MAX_ENCODED_SIZE,
+      // No pacing delay between chunks
+      bytesPerSecond: Number.MAX_SAFE_INTEGER,
+      codec: createMessageCodec(codecType),
+    });
+
+  const peerSends = (data: Uint8Array) => {
+    const listener = client.on.mock.calls.find(([event]) => event === 'stream-message')?.[1] as (
+      uid: number,
+      data: Uint8Array,
+    ) => void;
+    listener(2, data);
+  };
+
+  // A peer that answers in the configured codec has shown it reads it
+  const createNegotiatedController = (codecType: MessageCodecType) => {
+    const negotiated = createController(codecType);
+    negotiated.setCallbacks({});
+    peerSends(createMessageCodec(codecType).encode({ v: 2, type: 'event', pld: { event: 'ready' } }));
+    return negotiated;
+  };
+
+  const sentMessages = (codec: StreamMessageCodec) =>
+    client.sendStreamMessage.mock.calls.map(([data]) => codec.decode(data as Uint8Array));
+
+  const sentBytes = () => client.sendStreamMessage.mock.calls.map(([data]) => data as Uint8Array);
+
+  beforeEach(async () => {
+    client = Object.assign(createMockAgoraClient(), { sendStreamMessage: vi.fn().mockResolvedValue(undefined) });
+    await client.join('app-id', 'channel', 'token', 1);
+  });
+
+  afterEach(() => {
+    controller?.cleanup();
+    vi.clearAllMocks();
+  });
+
+  describe.each<MessageCodecType>(['json', 'msgpack'])('with %s', (codecType) => {
+    it('should keep every chunk within the encoded size budget and reassemble the text', async () => {
+      const codec = createMessageCodec(codecType);
+      const content = 'The quick brown fox "jumps" over the lazy dog.\n'.repeat(80);
+      controller = createNegotiatedController(codecType);
+
+      await controller.sendMessage('msg-long', content);
+
+      const bytes = sentBytes();
+      const messages = sentMessages(codec);
+      expect(messages.length).toBeGreaterThan(1);
+      bytes.forEach((data) => expect(data.length).toBeLessThanOrEqual(MAX_ENCODED_SIZE));
+      messages.forEach((message, index) => {
+        expect(message).toMatchObject({ v: 2, type: 'chat', mid: 'msg-long', idx: index });
+        expect(message.fin).toBe(index === messages.length - 1);
+      });
+      expect(messages.map((message) => (message.pld as { text: string }).text).join('')).toBe(content);
+    });
+
+    it('should never split a surrogate pair across chunks', async () => {
+      const codec = createMessageCodec(codecType);
+      const content = `x${'🙂'.repeat(600)}`;
+      controller = createNegotiatedController(codecType);
+
+      await controller.sendMessage('msg-emoji', content);
+
+      const texts = sentMessages(codec).map((message) => (message.pld as { text: string }).text);
+      expect(texts.length).toBeGreaterThan(1);
+      texts.forEach((text) => {
+        expect(text).not.toMatch(/[\uD800-\uDBFF]$/);
+        expect(text).not.toMatch(/^[\uDC00-\uDFFF]/);
+      });
+      expect(texts.join('')).toBe(content);
+    });
+  });
+
+  it('should carry the same text in fewer chunks with msgpack than with JSON', async () => {
+    const content = 'He said "hi" \\ and left.\n'.repeat(200);
+
+    controller = createController('json');
+    await controller.sendMessage('msg-json', content);
+    const jsonChunks = client.sendStreamMessage.mock.calls.length;
+    controller.cleanup();
+
+    client.sendStreamMessage.mockClear();
+    controller = createNegotiatedController('msgpack');
+    await controller.sendMessage('msg-msgpack', content);
+    const msgpackChunks = client.sendStreamMessage.mock.calls.length;
+
+    expect(msgpackChunks).toBeLessThan(jsonChunks);
+  });
+
+  it('should decode incoming JSON from a peer while configured for msgpack', () => {
+    const onChatMessage = vi.fn();
+    controller = createController('msgpack');
+    controller.setCallbacks({ onChatMessage });
+
+    peerSends(new JsonMessageCodec().encode({ ...unicodeMessage, mid: 'reply-json' }));
+    peerSends(
+      new MessagePackCodec().encode({ ...chatMessage, mid: 'reply-msgpack', pld: { text: 'hi', from: 'bot' } }),
+    );
+
+    expect(onChatMessage).toHaveBeenCalledTimes(2);
+    expect(onChatMessage).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ messageId: 'chat_reply-json', from: 'avatar' }),
+    );
+    expect(onChatMessage).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ messageId: 'chat_reply-msgpack', text: 'hi' }),
+    );
+  });
+
+  describe('codec negotiation', () => {
+    const json = new JsonMessageCodec();
+    const msgpack = new MessagePackCodec();
+
+    it('should send JSON listing its codecs until the peer shows it reads msgpack', async () => {
+      controller = createController('msgpack');
+      controller.setCallbacks({});
+
+      await controller.sendMessage('msg-1', 'Hello');
+      expect(json.decode(sentBytes()[0]!)).toMatchObject({ mid: 'msg-1', codecs: ['msgpack', 'json'] });
+
+      // Another client with the same setting answers in JSON but lists msgpack
+      peerSends(json.encode({ v: 2, type: 'event', pld: { event: 'ready' }, codecs: ['msgpack', 'json'] }));
+      await controller.sendMessage('msg-2', 'Hello again');
+      const upgraded = msgpack.decode(sentBytes()[1]!);
+      expect(upgraded).toMatchObject({ mid: 'msg-2' });
+      expect(upgraded.codecs).toBeUndefined();
+    });
+
+    it('should fall back to JSON once a JSON-only peer sends a message', async () => {
+      controller = createNegotiatedController('msgpack');
+      await controller.sendMessage('msg-1', 'Hello');
+      expect(msgpack.decode(sentBytes()[0]!)).toMatchObject({ mid: 'msg-1' });
+
+      peerSends(json.encode({ v: 2, type: 'chat', mid: 'msg-1', idx: 0, fin: true, pld: { text: 'Hi', from: 'bot' } }));
+      await controller.sendMessage('msg-2', 'Hello again');
+      expect(json.decode(sentBytes()[1]!)).toMatchObject({ mid: 'msg-2', codecs: ['msgpack', 'json'] });
+    });
+
+    it('should keep plain JSON without a marker when configured for JSON', async () => {
+      controller = createController('json');
+      controller.setCallbacks({});
+      peerSends(msgpack.encode({ v: 2, type: 'event', pld: { event: 'ready' }, codecs: ['msgpack', 'json'] }));
+
+      await controller.sendMessage('msg-1', 'Hello');
+      expect(json.decode(sentBytes()[0]!)).toEqual({
+        v: 2,
+        type: 'chat',
+        mid: 'msg-1',
+        idx: 0,
+        fin: true,
+        pld: { text: 'Hello' },
+      });
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MessageDeliveryTracker } from '../../providers/common/MessageDeliveryTracker';
+import { CommonMessageController } from '../../providers/common/CommonMessageController';
+import { MessageAdapter } from '../../providers/common/adapters/MessageAdapter';
+import { StreamMessage } from '../../providers/common/types/message.types';
+import { MessageDeliveryEvent } from '../../types/provider.interfaces';
+import { ErrorCode } from '../../types/error.types';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+const statuses = (onStatusChanged: ReturnType<typeof vi.fn>) =>
+  onStatusChanged.mock.calls.map(([event]) => {
+    const { status, attempts } = event as MessageDeliveryEvent;
+    return [status, attempts];
+  });
+
+describe('MessageDeliveryTracker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createTracker = () => {
+    const retransmit = vi.fn((_mid: string, _chunks: Uint8Array[]) => Promise.resolve());
+    const onStatusChanged = vi.fn();
+    const tracker = new MessageDeliveryTracker(retransmit, onStatusChanged, { ackTimeoutMs: 1000, maxRetransmits: 2 });
+    return { tracker, retransmit, onStatusChanged };
+  };
+
+  it('reports delivery when the response arrives in time', async () => {
+    const { tracker, retransmit, onStatusChanged } = createTracker();
+    tracker.track('m1', 'chat');
+    tracker.recordChunk('m1', 0, bytes('hello'));
+    tracker.markSent('m1');
+
+    await vi.advanceTimersByTimeAsync(999);
+    tracker.acknowledgeChat('m1');
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(retransmit).not.toHaveBeenCalled();
+    expect(statuses(onStatusChanged)).toEqual([
+      ['pending', 1],
+      ['delivered', 1],
+    ]);
+    expect(tracker.isOutstanding('m1')).toBe(false);
+  });
+
+  it('retransmits every chunk in idx order when the response is late', async () => {
+    const { tracker, retransmit, onStatusChanged } = createTracker();
+    tracker.track('m1', 'chat');
+    tracker.recordChunk('m1', 1, bytes('second'));
+    tracker.recordChunk('m1', 0, bytes('first'));
+    tracker.markSent('m1');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(retransmit).toHaveBeenCalledWith('m1', [bytes('first'), bytes('second')]);
+
+    // Later reply chunks under the same mid do not count twice
+    tracker.acknowledgeChat('m1');
+    tracker.acknowledgeChat('m1');
+    expect(statuses(onStatusChanged)).toEqual([
+      ['pending', 1],
+      ['delivered', 2],
+    ]);
+  });
+
+  it('fails the message once the retransmit budget is spent', async () => {
+    const { tracker, retransmit, onStatusChanged } = createTracker();
+    tracker.track('m1', 'chat');
+    tracker.recordChunk('m1', 0, bytes('hello'));
+    tracker.markSent('m1');
+
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(retransmit).toHaveBeenCalledTimes(2);
+    expect(tracker.isOutstanding('m1')).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(onStatusChanged).toHaveBeenLastCalledWith({
+      messageId: 'm1',
+      kind: 'chat',
+      status: 'failed',
+      attempts: 3,
+      error: expect.objectContaining({ code: ErrorCode.API_REQUEST_FAILED }),
+    });
+    expect(tracker.isOutstanding('m1')).toBe(false);
+  });
+
+  it('starts a manual retry of a failed message with a fresh budget', async () => {
+    const { tracker, retransmit, onStatusChanged } = createTracker();
+    tracker.track('m1', 'chat');
+    tracker.markSent('m1');
+    await vi.advanceTimersByTimeAsync(3000);
+    retransmit.mockClear();
+    onStatusChanged.mockClear();
+
+    tracker.track('m1', 'chat');
+    tracker.recordChunk('m1', 0, bytes('hello'));
+    tracker.markSent('m1');
+    await vi.advanceTimersByTimeAsync(1000);
+    tracker.acknowledgeChat('m1');
+
+    expect(retransmit).toHaveBeenCalledTimes(1);
+    expect(statuses(onStatusChanged)).toEqual([
+      ['pending', 1],
+      ['delivered', 2],
+    ]);
+  });
+
+  it('leaves entries that were never marked sent to an explicit ack', async () => {
+    const { tracker, retransmit, onStatusChanged } = createTracker();
+    tracker.track('cmd-1', 'command', 'set-params');
+    tracker.track('cmd-2', 'command', 'set-params');
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(retransmit).not.toHaveBeenCalled();
+
+    // Without a matching mid the oldest waiter for the same command is confirmed
+    tracker.acknowledgeCommand('set-params', 'unknown');
+    expect(onStatusChanged).toHaveBeenLastCalledWith(
+      expect.objectContaining({ messageId: 'cmd-1', status: 'delivered' }),
+    );
+    expect(tracker.isOutstanding('cmd-2')).toBe(true);
+  });
+});
+
+describe('CommonMessageController delivery', () => {
+  let receive: (data: Uint8Array) => void;
+  let adapter: MessageAdapter & { sendData: ReturnType<typeof vi.fn> };
+  let controller: CommonMessageController;
+  let onDeliveryStatusChanged: ReturnType<typeof vi.fn>;
+
+  const deliver = (message: StreamMessage) => receive(bytes(JSON.stringify(message)));
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    adapter = {
+      sendData: vi.fn().mockResolvedValue(undefined),
+      isReady: () => true,
+      setupMessageListener: (callback) => {
+        receive = callback;
+      },
+      removeMessageListener: vi.fn(),
+      cleanup: vi.fn(),
+    };
+    controller = new CommonMessageController(adapter, { maxEncodedSize: 960, bytesPerSecond: 6000 });
+    onDeliveryStatusChanged = vi.fn();
+    controller.setCallbacks({ onDeliveryStatusChanged });
+  });
+
+  afterEach(() => {
+    controller.cleanup();
+    vi.useRealTimers();
+  });
+
+  it('resends an unanswered question and confirms it on the avatar reply', async () => {
+    await controller.sendMessage('msg-1', 'Hello');
+    const [sent] = adapter.sendData.mock.calls[0] ?? [];
+
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(adapter.sendData).toHaveBeenCalledTimes(2);
+    expect(adapter.sendData).toHaveBeenLastCalledWith(sent);
+
+    deliver({ v: 2, type: 'chat', mid: 'msg-1', idx: 0, fin: true, pld: { text: 'Hi!', from: 'bot' } });
+    expect(statuses(onDeliveryStatusChanged)).toEqual([
+      ['pending', 1],
+      ['delivered', 2],
+    ]);
+  });
+
+  it('retries a message whose send failed under the same id', async () => {
+    adapter.sendData.mockRejectedValueOnce(new Error('channel closed'));
+    await expect(controller.sendMessage('msg-1', 'Hello')).rejects.toMatchObject({
+      code: ErrorCode.API_REQUEST_FAILED,
+    });
+
+    await controller.sendMessage('msg-1', 'Hello');
+    deliver({ v: 2, type: 'chat', mid: 'msg-1', idx: 0, fin: true, pld: { text: 'Hi!', from: 'bot' } });
+
+    expect(statuses(onDeliveryStatusChanged)).toEqual([
+      ['pending', 1],
+      ['failed', 1],
+      ['pending', 1],
+      ['delivered', 1],
+    ]);
+  });
+
+  it('does not resend a command while it waits for its own timeout', async () => {
+    const response = controller.setAvatarParameters({ vid: 'voice-1' });
+    await vi.advanceTimersByTimeAsync(14000);
+    expect(adapter.sendData).toHaveBeenCalledTimes(1);
+
+    const [sent] = adapter.sendData.mock.calls[0] ?? [];
+    const { mid } = JSON.parse(new TextDecoder().decode(sent as Uint8Array)) as StreamMessage;
+    deliver({ v: 2, type: 'command', mid, pld: { cmd: 'set-params', code: 1000 } });
+
+    await expect(response).resolves.toMatchObject({ code: 1000 });
+    expect(statuses(onDeliveryStatusChanged)).toEqual([
+      ['pending', 1],
+      ['delivered', 1],
+    ]);
+  });
+});
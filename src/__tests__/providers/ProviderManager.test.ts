@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach, Mock } from 'vitest';
+import { ProviderManager, resolveFallbackOrder } from '../../providers/ProviderManager';
+import { StreamingProviderFactory } from '../../providers/StreamingProviderFactory';
+import { StreamingCredentials, StreamingProvider } from '../../types/provider.interfaces';
+import { StreamProviderType } from '../../types/streaming.types';
+import { StreamingError, ErrorCode } from '../../types/error.types';
+import { SystemConfig } from '../../types/api.schemas';
+import { StreamingEventMap } from '../../types/event.types';
+
+const config = (overrides: Partial<SystemConfig> = {}): SystemConfig => ({
+  providers: [
+    { type: 'agora', enabled: true, credentials: {}, fallback_order: 2 },
+    { type: 'livekit', enabled: true, credentials: {}, fallback_order: 1 },
+    { type: 'trtc', enabled: true, credentials: {}, fallback_order: 0 },
+  ],
+  default_provider: 'agora',
+  auto_fallback: true,
+  session_timeout: 600,
+  ...overrides,
+});
+
+const factory = StreamingProviderFactory.getInstance();
+
+// Providers listed in failing reject on connect, the rest connect
+const mockProviders = (failing: StreamProviderType[]) => {
+  const created: Partial<Record<StreamProviderType, { disconnect: Mock; unsubscribe: Mock }>> = {};
+  vi.mocked(factory.createProviderWithCredentials).mockImplementation((type: StreamProviderType) => {
+    const provider = { disconnect: vi.fn().mockResolvedValue(undefined), unsubscribe: vi.fn() };
+    created[type] = provider;
+    return Promise.resolve({
+      subscribe: vi.fn(() => provider.unsubscribe),
+      disconnect: provider.disconnect,
+      connect: failing.includes(type)
+        ? vi.fn().mockRejectedValue(new StreamingError(ErrorCode.CONNECTION_FAILED, `${type} unreachable`))
+        : vi.fn().mockResolvedValue(undefined),
+    } as unknown as StreamingProvider);
+  });
+  return created;
+};
+
+describe('resolveFallbackOrder', () => {
+  it('puts the default provider first and the rest in fallback_order', () => {
+    expect(resolveFallbackOrder(config())).toEqual(['agora', 'trtc', 'livekit']);
+  });
+
+  it('leaves out disabled providers, and everything but the default without auto fallback', () => {
+    const providers = config().providers.map((provider) =>
+      provider.type === 'trtc' ? { ...provider, enabled: false } : provider,
+    );
+    expect(resolveFallbackOrder(config({ providers }))).toEqual(['agora', 'livekit']);
+    expect(resolveFallbackOrder(config({ auto_fallback: false }))).toEqual(['agora']);
+  });
+});
+
+describe('ProviderManager.connectWithFailover', () => {
+  const prepare = vi.fn((type: StreamProviderType) => Promise.resolve({ channel: type } as StreamingCredentials));
+  const release = vi.fn((_type: StreamProviderType) => Promise.resolve());
+  let manager: ProviderManager;
+  let results: StreamingEventMap['connection:failover-result'][];
+  let failovers: StreamingEventMap['connection:failover'][];
+  let unsubscribe: (() => void)[];
+
+  beforeEach(() => {
+    vi.spyOn(factory, 'isProviderSupported');
+    vi.spyOn(factory, 'createProviderWithCredentials');
+    mockProviders([]);
+    manager = new ProviderManager();
+    results = [];
+    failovers = [];
+    unsubscribe = [
+      manager.on('connection:failover-result', (event) => results.push(event)),
+      manager.on('connection:failover', (event) => failovers.push(event)),
+    ];
+  });
+
+  afterEach(() => {
+    unsubscribe.forEach((fn) => fn());
+    // Only the factory spies; restoreAllMocks would also reset the mocked EventBus
+    vi.mocked(factory.createProviderWithCredentials).mockRestore();
+    vi.mocked(factory.isProviderSupported).mockRestore();
+  });
+
+  it('fails over in order and names the provider that connected', async () => {
+    mockProviders(['agora']);
+
+    await expect(manager.connectWithFailover(['agora', 'livekit', 'trtc'], prepare, release)).resolves.toBe('livekit');
+    expect(prepare.mock.calls.map(([type]) => type)).toEqual(['agora', 'livekit']);
+    expect(release).toHaveBeenCalledTimes(1);
+    expect(release).toHaveBeenCalledWith('agora');
+    expect(failovers).toEqual([expect.objectContaining({ from: 'agora', to: 'livekit' })]);
+    expect(results).toEqual([{ provider: 'livekit', attempted: ['agora', 'livekit'], skipped: [] }]);
+    expect(manager.getCurrentProviderType()).toBe('livekit');
+  });
+
+  it('disconnects a provider that failed to connect before trying the next', async () => {
+    const created = mockProviders(['agora']);
+
+    await manager.connectWithFailover(['agora', 'livekit'], prepare, release);
+    expect(created.agora?.disconnect).toHaveBeenCalledTimes(1);
+    expect(created.agora?.unsubscribe).toHaveBeenCalledTimes(1);
+    expect(created.livekit?.disconnect).not.toHaveBeenCalled();
+    expect(created.livekit?.unsubscribe).not.toHaveBeenCalled();
+  });
+
+  it.each([ErrorCode.API_AUTH_FAILED, ErrorCode.API_QUOTA_EXCEEDED, ErrorCode.API_RATE_LIMITED])(
+    'stops without failing over on %s',
+    async (code) => {
+      prepare.mockRejectedValueOnce(new StreamingError(code, 'Session not created'));
+
+      await expect(manager.connectWithFailover(['agora', 'livekit'], prepare, release)).rejects.toMatchObject({ code });
+      expect(prepare).toHaveBeenCalledTimes(1);
+      expect(release).toHaveBeenCalledWith('agora');
+      expect(failovers).toEqual([]);
+      expect(results).toEqual([
+        { provider: null, attempted: ['agora'], skipped: [], error: expect.objectContaining({ code }) },
+      ]);
+    },
+  );
+
+  it('skips providers that are not available', async () => {
+    vi.mocked(factory.isProviderSupported).mockImplementation((type) => type !== 'agora');
+
+    await expect(manager.connectWithFailover(['agora', 'trtc'], prepare, release)).resolves.toBe('trtc');
+    expect(prepare.mock.calls.map(([type]) => type)).toEqual(['trtc']);
+    expect(results).toEqual([{ provider: 'trtc', attempted: ['trtc'], skipped: ['agora'] }]);
+  });
+
+  it('reports exhaustion once every provider failed', async () => {
+    mockProviders(['agora', 'livekit', 'trtc']);
+
+    await expect(manager.connectWithFailover(['agora', 'livekit', 'trtc'], prepare, release)).rejects.toMatchObject({
+      code: ErrorCode.CONNECTION_FAILED,
+      message: 'All providers failed to connect: trtc unreachable',
+    });
+    expect(release.mock.calls.map(([type]) => type)).toEqual(['agora', 'livekit', 'trtc']);
+    expect(failovers.map(({ from, to }) => [from, to])).toEqual([
+      ['agora', 'livekit'],
+      ['livekit', 'trtc'],
+    ]);
+    expect(results).toEqual([
+      {
+        provider: null,
+        attempted: ['agora', 'livekit', 'trtc'],
+        skipped: [],
+        error: expect.objectContaining({ code: ErrorCode.CONNECTION_FAILED }),
+      },
+    ]);
+  });
+
+  it('reports exhaustion when no candidate is available at all', async () => {
+    vi.mocked(factory.isProviderSupported).mockReturnValue(false);
+
+    await expect(manager.connectWithFailover(['agora'], prepare, release)).rejects.toMatchObject({
+      code: ErrorCode.PROVIDER_NOT_SUPPORTED,
+    });
+    expect(prepare).not.toHaveBeenCalled();
+    expect(results).toEqual([
+      {
+        provider: null,
+        attempted: [],
+        skipped: ['agora'],
+        error: expect.objectContaining({ code: ErrorCode.PROVIDER_NOT_SUPPORTED }),
+      },
+    ]);
+  });
+});
@@ -0,0 +1,272 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { IAgoraRTCClient } from 'agora-rtc-sdk-ng';
+import type { Room } from 'livekit-client';
+import type TRTC from 'trtc-sdk-v5';
+import { AgoraStatsController } from '../../providers/agora/controllers/AgoraStatsController';
+import { LiveKitStatsController } from '../../providers/livekit/controllers/LiveKitStatsController';
+import { TRTCStatsController } from '../../providers/trtc/controllers/TRTCStatsController';
+import { QUALITY_POLICIES, QualityScorer } from '../../providers/common/QualityScorer';
+import { NetworkStats, QoEMetrics } from '../../types/metrics.types';
+import { createMockAgoraClient } from '../mocks/streamingSdks/agoraMocks';
+import { createMockLiveKitRoom } from '../mocks/streamingSdks/livekitMocks';
+import { createMockTRTCClient, mockTRTC } from '../mocks/streamingSdks/trtcMocks';
+
+vi.mock('trtc-sdk-v5', async () => {
+  const { mockTRTC } = await import('../mocks/streamingSdks/trtcMocks');
+  return { default: mockTRTC };
+});
+
+const listenerFor = (on: ReturnType<typeof vi.fn>, event: string) =>
+  on.mock.calls.find(([name]) => name === event)?.[1] as (payload: unknown) => void;
+
+describe('QoE metrics', () => {
+  let updates: NetworkStats[];
+
+  beforeEach(() => {
+    updates = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('maps Agora remote and local track stats', () => {
+    const client = Object.assign(createMockAgoraClient(), {
+      localTracks: [{ trackMediaType: 'video' }, { trackMediaType: 'audio' }],
+      getRemoteVideoStats: vi.fn(() => ({
+        1: {
+          codecType: 'H264',
+          receiveBitrate: 1_500_000,
+          receiveFrameRate: 25,
+          receiveResolutionWidth: 1280,
+          receiveResolutionHeight: 720,
+          packetLossRate: 1.5,
+          totalFreezeTime: 2,
+          freezeRate: 3,
+          end2EndDelay: 180,
+        },
+      })),
+      getRemoteAudioStats: vi.fn(() => ({
+        1: { codecType: 'opus', receiveBitrate: 48_000, packetLossRate: 0.5, end2EndDelay: 120 },
+      })),
+      getLocalVideoStats: vi.fn(() => ({
+        codecType: 'VP8',
+        sendBitrate: 800_000,
+        sendFrameRate: 15,
+        sendResolutionWidth: 640,
+        sendResolutionHeight: 480,
+        currentPacketLossRate: 2,
+        sendJitterMs: 12,
+        totalFreezeTime: 0,
+      })),
+      getLocalAudioStats: vi.fn(() => ({
+        codecType: 'opus',
+        sendBitrate: 32_000,
+        currentPacketLossRate: 1,
+        sendJitterMs: 8,
+      })),
+    });
+    const controller = new AgoraStatsController(client as unknown as IAgoraRTCClient);
+    controller.setCallbacks({ onNetworkStatsUpdate: (stats) => updates.push(stats) });
+    controller.startStatsCollection();
+
+    listenerFor(client.on, 'network-quality')({ uplinkNetworkQuality: 2, downlinkNetworkQuality: 4 });
+
+    const metrics = updates[0]?.metrics;
+    expect(metrics?.provider).toBe('agora');
+    expect(metrics?.network).toEqual({ rtt: 150, packetLoss: 1, uplinkQuality: 'good', downlinkQuality: 'poor' });
+    expect(metrics?.inbound.video).toEqual({
+      codec: 'H264',
+      bitrate: 1_500_000,
+      frameRate: 25,
+      width: 1280,
+      height: 720,
+      packetLoss: 1.5,
+      freezeTime: 2000,
+      freezeRate: 3,
+      endToEndDelay: 180,
+    });
+    expect(metrics?.inbound.audio).toMatchObject({ codec: 'opus', bitrate: 48_000, endToEndDelay: 120 });
+    expect(metrics?.outbound.video).toMatchObject({ codec: 'VP8', bitrate: 800_000, frameRate: 15, jitter: 12 });
+    expect(metrics?.outbound.audio).toEqual({ codec: 'opus', bitrate: 32_000, packetLoss: 1, jitter: 8 });
+
+    controller.cleanup();
+  });
+
+  it('derives LiveKit bitrates from byte counters between samples', async () => {
+    vi.useFakeTimers();
+    let sample = 0;
+    const publication = (track: Record<string, unknown>) => new Map([[String(track.sid), { track }]]);
+    const room = createMockLiveKitRoom();
+    Object.assign(room.localParticipant, {
+      connectionQuality: 'excellent',
+      videoTrackPublications: publication({
+        sid: 'local-video',
+        getSenderStats: vi.fn(async () => [
+          {
+            type: 'video',
+            bytesSent: 100_000 * ++sample,
+            timestamp: sample * 1000,
+            framesPerSecond: 30,
+            frameWidth: 640,
+            frameHeight: 360,
+            packetsSent: 990,
+            packetsLost: 10,
+            jitter: 0.004,
+            roundTripTime: 0.05,
+          },
+        ]),
+      }),
+      audioTrackPublications: new Map(),
+    });
+    Object.assign(room, {
+      remoteParticipants: new Map([
+        [
+          'avatar',
+          {
+            videoTrackPublications: publication({
+              sid: 'avatar-video',
+              getReceiverStats: vi.fn(async () => ({
+                type: 'video',
+                bytesReceived: 250_000 * sample,
+                timestamp: sample * 1000,
+                mimeType: 'video/VP8',
+                frameWidth: 1280,
+                frameHeight: 720,
+                packetsReceived: 2000,
+                packetsLost: 0,
+                jitter: 0.01,
+              })),
+            }),
+            audioTrackPublications: new Map(),
+          },
+        ],
+      ]),
+    });
+
+    const controller = new LiveKitStatsController(room as unknown as Room);
+    controller.setCallbacks({ onNetworkStatsUpdate: (stats) => updates.push(stats) });
+    controller.startStatsCollection();
+    await vi.advanceTimersByTimeAsync(2000);
+    controller.cleanup();
+
+    // The first sample has nothing to compare against
+    expect(updates[0]?.metrics?.outbound.video?.bitrate).toBeUndefined();
+    const metrics = updates[1]?.metrics;
+    expect(metrics?.provider).toBe('livekit');
+    expect(metrics?.network).toMatchObject({ rtt: 50, uplinkQuality: 'excellent', downlinkQuality: 'excellent' });
+    expect(metrics?.outbound.video).toEqual({
+      bitrate: 800_000,
+      frameRate: 30,
+      width: 640,
+      height: 360,
+      packetLoss: 1,
+      jitter: 4,
+    });
+    expect(metrics?.inbound.video).toEqual({
+      codec: 'VP8',
+      bitrate: 2_000_000,
+      width: 1280,
+      height: 720,
+      packetLoss: 0,
+      jitter: 10,
+    });
+  });
+
+  it('maps TRTC statistics and network quality events', async () => {
+    const client = createMockTRTCClient();
+    const controller = new TRTCStatsController(client as unknown as TRTC);
+    controller.setCallbacks({ onNetworkStatsUpdate: (stats) => updates.push(stats) });
+    controller.startStatsCollection();
+
+    listenerFor(
+      client.on,
+      mockTRTC.EVENT.NETWORK_QUALITY,
+    )({
+      uplinkNetworkQuality: 1,
+      downlinkNetworkQuality: 3,
+      uplinkRTT: 40,
+      uplinkLoss: 0,
+      downlinkRTT: 60,
+      downlinkLoss: 2,
+    });
+    listenerFor(
+      client.on,
+      mockTRTC.EVENT.STATISTICS,
+    )({
+      rtt: 55,
+      upLoss: 1,
+      downLoss: 2,
+      bytesSent: 0,
+      bytesReceived: 0,
+      localStatistics: {
+        audio: { bitrate: 24, audioLevel: 0 },
+        video: [{ width: 640, height: 480, frameRate: 15, bitrate: 600, videoType: 'big' }],
+      },
+      remoteStatistics: [
+        {
+          userId: 'avatar',
+          audio: { bitrate: 40, audioLevel: 0, jitterBufferDelay: 30 },
+          video: [{ width: 1920, height: 1080, frameRate: 30, bitrate: 2500, videoType: 'big', jitterBufferDelay: 45 }],
+        },
+      ],
+    });
+    await vi.waitFor(() => expect(updates).toHaveLength(2));
+    await controller.cleanup();
+
+    const metrics = updates[1]?.metrics;
+    expect(metrics?.provider).toBe('trtc');
+    expect(metrics?.network).toEqual({ rtt: 55, packetLoss: 2, uplinkQuality: 'excellent', downlinkQuality: 'fair' });
+    expect(metrics?.inbound).toEqual({
+      video: { bitrate: 2_500_000, frameRate: 30, width: 1920, height: 1080, packetLoss: 2, jitterBufferDelay: 45 },
+      audio: { bitrate: 40_000, packetLoss: 2, jitterBufferDelay: 30 },
+    });
+    expect(metrics?.outbound).toEqual({
+      video: { bitrate: 600_000, frameRate: 15, width: 640, height: 480, packetLoss: 1 },
+      audio: { bitrate: 24_000, packetLoss: 1 },
+    });
+    expect(client.off).toHaveBeenCalledWith(mockTRTC.EVENT.STATISTICS, expect.any(Function));
+  });
+});
+
+describe('QualityScorer', () => {
+  const sample = (overrides: Partial<QoEMetrics> = {}): QoEMetrics => ({
+    provider: 'livekit',
+    timestamp: Date.now(),
+    network: { rtt: 40, uplinkQuality: 'unknown', downlinkQuality: 'unknown' },
+    inbound: { video: { packetLoss: 0, jitter: 5, freezeRate: 0 } },
+    outbound: { video: { packetLoss: 0, jitter: 5 } },
+    ...overrides,
+  });
+
+  it('scores uplink from outbound and downlink from inbound stats', () => {
+    const scorer = new QualityScorer();
+
+    const quality = scorer.evaluate(sample({ outbound: { video: { packetLoss: 12 } } }));
+
+    expect(quality.uplink).toBe('poor');
+    expect(quality.downlink).toBe('excellent');
+    expect(quality.score).toBe(30);
+  });
+
+  it('only counts jitter and freezes in the media policy', () => {
+    const choppy = sample({ inbound: { video: { packetLoss: 0, jitter: 60, freezeRate: 5 } } });
+
+    expect(new QualityScorer(QUALITY_POLICIES.balanced).evaluate(choppy).downlink).toBe('excellent');
+    expect(new QualityScorer(QUALITY_POLICIES.media).evaluate(choppy).downlink).toBe('fair');
+  });
+
+  it('holds a level until a change lasts the hysteresis', () => {
+    const scorer = new QualityScorer(QUALITY_POLICIES.balanced);
+    const lossy = sample({ inbound: { video: { packetLoss: 8 } } });
+
+    expect(scorer.evaluate(sample()).downlink).toBe('excellent');
+    expect(scorer.evaluate(lossy).downlink).toBe('excellent');
+    expect(scorer.evaluate(sample()).downlink).toBe('excellent');
+    expect(scorer.evaluate(lossy).downlink).toBe('excellent');
+    expect(scorer.evaluate(lossy).downlink).toBe('fair');
+    expect(scorer.evaluate(sample()).downlink).toBe('fair');
+    expect(scorer.evaluate(sample()).downlink).toBe('fair');
+    expect(scorer.evaluate(sample()).downlink).toBe('excellent');
+  });
+});
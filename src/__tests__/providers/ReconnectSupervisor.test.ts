@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ReconnectSupervisor, RestoreStep } from '../../providers/common/ReconnectSupervisor';
+import { StreamingError, ErrorCode } from '../../types/error.types';
+
+const connectionLost = () => new StreamingError(ErrorCode.CONNECTION_LOST, 'Connection lost');
+
+// The restore order every provider uses
+const RESTORE_ORDER = ['audio', 'video', 'ai-denoiser', 'set-params'];
+
+const createActions = (failingStep?: string) => {
+  const restored: string[] = [];
+  const steps: RestoreStep[] = RESTORE_ORDER.map((name) => ({
+    name,
+    run: () => {
+      restored.push(name);
+      return name === failingStep ? Promise.reject(new Error(`${name} failed`)) : Promise.resolve();
+    },
+  }));
+  return { restored, actions: { reconnect: vi.fn().mockResolvedValue(undefined), restore: () => steps } };
+};
+
+describe('ReconnectSupervisor', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('backs off exponentially until a retry succeeds, then restores in order', async () => {
+    const { restored, actions } = createActions();
+    actions.reconnect.mockRejectedValueOnce(new Error('still offline')).mockRejectedValueOnce(new Error('again'));
+    const supervisor = new ReconnectSupervisor('agora', actions, { jitter: 0 });
+    const onReconnecting = vi.fn();
+    const onReconnected = vi.fn();
+    supervisor.setCallbacks({ onReconnecting, onReconnected });
+
+    supervisor.handleConnectionLost(connectionLost());
+    expect(supervisor.isReconnecting).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(actions.reconnect).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(actions.reconnect).toHaveBeenCalledTimes(1);
+
+    // 2s after the first failure, then 4s after the second
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(actions.reconnect).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(3999);
+    expect(actions.reconnect).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(onReconnecting.mock.calls.map(([attempt]) => attempt as number)).toEqual([1, 2, 3]);
+    expect(onReconnecting).toHaveBeenLastCalledWith(3, expect.objectContaining({ message: 'again' }));
+    expect(onReconnected).toHaveBeenCalledWith(3);
+    expect(restored).toEqual(RESTORE_ORDER);
+    expect(supervisor.isReconnecting).toBe(false);
+  });
+
+  it('spreads the delay by the jitter fraction', async () => {
+    const { actions } = createActions();
+    const supervisor = new ReconnectSupervisor('agora', actions, { initialDelayMs: 1000, jitter: 0.2 });
+    const random = vi.spyOn(Math, 'random').mockReturnValue(0);
+
+    supervisor.handleConnectionLost(connectionLost());
+    await vi.advanceTimersByTimeAsync(799);
+    expect(actions.reconnect).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(actions.reconnect).toHaveBeenCalledTimes(1);
+    random.mockRestore();
+  });
+
+  it('gives up once the next attempt would land past the session deadline', async () => {
+    const { actions } = createActions();
+    actions.reconnect.mockRejectedValue(new StreamingError(ErrorCode.CONNECTION_FAILED, 'Gateway down'));
+    const supervisor = new ReconnectSupervisor('livekit', actions, { jitter: 0 });
+    const onGiveUp = vi.fn();
+    supervisor.setCallbacks({ onGiveUp });
+    supervisor.setDeadline(5000);
+
+    supervisor.handleConnectionLost(connectionLost());
+    // Attempts at 1s and 3s; the next one would be at 7s
+    await vi.advanceTimersByTimeAsync(3000);
+
+    expect(actions.reconnect).toHaveBeenCalledTimes(2);
+    expect(onGiveUp).toHaveBeenCalledWith(
+      expect.objectContaining({
+        code: ErrorCode.CONNECTION_LOST,
+        message: 'Reconnect abandoned: session has expired',
+        details: expect.objectContaining({ attempts: 2, lastError: 'Gateway down' }),
+      }),
+    );
+    expect(supervisor.isReconnecting).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(actions.reconnect).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops retrying when cancelled during the backoff', async () => {
+    const { restored, actions } = createActions();
+    const supervisor = new ReconnectSupervisor('trtc', actions, { jitter: 0 });
+    const onReconnected = vi.fn();
+    const onGiveUp = vi.fn();
+    supervisor.setCallbacks({ onReconnected, onGiveUp });
+
+    supervisor.handleConnectionLost(connectionLost());
+    await vi.advanceTimersByTimeAsync(500);
+    supervisor.cancel();
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(actions.reconnect).not.toHaveBeenCalled();
+    expect(restored).toEqual([]);
+    expect(onReconnected).not.toHaveBeenCalled();
+    expect(onGiveUp).not.toHaveBeenCalled();
+    expect(supervisor.isReconnecting).toBe(false);
+  });
+
+  it('runs the remaining restore steps when one fails', async () => {
+    const { restored, actions } = createActions('video');
+    const supervisor = new ReconnectSupervisor('agora', actions, { jitter: 0 });
+    const onReconnected = vi.fn();
+    supervisor.setCallbacks({ onReconnected });
+
+    supervisor.handleConnectionLost(connectionLost());
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(restored).toEqual(RESTORE_ORDER);
+    expect(onReconnected).toHaveBeenCalledWith(1);
+  });
+
+  it('ignores errors other than a lost connection', async () => {
+    const { actions } = createActions();
+    const supervisor = new ReconnectSupervisor('agora', actions);
+
+    supervisor.handleConnectionLost(new StreamingError(ErrorCode.CONNECTION_FAILED, 'Bad token'));
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(supervisor.isReconnecting).toBe(false);
+    expect(actions.reconnect).not.toHaveBeenCalled();
+  });
+});
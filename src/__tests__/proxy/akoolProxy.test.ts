@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createAkoolProxy, createAkoolProxyFromEnv, AkoolProxyHandler } from '../../proxy';
+import { ApiService } from '../../apiService';
+
+const TARGET = 'https://openapi.example.com';
+
+const upstreamReply = (body: unknown, status = 200) =>
+  vi.fn((_input: RequestInfo | URL, _init?: RequestInit) =>
+    Promise.resolve(new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })),
+  );
+
+const post = (path: string, body: object, headers: Record<string, string> = {}) =>
+  new Request(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+
+// Sends the app's fetches to the proxy, the way a same-origin route would receive them
+const routeFetchTo = (proxy: AkoolProxyHandler) =>
+  vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+    const response = await proxy(
+      new Request(new URL(url, 'http://localhost'), { method: init.method, headers: init.headers, body: init.body }),
+    );
+    return response ?? new Response('Not Found', { status: 404 });
+  });
+
+describe('createAkoolProxy', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('forwards allowed calls with the server-side credential and drops what the browser sent', async () => {
+    const upstream = upstreamReply({ code: 1000, msg: 'OK', data: { _id: 'session-1' } });
+    const proxy = createAkoolProxy({ credential: 'server-token', target: `${TARGET}/`, fetch: upstream });
+
+    const response = await proxy(
+      post(
+        '/akool-proxy/api/open/v4/liveAvatar/session/create',
+        { avatar_id: 'dvp_Tristan_cloth2_1080P' },
+        { Authorization: 'Bearer from-browser', Cookie: 'session=abc' },
+      ),
+    );
+
+    expect(response?.status).toBe(200);
+    await expect(response?.json()).resolves.toEqual({ code: 1000, msg: 'OK', data: { _id: 'session-1' } });
+    const [url, init] = upstream.mock.calls[0] ?? [];
+    expect(url).toBe(`${TARGET}/api/open/v4/liveAvatar/session/create`);
+    expect(init?.body).toBe('{"avatar_id":"dvp_Tristan_cloth2_1080P"}');
+    const headers = new Headers(init?.headers);
+    expect(headers.get('authorization')).toBe('Bearer server-token');
+    expect(headers.get('cookie')).toBeNull();
+  });
+
+  it('refuses paths outside the allow list and ignores requests outside its prefix', async () => {
+    const upstream = upstreamReply({});
+    const proxy = createAkoolProxy({ credential: 'server-key', authMethod: 'apiKey', fetch: upstream });
+
+    const refused = await proxy(post('/akool-proxy/api/open/v3/content/video/createbytalkingphoto', {}));
+    expect(refused?.status).toBe(404);
+    await expect(proxy(new Request('http://localhost/akool-proxy-other/api/open/v3/language/list'))).resolves.toBe(
+      null,
+    );
+    expect(upstream).not.toHaveBeenCalled();
+
+    const unreachable = createAkoolProxy({
+      credential: 'server-key',
+      fetch: vi.fn((_input: RequestInfo | URL, _init?: RequestInit) => Promise.reject(new TypeError('fetch failed'))),
+    });
+    const failed = await unreachable(new Request('http://localhost/akool-proxy/api/open/v3/language/list'));
+    expect(failed?.status).toBe(502);
+  });
+
+  it('is only created from the environment when a server-side credential is set', () => {
+    expect(createAkoolProxyFromEnv({ VITE_OPENAPI_TOKEN: 'browser-token' })).toBeNull();
+    expect(createAkoolProxyFromEnv({ AKOOL_API_KEY: 'server-key' })).toBeInstanceOf(Function);
+  });
+
+  it('serves ApiService in proxy mode without a credential in the browser', async () => {
+    const upstream = upstreamReply({
+      code: 1000,
+      msg: 'OK',
+      data: { lang_list: [{ lang_code: 'en', lang_name: 'English', url: '' }] },
+    });
+    routeFetchTo(createAkoolProxy({ credential: 'server-key', authMethod: 'apiKey', target: TARGET, fetch: upstream }));
+    const api = new ApiService('/akool-proxy', '', 'proxy');
+
+    await expect(api.getLangList()).resolves.toEqual([{ lang_code: 'en', lang_name: 'English', url: '' }]);
+    const [url, init] = upstream.mock.calls[0] ?? [];
+    expect(url).toBe(`${TARGET}/api/open/v3/language/list`);
+    expect(new Headers(init?.headers).get('x-api-key')).toBe('server-key');
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { IAgoraRTCClient } from 'agora-rtc-sdk-ng';
+import { CommonMessageController } from '../../providers/common/CommonMessageController';
+import { AgoraMessageAdapter } from '../../providers/agora/adapters/AgoraMessageAdapter';
+import { JsonMessageCodec } from '../../providers/common/codecs';
+import { StreamMessage } from '../../providers/common/types/message.types';
+import { ConversationScriptRunner, createControllerTarget, parseConversationScript } from '../../scripting';
+import { ConversationScript } from '../../types/conversationScript.types';
+import { StreamingError } from '../../types/error.types';
+import { createMockAgoraClient, MockAgoraClient } from '../mocks/streamingSdks/agoraMocks';
+
+const codec = new JsonMessageCodec();
+
+// Answers each finished question with the reply from `answers`, split into two chunks, and acks every command
+function createScriptedAvatar(client: MockAgoraClient, answers: Record<string, string>) {
+  let replySequence = 0;
+  const commands: string[] = [];
+  const questions = new Map<string, string>();
+
+  const receive = (message: StreamMessage) => {
+    const listener = client.on.mock.calls.find(([event]) => event === 'stream-message')?.[1] as (
+      uid: number,
+      data: Uint8Array,
+    ) => void;
+    listener(1, codec.encode(message));
+  };
+
+  const sendStreamMessage = vi.fn((data: Uint8Array) => {
+    const message = codec.decode(data);
+
+    if (message.type === 'command') {
+      const { cmd } = message.pld as { cmd: string };
+      commands.push(cmd);
+      setTimeout(() => receive({ v: 2, type: 'command', mid: message.mid, pld: { cmd, code: 1000 } }), 0);
+    } else if (message.type === 'chat' && message.mid) {
+      const text = (questions.get(message.mid) ?? '') + (message.pld as { text: string }).text;
+      questions.set(message.mid, text);
+
+      const answer = answers[text];
+      if (message.fin && answer !== undefined) {
+        const mid = `reply-${++replySequence}`;
+        const middle = Math.ceil(answer.length / 2);
+        setTimeout(() => {
+          receive({ v: 2, type: 'chat', mid, idx: 0, pld: { text: answer.slice(0, middle), from: 'bot' } });
+          receive({ v: 2, type: 'chat', mid, idx: 1, fin: true, pld: { text: answer.slice(middle), from: 'bot' } });
+        }, 0);
+      }
+    }
+    return Promise.resolve();
+  });
+
+  return { sendStreamMessage, commands };
+}
+
+describe('ConversationScriptRunner', () => {
+  let client: MockAgoraClient;
+  let controller: CommonMessageController;
+  let avatar: ReturnType<typeof createScriptedAvatar>;
+
+  const createRunner = (answers: Record<string, string>) => {
+    avatar = createScriptedAvatar(client, answers);
+    Object.assign(client, { sendStreamMessage: avatar.sendStreamMessage });
+    controller = new CommonMessageController(new AgoraMessageAdapter(client as unknown as IAgoraRTCClient), {
+      maxEncodedSize: 960,
+      bytesPerSecond: Number.MAX_SAFE_INTEGER,
+    });
+    return new ConversationScriptRunner(createControllerTarget(controller), { responseTimeoutMs: 200 });
+  };
+
+  beforeEach(async () => {
+    client = createMockAgoraClient();
+    await client.join('app-id', 'channel', 'token', 1);
+  });
+
+  afterEach(() => {
+    controller.cleanup();
+  });
+
+  it('passes a script whose replies meet every expectation', async () => {
+    const runner = createRunner({
+      'What are your opening hours?': 'We are open from 9am to 5pm, Monday to Friday.',
+      'Do you ship abroad?': 'Yes, we ship to 40 countries.',
+    });
+
+    const report = await runner.run(
+      parseConversationScript({
+        name: 'store faq',
+        knowledgeId: 'kb-store',
+        steps: [
+          { type: 'set-params', params: { lang: 'en' } },
+          {
+            type: 'prompt',
+            text: 'What are your opening hours?',
+            expect: { contains: ['9AM', '5pm'], regex: 'monday', regexFlags: 'i', maxLatencyMs: 1000 },
+          },
+          { type: 'wait', ms: 5 },
+          { type: 'prompt', text: 'Do you ship abroad?', expect: { notContains: 'sorry' } },
+          { type: 'interrupt' },
+        ],
+      }),
+    );
+
+    expect(report.passed).toBe(true);
+    expect(report.knowledgeId).toBe('kb-store');
+    expect(report.summary).toEqual({ passed: 5, failed: 0, skipped: 0 });
+    expect(report.steps[1]?.response?.text).toBe('We are open from 9am to 5pm, Monday to Friday.');
+    expect(report.steps[1]?.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(avatar.commands).toEqual(['set-params', 'interrupt']);
+  });
+
+  it('reports failed expectations and keeps going', async () => {
+    const runner = createRunner({ 'Hello?': 'Hi there, how can I help?' });
+
+    const report = await runner.run(
+      parseConversationScript({
+        name: 'mismatch',
+        steps: [
+          { type: 'prompt', text: 'Hello?', expect: { contains: 'welcome', regex: '^bye' } },
+          { type: 'prompt', text: 'Hello?', expect: { contains: 'help' } },
+        ],
+      }),
+    );
+
+    expect(report.passed).toBe(false);
+    expect(report.steps[0]?.status).toBe('failed');
+    expect(report.steps[0]?.failures).toEqual([
+      'Response does not contain "welcome"',
+      'Response does not match /^bye/',
+    ]);
+    expect(report.steps[1]?.status).toBe('passed');
+  });
+
+  it('fails a prompt that gets no reply in time and skips the rest with stopOnFailure', async () => {
+    const runner = createRunner({});
+
+    const report = await runner.run(
+      parseConversationScript({
+        name: 'silent avatar',
+        stopOnFailure: true,
+        steps: [
+          { type: 'prompt', text: 'Anyone there?', timeoutMs: 20 },
+          { type: 'wait', ms: 5 },
+        ],
+      }),
+    );
+
+    expect(report.steps.map((step) => step.status)).toEqual(['failed', 'skipped']);
+    expect(report.steps[0]?.failures).toEqual(['No reply within 20ms']);
+  });
+
+  it('skips the remaining steps when aborted', async () => {
+    const runner = createRunner({});
+    const script: ConversationScript = parseConversationScript({
+      name: 'long wait',
+      steps: [
+        { type: 'wait', ms: 10000 },
+        { type: 'prompt', text: 'Never sent' },
+      ],
+    });
+
+    const running = runner.run(script);
+    expect(runner.isRunning()).toBe(true);
+    runner.abort();
+    const report = await running;
+
+    expect(report.aborted).toBe(true);
+    expect(report.steps.map((step) => step.status)).toEqual(['failed', 'skipped']);
+    expect(runner.isRunning()).toBe(false);
+  });
+});
+
+describe('parseConversationScript', () => {
+  it('rejects malformed scripts with the offending step', () => {
+    expect(() => parseConversationScript('{ not json')).toThrow(StreamingError);
+    expect(() => parseConversationScript({ steps: [] })).toThrow('needs a name');
+    expect(() => parseConversationScript({ name: 'x', steps: [{ type: 'dance' }] })).toThrow(
+      'Step 1: unknown step type "dance"',
+    );
+    expect(() =>
+      parseConversationScript({
+        name: 'x',
+        steps: [
+          { type: 'wait', ms: 1 },
+          { type: 'prompt', text: 'hi', expect: { regex: '(' } },
+        ],
+      }),
+    ).toThrow('Step 2: expect.regex is invalid');
+  });
+});
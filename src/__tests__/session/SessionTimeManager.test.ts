@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SessionTimeManager, sessionTimeOptionsFromEnv } from '../../session';
+import { TranscriptRecorder } from '../../transcript';
+import { EventBusInterface } from '../../types/event.types';
+import { ErrorCode } from '../../types/error.types';
+
+const createEventBus = () => ({
+  subscribe: vi.fn(),
+  once: vi.fn(),
+  publish: vi.fn(),
+  use: vi.fn(),
+  waitFor: vi.fn(),
+  clear: vi.fn(),
+});
+
+const published = (eventBus: ReturnType<typeof createEventBus>) =>
+  eventBus.publish.mock.calls.map(([event]) => event as string);
+
+const MINUTE = 60000;
+
+describe('SessionTimeManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('warns at each threshold and closes the session just before it runs out', async () => {
+    const eventBus = createEventBus();
+    const manager = new SessionTimeManager(eventBus as EventBusInterface, { closeLeadMs: 2000 });
+    const onExpire = vi.fn();
+    manager.setCallbacks({ onExpire });
+
+    manager.track({ sessionId: 'session-1', expiresAt: 10 * MINUTE });
+    await vi.advanceTimersByTimeAsync(5 * MINUTE);
+    expect(eventBus.publish).toHaveBeenCalledWith('session:time-warning', {
+      sessionId: 'session-1',
+      remainingMs: 5 * MINUTE,
+      thresholdMs: 5 * MINUTE,
+      canContinue: false,
+    });
+    expect(manager.getStatus()).toMatchObject({ remainingMs: 5 * MINUTE, expired: false });
+
+    await vi.advanceTimersByTimeAsync(5 * MINUTE - 2001);
+    expect(onExpire).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(onExpire).toHaveBeenCalledWith('session-1');
+    expect(published(eventBus)).toEqual(['session:time-warning', 'session:time-warning', 'session:expired']);
+
+    // Closing the session afterwards keeps the expired one around for the continuation offer
+    manager.track(null);
+    expect(manager.getStatus()).toMatchObject({ sessionId: 'session-1', remainingMs: 0, expired: true });
+  });
+
+  it('skips thresholds already passed and forgets a session that was closed in time', async () => {
+    const eventBus = createEventBus();
+    const manager = new SessionTimeManager(eventBus as EventBusInterface);
+
+    manager.track({ sessionId: 'short', expiresAt: 2 * MINUTE });
+    manager.track(null);
+    await vi.advanceTimersByTimeAsync(10 * MINUTE);
+
+    expect(eventBus.publish).not.toHaveBeenCalled();
+    expect(manager.getStatus()).toBeNull();
+  });
+
+  it('starts a continuation session once the time ran out, reporting failures', async () => {
+    const eventBus = createEventBus();
+    const manager = new SessionTimeManager(eventBus as EventBusInterface, { allowContinuation: true });
+    const onContinue = vi.fn().mockRejectedValueOnce(new Error('Quota exceeded')).mockResolvedValue(undefined);
+    manager.setCallbacks({ onContinue });
+
+    manager.track({ sessionId: 'session-1', expiresAt: MINUTE });
+    await expect(manager.continueSession()).resolves.toBe(false);
+    await vi.advanceTimersByTimeAsync(MINUTE);
+    expect(eventBus.publish).toHaveBeenCalledWith('session:expired', { sessionId: 'session-1', canContinue: true });
+
+    await expect(manager.continueSession()).resolves.toBe(false);
+    expect(eventBus.publish).toHaveBeenCalledWith('session:continuation-failed', {
+      previousSessionId: 'session-1',
+      error: expect.objectContaining({
+        code: ErrorCode.SESSION_CONTINUATION_FAILED,
+        message: 'Could not start a continuation session: Quota exceeded',
+      }),
+    });
+    expect(manager.getStatus()?.expired).toBe(true);
+
+    await expect(manager.continueSession()).resolves.toBe(true);
+    expect(onContinue).toHaveBeenLastCalledWith({ previousSessionId: 'session-1' });
+    expect(eventBus.publish).toHaveBeenLastCalledWith('session:continued', { previousSessionId: 'session-1' });
+    expect(manager.getStatus()).toBeNull();
+  });
+
+  it('reads thresholds and the continuation switch from the environment', () => {
+    expect(
+      sessionTimeOptionsFromEnv({ VITE_SESSION_WARNING_SECONDS: '600, 120,x', VITE_SESSION_CONTINUATION: 'true' }),
+    ).toEqual({
+      warningThresholdsMs: [600000, 120000],
+      allowContinuation: true,
+    });
+    expect(sessionTimeOptionsFromEnv({})).toEqual({});
+  });
+
+  it('carries the transcript over into the continuation session', () => {
+    const recorder = new TranscriptRecorder();
+    recorder.start({ sessionId: 'session-1', provider: 'agora', avatarId: 'avatar' }, 1000);
+    recorder.record({ id: 'm1', sender: 'user', kind: 'chat', text: 'Hello', timestamp: 1500 });
+    recorder.end(2000);
+
+    recorder.continue({ sessionId: 'session-2', provider: 'agora', avatarId: 'avatar' });
+    recorder.record({ id: 'm2', sender: 'user', kind: 'chat', text: 'Still there?', timestamp: 3000 });
+
+    const transcript = recorder.getTranscript();
+    expect(transcript?.session).toEqual({
+      sessionId: 'session-2',
+      provider: 'agora',
+      avatarId: 'avatar',
+      previousSessionIds: ['session-1'],
+      startedAt: 1000,
+    });
+    expect(transcript?.entries.map((entry) => entry.id)).toEqual(['m1', 'm2']);
+  });
+});
@@ -85,6 +85,11 @@ export const setupEventBusMocks = () => {
         }),
 
         getEvents: vi.fn().mockImplementation(() => Array.from(mockSubscriptions.keys())),
+
+        getHistory: vi.fn().mockReturnValue([]),
+        clearHistory: vi.fn(),
+        use: vi.fn().mockReturnValue(() => {}),
+        waitFor: vi.fn().mockReturnValue(new Promise(() => {})),
       })),
 
       globalEventBus: {
@@ -96,6 +101,10 @@ export const setupEventBusMocks = () => {
         getListenerCount: vi.fn().mockReturnValue(0),
         hasListeners: vi.fn().mockReturnValue(false),
         getEvents: vi.fn().mockReturnValue([]),
+        getHistory: vi.fn().mockReturnValue([]),
+        clearHistory: vi.fn(),
+        use: vi.fn().mockReturnValue(() => {}),
+        waitFor: vi.fn().mockReturnValue(new Promise(() => {})),
       },
     };
   });
@@ -136,10 +136,13 @@ export const createMockStreamingProvider = (type: StreamProviderType): Streaming
 
     sendInterrupt: vi.fn().mockResolvedValue(undefined),
     setAvatarParameters: vi.fn().mockResolvedValue(undefined),
+    registerMessageHandler: vi.fn().mockReturnValue(() => {}),
 
     enableNoiseReduction: vi.fn().mockResolvedValue(undefined),
     disableNoiseReduction: vi.fn().mockResolvedValue(undefined),
     dumpAudio: vi.fn().mockResolvedValue(undefined),
+    renewToken: vi.fn().mockResolvedValue(undefined),
+    setQualityPolicy: vi.fn(),
 
     subscribe: vi.fn().mockImplementation((callback: (state: StreamingState) => void) => {
       subscribers.add(callback);
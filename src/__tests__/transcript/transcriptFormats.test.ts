@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatTranscriptJson,
+  formatTranscriptMarkdown,
+  formatTranscriptWebVtt,
+  parseTranscriptJson,
+} from '../../transcript';
+import { Transcript, TranscriptEntry, TRANSCRIPT_FORMAT_VERSION } from '../../types/transcript.types';
+import { ErrorCode } from '../../types/error.types';
+
+const STARTED_AT = 1700000000000;
+
+const entry = (overrides: Partial<TranscriptEntry> & Pick<TranscriptEntry, 'id' | 'text'>): TranscriptEntry => ({
+  sender: 'avatar',
+  kind: 'chat',
+  timestamp: STARTED_AT,
+  ...overrides,
+});
+
+const transcript = (entries: TranscriptEntry[]): Transcript => ({
+  version: TRANSCRIPT_FORMAT_VERSION,
+  exportedAt: STARTED_AT + 60000,
+  session: { sessionId: 'session-1', provider: 'agora', avatarId: 'avatar-1', startedAt: STARTED_AT },
+  entries,
+});
+
+describe('formatTranscriptWebVtt', () => {
+  it('cues each avatar reply over its speaking window, relative to the session start', () => {
+    const vtt = formatTranscriptWebVtt(
+      transcript([
+        entry({ id: 'u1', sender: 'user', text: 'Hi', timestamp: STARTED_AT + 1000 }),
+        entry({
+          id: 'a1',
+          text: 'Hello there',
+          timestamp: STARTED_AT + 2000,
+          audioStartAt: STARTED_AT + 3723456,
+          audioEndAt: STARTED_AT + 3725000,
+        }),
+      ]),
+    );
+
+    expect(vtt).toBe(['WEBVTT', '', '1', '01:02:03.456 --> 01:02:05.000', '<v Avatar>Hello there', ''].join('\n'));
+  });
+
+  it('falls back to the audio system events, then to a reading-speed estimate', () => {
+    const vtt = formatTranscriptWebVtt(
+      transcript([
+        entry({ id: 'a1', text: 'First reply', timestamp: STARTED_AT + 1000 }),
+        entry({
+          id: 's1',
+          sender: 'system',
+          kind: 'system',
+          text: 'Avatar started speaking',
+          systemType: 'avatar_audio_start',
+          timestamp: STARTED_AT + 1500,
+        }),
+        entry({
+          id: 's2',
+          sender: 'system',
+          kind: 'system',
+          text: 'Avatar finished speaking',
+          systemType: 'avatar_audio_end',
+          timestamp: STARTED_AT + 4250,
+        }),
+        // 45 characters at 15 per second
+        entry({ id: 'a2', text: 'x'.repeat(45), timestamp: STARTED_AT + 10000 }),
+        // Short replies still get a whole second
+        entry({ id: 'a3', text: 'Ok', timestamp: STARTED_AT + 20000 }),
+      ]),
+    );
+
+    const timings = vtt.split('\n').filter((line) => line.includes('-->'));
+    expect(timings).toEqual([
+      '00:00:01.500 --> 00:00:04.250',
+      '00:00:10.000 --> 00:00:13.000',
+      '00:00:20.000 --> 00:00:21.000',
+    ]);
+  });
+
+  it('escapes markup and blank lines in cue text', () => {
+    const vtt = formatTranscriptWebVtt(
+      transcript([entry({ id: 'a1', text: 'Use <b> & </b>\n\nthen stop', audioStartAt: STARTED_AT })]),
+    );
+
+    expect(vtt).toContain('<v Avatar>Use &lt;b&gt; &amp; &lt;/b&gt;\nthen stop\n');
+  });
+});
+
+describe('formatTranscriptMarkdown', () => {
+  it('escapes message text so it renders as typed', () => {
+    const markdown = formatTranscriptMarkdown(
+      transcript([entry({ id: 'u1', sender: 'user', text: '*Bold* [link](x) <b>#1</b> a_b' })]),
+    );
+
+    expect(markdown).toContain('User:** \\*Bold\\* \\[link\\](x) \\<b\\>\\#1\\</b\\> a\\_b');
+  });
+
+  it('keeps session details inside their table cells', () => {
+    const markdown = formatTranscriptMarkdown({
+      ...transcript([]),
+      session: { ...transcript([]).session, avatarId: 'left|right', knowledgeId: 'line one\nline two' },
+    });
+
+    expect(markdown).toContain('| Avatar | left\\|right |');
+    expect(markdown).toContain('| Knowledge base | line one line two |');
+  });
+});
+
+describe('parseTranscriptJson', () => {
+  it('reads back what formatTranscriptJson wrote', () => {
+    const original = transcript([
+      entry({ id: 'u1', sender: 'user', text: 'Hello "avatar"\n', timestamp: STARTED_AT + 1000 }),
+      entry({ id: 'a1', text: 'Hi', audioStartAt: STARTED_AT + 1500, audioEndAt: STARTED_AT + 2500 }),
+      entry({ id: 's1', sender: 'system', kind: 'system', text: 'Done', systemType: 'avatar_audio_end' }),
+    ]);
+
+    expect(parseTranscriptJson(formatTranscriptJson(original))).toEqual(original);
+  });
+
+  it.each([
+    ['text that is not JSON', '{"version": 1,', 'Transcript file is not valid JSON'],
+    ['JSON without entries', JSON.stringify({ version: 1, session: {} }), 'File is not a transcript export'],
+    ['an array', '[]', 'File is not a transcript export'],
+    [
+      'a newer format version',
+      JSON.stringify({ ...transcript([]), version: TRANSCRIPT_FORMAT_VERSION + 1 }),
+      `Transcript version ${TRANSCRIPT_FORMAT_VERSION + 1} is not supported`,
+    ],
+    [
+      'a session without a start time',
+      JSON.stringify({ ...transcript([]), session: { avatarId: 'a' } }),
+      'Transcript session has no start time',
+    ],
+    [
+      'an entry from an unknown sender',
+      JSON.stringify(
+        transcript([
+          entry({ id: 'a1', text: 'ok' }),
+          { ...entry({ id: 'b1', text: 'x' }), sender: 'bot' } as unknown as TranscriptEntry,
+        ]),
+      ),
+      'Transcript entry 2 is malformed',
+    ],
+  ])('rejects %s', (_case, json, message) => {
+    expect(() => parseTranscriptJson(json)).toThrow(
+      expect.objectContaining({ code: ErrorCode.INVALID_PARAMETER, message }),
+    );
+  });
+});
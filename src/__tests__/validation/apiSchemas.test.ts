@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  avatarListResponseSchema,
+  knowledgeListResponseSchema,
+  langListResponseSchema,
+  sessionResponseSchema,
+  validate,
+  voiceListResponseSchema,
+} from '../../validation';
+import { ApiTransport } from '../../core/ApiTransport';
+import { logger } from '../../core/Logger';
+import { ErrorCode } from '../../types/error.types';
+import {
+  agoraSessionResponse,
+  avatarListResponse,
+  knowledgeListResponse,
+  langListResponse,
+  livekitSessionResponse,
+  trtcSessionResponse,
+  voiceListResponse,
+} from '../fixtures/apiResponses';
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+
+const paths = (issues: { path: string }[]) => issues.map((issue) => issue.path);
+
+describe('API response schemas', () => {
+  it('accepts the recorded response of every endpoint', () => {
+    expect(validate(langListResponseSchema, langListResponse)).toEqual([]);
+    expect(validate(knowledgeListResponseSchema, knowledgeListResponse)).toEqual([]);
+    expect(validate(voiceListResponseSchema, voiceListResponse)).toEqual([]);
+    expect(validate(avatarListResponseSchema, avatarListResponse)).toEqual([]);
+    [agoraSessionResponse, livekitSessionResponse, trtcSessionResponse].forEach((session) => {
+      expect(validate(sessionResponseSchema, session)).toEqual([]);
+    });
+  });
+
+  it('reports the path of each mismatched field', () => {
+    const languages = clone(langListResponse) as Record<string, unknown>;
+    languages.lang_list = { en: 'English' };
+    expect(validate(langListResponseSchema, languages)).toEqual([
+      { path: 'data.lang_list', expected: 'array', received: 'object' },
+    ]);
+
+    const [faq, onboarding] = knowledgeListResponse.knowledge_list;
+    const knowledge = { knowledge_list: [faq, { ...onboarding, name: undefined }] };
+    expect(paths(validate(knowledgeListResponseSchema, knowledge))).toEqual(['data.knowledge_list[1].name']);
+
+    const voice = { ...voiceListResponse.result[0], style: 'calm', support_stream: 1 };
+    expect(validate(voiceListResponseSchema, { result: [voice] })).toEqual([
+      { path: 'data.result[0].support_stream', expected: 'boolean', received: 'number 1' },
+      { path: 'data.result[0].style', expected: 'array', received: 'string "calm"' },
+    ]);
+
+    const avatar = { ...avatarListResponse.result[0], avatar_id: null };
+    expect(paths(validate(avatarListResponseSchema, { result: [avatar] }))).toEqual(['data.result[0].avatar_id']);
+  });
+
+  it('requires the credentials of the session stream type', () => {
+    const renamed = clone(agoraSessionResponse) as { credentials: Record<string, unknown> };
+    renamed.credentials.agora_channel_name = renamed.credentials.agora_channel;
+    delete renamed.credentials.agora_channel;
+    expect(validate(sessionResponseSchema, renamed)).toEqual([
+      { path: 'data.credentials.agora_channel', expected: 'a value (required for agora)', received: 'undefined' },
+    ]);
+
+    const stringAppId = clone(trtcSessionResponse) as { credentials: Record<string, unknown> };
+    stringAppId.credentials.trtc_app_id = '1400000000';
+    expect(paths(validate(sessionResponseSchema, stringAppId))).toEqual(['data.credentials.trtc_app_id']);
+
+    const unknownProvider = { ...clone(livekitSessionResponse), stream_type: 'webrtc' };
+    expect(validate(sessionResponseSchema, unknownProvider)).toEqual([
+      { path: 'data.stream_type', expected: '"agora" | "livekit" | "trtc"', received: 'string "webrtc"' },
+    ]);
+  });
+});
+
+describe('ApiTransport response validation', () => {
+  const URL = 'https://openapi.example.com/api/open/v4/liveAvatar/session/create';
+
+  const stubSession = (data: unknown) =>
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(() =>
+        Promise.resolve({
+          ok: true,
+          status: 200,
+          text: () => Promise.resolve(JSON.stringify({ code: 1000, msg: 'OK', data })),
+        } as Response),
+      ),
+    );
+
+  // Two type errors; the missing token is only checked once the shape itself is right
+  const brokenSession = () => {
+    const session = clone(livekitSessionResponse) as Record<string, unknown> & { credentials: Record<string, unknown> };
+    delete session.credentials.livekit_token;
+    session.credentials.livekit_url = 42;
+    session.status = 'active';
+    return session;
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('throws in strict mode with the first path and a count of the rest', async () => {
+    stubSession(brokenSession());
+    const transport = new ApiTransport({ validationMode: 'strict' });
+
+    await expect(
+      transport.request({ url: URL, method: 'POST', body: {}, schema: sessionResponseSchema }),
+    ).rejects.toMatchObject({
+      code: ErrorCode.API_INVALID_RESPONSE,
+      message: `Unexpected response from ${URL}: data.credentials.livekit_url: expected string, received number 42 and 1 more`,
+      details: { issueCount: 2 },
+    });
+  });
+
+  it('warns and returns the data in lenient mode', async () => {
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {});
+    const session = brokenSession();
+    stubSession(session);
+    const transport = new ApiTransport({ validationMode: 'lenient' });
+
+    await expect(
+      transport.request({ url: URL, method: 'POST', body: {}, schema: sessionResponseSchema }),
+    ).resolves.toEqual(session);
+    expect(warn).toHaveBeenCalledWith('API response does not match its schema', {
+      method: 'POST',
+      url: URL,
+      issueCount: 2,
+      issues: [
+        'data.credentials.livekit_url: expected string, received number 42',
+        'data.status: expected number, received string "active"',
+      ],
+    });
+  });
+});
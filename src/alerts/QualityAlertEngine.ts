@@ -0,0 +1,144 @@
+import { StreamingState } from '../types/streaming.types';
+import { QualityAlert, QualityAlertMetric, QualityAlertRecovery, QualityAlertRule } from '../types/qualityAlerts.types';
+
+export type QualityAlertSource = Pick<StreamingState, 'networkQuality' | 'detailedNetworkStats'>;
+
+export interface QualityAlertEngineCallbacks {
+  onAlert?: (alert: QualityAlert) => void;
+  onRecover?: (recovery: QualityAlertRecovery) => void;
+}
+
+const METRIC_LABELS: Record<QualityAlertMetric, [label: string, unit: string]> = {
+  score: ['Quality score', ''],
+  rtt: ['Round trip time', 'ms'],
+  packetLoss: ['Packet loss', '%'],
+  videoFrameRate: ['Video fps', ''],
+  videoBitrate: ['Video bitrate', ' bps'],
+  videoPacketLoss: ['Video packet loss', '%'],
+  audioBitrate: ['Audio bitrate', ' bps'],
+  audioPacketLoss: ['Audio packet loss', '%'],
+};
+
+export function readQualityMetric(source: QualityAlertSource, metric: QualityAlertMetric): number | undefined {
+  const { networkQuality, detailedNetworkStats } = source;
+  switch (metric) {
+    case 'score':
+      return networkQuality?.score;
+    case 'rtt':
+      return networkQuality?.rtt;
+    case 'packetLoss':
+      return networkQuality?.packetLoss;
+    case 'videoFrameRate':
+      return detailedNetworkStats?.video?.frameRate;
+    case 'videoBitrate':
+      return detailedNetworkStats?.video?.bitrate;
+    case 'videoPacketLoss':
+      return detailedNetworkStats?.video?.packetLoss;
+    case 'audioBitrate':
+      return detailedNetworkStats?.audio?.bitrate;
+    case 'audioPacketLoss':
+      return detailedNetworkStats?.audio?.packetLoss;
+  }
+}
+
+// e.g. "Packet loss > 5% for 10s"
+export function describeQualityAlertRule(rule: QualityAlertRule): string {
+  const [label, unit] = METRIC_LABELS[rule.metric];
+  const duration = rule.forMs ? ` for ${rule.forMs / 1000}s` : '';
+  return `${label} ${rule.operator} ${rule.threshold}${unit}${duration}`;
+}
+
+function matches(rule: QualityAlertRule, value: number): boolean {
+  switch (rule.operator) {
+    case '>':
+      return value > rule.threshold;
+    case '>=':
+      return value >= rule.threshold;
+    case '<':
+      return value < rule.threshold;
+    case '<=':
+      return value <= rule.threshold;
+  }
+}
+
+const sameRule = (a: QualityAlertRule, b: QualityAlertRule) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Checks each stats update against the alert rules. A rule fires once its condition has held for forMs
+ * and recovers on the first update where it no longer holds; updates without the metric change nothing.
+ */
+export class QualityAlertEngine {
+  private rules: QualityAlertRule[] = [];
+  private callbacks: QualityAlertEngineCallbacks;
+  // Rule id to when its condition started to hold
+  private pending = new Map<string, number>();
+  private active = new Map<string, QualityAlert>();
+
+  constructor(rules: QualityAlertRule[], callbacks: QualityAlertEngineCallbacks = {}) {
+    this.callbacks = callbacks;
+    this.setRules(rules);
+  }
+
+  // Alerts of rules that were removed, disabled or changed are recovered
+  setRules(rules: QualityAlertRule[], now = Date.now()): void {
+    this.rules = rules.filter((rule) => rule.enabled !== false);
+
+    this.pending.forEach((_, id) => {
+      if (!this.rules.some((rule) => rule.id === id)) this.pending.delete(id);
+    });
+    this.active.forEach((alert, id) => {
+      const rule = this.rules.find((candidate) => candidate.id === id);
+      if (!rule || !sameRule(rule, alert.rule)) {
+        this.active.delete(id);
+        this.pending.delete(id);
+        this.callbacks.onRecover?.({ alert, recoveredAt: now });
+      }
+    });
+  }
+
+  evaluate(source: QualityAlertSource, now = Date.now()): void {
+    this.rules.forEach((rule) => {
+      const value = readQualityMetric(source, rule.metric);
+      if (value === undefined) {
+        this.pending.delete(rule.id);
+        return;
+      }
+
+      const alert = this.active.get(rule.id);
+      if (!matches(rule, value)) {
+        this.pending.delete(rule.id);
+        if (alert) {
+          this.active.delete(rule.id);
+          this.callbacks.onRecover?.({ alert, value, recoveredAt: now });
+        }
+        return;
+      }
+
+      if (alert) return;
+
+      const since = this.pending.get(rule.id) ?? now;
+      this.pending.set(rule.id, since);
+      if (now - since >= (rule.forMs ?? 0)) {
+        const fired: QualityAlert = {
+          rule,
+          message: rule.message ?? describeQualityAlertRule(rule),
+          value,
+          since,
+          firedAt: now,
+        };
+        this.active.set(rule.id, fired);
+        this.callbacks.onAlert?.(fired);
+      }
+    });
+  }
+
+  getActiveAlerts(): QualityAlert[] {
+    return Array.from(this.active.values());
+  }
+
+  // Forgets all conditions without recovering them, e.g. when the session ends
+  reset(): void {
+    this.pending.clear();
+    this.active.clear();
+  }
+}
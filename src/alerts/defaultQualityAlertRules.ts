@@ -0,0 +1,28 @@
+import { QualityAlertRule } from '../types/qualityAlerts.types';
+
+export const DEFAULT_QUALITY_ALERT_RULES: QualityAlertRule[] = [
+  {
+    id: 'packet-loss',
+    metric: 'packetLoss',
+    operator: '>',
+    threshold: 5,
+    forMs: 10000,
+    message: 'Packet loss has been above 5% for 10 seconds',
+  },
+  {
+    id: 'high-latency',
+    metric: 'rtt',
+    operator: '>',
+    threshold: 400,
+    forMs: 10000,
+    message: 'Round trip time has been above 400ms for 10 seconds',
+  },
+  {
+    id: 'low-frame-rate',
+    metric: 'videoFrameRate',
+    operator: '<',
+    threshold: 10,
+    forMs: 5000,
+    message: 'Avatar video is below 10 fps',
+  },
+];
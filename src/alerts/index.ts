@@ -0,0 +1,4 @@
+export { QualityAlertEngine, describeQualityAlertRule, readQualityMetric } from './QualityAlertEngine';
+export type { QualityAlertEngineCallbacks, QualityAlertSource } from './QualityAlertEngine';
+export { parseQualityAlertRules } from './parseQualityAlertRules';
+export { DEFAULT_QUALITY_ALERT_RULES } from './defaultQualityAlertRules';
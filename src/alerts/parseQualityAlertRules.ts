@@ -0,0 +1,110 @@
+import { StreamingError, ErrorCode } from '../types/error.types';
+import {
+  QUALITY_ALERT_RULES_VERSION,
+  QualityAlertMetric,
+  QualityAlertOperator,
+  QualityAlertRule,
+  QualityAlertRuleSet,
+} from '../types/qualityAlerts.types';
+
+const METRICS: QualityAlertMetric[] = [
+  'score',
+  'rtt',
+  'packetLoss',
+  'videoFrameRate',
+  'videoBitrate',
+  'videoPacketLoss',
+  'audioBitrate',
+  'audioPacketLoss',
+];
+
+const OPERATORS: QualityAlertOperator[] = ['>', '>=', '<', '<='];
+
+const invalid = (message: string, details?: Record<string, unknown>) =>
+  new StreamingError(ErrorCode.INVALID_PARAMETER, message, { details });
+
+// Accepts the rule set object from the JSON editor, or its JSON text
+export function parseQualityAlertRules(input: string | Record<string, unknown>): QualityAlertRuleSet {
+  let data: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch (error) {
+      throw invalid('Alert rules are not valid JSON', {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (!isRecord(data) || !Array.isArray(data.rules)) {
+    throw invalid('Alert rules need a list of rules');
+  }
+
+  const version = data.version ?? QUALITY_ALERT_RULES_VERSION;
+  if (typeof version !== 'number' || version > QUALITY_ALERT_RULES_VERSION) {
+    throw invalid(`Alert rules version ${String(version)} is not supported`, {
+      version,
+      supported: QUALITY_ALERT_RULES_VERSION,
+    });
+  }
+
+  const rules = data.rules.map(parseRule);
+  const ids = new Set<string>();
+  rules.forEach((rule) => {
+    if (ids.has(rule.id)) {
+      throw invalid(`Alert rule id "${rule.id}" is used more than once`, { id: rule.id });
+    }
+    ids.add(rule.id);
+  });
+
+  return { version, rules };
+}
+
+function parseRule(rule: unknown, index: number): QualityAlertRule {
+  const fail = (reason: string) => invalid(`Rule ${index + 1}: ${reason}`, { index });
+
+  if (!isRecord(rule)) {
+    throw fail('must be an object');
+  }
+
+  const { id, metric, operator, threshold, forMs, severity, message, enabled } = rule;
+  if (typeof id !== 'string' || !id.trim()) {
+    throw fail('needs a non-empty id');
+  }
+  if (!METRICS.includes(metric as QualityAlertMetric)) {
+    throw fail(`unknown metric "${String(metric)}", expected one of ${METRICS.join(', ')}`);
+  }
+  if (!OPERATORS.includes(operator as QualityAlertOperator)) {
+    throw fail(`unknown operator "${String(operator)}", expected one of ${OPERATORS.join(' ')}`);
+  }
+  if (typeof threshold !== 'number' || !Number.isFinite(threshold)) {
+    throw fail('threshold must be a number');
+  }
+  if (forMs !== undefined && (typeof forMs !== 'number' || !Number.isFinite(forMs) || forMs < 0)) {
+    throw fail('forMs must be a non-negative number');
+  }
+  if (severity !== undefined && severity !== 'warning' && severity !== 'error') {
+    throw fail('severity must be "warning" or "error"');
+  }
+  if (message !== undefined && typeof message !== 'string') {
+    throw fail('message must be a string');
+  }
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    throw fail('enabled must be a boolean');
+  }
+
+  return {
+    id,
+    metric: metric as QualityAlertMetric,
+    operator: operator as QualityAlertOperator,
+    threshold,
+    forMs,
+    severity,
+    message,
+    enabled,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
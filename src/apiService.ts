@@ -10,6 +10,17 @@ import type {
   Session,
   AuthMethod,
 } from './types/api.schemas';
+import { registerLogSecret } from './core/logRedaction';
+import { ApiRequestOptions, ApiTransport, ApiTransportOptions, getApiErrorTitle } from './core/ApiTransport';
+import { StreamingError, ErrorCode } from './types/error.types';
+import {
+  avatarListResponseSchema,
+  knowledgeListResponseSchema,
+  langListResponseSchema,
+  sessionResponseSchema,
+  Validator,
+  voiceListResponseSchema,
+} from './validation';
 
 // Re-export types from api.schemas.ts to maintain backward compatibility
 export type {
@@ -24,95 +35,109 @@ export type {
   Session,
 } from './types/api.schemas';
 
+export type { ApiRequestOptions } from './core/ApiTransport';
+
 export class ApiService {
   private openapiHost: string;
   private credential: string;
   private authMethod: AuthMethod;
+  private transport: ApiTransport;
   private notificationCallback?: (message: string, title?: string) => void;
 
-  constructor(openapiHost: string, credential: string, authMethod: AuthMethod = 'token') {
+  // With the proxy auth method, openapiHost is the same-origin proxy path and credential is left empty
+  constructor(
+    openapiHost: string,
+    credential: string,
+    authMethod: AuthMethod = 'token',
+    transportOptions: Partial<ApiTransportOptions> = {},
+  ) {
     this.openapiHost = openapiHost;
     this.credential = credential;
     this.authMethod = authMethod;
+    this.transport = new ApiTransport(transportOptions);
+    // Keep the credential out of shipped logs wherever it turns up
+    registerLogSecret(credential);
   }
 
   setNotificationCallback(callback: (message: string, title?: string) => void): void {
     this.notificationCallback = callback;
   }
 
-  private async fetchApi<T>(endpoint: string, method: string, body?: object): Promise<T> {
-    const response = await fetch(`${this.openapiHost}${endpoint}`, {
-      method,
-      headers: {
-        ...(this.authMethod === 'token'
-          ? { Authorization: `Bearer ${this.credential}` }
-          : { 'x-api-key': this.credential }),
-        'Content-Type': 'application/json',
-      },
-      body: body ? JSON.stringify(body) : undefined,
-    });
+  // The proxy adds the credential itself, so nothing secret leaves the browser
+  private getAuthHeaders(): Record<string, string> {
+    switch (this.authMethod) {
+      case 'token':
+        return { Authorization: `Bearer ${this.credential}` };
+      case 'apiKey':
+        return { 'x-api-key': this.credential };
+      case 'proxy':
+        return {};
+    }
+  }
 
-    // Use a type-safe JSON parser
-    const responseText = await response.text();
-    let responseData: unknown;
+  private async fetchApi<T>(
+    endpoint: string,
+    method: 'GET' | 'POST',
+    body: object | undefined,
+    schema: Validator<T> | undefined,
+    options: ApiRequestOptions = {},
+  ): Promise<T> {
     try {
-      responseData = JSON.parse(responseText);
+      return await this.transport.request<T>({
+        url: `${this.openapiHost}${endpoint}`,
+        method,
+        headers: this.getAuthHeaders(),
+        body,
+        schema,
+        ...options,
+      });
     } catch (error) {
-      throw new Error(`Invalid JSON response: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-
-    // Validate response structure
-    if (typeof responseData !== 'object' || responseData === null) {
-      throw new Error('Invalid API response: not an object');
-    }
-
-    const obj = responseData as Record<string, unknown>;
-
-    if (typeof obj.code !== 'number') {
-      throw new Error('Invalid API response: missing or invalid code');
-    }
-
-    if (typeof obj.msg !== 'string') {
-      throw new Error('Invalid API response: missing or invalid msg');
-    }
-
-    const code = obj.code as number;
-    const msg = obj.msg as string;
-
-    if (code != 1000) {
-      if (this.notificationCallback) {
-        this.notificationCallback(msg, 'API Error');
+      // A cancelled request was the user's own doing
+      if (this.notificationCallback && !(error instanceof StreamingError && error.code === ErrorCode.API_ABORTED)) {
+        this.notificationCallback(error instanceof Error ? error.message : String(error), getApiErrorTitle(error));
       }
-      throw new Error(msg);
-    }
-
-    if (!('data' in obj)) {
-      throw new Error('Invalid API response: missing data');
+      throw error;
     }
-
-    // Create a properly typed response object
-    const data = obj.data;
-
-    return data as T;
   }
 
-  public async createSession(data: SessionOptions): Promise<Session> {
-    return this.fetchApi<Session>('/api/open/v4/liveAvatar/session/create', 'POST', data);
+  // Not retried: a repeat could create a second billed session
+  public async createSession(data: SessionOptions, options?: ApiRequestOptions): Promise<Session> {
+    return this.fetchApi<Session>(
+      '/api/open/v4/liveAvatar/session/create',
+      'POST',
+      data,
+      sessionResponseSchema,
+      options,
+    );
   }
 
-  public async closeSession(id: string): Promise<void> {
-    return this.fetchApi<void>('/api/open/v4/liveAvatar/session/close', 'POST', {
-      id,
+  // Closing twice is harmless, so this is retried like a GET
+  public async closeSession(id: string, options?: ApiRequestOptions): Promise<void> {
+    return this.fetchApi<void>('/api/open/v4/liveAvatar/session/close', 'POST', { id }, undefined, {
+      idempotent: true,
+      ...options,
     });
   }
 
-  public async getLangList(): Promise<Language[]> {
-    const data = await this.fetchApi<{ lang_list: Language[] }>('/api/open/v3/language/list', 'GET');
+  public async getLangList(options?: ApiRequestOptions): Promise<Language[]> {
+    const data = await this.fetchApi<{ lang_list: Language[] }>(
+      '/api/open/v3/language/list',
+      'GET',
+      undefined,
+      langListResponseSchema,
+      options,
+    );
     return data?.lang_list ?? [];
   }
 
-  public async getKnowledgeList(): Promise<Knowledge[]> {
-    const data = await this.fetchApi<{ knowledge_list: Knowledge[] }>('/api/open/v4/knowledge/list', 'GET');
+  public async getKnowledgeList(options?: ApiRequestOptions): Promise<Knowledge[]> {
+    const data = await this.fetchApi<{ knowledge_list: Knowledge[] }>(
+      '/api/open/v4/knowledge/list',
+      'GET',
+      undefined,
+      knowledgeListResponseSchema,
+      options,
+    );
     return data?.knowledge_list ?? [];
   }
 
@@ -121,10 +146,13 @@ export class ApiService {
    * @param type - Voice type, 1 for VoiceClone, 2 for Akool Voices
    * @returns Voice list
    */
-  public async getVoiceList(type: number = 2): Promise<Voice[]> {
+  public async getVoiceList(type: number = 2, options?: ApiRequestOptions): Promise<Voice[]> {
     const data = await this.fetchApi<{ result: Voice[] }>(
       `/api/open/v4/voice/list?support_stream=1&type=${type}`,
       'GET',
+      undefined,
+      voiceListResponseSchema,
+      options,
     );
     return data?.result ?? [];
   }
@@ -134,48 +162,44 @@ export class ApiService {
    * @returns Enhanced voice list grouped by type
    */
   public async getAllVoices(): Promise<VoiceGroup[]> {
-    try {
-      // Fetch both voice types in parallel
-      const [voiceCloneVoices, akoolVoices] = await Promise.all([this.getVoiceList(1), this.getVoiceList(2)]);
-
-      // Transform to enhanced voices with type information
-      const enhancedVoiceClone: EnhancedVoice[] = voiceCloneVoices.map((voice) => ({
-        ...voice,
-        type: 1 as const,
-      }));
-
-      const enhancedAkoolVoices: EnhancedVoice[] = akoolVoices.map((voice) => ({
-        ...voice,
-        type: 2 as const,
-      }));
-
-      // Group voices by type
-      const voiceGroups: VoiceGroup[] = [
-        {
-          type: 1,
-          label: 'VoiceClone (Custom Voices)',
-          voices: enhancedVoiceClone,
-        },
-        {
-          type: 2,
-          label: 'Akool Voices (Pre-built)',
-          voices: enhancedAkoolVoices,
-        },
-      ];
-
-      return voiceGroups;
-    } catch (error) {
-      if (this.notificationCallback) {
-        this.notificationCallback('Failed to load voice list', 'Error');
-      }
-      throw error;
-    }
+    // Fetch both voice types in parallel; fetchApi already reports a failed request
+    const [voiceCloneVoices, akoolVoices] = await Promise.all([this.getVoiceList(1), this.getVoiceList(2)]);
+
+    // Transform to enhanced voices with type information
+    const enhancedVoiceClone: EnhancedVoice[] = voiceCloneVoices.map((voice) => ({
+      ...voice,
+      type: 1 as const,
+    }));
+
+    const enhancedAkoolVoices: EnhancedVoice[] = akoolVoices.map((voice) => ({
+      ...voice,
+      type: 2 as const,
+    }));
+
+    // Group voices by type
+    const voiceGroups: VoiceGroup[] = [
+      {
+        type: 1,
+        label: 'VoiceClone (Custom Voices)',
+        voices: enhancedVoiceClone,
+      },
+      {
+        type: 2,
+        label: 'Akool Voices (Pre-built)',
+        voices: enhancedAkoolVoices,
+      },
+    ];
+
+    return voiceGroups;
   }
 
-  public async getAvatarList(): Promise<Avatar[]> {
+  public async getAvatarList(options?: ApiRequestOptions): Promise<Avatar[]> {
     const data = await this.fetchApi<{ result: Avatar[] }>(
       `/api/open/v4/liveAvatar/avatar/list?page=1&size=100`,
       'GET',
+      undefined,
+      avatarListResponseSchema,
+      options,
     );
     return data?.result ?? [];
   }
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { IconButton } from '../shared';
+import { ConversationSummary } from '../../types/history.types';
+
+interface HistoryPanelProps {
+  connected: boolean;
+  conversations: ConversationSummary[];
+  onOpen: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  getPrompts: (id: string) => Promise<string[]>;
+  onResend: (text: string) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  connected,
+  conversations,
+  onOpen,
+  onRemove,
+  onClear,
+  getPrompts,
+  onResend,
+}) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [prompts, setPrompts] = useState<string[]>([]);
+
+  const togglePrompts = async (id: string) => {
+    if (expandedId === id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(id);
+    setPrompts(await getPrompts(id));
+  };
+
+  if (conversations.length === 0) {
+    return <div className="history-panel history-empty">No saved conversations yet</div>;
+  }
+
+  return (
+    <div className="history-panel">
+      <div className="history-header">
+        <span>
+          {conversations.length} saved conversation{conversations.length === 1 ? '' : 's'}
+        </span>
+        <IconButton icon="delete_sweep" onClick={onClear} title="Delete all saved conversations" />
+      </div>
+
+      {conversations.map((conversation) => (
+        <div key={conversation.id} className="history-item">
+          <div className="history-item-row">
+            <div className="history-item-info">
+              <div className="history-item-title">
+                {formatDate(conversation.startedAt)}
+                {conversation.provider ? ` · ${conversation.provider}` : ''}
+                {conversation.avatarId ? ` · ${conversation.avatarId}` : ''}
+              </div>
+              <div className="history-item-preview">
+                {conversation.preview || 'No prompts'} · {conversation.messageCount} message
+                {conversation.messageCount === 1 ? '' : 's'}
+              </div>
+            </div>
+            <IconButton
+              icon="visibility"
+              onClick={() => onOpen(conversation.id)}
+              disabled={connected}
+              title={connected ? 'End the session to review a conversation' : 'Open read-only'}
+            />
+            <IconButton
+              icon={expandedId === conversation.id ? 'expand_less' : 'replay'}
+              onClick={() => togglePrompts(conversation.id)}
+              title="Show prompts to resend"
+            />
+            <IconButton icon="delete" onClick={() => onRemove(conversation.id)} title="Delete conversation" />
+          </div>
+
+          {expandedId === conversation.id && (
+            <ul className="history-prompts">
+              {prompts.length === 0 && <li className="history-prompt">No prompts in this conversation</li>}
+              {prompts.map((prompt, index) => (
+                <li key={index} className="history-prompt">
+                  <span className="history-prompt-text">{prompt}</span>
+                  <IconButton
+                    icon="send"
+                    onClick={() => onResend(prompt)}
+                    disabled={!connected}
+                    title={connected ? 'Send this prompt again' : 'Connect to resend this prompt'}
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default HistoryPanel;
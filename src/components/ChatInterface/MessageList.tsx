@@ -6,9 +6,10 @@ interface MessageListProps {
   messages: Message[];
   formatTime: (timestamp: number) => string;
   shouldShowTimeSeparator: (message: Message, previousMessage?: Message) => boolean;
+  onRetry?: (messageId: string) => void;
 }
 
-export const MessageList: React.FC<MessageListProps> = ({ messages, formatTime, shouldShowTimeSeparator }) => {
+export const MessageList: React.FC<MessageListProps> = ({ messages, formatTime, shouldShowTimeSeparator, onRetry }) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Tooltip state
@@ -54,12 +55,22 @@ export const MessageList: React.FC<MessageListProps> = ({ messages, formatTime,
                 <div className="time-separator">{formatTime(message.timestamp)}</div>
               )}
               <div
-                className={`chat-message ${message.sender === MessageSender.USER ? 'sent' : 'received'} ${message.messageType === MessageType.SYSTEM ? `system ${message.systemType || ''}` : ''}`}
+                className={`chat-message ${message.sender === MessageSender.USER ? 'sent' : 'received'} ${message.messageType === MessageType.SYSTEM ? `system ${message.systemType || ''}` : ''} ${message.deliveryStatus === 'failed' ? 'failed' : ''} ${message.isStreaming ? 'streaming' : ''}`}
                 onMouseEnter={(e) => handleMessageMouseEnter(e, message)}
                 onMouseLeave={handleMessageMouseLeave}
               >
                 {message.text}
               </div>
+              {message.deliveryStatus === 'failed' && (
+                <div className="message-delivery-failed">
+                  <span>Not delivered</span>
+                  {onRetry && (
+                    <button type="button" className="message-retry-button" onClick={() => onRetry(message.id)}>
+                      Retry
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           );
         })}
@@ -0,0 +1,90 @@
+import React, { useRef } from 'react';
+import { IconButton } from '../shared';
+import { TranscriptExportFormat } from '../../types/transcript.types';
+
+interface TranscriptControlsProps {
+  connected: boolean;
+  hasTranscript: boolean;
+  isReviewing: boolean;
+  reviewLabel: string;
+  isHistoryOpen: boolean;
+  onToggleHistory: () => void;
+  onExport: (format: TranscriptExportFormat) => void;
+  onImport: (file: File) => void;
+  onCloseReview: () => void;
+}
+
+export const TranscriptControls: React.FC<TranscriptControlsProps> = ({
+  connected,
+  hasTranscript,
+  isReviewing,
+  reviewLabel,
+  isHistoryOpen,
+  onToggleHistory,
+  onExport,
+  onImport,
+  onCloseReview,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires a change
+    e.target.value = '';
+    if (file) {
+      onImport(file);
+    }
+  };
+
+  return (
+    <div className="transcript-toolbar">
+      <span className="transcript-toolbar-label">{isReviewing ? reviewLabel : 'Transcript'}</span>
+
+      {isReviewing ? (
+        <IconButton icon="close" onClick={onCloseReview} title="Close transcript review" />
+      ) : (
+        <>
+          <IconButton
+            icon="data_object"
+            onClick={() => onExport('json')}
+            disabled={!hasTranscript}
+            title="Export transcript as JSON"
+          />
+          <IconButton
+            icon="description"
+            onClick={() => onExport('markdown')}
+            disabled={!hasTranscript}
+            title="Export transcript as Markdown"
+          />
+          <IconButton
+            icon="subtitles"
+            onClick={() => onExport('webvtt')}
+            disabled={!hasTranscript}
+            title="Export avatar speech as WebVTT subtitles"
+          />
+          <IconButton
+            icon="upload_file"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={connected}
+            title={connected ? 'End the session to review a transcript' : 'Import a JSON transcript for review'}
+          />
+          <IconButton
+            icon="history"
+            onClick={onToggleHistory}
+            active={isHistoryOpen}
+            title={isHistoryOpen ? 'Back to chat' : 'Browse past conversations'}
+          />
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="transcript-file-input"
+            onChange={handleFileChange}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptControls;
@@ -1,6 +1,7 @@
 import { useEffect } from 'react';
 import { useStreamingContext } from '../../../hooks/useStreamingContext';
 import { SystemEventType, MessageSender } from '../../../hooks/useMessageState';
+import { AvatarResponse } from '../../../types/provider.interfaces';
 
 interface UseMessageHandlersProps {
   connected: boolean;
@@ -14,6 +15,7 @@ interface UseMessageHandlersProps {
     metadata?: Record<string, unknown>,
   ) => void;
   addChatMessage: (messageId: string, text: string, sender: MessageSender) => void;
+  applyAvatarResponse: (response: AvatarResponse) => void;
   clearMessages: () => void;
 }
 
@@ -22,9 +24,10 @@ export const useMessageHandlers = ({
   onSystemMessageCallback,
   addSystemMessage,
   addChatMessage,
+  applyAvatarResponse,
   clearMessages,
 }: UseMessageHandlersProps) => {
-  const { onSystemMessage, onChatMessage, onCommand } = useStreamingContext();
+  const { onSystemMessage, onChatMessage, onCommand, onAvatarResponse } = useStreamingContext();
 
   // Set up system message callback
   useEffect(() => {
@@ -48,13 +51,23 @@ export const useMessageHandlers = ({
   // Listen for chat messages from the provider (alternative to onMessageReceived)
   useEffect(() => {
     const unsubscribe = onChatMessage((event) => {
+      // Avatar replies arrive already assembled through onAvatarResponse
+      if (event.from === 'avatar') return;
+
       // Convert ChatMessageEvent to Message format and add to state
-      addChatMessage(event.messageId, event.text, event.from === 'avatar' ? MessageSender.AVATAR : MessageSender.USER);
+      addChatMessage(event.messageId, event.text, MessageSender.USER);
     });
 
     return unsubscribe;
   }, [onChatMessage, addChatMessage]);
 
+  // Listen for assembled avatar responses, which replace their bubble's text on every update
+  useEffect(() => {
+    const unsubscribe = onAvatarResponse(applyAvatarResponse);
+
+    return unsubscribe;
+  }, [onAvatarResponse, applyAvatarResponse]);
+
   // Listen for command events from the provider
   useEffect(() => {
     const unsubscribe = onCommand((event) => {
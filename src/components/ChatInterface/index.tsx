@@ -1,8 +1,14 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useMessageState } from '../../hooks/useMessageState';
+import { useTranscript, TranscriptSessionDetails } from '../../hooks/useTranscript';
+import { useConversationHistory } from '../../hooks/useConversationHistory';
+import { useNotifications } from '../../contexts/NotificationContext';
+import { logger } from '../../core/Logger';
 import { ResizableContainer } from '../shared';
 import MessageList from './MessageList';
 import ChatControls from './ChatControls';
+import TranscriptControls from './TranscriptControls';
+import HistoryPanel from './HistoryPanel';
 import { useMessageHandlers } from './hooks/useMessageHandlers';
 import './styles/index.css';
 
@@ -23,6 +29,7 @@ interface ChatInterfaceProps {
   onSystemMessageCallback?: (
     callback: (messageId: string, text: string, systemType: string, metadata?: Record<string, unknown>) => void,
   ) => void;
+  transcriptSession: TranscriptSessionDetails;
 }
 
 const ChatInterface: React.FC<ChatInterfaceProps> = ({
@@ -40,9 +47,14 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   isTextInputEnabled,
   isCameraInputEnabled,
   onSystemMessageCallback,
+  transcriptSession,
 }) => {
   // State for resizable height
   const [chatHeight, setChatHeight] = useState(400);
+  const [isReviewingTranscript, setIsReviewingTranscript] = useState(false);
+  const [reviewLabel, setReviewLabel] = useState('');
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const { showError } = useNotifications();
 
   // Initialize message state and handlers
   const {
@@ -50,9 +62,13 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     inputMessage,
     setInputMessage,
     sendMessage,
+    sendText,
+    retryMessage,
     addSystemMessage,
     addChatMessage,
+    applyAvatarResponse,
     clearMessages,
+    loadMessages,
     formatTime,
     shouldShowTimeSeparator,
   } = useMessageState({
@@ -65,9 +81,75 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     onSystemMessageCallback,
     addSystemMessage,
     addChatMessage,
+    applyAvatarResponse,
     clearMessages,
   });
 
+  const { hasTranscript, exportTranscript, importTranscript } = useTranscript({
+    connected,
+    messages,
+    sessionInfo: transcriptSession,
+    // A continuation session shows the conversation that ran out of time again
+    onSessionContinued: loadMessages,
+  });
+
+  const { conversations, refresh, openConversation, getPrompts, removeConversation, clearHistory } =
+    useConversationHistory();
+
+  const handleImportTranscript = async (file: File) => {
+    try {
+      loadMessages(await importTranscript(file));
+      setReviewLabel('Reviewing imported transcript');
+      setIsReviewingTranscript(true);
+      setIsHistoryOpen(false);
+    } catch (error) {
+      logger.warn('Failed to import transcript', { error, fileName: file.name });
+      showError(error instanceof Error ? error.message : String(error), 'Transcript Import Failed');
+    }
+  };
+
+  const handleToggleHistory = () => {
+    if (!isHistoryOpen) {
+      void refresh();
+    }
+    setIsHistoryOpen(!isHistoryOpen);
+  };
+
+  const handleOpenConversation = async (id: string) => {
+    const history = await openConversation(id);
+    if (!history) {
+      showError('The conversation could not be loaded', 'History Unavailable');
+      return;
+    }
+    loadMessages(history);
+    setReviewLabel('Reviewing saved conversation');
+    setIsReviewingTranscript(true);
+    setIsHistoryOpen(false);
+  };
+
+  const handleResend = async (text: string) => {
+    setIsHistoryOpen(false);
+    try {
+      await sendText(text);
+    } catch (error) {
+      logger.error('Failed to resend prompt', { error });
+      showError(error instanceof Error ? error.message : String(error), 'Message Not Sent');
+    }
+  };
+
+  const handleCloseReview = () => {
+    clearMessages();
+    setIsReviewingTranscript(false);
+  };
+
+  // A live session takes the list back from a transcript under review
+  useEffect(() => {
+    if (connected && isReviewingTranscript) {
+      clearMessages();
+      setIsReviewingTranscript(false);
+    }
+  }, [connected, isReviewingTranscript, clearMessages]);
+
   return (
     <ResizableContainer
       initialHeight={chatHeight}
@@ -75,7 +157,36 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       className="chat-window"
       showResizeText={true}
     >
-      <MessageList messages={messages} formatTime={formatTime} shouldShowTimeSeparator={shouldShowTimeSeparator} />
+      <TranscriptControls
+        connected={connected}
+        hasTranscript={hasTranscript}
+        isReviewing={isReviewingTranscript}
+        reviewLabel={reviewLabel}
+        isHistoryOpen={isHistoryOpen}
+        onToggleHistory={handleToggleHistory}
+        onExport={exportTranscript}
+        onImport={handleImportTranscript}
+        onCloseReview={handleCloseReview}
+      />
+
+      {isHistoryOpen ? (
+        <HistoryPanel
+          connected={connected}
+          conversations={conversations}
+          onOpen={handleOpenConversation}
+          onRemove={removeConversation}
+          onClear={clearHistory}
+          getPrompts={getPrompts}
+          onResend={handleResend}
+        />
+      ) : (
+        <MessageList
+          messages={messages}
+          formatTime={formatTime}
+          shouldShowTimeSeparator={shouldShowTimeSeparator}
+          onRetry={retryMessage}
+        />
+      )}
 
       <ChatControls
         connected={connected}
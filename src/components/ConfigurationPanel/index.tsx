@@ -6,22 +6,41 @@ import { useStreamingContext } from '../../hooks/useStreamingContext';
 import { useModal } from '../../contexts/useModal';
 import { ProviderSelector } from '../ProviderSelector';
 import AvatarSelector from '../AvatarSelector';
+import PreCallCheck from '../PreCallCheck';
+import { getApiErrorTitle } from '../../core/ApiTransport';
+import { StreamingError, ErrorCode } from '../../types/error.types';
+import type { QualityPolicyName } from '../../providers/common/QualityScorer';
 import './styles.css';
 
 interface ConfigurationPanelProps {
   isJoined: boolean;
   startStreaming: () => Promise<void>;
+  // Aborts a pending start, e.g. when the session request hangs
+  cancelStart?: () => void;
   closeStreaming: () => Promise<void>;
   api: ApiService | null | undefined;
 }
 
-const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ api, isJoined, startStreaming, closeStreaming }) => {
+const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({
+  api,
+  isJoined,
+  startStreaming,
+  cancelStart,
+  closeStreaming,
+}) => {
   const { showError } = useNotifications();
   const { switchProvider } = useStreamingContext();
   const { openVoiceDialog, openJsonEditor } = useModal();
 
   // Configuration from store
   const {
+    // Failover settings
+    autoFallback,
+    setAutoFallback,
+    fallbackOrder,
+    qualityPolicy,
+    setQualityPolicy,
+
     // OpenAPI settings
     openapiHost,
     setOpenapiHost,
@@ -29,6 +48,8 @@ const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ api, isJoined,
     setOpenapiCredential,
     authMethod,
     setAuthMethod,
+    apiProxyPath,
+    setApiProxyPath,
 
     // Avatar settings
     avatarId,
@@ -103,7 +124,7 @@ const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ api, isJoined,
   useEffect(() => {
     const validation = validateConfiguration();
     setValidationErrors(validation.errors);
-  }, [validateConfiguration, openapiCredential, openapiHost, avatarId, voiceId, knowledgeId]);
+  }, [validateConfiguration, openapiCredential, openapiHost, authMethod, apiProxyPath, avatarId, voiceId, knowledgeId]);
 
   // Update background URL input when store changes
   useEffect(() => {
@@ -126,7 +147,12 @@ const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ api, isJoined,
     try {
       await startStreaming();
     } catch (error) {
-      showError(`Failed to start streaming: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      // Cancelled on request, nothing to report
+      if (error instanceof StreamingError && error.code === ErrorCode.API_ABORTED) return;
+      showError(
+        `Failed to start streaming: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        getApiErrorTitle(error),
+      );
     } finally {
       setIsStarting(false);
     }
@@ -208,18 +234,44 @@ const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ api, isJoined,
               />
             </div>
 
-            {/* Host */}
+            {/* Auto Failover */}
             <div className="form-row">
-              <label>Host:</label>
-              <input
-                type="text"
-                placeholder="Enter API host"
-                value={openapiHost}
-                onChange={(e) => setOpenapiHost(e.target.value)}
-                disabled={isJoined}
-              />
+              <label>Auto Failover:</label>
+              <label className="auth-method-option">
+                <input
+                  type="checkbox"
+                  checked={autoFallback}
+                  onChange={(e) => setAutoFallback(e.target.checked)}
+                  disabled={isJoined}
+                />
+                <span>{fallbackOrder.join(' → ')}</span>
+              </label>
+            </div>
+
+            {/* Quality scoring, applied to the running session as well */}
+            <div className="form-row">
+              <label>Quality Scoring:</label>
+              <select value={qualityPolicy} onChange={(e) => setQualityPolicy(e.target.value as QualityPolicyName)}>
+                <option value="balanced">Balanced</option>
+                <option value="interactive">Interactive</option>
+                <option value="media">Media</option>
+              </select>
             </div>
 
+            {/* Host, not used when the proxy forwards the requests */}
+            {authMethod !== 'proxy' && (
+              <div className="form-row">
+                <label>Host:</label>
+                <input
+                  type="text"
+                  placeholder="Enter API host"
+                  value={openapiHost}
+                  onChange={(e) => setOpenapiHost(e.target.value)}
+                  disabled={isJoined}
+                />
+              </div>
+            )}
+
             {/* Authentication Method */}
             <div className="form-row">
               <label>Authentication:</label>
@@ -246,20 +298,44 @@ const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ api, isJoined,
                   />
                   <span>API Key</span>
                 </label>
+                <label className="auth-method-option">
+                  <input
+                    type="radio"
+                    name="authMethod"
+                    value="proxy"
+                    checked={authMethod === 'proxy'}
+                    onChange={(e) => setAuthMethod(e.target.value as 'proxy')}
+                    disabled={isJoined}
+                  />
+                  <span>Backend Proxy</span>
+                </label>
               </div>
             </div>
 
-            {/* Credential Input */}
-            <div className="form-row">
-              <label>{authMethod === 'token' ? 'Token:' : 'API Key:'}</label>
-              <input
-                type="password"
-                placeholder={authMethod === 'token' ? 'Enter API token' : 'Enter API key'}
-                value={openapiCredential}
-                onChange={(e) => setOpenapiCredential(e.target.value)}
-                disabled={isJoined}
-              />
-            </div>
+            {/* Credential Input, or the proxy path when the backend holds the credential */}
+            {authMethod === 'proxy' ? (
+              <div className="form-row">
+                <label>Proxy Path:</label>
+                <input
+                  type="text"
+                  placeholder="/akool-proxy"
+                  value={apiProxyPath}
+                  onChange={(e) => setApiProxyPath(e.target.value)}
+                  disabled={isJoined}
+                />
+              </div>
+            ) : (
+              <div className="form-row">
+                <label>{authMethod === 'token' ? 'Token:' : 'API Key:'}</label>
+                <input
+                  type="password"
+                  placeholder={authMethod === 'token' ? 'Enter API token' : 'Enter API key'}
+                  value={openapiCredential}
+                  onChange={(e) => setOpenapiCredential(e.target.value)}
+                  disabled={isJoined}
+                />
+              </div>
+            )}
           </div>
 
           {/* AVATAR & MEDIA Section */}
@@ -485,6 +561,7 @@ const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ api, isJoined,
 
         {/* Fixed Action Buttons */}
         <div className="fixed-button-area">
+          {!isJoined && <PreCallCheck api={api} />}
           <div className="buttons">
             {!isJoined ? (
               <button
@@ -499,6 +576,11 @@ const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ api, isJoined,
                 Stop Streaming
               </button>
             )}
+            {!isJoined && isStarting && cancelStart && (
+              <button onClick={cancelStart} className="button-off">
+                Cancel
+              </button>
+            )}
           </div>
         </div>
       </div>
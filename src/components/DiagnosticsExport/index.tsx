@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { useNotifications } from '../../contexts/NotificationContext';
+import { UseDiagnosticsExportReturn } from '../../hooks/useDiagnosticsExport';
+import { logger } from '../../core/Logger';
+import './styles.css';
+
+interface DiagnosticsExportProps {
+  diagnostics: UseDiagnosticsExportReturn;
+}
+
+const DiagnosticsExport: React.FC<DiagnosticsExportProps> = ({ diagnostics }) => {
+  const { isExporting, canIncludeAudio, exportDiagnostics } = diagnostics;
+  const { showError, showSuccess } = useNotifications();
+  const [isOpen, setIsOpen] = useState(false);
+  const [includeAudio, setIncludeAudio] = useState(false);
+
+  const handleExport = async () => {
+    try {
+      await exportDiagnostics({ includeAudio: includeAudio && canIncludeAudio });
+      showSuccess('Attach the downloaded file to your support request', 'Diagnostics Exported');
+    } catch (error) {
+      logger.error('Failed to export diagnostics', { error });
+      showError(error instanceof Error ? error.message : String(error), 'Export Failed');
+    }
+  };
+
+  return (
+    <>
+      <button
+        className="diagnostics-export-toggle"
+        onClick={() => setIsOpen(!isOpen)}
+        title={isOpen ? 'Hide diagnostics export' : 'Export diagnostics'}
+      >
+        <span className="material-icons">{isOpen ? 'close' : 'bug_report'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="diagnostics-export">
+          <label className="diagnostics-export-option" title={canIncludeAudio ? undefined : 'Needs a joined session'}>
+            <input
+              type="checkbox"
+              checked={includeAudio && canIncludeAudio}
+              disabled={!canIncludeAudio || isExporting}
+              onChange={(e) => setIncludeAudio(e.target.checked)}
+            />
+            Include audio dump
+          </label>
+          <button className="diagnostics-export-button" onClick={handleExport} disabled={isExporting}>
+            <span className="material-icons">download</span>
+            {isExporting ? 'Exporting...' : 'Export diagnostics'}
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default DiagnosticsExport;
@@ -11,85 +11,34 @@ import {
   Legend,
 } from 'chart.js';
 import { useStreamingContext } from '../../hooks/useStreamingContext';
-import { ConnectionQuality } from '../../types/streaming.types';
+import { NetworkStats } from '../../types/metrics.types';
+import { UseSessionMetricsReturn } from '../../hooks/useSessionMetrics';
+import { UseQualityAlertsReturn } from '../../hooks/useQualityAlerts';
+import { UseSessionLifecycleReturn } from '../../hooks/useSessionLifecycle';
+import { SESSION_LIFECYCLE_STEPS, SessionLifecycleStep } from '../../types/lifecycle.types';
 import './index.css';
 
 // Register ChartJS components
 ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend);
 
-// Unified network quality data structure
-export interface NetworkStats {
-  providerType?: string;
-  timestamp?: number;
-  connectionQuality?: ConnectionQuality | null;
-  localNetwork?: {
-    uplinkNetworkQuality: number;
-    downlinkNetworkQuality: number;
-  };
-  connection?: {
-    roundTripTime: number;
-    packetLossRate: number;
-  };
-  video?: {
-    codecType?: string;
-    transportDelay?: number;
-    end2EndDelay?: number;
-    receiveDelay?: number;
-    receiveFrameRate?: number;
-    receiveResolutionWidth?: number;
-    receiveResolutionHeight?: number;
-    receiveBitrate?: number;
-    packetLossRate?: number;
-    totalFreezeTime?: number;
-    freezeRate?: number;
-    sendFrameRate?: number;
-    sendResolutionWidth?: number;
-    sendResolutionHeight?: number;
-    sendBitrate?: number;
-    jitterBufferDelay?: number;
-  };
-  audio?: {
-    codecType?: string;
-    transportDelay?: number;
-    end2EndDelay?: number;
-    receiveDelay?: number;
-    receiveBitrate?: number;
-    packetLossRate?: number;
-    receiveLevel?: number;
-    sendBitrate?: number;
-    sampleRate?: number;
-    totalFreezeTime?: number;
-    freezeRate?: number;
-  };
-  // Optional detailed stats that may be available from some providers
-  detailedStats?: {
-    video?: {
-      codec?: string;
-      bitrate?: number;
-      frameRate?: number;
-      resolution?: { width: number; height: number };
-      packetLoss?: number;
-      rtt?: number;
-    };
-    audio?: {
-      codec?: string;
-      bitrate?: number;
-      packetLoss?: number;
-      volume?: number;
-      rtt?: number;
-    };
-    network?: {
-      rtt?: number;
-      packetLoss?: number;
-    };
-  };
-}
-
 interface NetworkQualityProps {
   // Optional prop for backward compatibility, but component will use context by default
   stats?: NetworkStats;
+  // The recorded session timeline; its summary stays available after the session ends
+  sessionMetrics?: UseSessionMetricsReturn;
+  qualityAlerts?: UseQualityAlertsReturn;
+  lifecycle?: UseSessionLifecycleReturn;
 }
 
+const LIFECYCLE_LABELS: Record<SessionLifecycleStep, string> = {
+  'session-created': 'Session created',
+  'provider-loaded': 'SDK loaded',
+  'rtc-joined': 'Joined',
+  'first-frame': 'First frame',
+  'params-acked': 'Params acked',
+  'first-audio': 'First audio',
+};
+
 interface LatencyDataPoint {
   timestamp: number;
   video: number;
@@ -97,7 +46,12 @@ interface LatencyDataPoint {
   index: number;
 }
 
-const NetworkQualityDisplay: React.FC<NetworkQualityProps> = ({ stats: propStats }) => {
+const NetworkQualityDisplay: React.FC<NetworkQualityProps> = ({
+  stats: propStats,
+  sessionMetrics,
+  qualityAlerts,
+  lifecycle,
+}) => {
   const { state } = useStreamingContext();
   const TIME_WINDOW = 120;
   const [isOpen, setIsOpen] = useState(false);
@@ -107,6 +61,7 @@ const NetworkQualityDisplay: React.FC<NetworkQualityProps> = ({ stats: propStats
   // Use context data by default, fallback to props for backward compatibility
   const networkQuality = state?.networkQuality || propStats?.connectionQuality;
   const detailedStats = state?.detailedNetworkStats || propStats?.detailedStats;
+  const sessionSummary = sessionMetrics?.getSummary() ?? null;
 
   const getQualityClass = (quality: 'excellent' | 'good' | 'fair' | 'poor') => {
     switch (quality) {
@@ -128,6 +83,11 @@ const NetworkQualityDisplay: React.FC<NetworkQualityProps> = ({ stats: propStats
     return `${(bitrate / 1000000).toFixed(1)} Mbps`;
   };
 
+  const formatMs = (ms: number | undefined) => {
+    if (ms === undefined) return '-';
+    return ms < 10000 ? `${ms.toFixed(0)}ms` : `${(ms / 1000).toFixed(1)}s`;
+  };
+
   const StatRow = ({ label, value }: { label: string; value: string | number }) => (
     <div>
       <span>{label}</span>
@@ -237,10 +197,105 @@ const NetworkQualityDisplay: React.FC<NetworkQualityProps> = ({ stats: propStats
   };
 
   // Don't render if no network quality data is available
-  if (!networkQuality) {
+  if (!networkQuality && !sessionSummary) {
     return null;
   }
 
+  const sessionSection = sessionSummary && sessionMetrics && (
+    <div className="connection-stats session-stats" onClick={(e) => e.stopPropagation()}>
+      <h4>Session</h4>
+      <StatRow label="Duration" value={formatMs(sessionSummary.durationMs)} />
+      <StatRow
+        label="RTT p50 / p95"
+        value={`${formatMs(sessionSummary.rtt.p50)} / ${formatMs(sessionSummary.rtt.p95)}`}
+      />
+      <StatRow
+        label="Freezes"
+        value={
+          sessionSummary.freezeRatio !== undefined
+            ? `${(sessionSummary.freezeRatio * 100).toFixed(1)}% (${formatMs(sessionSummary.freezeTime)})`
+            : '-'
+        }
+      />
+      <StatRow label="First frame" value={formatMs(sessionSummary.timeToFirstFrame)} />
+      <StatRow
+        label="Avatar speaking"
+        value={`${sessionSummary.speakingCount}x, ${formatMs(sessionSummary.speakingTime)}`}
+      />
+      <div className="session-export">
+        <button onClick={() => sessionMetrics.exportMetrics('json')} title="Export summary and timeline as JSON">
+          JSON
+        </button>
+        <button onClick={() => sessionMetrics.exportMetrics('csv')} title="Export the per-second timeline as CSV">
+          CSV
+        </button>
+      </div>
+    </div>
+  );
+
+  // Time from Start to each step, next to the provider's typical time from earlier sessions
+  const timeline = lifecycle?.timeline;
+  const typical = lifecycle?.summaries.find((summary) => summary.provider === timeline?.provider);
+  const lifecycleSection = timeline && (
+    <div className="connection-stats lifecycle-stats" onClick={(e) => e.stopPropagation()}>
+      <h4>Startup ({timeline.provider})</h4>
+      {SESSION_LIFECYCLE_STEPS.map((step) => (
+        <StatRow
+          key={step}
+          label={LIFECYCLE_LABELS[step]}
+          value={
+            typical?.medians[step] !== undefined
+              ? `${formatMs(timeline.marks[step])} (typ. ${formatMs(typical.medians[step])})`
+              : formatMs(timeline.marks[step])
+          }
+        />
+      ))}
+      {timeline.error && <div className="lifecycle-error">{timeline.error}</div>}
+    </div>
+  );
+
+  const alertsSection = qualityAlerts && (
+    <div className="connection-stats alert-stats" onClick={(e) => e.stopPropagation()}>
+      <h4>Alerts</h4>
+      {qualityAlerts.activeAlerts.length === 0 ? (
+        <StatRow label="Active" value="none" />
+      ) : (
+        qualityAlerts.activeAlerts.map((alert) => (
+          <div key={alert.rule.id} className={`active-alert ${alert.rule.severity ?? 'warning'}`} title={alert.message}>
+            <span>{alert.rule.id}</span>
+            <span>{Number.isInteger(alert.value) ? alert.value : alert.value.toFixed(1)}</span>
+          </div>
+        ))
+      )}
+      <div className="session-export">
+        <button onClick={qualityAlerts.editRules} title="Edit the network quality alert rules">
+          Rules
+        </button>
+      </div>
+    </div>
+  );
+
+  // After the session ends only the recorded summary is left to show
+  if (!networkQuality) {
+    return (
+      <>
+        <button
+          className="network-quality-toggle"
+          onClick={() => setIsOpen(!isOpen)}
+          title={isOpen ? 'Hide session stats' : 'Show session stats'}
+        >
+          <span className="material-icons">{isOpen ? 'insights' : 'bar_chart'}</span>
+        </button>
+        {isOpen && (
+          <div className="network-quality">
+            {lifecycleSection}
+            {sessionSection}
+          </div>
+        )}
+      </>
+    );
+  }
+
   return (
     <>
       <button
@@ -343,6 +398,9 @@ const NetworkQualityDisplay: React.FC<NetworkQualityProps> = ({ stats: propStats
                   </>
                 )}
               </div>
+              {alertsSection}
+              {lifecycleSection}
+              {sessionSection}
             </>
           )}
         </div>
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { ApiService } from '../../apiService';
+import { useStreamingContext } from '../../hooks/useStreamingContext';
+import { useNotifications } from '../../contexts/NotificationContext';
+import { useConfigurationStore } from '../../stores/configurationStore';
+import { PreCallDiagnostics, createDefaultPreCallChecks, formatDiagnosticsReport } from '../../diagnostics';
+import { DiagnosticResult, DiagnosticStatus, DiagnosticsReport } from '../../types/diagnostics.types';
+import { logger } from '../../core/Logger';
+import './styles.css';
+
+interface PreCallCheckProps {
+  api: ApiService | null | undefined;
+}
+
+const STATUS_ICONS: Record<DiagnosticStatus, string> = {
+  pass: 'check_circle',
+  warn: 'warning',
+  fail: 'cancel',
+  skip: 'remove_circle_outline',
+};
+
+const PreCallCheck: React.FC<PreCallCheckProps> = ({ api }) => {
+  const { providerType } = useStreamingContext();
+  const { avatarId, voiceId } = useConfigurationStore();
+  const { showError, showSuccess } = useNotifications();
+
+  const [runningCheck, setRunningCheck] = useState<string | null>(null);
+  const [results, setResults] = useState<DiagnosticResult[]>([]);
+  const [report, setReport] = useState<DiagnosticsReport | null>(null);
+
+  const handleRun = async () => {
+    const diagnostics = new PreCallDiagnostics(createDefaultPreCallChecks());
+    diagnostics.setCallbacks({
+      onCheckStart: (check) => setRunningCheck(check.name),
+      onCheckComplete: (result) => setResults((previous) => [...previous, result]),
+    });
+    setResults([]);
+    setReport(null);
+    setRunningCheck('');
+
+    try {
+      setReport(await diagnostics.run({ provider: providerType, api: api ?? null, avatarId, voiceId }));
+    } catch (error) {
+      logger.error('Pre-call diagnostics failed', { error });
+      showError(error instanceof Error ? error.message : String(error), 'Setup Check Failed');
+    } finally {
+      setRunningCheck(null);
+    }
+  };
+
+  const handleCopy = async (format: 'text' | 'json') => {
+    if (!report) return;
+    try {
+      await navigator.clipboard.writeText(
+        format === 'text' ? formatDiagnosticsReport(report) : JSON.stringify(report, null, 2),
+      );
+      showSuccess('Report copied to clipboard');
+    } catch (error) {
+      showError('Could not copy the report', 'Clipboard Unavailable');
+    }
+  };
+
+  const isRunning = runningCheck !== null;
+
+  return (
+    <div className="pre-call-check">
+      <div className="pre-call-check-header">
+        <button className="pre-call-check-button primary" onClick={handleRun} disabled={isRunning}>
+          {isRunning ? 'Checking...' : 'Check Setup'}
+        </button>
+        {report && (
+          <>
+            <span className={`pre-call-check-summary ${report.passed ? 'pass' : 'fail'}`}>
+              {report.summary.fail} fail, {report.summary.warn} warn
+            </span>
+            <button className="pre-call-check-button" onClick={() => handleCopy('text')}>
+              Copy
+            </button>
+            <button className="pre-call-check-button" onClick={() => handleCopy('json')}>
+              JSON
+            </button>
+          </>
+        )}
+      </div>
+
+      {(results.length > 0 || isRunning) && (
+        <ul className="pre-call-check-results">
+          {results.map((result) => (
+            <li key={result.id} className={`pre-call-check-result ${result.status}`} title={result.message}>
+              <span className="material-icons">{STATUS_ICONS[result.status]}</span>
+              <div className="pre-call-check-result-body">
+                <div>{result.name}</div>
+                <div className="pre-call-check-result-detail">{result.message}</div>
+              </div>
+            </li>
+          ))}
+          {runningCheck && (
+            <li className="pre-call-check-result running">
+              <span className="material-icons">hourglass_top</span>
+              <div className="pre-call-check-result-body">{runningCheck}</div>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PreCallCheck;
@@ -0,0 +1,235 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { useStreamingContext } from '../../hooks/useStreamingContext';
+import { useNotifications } from '../../contexts/NotificationContext';
+import { useModal } from '../../contexts/useModal';
+import { useConfigurationStore } from '../../stores/configurationStore';
+import {
+  ConversationScriptRunner,
+  createStreamingContextTarget,
+  describeStep,
+  parseConversationScript,
+} from '../../scripting';
+import { ConversationScript, ScriptRunReport, ScriptStepResult } from '../../types/conversationScript.types';
+import { logger } from '../../core/Logger';
+import './styles.css';
+
+interface ScriptRunnerPanelProps {
+  connected: boolean;
+}
+
+const EXAMPLE_SCRIPT: Record<string, unknown> = {
+  version: 1,
+  name: 'Example',
+  responseTimeoutMs: 30000,
+  steps: [
+    { type: 'prompt', text: 'Hello, who are you?', expect: { maxLatencyMs: 5000 } },
+    { type: 'wait', ms: 2000 },
+    { type: 'prompt', text: 'What can you help me with?', expect: { notContains: 'error' } },
+  ],
+};
+
+const STATUS_ICONS: Record<ScriptStepResult['status'], string> = {
+  passed: 'check_circle',
+  failed: 'cancel',
+  skipped: 'remove_circle_outline',
+};
+
+const ScriptRunnerPanel: React.FC<ScriptRunnerPanelProps> = ({ connected }) => {
+  const { sendMessage, sendInterrupt, setAvatarParameters, onAvatarResponse } = useStreamingContext();
+  const { showError, showSuccess } = useNotifications();
+  const { openJsonEditor } = useModal();
+  const { knowledgeId } = useConfigurationStore();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [source, setSource] = useState<Record<string, unknown>>(EXAMPLE_SCRIPT);
+  const [script, setScript] = useState<ConversationScript | null>(null);
+  const [scriptError, setScriptError] = useState('');
+  const [runningStep, setRunningStep] = useState<number | null>(null);
+  const [results, setResults] = useState<ScriptStepResult[]>([]);
+  const [report, setReport] = useState<ScriptRunReport | null>(null);
+  const runnerRef = useRef<ConversationScriptRunner | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    try {
+      setScript(parseConversationScript(source));
+      setScriptError('');
+    } catch (error) {
+      setScript(null);
+      setScriptError(error instanceof Error ? error.message : String(error));
+    }
+  }, [source]);
+
+  // Stop a run when the session it was driving goes away
+  useEffect(() => {
+    if (!connected) {
+      runnerRef.current?.abort();
+    }
+  }, [connected]);
+
+  const isRunning = runningStep !== null;
+  const knowledgeMismatch = !!script?.knowledgeId && script.knowledgeId !== knowledgeId;
+
+  const handleRun = async () => {
+    if (!script) return;
+
+    const runner = new ConversationScriptRunner(
+      createStreamingContextTarget({ sendMessage, sendInterrupt, setAvatarParameters, onAvatarResponse }),
+      {
+        onStepStart: (index) => setRunningStep(index),
+        onStepComplete: (result) => setResults((previous) => [...previous, result]),
+      },
+    );
+    runnerRef.current = runner;
+    setResults([]);
+    setReport(null);
+    setRunningStep(0);
+
+    try {
+      const runReport = await runner.run(script);
+      setReport(runReport);
+      if (runReport.passed) {
+        showSuccess(`All ${runReport.summary.passed} steps passed`, script.name);
+      } else {
+        showError(`${runReport.summary.failed} failed, ${runReport.summary.skipped} skipped`, script.name);
+      }
+    } catch (error) {
+      logger.error('Conversation script run failed', { error });
+      showError(error instanceof Error ? error.message : String(error), 'Script Run Failed');
+    } finally {
+      runnerRef.current = null;
+      setRunningStep(null);
+    }
+  };
+
+  const handleLoadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = JSON.parse(await file.text()) as unknown;
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('Script file must contain a JSON object');
+      }
+      setSource(parsed as Record<string, unknown>);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : String(error), 'Script Load Failed');
+    }
+  };
+
+  const handleCopyReport = async () => {
+    if (!report) return;
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(report, null, 2));
+      showSuccess('Report copied to clipboard');
+    } catch (error) {
+      showError('Could not copy the report', 'Clipboard Unavailable');
+    }
+  };
+
+  return (
+    <>
+      <button
+        className="script-runner-toggle"
+        onClick={() => setIsOpen(!isOpen)}
+        title={isOpen ? 'Hide conversation scripts' : 'Run a conversation script'}
+      >
+        <span className="material-icons">{isOpen ? 'close' : 'playlist_play'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="script-runner">
+          <div className="script-runner-header">
+            <span className="script-runner-title">{script?.name ?? 'Invalid script'}</span>
+            <button
+              className="script-runner-button"
+              onClick={() => openJsonEditor(source, setSource, 'Edit Conversation Script')}
+              disabled={isRunning}
+            >
+              Edit
+            </button>
+            <button className="script-runner-button" onClick={() => fileInputRef.current?.click()} disabled={isRunning}>
+              Load
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="script-runner-file-input"
+              onChange={handleLoadFile}
+            />
+            {isRunning ? (
+              <button className="script-runner-button danger" onClick={() => runnerRef.current?.abort()}>
+                Stop
+              </button>
+            ) : (
+              <button
+                className="script-runner-button primary"
+                onClick={handleRun}
+                disabled={!connected || !script}
+                title={connected ? 'Run against the current session' : 'Start a session to run the script'}
+              >
+                Run
+              </button>
+            )}
+          </div>
+
+          {scriptError && <div className="script-runner-error">{scriptError}</div>}
+          {knowledgeMismatch && (
+            <div className="script-runner-warning">
+              Script targets knowledge base {script?.knowledgeId}, session uses {knowledgeId || 'none'}
+            </div>
+          )}
+
+          <ol className="script-runner-steps">
+            {script?.steps.map((step, index) => {
+              // Results stream in while running; steps not reached yet show as pending
+              const result = results.find((stepResult) => stepResult.index === index);
+              const status = result?.status ?? (runningStep === index ? 'running' : 'pending');
+              return (
+                <li key={index} className={`script-runner-step ${status}`}>
+                  <span className="material-icons">
+                    {result
+                      ? STATUS_ICONS[result.status]
+                      : status === 'running'
+                        ? 'hourglass_top'
+                        : 'radio_button_unchecked'}
+                  </span>
+                  <div className="script-runner-step-body">
+                    <div>{describeStep(step)}</div>
+                    {result?.latencyMs !== undefined && (
+                      <div className="script-runner-step-detail">
+                        first reply {result.latencyMs}ms
+                        {result.completionMs !== undefined ? `, complete ${result.completionMs}ms` : ''}
+                      </div>
+                    )}
+                    {result?.failures.map((failure, failureIndex) => (
+                      <div key={failureIndex} className="script-runner-step-failure">
+                        {failure}
+                      </div>
+                    ))}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+
+          {report && (
+            <div className="script-runner-footer">
+              <span className={report.passed ? 'passed' : 'failed'}>
+                {report.passed ? 'Passed' : report.aborted ? 'Stopped' : 'Failed'} · {report.summary.passed} passed,{' '}
+                {report.summary.failed} failed, {report.summary.skipped} skipped
+              </span>
+              <button className="script-runner-button" onClick={handleCopyReport}>
+                Copy report
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ScriptRunnerPanel;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { UseSessionTimeLimitReturn } from '../../../hooks/useSessionTimeLimit';
+
+// Under a minute left, the countdown turns red
+const URGENT_REMAINING_MS = 60000;
+
+export interface SessionCountdownProps {
+  sessionTime: UseSessionTimeLimitReturn;
+  className?: string;
+}
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const SessionCountdown: React.FC<SessionCountdownProps> = ({ sessionTime, className = '' }) => {
+  const { status, isContinuing, continueSession, dismissExpired } = sessionTime;
+  if (!status) {
+    return null;
+  }
+
+  if (status.expired) {
+    return (
+      <div className={['session-countdown', 'expired', className].filter(Boolean).join(' ')}>
+        <span>Session ended</span>
+        {status.canContinue && (
+          <button type="button" onClick={continueSession} disabled={isContinuing}>
+            {isContinuing ? 'Starting…' : 'Continue'}
+          </button>
+        )}
+        <button type="button" className="session-countdown-dismiss" onClick={dismissExpired} aria-label="Dismiss">
+          ×
+        </button>
+      </div>
+    );
+  }
+
+  const classes = ['session-countdown', status.remainingMs <= URGENT_REMAINING_MS && 'urgent', className]
+    .filter(Boolean)
+    .join(' ');
+  return (
+    <div className={classes} title="Time left in this session">
+      {formatCountdown(status.remainingMs)}
+    </div>
+  );
+};
+
+export default SessionCountdown;
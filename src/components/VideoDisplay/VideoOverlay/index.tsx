@@ -1,6 +1,8 @@
 import React, { useRef } from 'react';
 import { DraggableOverlay } from '../../shared';
 import { AvatarContent } from '../MainVideoArea/AvatarContent';
+import { SessionCountdown } from './SessionCountdown';
+import { UseSessionTimeLimitReturn } from '../../../hooks/useSessionTimeLimit';
 import './styles.css';
 
 export interface VideoOverlayProps {
@@ -11,6 +13,7 @@ export interface VideoOverlayProps {
   placeholderVideoError: boolean;
   onViewSwitch: (e: React.MouseEvent) => void;
   containerRef: React.RefObject<HTMLDivElement>;
+  sessionTime?: UseSessionTimeLimitReturn;
   className?: string;
   style?: React.CSSProperties;
 }
@@ -23,6 +26,7 @@ export const VideoOverlay: React.FC<VideoOverlayProps> = ({
   placeholderVideoError,
   onViewSwitch,
   containerRef,
+  sessionTime,
   className = '',
   style = {},
 }) => {
@@ -100,6 +104,7 @@ export const VideoOverlay: React.FC<VideoOverlayProps> = ({
           </>
         )}
       </div>
+      {sessionTime && <SessionCountdown sessionTime={sessionTime} className="in-overlay" />}
     </DraggableOverlay>
   );
 };
@@ -4,6 +4,8 @@ import { useStreamingContext } from '../../hooks/useStreamingContext';
 import { useProviderAwareRemoteVideoState } from '../../hooks/useProviderAwareRemoteVideoState';
 import { MainVideoArea } from './MainVideoArea';
 import { VideoOverlay } from './VideoOverlay';
+import { SessionCountdown } from './VideoOverlay/SessionCountdown';
+import { UseSessionTimeLimitReturn } from '../../hooks/useSessionTimeLimit';
 import './styles.css';
 import { logger } from '../../core';
 
@@ -12,9 +14,18 @@ interface VideoDisplayProps {
   avatarVideoUrl: string;
   localVideoTrack: VideoTrack | null;
   cameraEnabled: boolean;
+  onRemoteVideoPlayingChange?: (isPlaying: boolean) => void;
+  sessionTime?: UseSessionTimeLimitReturn;
 }
 
-const VideoDisplay: React.FC<VideoDisplayProps> = ({ isJoined, avatarVideoUrl, localVideoTrack, cameraEnabled }) => {
+const VideoDisplay: React.FC<VideoDisplayProps> = ({
+  isJoined,
+  avatarVideoUrl,
+  localVideoTrack,
+  cameraEnabled,
+  onRemoteVideoPlayingChange,
+  sessionTime,
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const { isAvatarSpeaking, provider, providerType } = useStreamingContext();
 
@@ -27,6 +38,10 @@ const VideoDisplay: React.FC<VideoDisplayProps> = ({ isJoined, avatarVideoUrl, l
     videoElementId: 'remote-video',
   });
 
+  useEffect(() => {
+    onRemoteVideoPlayingChange?.(isRemoteVideoPlaying);
+  }, [isRemoteVideoPlaying, onRemoteVideoPlayingChange]);
+
   // State for placeholder video loading
   const [isPlaceholderVideoLoading, setIsPlaceholderVideoLoading] = useState(false);
   const [placeholderVideoError, setPlaceholderVideoError] = useState(false);
@@ -158,6 +173,9 @@ const VideoDisplay: React.FC<VideoDisplayProps> = ({ isJoined, avatarVideoUrl, l
         providerType={providerType}
       />
 
+      {/* The countdown rides on the camera overlay while it is shown, and sits in the corner otherwise */}
+      {sessionTime && !(cameraEnabled && localVideoTrack) && <SessionCountdown sessionTime={sessionTime} />}
+
       {cameraEnabled && localVideoTrack && (
         <VideoOverlay
           isViewSwitched={isViewSwitched}
@@ -167,6 +185,7 @@ const VideoDisplay: React.FC<VideoDisplayProps> = ({ isJoined, avatarVideoUrl, l
           placeholderVideoError={placeholderVideoError}
           onViewSwitch={handleViewSwitch}
           containerRef={containerRef}
+          sessionTime={sessionTime}
         />
       )}
     </div>
@@ -6,10 +6,18 @@ import type {
   SystemMessageEvent,
   ChatMessageEvent,
   CommandEvent,
+  MessageDeliveryEvent,
+  CustomMessageEvent,
+  AvatarResponse,
 } from '../types/provider.interfaces';
 import { StreamProviderType, StreamingState, VideoTrack, AudioTrack, ChatMessage } from '../types/streaming.types';
-import { providerManager } from '../providers/ProviderManager';
+import { StreamingEventMap } from '../types/event.types';
+import { VideoAdaptationEvent } from '../types/adaptiveVideo.types';
+import { providerManager, FailoverPrepareCallback, FailoverReleaseCallback } from '../providers/ProviderManager';
 import { logger } from '../core/Logger';
+import { globalEventBus } from '../core/EventBus';
+import { sessionLifecycle } from '../metrics';
+import { credentialManager } from '../credentials';
 
 export interface StreamingContextType {
   // Current provider state
@@ -23,6 +31,11 @@ export interface StreamingContextType {
   switchProvider: (type: StreamProviderType) => Promise<void>;
   connect: (credentials: StreamingCredentials) => Promise<void>;
   disconnect: () => Promise<void>;
+  connectWithFailover: (
+    candidates: StreamProviderType[],
+    prepare: FailoverPrepareCallback,
+    release: FailoverReleaseCallback,
+  ) => Promise<StreamProviderType>;
 
   // Media controls
   publishVideo: (track: VideoTrack) => Promise<void>;
@@ -31,19 +44,27 @@ export interface StreamingContextType {
   unpublishAudio: () => Promise<void>;
 
   // Communication
-  sendMessage: (content: string) => Promise<void>;
+  sendMessage: (content: string, messageId?: string) => Promise<void>;
   sendInterrupt: () => Promise<void>;
   setAvatarParameters: (metadata: Record<string, unknown>) => Promise<void>;
 
   // Avatar state
   isAvatarSpeaking: boolean;
   setIsAvatarSpeaking: (speaking: boolean) => void;
+  // Latest avatar reply, updated as chunks and speaking events arrive
+  avatarResponse: AvatarResponse | null;
 
   // Message handling
   onMessageReceived: (callback: (message: ChatMessage) => void) => () => void;
   onSystemMessage: (callback: (event: SystemMessageEvent) => void) => () => void;
   onChatMessage: (callback: (event: ChatMessageEvent) => void) => () => void;
   onCommand: (callback: (event: CommandEvent) => void) => () => void;
+  onMessageDelivery: (callback: (event: MessageDeliveryEvent) => void) => () => void;
+  onCustomMessage: (callback: (event: CustomMessageEvent) => void) => () => void;
+  onAvatarResponse: (callback: (response: AvatarResponse) => void) => () => void;
+  onFailover: (callback: (event: StreamingEventMap['connection:failover']) => void) => () => void;
+  onFailoverResult: (callback: (event: StreamingEventMap['connection:failover-result']) => void) => () => void;
+  onVideoAdapted: (callback: (event: VideoAdaptationEvent) => void) => () => void;
 }
 
 // eslint-disable-next-line react-refresh/only-export-components
@@ -67,12 +88,17 @@ export const StreamingContextProvider: React.FC<StreamingContextProviderProps> =
 
   // Avatar speaking state
   const [isAvatarSpeaking, setIsAvatarSpeaking] = useState(false);
+  const [avatarResponse, setAvatarResponse] = useState<AvatarResponse | null>(null);
 
   // Message callback systems
   const messageCallbacks = useRef<Set<(message: ChatMessage) => void>>(new Set());
   const systemMessageCallbacks = useRef<Set<(event: SystemMessageEvent) => void>>(new Set());
   const chatMessageCallbacks = useRef<Set<(event: ChatMessageEvent) => void>>(new Set());
   const commandCallbacks = useRef<Set<(event: CommandEvent) => void>>(new Set());
+  const deliveryCallbacks = useRef<Set<(event: MessageDeliveryEvent) => void>>(new Set());
+  const customMessageCallbacks = useRef<Set<(event: CustomMessageEvent) => void>>(new Set());
+  const avatarResponseCallbacks = useRef<Set<(response: AvatarResponse) => void>>(new Set());
+  const videoAdaptedCallbacks = useRef<Set<(event: VideoAdaptationEvent) => void>>(new Set());
 
   // Subscribe to provider manager events
   useEffect(() => {
@@ -136,6 +162,83 @@ export const StreamingContextProvider: React.FC<StreamingContextProviderProps> =
     }
   }, []);
 
+  const createEventHandlers = useCallback(
+    (errorLabel: string): StreamingEventHandlers => ({
+      onSpeakingStateChanged: (isSpeaking) => {
+        // Speaking starts with the avatar's audio_start event
+        if (isSpeaking) sessionLifecycle.mark('first-audio');
+        setIsAvatarSpeaking(isSpeaking);
+      },
+      onReconnecting: () => {
+        logger.warn('Provider connection lost, reconnecting');
+      },
+      onReconnected: () => {
+        logger.info('Provider connection restored');
+        setError(null);
+      },
+      onError: (error) => {
+        logger.error(errorLabel, { error });
+        // Kept in the global event history for diagnostics exports
+        globalEventBus.publish('system:error', { error });
+        setError(error);
+      },
+      onMessageReceived: (message) => {
+        logger.info('Message received from provider', {
+          messageId: message.id,
+          content: message.content.substring(0, 100),
+          fromParticipant: message.fromParticipant,
+          type: message.type,
+        });
+        messageCallbacks.current.forEach((callback) => callback(message));
+      },
+      onSystemMessage: (event) => {
+        logger.debug('System message received from provider', { event });
+        systemMessageCallbacks.current.forEach((callback) => callback(event));
+      },
+      onChatMessage: (event) => {
+        logger.info('Chat message received from provider', {
+          messageId: event.messageId,
+          text: event.text.substring(0, 100),
+          from: event.from,
+        });
+        chatMessageCallbacks.current.forEach((callback) => callback(event));
+      },
+      onCommand: (event) => {
+        logger.debug('Command event received from provider', { event });
+        commandCallbacks.current.forEach((callback) => callback(event));
+      },
+      onMessageDelivery: (event) => {
+        logger.debug('Message delivery status changed', {
+          messageId: event.messageId,
+          status: event.status,
+          attempts: event.attempts,
+        });
+        deliveryCallbacks.current.forEach((callback) => callback(event));
+      },
+      onCustomMessage: (event) => {
+        logger.debug('Custom message received from provider', { version: event.version, type: event.type });
+        customMessageCallbacks.current.forEach((callback) => callback(event));
+      },
+      onAvatarResponse: (response) => {
+        logger.debug('Avatar response updated', {
+          responseId: response.responseId,
+          status: response.status,
+          chunks: response.receivedChunks,
+        });
+        setAvatarResponse(response);
+        avatarResponseCallbacks.current.forEach((callback) => callback(response));
+      },
+      onVideoAdapted: (event) => {
+        logger.info('Local camera adapted to uplink', { action: event.action, from: event.from, to: event.to });
+        videoAdaptedCallbacks.current.forEach((callback) => callback(event));
+      },
+      onTokenWillExpire: (remainingMs) => {
+        credentialManager.handleTokenWillExpire('rtc', remainingMs);
+      },
+    }),
+    [],
+  );
+
   const connect = useCallback(
     async (credentials: StreamingCredentials) => {
       setIsLoading(true);
@@ -146,79 +249,36 @@ export const StreamingContextProvider: React.FC<StreamingContextProviderProps> =
         if (!provider) {
           logger.info('No provider available, creating provider', { providerType });
 
-          const eventHandlers: StreamingEventHandlers = {
-            onSpeakingStateChanged: setIsAvatarSpeaking,
-            onError: (error) => {
-              logger.error('Provider error', { error });
-              setError(error);
-            },
-            onMessageReceived: (message) => {
-              logger.info('Message received from provider', {
-                messageId: message.id,
-                content: message.content.substring(0, 100),
-                fromParticipant: message.fromParticipant,
-                type: message.type,
-              });
-              messageCallbacks.current.forEach((callback) => callback(message));
-            },
-            onSystemMessage: (event) => {
-              logger.debug('System message received from provider', { event });
-              systemMessageCallbacks.current.forEach((callback) => callback(event));
-            },
-            onChatMessage: (event) => {
-              logger.info('Chat message received from provider', {
-                messageId: event.messageId,
-                text: event.text.substring(0, 100),
-                from: event.from,
-              });
-              chatMessageCallbacks.current.forEach((callback) => callback(event));
-            },
-            onCommand: (event) => {
-              logger.debug('Command event received from provider', { event });
-              commandCallbacks.current.forEach((callback) => callback(event));
-            },
-          };
-
           // Use provider manager to create and connect the provider
-          await providerManager.switchProvider(providerType, credentials, eventHandlers);
+          await providerManager.switchProvider(providerType, credentials, createEventHandlers('Provider error'));
           return;
         }
 
         // Provider exists, just connect it
-        const eventHandlers: StreamingEventHandlers = {
-          onSpeakingStateChanged: setIsAvatarSpeaking,
-          onError: (error) => {
-            logger.error('Connection error', { error });
-            setError(error);
-          },
-          onMessageReceived: (message) => {
-            logger.info('Message received from provider', {
-              messageId: message.id,
-              content: message.content.substring(0, 100),
-              fromParticipant: message.fromParticipant,
-              type: message.type,
-            });
-            messageCallbacks.current.forEach((callback) => callback(message));
-          },
-          onSystemMessage: (event) => {
-            logger.debug('System message received from provider', { event });
-            systemMessageCallbacks.current.forEach((callback) => callback(event));
-          },
-          onChatMessage: (event) => {
-            logger.info('Chat message received from provider', {
-              messageId: event.messageId,
-              text: event.text.substring(0, 100),
-              from: event.from,
-            });
-            chatMessageCallbacks.current.forEach((callback) => callback(event));
-          },
-          onCommand: (event) => {
-            logger.debug('Command event received from provider', { event });
-            commandCallbacks.current.forEach((callback) => callback(event));
-          },
-        };
-
-        await provider.connect(credentials, eventHandlers);
+        await provider.connect(credentials, createEventHandlers('Connection error'));
+      } catch (err) {
+        setError(err as Error);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [provider, providerType, createEventHandlers],
+  );
+
+  const connectWithFailover = useCallback(
+    async (candidates: StreamProviderType[], prepare: FailoverPrepareCallback, release: FailoverReleaseCallback) => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        logger.info('Connecting with provider failover', { candidates });
+        return await providerManager.connectWithFailover(
+          candidates,
+          prepare,
+          release,
+          createEventHandlers('Provider error'),
+        );
       } catch (err) {
         setError(err as Error);
         throw err;
@@ -226,7 +286,7 @@ export const StreamingContextProvider: React.FC<StreamingContextProviderProps> =
         setIsLoading(false);
       }
     },
-    [provider, providerType],
+    [createEventHandlers],
   );
 
   const disconnect = useCallback(async () => {
@@ -236,11 +296,13 @@ export const StreamingContextProvider: React.FC<StreamingContextProviderProps> =
       await provider.disconnect();
       // Clear speaking state when disconnecting
       setIsAvatarSpeaking(false);
+      setAvatarResponse(null);
     } catch (err) {
       logger.error('Failed to disconnect', { err });
       setError(err as Error);
       // Clear speaking state even on error
       setIsAvatarSpeaking(false);
+      setAvatarResponse(null);
     }
   }, [provider]);
 
@@ -275,11 +337,11 @@ export const StreamingContextProvider: React.FC<StreamingContextProviderProps> =
   }, [provider]);
 
   const sendMessage = useCallback(
-    async (content: string) => {
+    async (content: string, messageId?: string) => {
       if (!provider) {
         throw new Error('No provider available for sending message');
       }
-      await provider.sendMessage(content);
+      await provider.sendMessage(content, messageId);
     },
     [provider],
   );
@@ -305,6 +367,14 @@ export const StreamingContextProvider: React.FC<StreamingContextProviderProps> =
     setIsAvatarSpeaking(speaking);
   }, []);
 
+  const onFailover = useCallback((callback: (event: StreamingEventMap['connection:failover']) => void) => {
+    return providerManager.on('connection:failover', callback);
+  }, []);
+
+  const onFailoverResult = useCallback((callback: (event: StreamingEventMap['connection:failover-result']) => void) => {
+    return providerManager.on('connection:failover-result', callback);
+  }, []);
+
   // Message handling
   const onMessageReceived = useCallback((callback: (message: ChatMessage) => void) => {
     messageCallbacks.current.add(callback);
@@ -334,6 +404,34 @@ export const StreamingContextProvider: React.FC<StreamingContextProviderProps> =
     };
   }, []);
 
+  const onMessageDelivery = useCallback((callback: (event: MessageDeliveryEvent) => void) => {
+    deliveryCallbacks.current.add(callback);
+    return () => {
+      deliveryCallbacks.current.delete(callback);
+    };
+  }, []);
+
+  const onCustomMessage = useCallback((callback: (event: CustomMessageEvent) => void) => {
+    customMessageCallbacks.current.add(callback);
+    return () => {
+      customMessageCallbacks.current.delete(callback);
+    };
+  }, []);
+
+  const onAvatarResponse = useCallback((callback: (response: AvatarResponse) => void) => {
+    avatarResponseCallbacks.current.add(callback);
+    return () => {
+      avatarResponseCallbacks.current.delete(callback);
+    };
+  }, []);
+
+  const onVideoAdapted = useCallback((callback: (event: VideoAdaptationEvent) => void) => {
+    videoAdaptedCallbacks.current.add(callback);
+    return () => {
+      videoAdaptedCallbacks.current.delete(callback);
+    };
+  }, []);
+
   return (
     <StreamingContext.Provider
       value={{
@@ -346,6 +444,7 @@ export const StreamingContextProvider: React.FC<StreamingContextProviderProps> =
         switchProvider,
         connect,
         disconnect,
+        connectWithFailover,
 
         publishVideo,
         unpublishVideo,
@@ -358,11 +457,18 @@ export const StreamingContextProvider: React.FC<StreamingContextProviderProps> =
 
         isAvatarSpeaking,
         setIsAvatarSpeaking: handleSetIsAvatarSpeaking,
+        avatarResponse,
 
         onMessageReceived,
         onSystemMessage,
         onChatMessage,
         onCommand,
+        onMessageDelivery,
+        onCustomMessage,
+        onAvatarResponse,
+        onFailover,
+        onFailoverResult,
+        onVideoAdapted,
       }}
     >
       {children}
@@ -0,0 +1,254 @@
+import { StreamingError, ErrorCode } from '../types/error.types';
+import { ErrorMapper } from '../errors/ErrorMapper';
+import { logger } from './Logger';
+import { formatValidationIssue, validate, ValidationMode, Validator } from '../validation';
+
+export interface ApiTransportOptions {
+  // Per attempt; a retried call can take longer in total
+  timeoutMs: number;
+  // Attempts after the first, only for idempotent requests
+  maxRetries: number;
+  // Full jitter: each wait is random up to retryBaseDelayMs * 2^attempt, capped at retryMaxDelayMs
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  // What to do when data does not match the request's schema
+  validationMode: ValidationMode;
+}
+
+export const DEFAULT_API_TRANSPORT_OPTIONS: ApiTransportOptions = {
+  timeoutMs: 15000,
+  maxRetries: 2,
+  retryBaseDelayMs: 500,
+  retryMaxDelayMs: 5000,
+  validationMode: 'lenient',
+};
+
+// Issues kept on a warning or error; one broken field in a long list would otherwise repeat per item
+const MAX_REPORTED_ISSUES = 20;
+
+export interface ApiRequestOptions {
+  // Cancels the request, including a pending retry
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Defaults to true for GET; a POST that may already have been applied is never repeated unless marked
+  idempotent?: boolean;
+}
+
+export interface ApiRequest<T = unknown> extends ApiRequestOptions {
+  url: string;
+  method: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  body?: object;
+  // Checked against the envelope's data before it is returned
+  schema?: Validator<T>;
+}
+
+// Failures worth another attempt: the server never answered or said it could not right now
+const TRANSIENT_ERROR_CODES: string[] = [
+  ErrorCode.API_NETWORK_ERROR,
+  ErrorCode.API_TIMEOUT,
+  ErrorCode.API_SERVER_ERROR,
+  ErrorCode.API_RATE_LIMITED,
+];
+
+export const isTransientApiError = (error: unknown) =>
+  error instanceof StreamingError && TRANSIENT_ERROR_CODES.includes(error.code);
+
+// Short titles for notifications, so an auth failure reads differently from an outage
+const API_ERROR_TITLES: Record<string, string> = {
+  [ErrorCode.API_AUTH_FAILED]: 'Authentication Failed',
+  [ErrorCode.API_QUOTA_EXCEEDED]: 'Quota Exceeded',
+  [ErrorCode.API_RATE_LIMITED]: 'Too Many Requests',
+  [ErrorCode.API_SERVER_ERROR]: 'Service Unavailable',
+  [ErrorCode.API_NETWORK_ERROR]: 'Network Error',
+  [ErrorCode.API_TIMEOUT]: 'Request Timed Out',
+};
+
+export const getApiErrorTitle = (error: unknown): string =>
+  (error instanceof StreamingError && API_ERROR_TITLES[error.code]) || 'API Error';
+
+const abortedError = (url: string) => new StreamingError(ErrorCode.API_ABORTED, 'Request was cancelled', { url });
+
+/**
+ * Sends Akool OpenAPI requests and unwraps the { code, msg, data } envelope.
+ * Every attempt has its own timeout; idempotent requests are retried after network failures, timeouts,
+ * 429 and 5xx with jittered exponential backoff. All failures surface as StreamingError with an API_* code.
+ * Data is checked against the request's schema: strict mode fails the call, lenient mode logs and carries on.
+ */
+export class ApiTransport {
+  private options: ApiTransportOptions;
+  private random: () => number;
+
+  constructor(options: Partial<ApiTransportOptions> = {}, random: () => number = Math.random) {
+    this.options = { ...DEFAULT_API_TRANSPORT_OPTIONS, ...options };
+    this.random = random;
+  }
+
+  async request<T>(request: ApiRequest<T>): Promise<T> {
+    const idempotent = request.idempotent ?? request.method === 'GET';
+    const maxRetries = idempotent ? this.options.maxRetries : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(request);
+      } catch (error) {
+        if (attempt >= maxRetries || !isTransientApiError(error)) {
+          throw error;
+        }
+
+        const ceiling = Math.min(this.options.retryMaxDelayMs, this.options.retryBaseDelayMs * 2 ** attempt);
+        const delayMs = Math.round(this.random() * ceiling);
+        logger.warn('Retrying API request', {
+          method: request.method,
+          url: request.url,
+          attempt: attempt + 1,
+          delayMs,
+          code: (error as StreamingError).code,
+        });
+        await this.wait(delayMs, request);
+      }
+    }
+  }
+
+  private async send<T>(request: ApiRequest<T>): Promise<T> {
+    const { url, method, signal } = request;
+    if (signal?.aborted) {
+      throw abortedError(url);
+    }
+
+    const timeoutMs = request.timeoutMs ?? this.options.timeoutMs;
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort);
+
+    let response: Response;
+    let responseText: string;
+    try {
+      response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json', ...request.headers },
+        body: request.body ? JSON.stringify(request.body) : undefined,
+        signal: controller.signal,
+      });
+      responseText = await response.text();
+    } catch (error) {
+      if (timedOut) {
+        throw new StreamingError(ErrorCode.API_TIMEOUT, `No response within ${timeoutMs / 1000}s`, {
+          method,
+          url,
+          timeoutMs,
+        });
+      }
+      if (signal?.aborted) {
+        throw abortedError(url);
+      }
+      throw new StreamingError(ErrorCode.API_NETWORK_ERROR, 'Could not reach the API', {
+        method,
+        url,
+        cause: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(responseText);
+    } catch (error) {
+      // Gateways answer outages with HTML, which says less than the status
+      if (!response.ok) {
+        throw ErrorMapper.mapApiError(null, { status: response.status, method, endpoint: url });
+      }
+      throw new StreamingError(
+        ErrorCode.API_INVALID_RESPONSE,
+        `Invalid JSON response: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { method, url, status: response.status },
+      );
+    }
+
+    if (!response.ok) {
+      throw ErrorMapper.mapApiError(body, { status: response.status, method, endpoint: url });
+    }
+
+    // Validate response structure
+    const envelope = body as Record<string, unknown> | null;
+    if (typeof envelope !== 'object' || envelope === null) {
+      throw new StreamingError(ErrorCode.API_INVALID_RESPONSE, 'Invalid API response: not an object', { url });
+    }
+    if (typeof envelope.code !== 'number') {
+      throw new StreamingError(ErrorCode.API_INVALID_RESPONSE, 'Invalid API response: missing or invalid code', {
+        url,
+      });
+    }
+    if (typeof envelope.msg !== 'string') {
+      throw new StreamingError(ErrorCode.API_INVALID_RESPONSE, 'Invalid API response: missing or invalid msg', {
+        url,
+      });
+    }
+
+    if (envelope.code !== 1000) {
+      throw ErrorMapper.mapApiError(envelope, { status: response.status, method, endpoint: url });
+    }
+
+    if (!('data' in envelope)) {
+      throw new StreamingError(ErrorCode.API_INVALID_RESPONSE, 'Invalid API response: missing data', { url });
+    }
+
+    return this.checkSchema(request, envelope.data);
+  }
+
+  private checkSchema<T>({ url, method, schema }: ApiRequest<T>, data: unknown): T {
+    if (!schema || this.options.validationMode === 'off') {
+      return data as T;
+    }
+
+    const issues = validate(schema, data);
+    const [first, ...rest] = issues;
+    if (!first) {
+      return data as T;
+    }
+
+    const reported = issues.slice(0, MAX_REPORTED_ISSUES);
+    if (this.options.validationMode === 'strict') {
+      const more = rest.length > 0 ? ` and ${rest.length} more` : '';
+      throw new StreamingError(
+        ErrorCode.API_INVALID_RESPONSE,
+        `Unexpected response from ${url}: ${formatValidationIssue(first)}${more}`,
+        { method, url, issueCount: issues.length, issues: reported },
+      );
+    }
+
+    logger.warn('API response does not match its schema', {
+      method,
+      url,
+      issueCount: issues.length,
+      issues: reported.map(formatValidationIssue),
+    });
+    return data as T;
+  }
+
+  private wait<T>(delayMs: number, { url, signal }: ApiRequest<T>): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortedError(url));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delayMs);
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -1,72 +1,138 @@
-import { EventBusInterface, EventCallback, StreamingEventMap, StreamingEventType } from '../types/event.types';
+import {
+  EventBusInterface,
+  EventCallback,
+  EventHistoryEntry,
+  EventMiddleware,
+  StreamingEventMap,
+  StreamingEventPattern,
+  StreamingEventType,
+  StreamingEventWildcard,
+  SubscribeOptions,
+  WildcardEventCallback,
+} from '../types/event.types';
+import { StreamingError, ErrorCode } from '../types/error.types';
 import { logger } from './Logger';
 
-interface EventSubscription<T = unknown> {
-  callback: EventCallback<T>;
+type ListenerCallback = (data: unknown, event: StreamingEventType) => void;
+
+interface EventSubscription {
+  callback: ListenerCallback;
   once: boolean;
 }
 
-export class EventBus implements EventBusInterface {
-  private listeners = new Map<string, Set<EventSubscription<unknown>>>();
+export interface EventBusOptions {
+  // Past events kept for replay and diagnostics; 0 keeps none
+  historySize: number;
+}
 
-  subscribe<K extends StreamingEventType>(event: K, callback: EventCallback<StreamingEventMap[K]>): () => void {
-    return this.addListener(event, callback, false);
-  }
+export const DEFAULT_EVENT_BUS_OPTIONS: EventBusOptions = {
+  historySize: 0,
+};
+
+export const DEFAULT_WAIT_FOR_TIMEOUT_MS = 10000;
+
+// Listener keys an event is delivered to, most specific first
+const patternsFor = (event: StreamingEventType): StreamingEventPattern[] => {
+  const namespace = event.slice(0, event.indexOf(':'));
+  return [event, `${namespace}:*` as StreamingEventWildcard, '*'];
+};
+
+const matches = (pattern: StreamingEventPattern, event: StreamingEventType) => patternsFor(event).includes(pattern);
 
-  once<K extends StreamingEventType>(event: K, callback: EventCallback<StreamingEventMap[K]>): () => void {
-    return this.addListener(event, callback, true);
+export class EventBus implements EventBusInterface {
+  private listeners = new Map<string, Set<EventSubscription>>();
+  private middlewares: EventMiddleware[] = [];
+  private history: EventHistoryEntry[] = [];
+  private options: EventBusOptions;
+
+  constructor(options: Partial<EventBusOptions> = {}) {
+    this.options = { ...DEFAULT_EVENT_BUS_OPTIONS, ...options };
   }
 
-  private addListener<K extends StreamingEventType>(
+  subscribe<K extends StreamingEventType>(
     event: K,
     callback: EventCallback<StreamingEventMap[K]>,
-    once: boolean,
-  ): () => void {
-    if (!this.listeners.has(event)) {
-      this.listeners.set(event, new Set());
+    options?: SubscribeOptions,
+  ): () => void;
+  subscribe<P extends StreamingEventWildcard>(
+    pattern: P,
+    callback: WildcardEventCallback<P>,
+    options?: SubscribeOptions,
+  ): () => void;
+  subscribe(pattern: StreamingEventPattern, callback: ListenerCallback, options: SubscribeOptions = {}): () => void {
+    if (options.replay) {
+      const past = this.history.filter((entry) => matches(pattern, entry.event));
+      const replayed = typeof options.replay === 'number' ? past.slice(-options.replay) : past;
+      replayed.forEach((entry) => this.invoke(callback, entry.data, entry.event));
     }
+    return this.addListener(pattern, callback, false);
+  }
 
-    const subscription: EventSubscription<unknown> = {
-      callback: callback as EventCallback<unknown>,
-      once,
-    };
+  once<K extends StreamingEventType>(event: K, callback: EventCallback<StreamingEventMap[K]>): () => void;
+  once<P extends StreamingEventWildcard>(pattern: P, callback: WildcardEventCallback<P>): () => void;
+  once(pattern: StreamingEventPattern, callback: ListenerCallback): () => void {
+    return this.addListener(pattern, callback, true);
+  }
 
-    const eventListeners = this.listeners.get(event);
+  private addListener(pattern: StreamingEventPattern, callback: ListenerCallback, once: boolean): () => void {
+    if (!this.listeners.has(pattern)) {
+      this.listeners.set(pattern, new Set());
+    }
+
+    const subscription: EventSubscription = { callback, once };
+
+    const eventListeners = this.listeners.get(pattern);
     if (!eventListeners) {
-      throw new Error(`Event listeners not found for event: ${event}`);
+      throw new Error(`Event listeners not found for event: ${pattern}`);
     }
     eventListeners.add(subscription);
 
     // Return unsubscribe function
     return () => {
       eventListeners.delete(subscription);
-      if (eventListeners.size === 0) {
-        this.listeners.delete(event);
+      if (eventListeners.size === 0 && this.listeners.get(pattern) === eventListeners) {
+        this.listeners.delete(pattern);
       }
     };
   }
 
   publish<K extends StreamingEventType>(event: K, data: StreamingEventMap[K]): void {
-    const eventListeners = this.listeners.get(event);
+    let payload: unknown = data;
+    for (const middleware of this.middlewares) {
+      try {
+        const result = middleware(event, payload);
+        if (result === null) {
+          return;
+        }
+        if (result !== undefined) {
+          payload = result;
+        }
+      } catch (error) {
+        logger.error(`Error in event middleware for ${event}`, { error });
+      }
+    }
+
+    this.recordHistory(event, payload);
+
+    patternsFor(event).forEach((pattern) => this.dispatch(pattern, event, payload));
+  }
+
+  private dispatch(pattern: StreamingEventPattern, event: StreamingEventType, data: unknown): void {
+    const eventListeners = this.listeners.get(pattern);
     if (!eventListeners) {
       return;
     }
 
     // Convert to array to avoid issues with concurrent modifications
     const subscriptions = Array.from(eventListeners);
-    const toRemove: EventSubscription<unknown>[] = [];
+    const toRemove: EventSubscription[] = [];
 
     subscriptions.forEach((subscription) => {
-      try {
-        subscription.callback(data);
+      this.invoke(subscription.callback, data, event);
 
-        // Mark one-time subscriptions for removal
-        if (subscription.once) {
-          toRemove.push(subscription);
-        }
-      } catch (error) {
-        // Use structured logging
-        logger.error(`Error in event handler for ${event}`, { error });
+      // Mark one-time subscriptions for removal, even when they threw
+      if (subscription.once) {
+        toRemove.push(subscription);
       }
     });
 
@@ -77,20 +143,90 @@ export class EventBus implements EventBusInterface {
 
     // Clean up empty event listener sets
     if (eventListeners.size === 0) {
-      this.listeners.delete(event);
+      this.listeners.delete(pattern);
     }
   }
 
+  private invoke(callback: ListenerCallback, data: unknown, event: StreamingEventType): void {
+    try {
+      callback(data, event);
+    } catch (error) {
+      // Use structured logging
+      logger.error(`Error in event handler for ${event}`, { error });
+    }
+  }
+
+  use(middleware: EventMiddleware): () => void {
+    this.middlewares.push(middleware);
+    return () => {
+      this.middlewares = this.middlewares.filter((item) => item !== middleware);
+    };
+  }
+
+  waitFor<K extends StreamingEventType>(
+    event: K,
+    predicate?: (data: StreamingEventMap[K]) => boolean,
+    timeoutMs = DEFAULT_WAIT_FOR_TIMEOUT_MS,
+  ): Promise<StreamingEventMap[K]> {
+    return new Promise((resolve, reject) => {
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      const unsubscribe = this.subscribe(event, (data) => {
+        // A throwing predicate rejects the wait instead of ending up in the handler log
+        try {
+          if (predicate && !predicate(data)) {
+            return;
+          }
+        } catch (error) {
+          clearTimeout(timeout);
+          unsubscribe();
+          reject(error);
+          return;
+        }
+        clearTimeout(timeout);
+        unsubscribe();
+        resolve(data);
+      });
+
+      if (timeoutMs > 0 && Number.isFinite(timeoutMs)) {
+        timeout = setTimeout(() => {
+          unsubscribe();
+          reject(
+            new StreamingError(ErrorCode.OPERATION_TIMEOUT, `Timed out waiting for ${event}`, { event, timeoutMs }),
+          );
+        }, timeoutMs);
+      }
+    });
+  }
+
   clear(): void {
     this.listeners.clear();
   }
 
+  // Published events after middleware, oldest first, whether or not anyone was listening
+  getHistory(): EventHistoryEntry[] {
+    return [...this.history];
+  }
+
+  clearHistory(): void {
+    this.history = [];
+  }
+
+  private recordHistory(event: StreamingEventType, data: unknown): void {
+    if (this.options.historySize <= 0) {
+      return;
+    }
+    this.history.push({ event, data, timestamp: Date.now() });
+    if (this.history.length > this.options.historySize) {
+      this.history.splice(0, this.history.length - this.options.historySize);
+    }
+  }
+
   // Utility methods for debugging and monitoring
   getEventCount(): number {
     return this.listeners.size;
   }
 
-  getListenerCount(event?: StreamingEventType): number {
+  getListenerCount(event?: StreamingEventPattern): number {
     if (event) {
       return this.listeners.get(event)?.size || 0;
     }
@@ -102,15 +238,15 @@ export class EventBus implements EventBusInterface {
     return total;
   }
 
-  hasListeners(event: StreamingEventType): boolean {
+  hasListeners(event: StreamingEventPattern): boolean {
     const listeners = this.listeners.get(event);
     return listeners ? listeners.size > 0 : false;
   }
 
-  getEvents(): StreamingEventType[] {
-    return Array.from(this.listeners.keys()) as StreamingEventType[];
+  getEvents(): StreamingEventPattern[] {
+    return Array.from(this.listeners.keys()) as StreamingEventPattern[];
   }
 }
 
-// Global event bus instance
-export const globalEventBus = new EventBus();
+// Global event bus instance; keeps recent events for late subscribers and diagnostics exports
+export const globalEventBus = new EventBus({ historySize: 200 });
@@ -0,0 +1,221 @@
+import { LogEntry, LogLevel, LogOutput } from './Logger';
+import { DEFAULT_REDACTED_KEYS, RedactedLogEntry, redactLogEntry } from './logRedaction';
+
+export interface RemoteLogOutputOptions {
+  endpoint: string;
+  // Sent as soon as this many entries are queued, otherwise every flushIntervalMs
+  batchSize: number;
+  flushIntervalMs: number;
+  // Oldest entries are dropped beyond this while the endpoint is unreachable
+  maxQueueSize: number;
+  // Share of entries kept per level, 0 to 1; levels not listed are always sent
+  sampleRates: Partial<Record<LogLevel, number>>;
+  // Attempts after the first failed send, waiting retryBaseDelayMs, then twice that, and so on
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  // Context keys whose values are never sent, see redactLogContext
+  redactKeys: string[];
+  headers: Record<string, string>;
+  // Sent with every batch, e.g. app version or environment
+  attributes: Record<string, unknown>;
+}
+
+export const DEFAULT_REMOTE_LOG_OUTPUT_OPTIONS: Omit<RemoteLogOutputOptions, 'endpoint'> = {
+  batchSize: 50,
+  flushIntervalMs: 10000,
+  maxQueueSize: 1000,
+  sampleRates: { [LogLevel.DEBUG]: 0.1, [LogLevel.INFO]: 0.5 },
+  maxRetries: 3,
+  retryBaseDelayMs: 1000,
+  redactKeys: DEFAULT_REDACTED_KEYS,
+  headers: {},
+  attributes: {},
+};
+
+export type RemoteLogRecord = RedactedLogEntry;
+
+export interface RemoteLogBatch {
+  sentAt: number;
+  attributes: Record<string, unknown>;
+  entries: RemoteLogRecord[];
+}
+
+/**
+ * Ships log entries to an HTTP endpoint in batches, with secrets redacted before they are queued.
+ * Failed batches are retried with exponential backoff; whatever is queued when the page goes away is handed
+ * to navigator.sendBeacon, which the browser delivers after unload. Never logs itself, that would loop.
+ */
+export class RemoteLogOutput implements LogOutput {
+  private options: RemoteLogOutputOptions;
+  private queue: RemoteLogRecord[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private sending = false;
+  private retries = 0;
+  private dropped = 0;
+  private random: () => number;
+
+  constructor(options: Partial<RemoteLogOutputOptions> & { endpoint: string }, random: () => number = Math.random) {
+    this.options = { ...DEFAULT_REMOTE_LOG_OUTPUT_OPTIONS, ...options };
+    this.random = random;
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', this.handlePageHide);
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+  }
+
+  write(entry: LogEntry): void {
+    const rate = this.options.sampleRates[entry.level] ?? 1;
+    if (rate < 1 && this.random() >= rate) {
+      return;
+    }
+
+    this.queue.push(redactLogEntry(entry, this.options.redactKeys));
+    if (this.queue.length > this.options.maxQueueSize) {
+      this.dropped += this.queue.length - this.options.maxQueueSize;
+      this.queue = this.queue.slice(-this.options.maxQueueSize);
+    }
+
+    if (this.queue.length >= this.options.batchSize && this.retries === 0) {
+      void this.flush();
+    } else {
+      this.scheduleFlush(this.options.flushIntervalMs);
+    }
+  }
+
+  // Sends one batch; resolves once it was delivered or put back for a retry
+  async flush(): Promise<void> {
+    this.clearFlushTimer();
+    if (this.sending || this.queue.length === 0) {
+      return;
+    }
+
+    const entries = this.queue.splice(0, this.options.batchSize);
+    this.sending = true;
+    try {
+      const response = await fetch(this.options.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.options.headers },
+        body: JSON.stringify(this.createBatch(entries)),
+        keepalive: true,
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      this.retries = 0;
+    } catch {
+      if (this.retries < this.options.maxRetries) {
+        // Back in front so the order is kept
+        this.queue.unshift(...entries);
+        this.scheduleFlush(this.options.retryBaseDelayMs * 2 ** this.retries);
+        this.retries++;
+        return;
+      }
+      this.dropped += entries.length;
+      this.retries = 0;
+    } finally {
+      this.sending = false;
+    }
+
+    if (this.queue.length >= this.options.batchSize) {
+      await this.flush();
+    } else if (this.queue.length > 0) {
+      this.scheduleFlush(this.options.flushIntervalMs);
+    }
+  }
+
+  // Hands everything queued to the browser in one go; used when the page is going away
+  flushWithBeacon(): void {
+    this.clearFlushTimer();
+    // Beacons cannot carry headers, so endpoints that need them only get what fetch keepalive manages
+    const canBeacon = typeof navigator !== 'undefined' && !!navigator.sendBeacon;
+    if (!canBeacon || Object.keys(this.options.headers).length > 0) {
+      void this.flush();
+      return;
+    }
+
+    while (this.queue.length > 0) {
+      const entries = this.queue.splice(0, this.options.batchSize);
+      const body = new Blob([JSON.stringify(this.createBatch(entries))], { type: 'application/json' });
+      if (!navigator.sendBeacon(this.options.endpoint, body)) {
+        this.dropped += entries.length;
+      }
+    }
+  }
+
+  getQueueLength(): number {
+    return this.queue.length;
+  }
+
+  // Entries lost to sampling do not count, only those that could not be delivered
+  getDroppedCount(): number {
+    return this.dropped;
+  }
+
+  destroy(): void {
+    this.flushWithBeacon();
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.handlePageHide);
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+  }
+
+  private createBatch(entries: RemoteLogRecord[]): RemoteLogBatch {
+    const batch: RemoteLogBatch = { sentAt: Date.now(), attributes: this.options.attributes, entries };
+    if (this.dropped > 0) {
+      batch.attributes = { ...batch.attributes, droppedEntries: this.dropped };
+    }
+    return batch;
+  }
+
+  private scheduleFlush(delayMs: number): void {
+    if (this.flushTimer === null) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        void this.flush();
+      }, delayMs);
+    }
+  }
+
+  private clearFlushTimer(): void {
+    if (this.flushTimer !== null) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  private handlePageHide = () => this.flushWithBeacon();
+
+  // Mobile browsers often skip pagehide, hidden is the last reliable moment
+  private handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      this.flushWithBeacon();
+    }
+  };
+}
+
+const parseRate = (value: string | undefined): number | undefined => {
+  const rate = value === undefined || value === '' ? NaN : Number(value);
+  return rate >= 0 && rate <= 1 ? rate : undefined;
+};
+
+// Built from VITE_LOG_* variables; null unless VITE_LOG_ENDPOINT is set
+export function createRemoteLogOutputFromEnv(env: Record<string, string | undefined>): RemoteLogOutput | null {
+  const endpoint = env.VITE_LOG_ENDPOINT;
+  if (!endpoint) {
+    return null;
+  }
+
+  const defaults = DEFAULT_REMOTE_LOG_OUTPUT_OPTIONS;
+  return new RemoteLogOutput({
+    endpoint,
+    batchSize: Number(env.VITE_LOG_BATCH_SIZE) || defaults.batchSize,
+    flushIntervalMs: Number(env.VITE_LOG_FLUSH_INTERVAL_MS) || defaults.flushIntervalMs,
+    sampleRates: {
+      [LogLevel.DEBUG]: parseRate(env.VITE_LOG_SAMPLE_DEBUG) ?? defaults.sampleRates[LogLevel.DEBUG],
+      [LogLevel.INFO]: parseRate(env.VITE_LOG_SAMPLE_INFO) ?? defaults.sampleRates[LogLevel.INFO],
+    },
+    headers: env.VITE_LOG_API_KEY ? { 'x-api-key': env.VITE_LOG_API_KEY } : {},
+    attributes: { app: 'streaming-avatar', mode: env.MODE },
+  });
+}
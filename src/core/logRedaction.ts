@@ -0,0 +1,106 @@
+import { LogEntry, LogLevel } from './Logger';
+
+export const REDACTED = '[REDACTED]';
+
+// Matched against context keys with case and separators ignored, so agora_token, livekitToken and
+// trtc_user_sig are all caught
+export const DEFAULT_REDACTED_KEYS = [
+  'token',
+  'usersig',
+  'credential',
+  'apikey',
+  'authorization',
+  'password',
+  'secret',
+];
+
+const MAX_DEPTH = 8;
+
+// Values that must never leave the page even when logged under an innocent key or inside a message
+const secrets = new Set<string>();
+
+export function registerLogSecret(value: string | null | undefined): void {
+  // Short values would redact half of every message
+  if (value && value.length >= 8) {
+    secrets.add(value);
+  }
+}
+
+export function clearLogSecrets(): void {
+  secrets.clear();
+}
+
+const isObject = (value: unknown) => typeof value === 'object' && value !== null;
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export function redactString(value: string): string {
+  let redacted = value.replace(/(Bearer\s+)[\w.~+/=-]+/gi, `$1${REDACTED}`);
+  secrets.forEach((secret) => {
+    redacted = redacted.split(secret).join(REDACTED);
+  });
+  return redacted;
+}
+
+/**
+ * Copies a log context with the values of secret-looking keys and any registered secret replaced.
+ * Errors become plain objects so they survive JSON; cycles and very deep values are cut off.
+ */
+export function redactLogContext(
+  context: Record<string, unknown>,
+  keys: string[] = DEFAULT_REDACTED_KEYS,
+): Record<string, unknown> {
+  const patterns = keys.map(normalizeKey);
+  const ancestors = new WeakSet<object>();
+
+  const redact = (value: unknown, depth: number): unknown => {
+    if (typeof value === 'string') return redactString(value);
+    if (typeof value !== 'object' || value === null) return value;
+    if (value instanceof Error) {
+      // StreamingError carries its ErrorCode
+      const code = (value as Error & { code?: unknown }).code;
+      return {
+        name: value.name,
+        message: redactString(value.message),
+        ...(code !== undefined && { code }),
+        stack: value.stack && redactString(value.stack),
+      };
+    }
+    if (depth >= MAX_DEPTH || ancestors.has(value)) return '[Truncated]';
+
+    ancestors.add(value);
+    const copy = Array.isArray(value)
+      ? value.map((item) => redact(item, depth + 1))
+      : Object.fromEntries(
+          Object.entries(value).map(([key, item]) => {
+            const normalized = normalizeKey(key);
+            // Objects under such a key, e.g. a credentials bundle, are searched instead so ids and channels stay
+            const secret = patterns.some((pattern) => normalized.includes(pattern)) && !isObject(item);
+            return [key, secret ? REDACTED : redact(item, depth + 1)];
+          }),
+        );
+    ancestors.delete(value);
+    return copy;
+  };
+
+  return redact(context, 0) as Record<string, unknown>;
+}
+
+// A log entry as it may leave the page: level by name, secrets replaced
+export interface RedactedLogEntry {
+  level: string;
+  message: string;
+  context?: Record<string, unknown>;
+  timestamp: number;
+  file?: string;
+}
+
+export function redactLogEntry(entry: LogEntry, keys: string[] = DEFAULT_REDACTED_KEYS): RedactedLogEntry {
+  return {
+    level: LogLevel[entry.level],
+    message: redactString(entry.message),
+    context: entry.context && redactLogContext(entry.context, keys),
+    timestamp: entry.timestamp,
+    file: entry.file,
+  };
+}
@@ -0,0 +1,311 @@
+import { globalEventBus } from '../core/EventBus';
+import { logger } from '../core/Logger';
+import { EventBusInterface } from '../types/event.types';
+import { StreamingError, ErrorCode } from '../types/error.types';
+import { SessionCredentials } from '../types/api.schemas';
+import {
+  CredentialKind,
+  CredentialRefreshHandlers,
+  CredentialStatus,
+  RtcCredentialRefreshRequest,
+} from '../types/credentials.types';
+import { getRtcTokenExpiry, getTokenExpiry } from './tokenExpiry';
+
+export interface CredentialManagerOptions {
+  // Refresh this long before a known expiry
+  refreshLeadMs: number;
+  // Warn this long before expiry unless the credential was renewed by then
+  warningLeadMs: number;
+  // Wait after a failed refresh before trying again, while there is time left; also the shortest gap between refreshes
+  retryDelayMs: number;
+}
+
+export const DEFAULT_CREDENTIAL_MANAGER_OPTIONS: CredentialManagerOptions = {
+  refreshLeadMs: 120000,
+  warningLeadMs: 60000,
+  retryDelayMs: 15000,
+};
+
+export interface CredentialManagerCallbacks {
+  // Store the new OpenAPI token wherever requests read it from
+  onApiTokenRefreshed?: (token: string) => void;
+  // Push renewed RTC credentials into the live provider; a rejection counts as a failed refresh
+  onRtcCredentialsRefreshed?: (credentials: SessionCredentials) => Promise<void> | void;
+}
+
+export const CREDENTIAL_LABELS: Record<CredentialKind, string> = {
+  openapi: 'OpenAPI token',
+  rtc: 'streaming token',
+};
+
+// setTimeout fires at once for delays beyond ~24.8 days, which long-lived tokens easily reach
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+interface TrackedCredential {
+  expiresAt: number | null;
+  refreshedAt: number | null;
+  refreshing: Promise<boolean> | null;
+  timers: ReturnType<typeof setTimeout>[];
+}
+
+interface TrackedApiToken extends TrackedCredential {
+  token: string;
+}
+
+interface TrackedRtcCredentials extends TrackedCredential {
+  request: RtcCredentialRefreshRequest;
+}
+
+const tracked = (expiresAt: number | null): TrackedCredential => ({
+  expiresAt,
+  refreshedAt: null,
+  refreshing: null,
+  timers: [],
+});
+
+/**
+ * Watches when the OpenAPI token and the session's RTC token run out. Each is refreshed refreshLeadMs ahead
+ * through the pluggable refresh handlers, and credentials:expiring is published warningLeadMs ahead unless
+ * that worked. Expiry comes from JWT exp claims, refresh responses, or the SDK warning it is close.
+ */
+export class CredentialManager {
+  private eventBus: EventBusInterface;
+  private options: CredentialManagerOptions;
+  private handlers: CredentialRefreshHandlers = {};
+  private callbacks: CredentialManagerCallbacks = {};
+  private apiToken: TrackedApiToken | null = null;
+  private rtc: TrackedRtcCredentials | null = null;
+
+  constructor(eventBus: EventBusInterface, options: Partial<CredentialManagerOptions> = {}) {
+    this.eventBus = eventBus;
+    this.options = { ...DEFAULT_CREDENTIAL_MANAGER_OPTIONS, ...options };
+  }
+
+  setRefreshHandlers(handlers: CredentialRefreshHandlers): void {
+    this.handlers = handlers;
+    this.schedule('openapi');
+    this.schedule('rtc');
+  }
+
+  setCallbacks(callbacks: CredentialManagerCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  // Tracking the token just handed out by a refresh again changes nothing
+  trackApiToken(token: string | null, expiresAt = getTokenExpiry(token)): void {
+    if (token && token === this.apiToken?.token) {
+      return;
+    }
+
+    this.untrack('openapi');
+    if (token) {
+      this.apiToken = { ...tracked(expiresAt), token };
+      this.schedule('openapi');
+    }
+  }
+
+  // The same session keeps the credentials it was renewed with
+  trackRtcCredentials(
+    request: RtcCredentialRefreshRequest | null,
+    expiresAt = request ? getRtcTokenExpiry(request.providerType, request.credentials) : null,
+  ): void {
+    const current = this.rtc?.request;
+    if (request && current?.sessionId === request.sessionId && current.providerType === request.providerType) {
+      return;
+    }
+
+    this.untrack('rtc');
+    if (request) {
+      this.rtc = { ...tracked(expiresAt), request };
+      this.schedule('rtc');
+    }
+  }
+
+  untrack(kind: CredentialKind): void {
+    const credential = this.get(kind);
+    if (credential) {
+      credential.timers.forEach(clearTimeout);
+    }
+    if (kind === 'openapi') {
+      this.apiToken = null;
+    } else {
+      this.rtc = null;
+    }
+  }
+
+  // The SDK says the token runs out within remainingMs, which may be the first we hear of its expiry
+  handleTokenWillExpire(kind: CredentialKind, remainingMs: number): void {
+    const credential = this.get(kind);
+    if (!credential) {
+      return;
+    }
+
+    const expiresAt = Date.now() + remainingMs;
+    if (credential.expiresAt === null || expiresAt < credential.expiresAt) {
+      credential.expiresAt = expiresAt;
+      this.schedule(kind);
+    }
+  }
+
+  getStatus(kind: CredentialKind): CredentialStatus | null {
+    const credential = this.get(kind);
+    return credential
+      ? {
+          kind,
+          expiresAt: credential.expiresAt,
+          refreshing: credential.refreshing !== null,
+          canRefresh: this.canRefresh(kind),
+        }
+      : null;
+  }
+
+  // Resolves to whether a new credential is in place; concurrent calls share one refresh
+  refresh(kind: CredentialKind): Promise<boolean> {
+    const credential = this.get(kind);
+    if (!credential || !this.canRefresh(kind)) {
+      return Promise.resolve(false);
+    }
+
+    if (!credential.refreshing) {
+      credential.refreshing = this.runRefresh(kind, credential).finally(() => {
+        credential.refreshing = null;
+      });
+    }
+    return credential.refreshing;
+  }
+
+  private async runRefresh(kind: CredentialKind, credential: TrackedCredential): Promise<boolean> {
+    try {
+      const expiresAt =
+        kind === 'openapi'
+          ? await this.refreshApiToken(credential as TrackedApiToken)
+          : await this.refreshRtcCredentials(credential as TrackedRtcCredentials);
+      // Untracked while the refresh was running
+      if (this.get(kind) !== credential) {
+        return false;
+      }
+
+      credential.expiresAt = expiresAt;
+      credential.refreshedAt = Date.now();
+      this.schedule(kind);
+      logger.info('Credential refreshed', { kind, expiresAt });
+      this.eventBus.publish('credentials:refreshed', { kind, expiresAt });
+      return true;
+    } catch (error) {
+      if (this.get(kind) !== credential) {
+        return false;
+      }
+
+      const streamingError =
+        error instanceof StreamingError
+          ? error
+          : new StreamingError(
+              ErrorCode.CREDENTIAL_REFRESH_FAILED,
+              `Could not refresh the ${CREDENTIAL_LABELS[kind]}: ${error instanceof Error ? error.message : String(error)}`,
+              { kind },
+            );
+      const retryAt = Date.now() + this.options.retryDelayMs;
+      const willRetry = credential.expiresAt !== null && retryAt < credential.expiresAt;
+      if (willRetry) {
+        this.addTimer(credential, retryAt, () => void this.refresh(kind));
+      }
+
+      logger.warn('Credential refresh failed', { kind, error: streamingError.message, willRetry });
+      this.eventBus.publish('credentials:refresh-failed', { kind, error: streamingError, willRetry });
+      return false;
+    }
+  }
+
+  private async refreshApiToken(credential: TrackedApiToken): Promise<number | null> {
+    const refreshApiToken = this.handlers.refreshApiToken;
+    if (!refreshApiToken) {
+      throw new StreamingError(ErrorCode.CREDENTIAL_REFRESH_FAILED, 'No OpenAPI token refresh handler');
+    }
+
+    const { token, expiresAt } = await refreshApiToken();
+    // Set first so the store update coming back through trackApiToken is recognised
+    credential.token = token;
+    this.callbacks.onApiTokenRefreshed?.(token);
+    return expiresAt ?? getTokenExpiry(token);
+  }
+
+  private async refreshRtcCredentials(credential: TrackedRtcCredentials): Promise<number | null> {
+    const refreshRtcCredentials = this.handlers.refreshRtcCredentials;
+    if (!refreshRtcCredentials) {
+      throw new StreamingError(ErrorCode.CREDENTIAL_REFRESH_FAILED, 'No streaming token refresh handler');
+    }
+
+    const { credentials, expiresAt } = await refreshRtcCredentials(credential.request);
+    const renewed = { ...credential.request.credentials, ...credentials };
+    await this.callbacks.onRtcCredentialsRefreshed?.(renewed);
+    credential.request = { ...credential.request, credentials: renewed };
+    return expiresAt ?? getRtcTokenExpiry(credential.request.providerType, renewed);
+  }
+
+  private schedule(kind: CredentialKind): void {
+    const credential = this.get(kind);
+    if (!credential) {
+      return;
+    }
+
+    credential.timers.forEach(clearTimeout);
+    credential.timers = [];
+    const { expiresAt, refreshedAt } = credential;
+    if (expiresAt === null) {
+      return;
+    }
+
+    if (this.canRefresh(kind)) {
+      // A refresh that came back with a short-lived token is not repeated straight away
+      const refreshAt = Math.max(
+        expiresAt - this.options.refreshLeadMs,
+        (refreshedAt ?? -Infinity) + this.options.retryDelayMs,
+      );
+      if (refreshAt < expiresAt) {
+        this.addTimer(credential, refreshAt, () => void this.refresh(kind));
+      }
+    }
+    this.addTimer(credential, expiresAt - this.options.warningLeadMs, () => this.warn(kind, expiresAt));
+    this.addTimer(credential, expiresAt, () => {
+      logger.warn('Credential expired', { kind });
+      this.eventBus.publish('credentials:expired', { kind });
+    });
+  }
+
+  private warn(kind: CredentialKind, expiresAt: number): void {
+    const remainingMs = expiresAt - Date.now();
+    if (remainingMs <= 0) {
+      return;
+    }
+
+    logger.warn('Credential expires soon', { kind, remainingMs });
+    this.eventBus.publish('credentials:expiring', { kind, expiresAt, remainingMs, canRefresh: this.canRefresh(kind) });
+  }
+
+  private addTimer(credential: TrackedCredential, at: number, callback: () => void): void {
+    const timer = setTimeout(
+      () => {
+        credential.timers = credential.timers.filter((item) => item !== timer);
+        if (at > Date.now()) {
+          // The delay was capped, keep waiting
+          this.addTimer(credential, at, callback);
+        } else {
+          callback();
+        }
+      },
+      Math.min(Math.max(0, at - Date.now()), MAX_TIMER_DELAY_MS),
+    );
+    credential.timers.push(timer);
+  }
+
+  private canRefresh(kind: CredentialKind): boolean {
+    return !!(kind === 'openapi' ? this.handlers.refreshApiToken : this.handlers.refreshRtcCredentials);
+  }
+
+  private get(kind: CredentialKind): TrackedCredential | null {
+    return kind === 'openapi' ? this.apiToken : this.rtc;
+  }
+}
+
+// Shared by the hook that tracks the current credentials and the provider handlers that report SDK warnings
+export const credentialManager = new CredentialManager(globalEventBus);
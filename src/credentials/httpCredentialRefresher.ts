@@ -0,0 +1,125 @@
+import { StreamingError, ErrorCode } from '../types/error.types';
+import { SessionCredentials } from '../types/api.schemas';
+import { CredentialRefreshHandlers } from '../types/credentials.types';
+import {
+  formatValidationIssue,
+  number,
+  object,
+  optional,
+  sessionCredentialsSchema,
+  string,
+  validate,
+  Validator,
+} from '../validation';
+
+export interface HttpCredentialRefresherOptions {
+  // Usually a same-origin backend route; cookies are sent so it can tell who is asking
+  url: string;
+  headers: Record<string, string>;
+  timeoutMs: number;
+}
+
+export const DEFAULT_HTTP_CREDENTIAL_REFRESHER_OPTIONS: Omit<HttpCredentialRefresherOptions, 'url'> = {
+  headers: {},
+  timeoutMs: 10000,
+};
+
+// expires_at is in epoch seconds like a JWT exp, and may be left out for tokens that carry their own
+interface ApiTokenResponse {
+  token: string;
+  expires_at?: number;
+}
+
+interface RtcCredentialsResponse {
+  credentials: SessionCredentials;
+  expires_at?: number;
+}
+
+const apiTokenResponseSchema = object<ApiTokenResponse>({
+  token: string(),
+  expires_at: optional(number()),
+});
+
+const rtcCredentialsResponseSchema = object<RtcCredentialsResponse>({
+  credentials: sessionCredentialsSchema,
+  expires_at: optional(number()),
+});
+
+const toEpochMs = (seconds: number | undefined) => (seconds === undefined ? undefined : seconds * 1000);
+
+/**
+ * Refresh handlers backed by one endpoint of your own backend, which holds the Akool API key:
+ * POST { kind: 'openapi' } answers { token, expires_at? },
+ * POST { kind: 'rtc', session_id, stream_type } answers { credentials, expires_at? } with the renewed fields.
+ */
+export function createHttpCredentialRefresher(
+  options: Pick<HttpCredentialRefresherOptions, 'url'> & Partial<HttpCredentialRefresherOptions>,
+): CredentialRefreshHandlers {
+  const { url, headers, timeoutMs } = { ...DEFAULT_HTTP_CREDENTIAL_REFRESHER_OPTIONS, ...options };
+
+  const post = async <T>(body: object, schema: Validator<T>): Promise<T> => {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        credentials: 'same-origin',
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new StreamingError(ErrorCode.CREDENTIAL_REFRESH_FAILED, `Refresh endpoint answered ${response.status}`, {
+          url,
+          status: response.status,
+        });
+      }
+
+      const data: unknown = await response.json();
+      const [issue] = validate(schema, data);
+      if (issue) {
+        throw new StreamingError(
+          ErrorCode.CREDENTIAL_REFRESH_FAILED,
+          `Unexpected refresh response: ${formatValidationIssue(issue)}`,
+          { url },
+        );
+      }
+      return data as T;
+    } catch (error) {
+      if (error instanceof StreamingError) {
+        throw error;
+      }
+      throw new StreamingError(
+        ErrorCode.CREDENTIAL_REFRESH_FAILED,
+        controller.signal.aborted
+          ? `Refresh endpoint did not answer within ${timeoutMs / 1000}s`
+          : `Could not reach the refresh endpoint: ${error instanceof Error ? error.message : String(error)}`,
+        { url },
+      );
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+
+  return {
+    refreshApiToken: async () => {
+      const { token, expires_at } = await post({ kind: 'openapi' }, apiTokenResponseSchema);
+      return { token, expiresAt: toEpochMs(expires_at) };
+    },
+    refreshRtcCredentials: async ({ sessionId, providerType }) => {
+      const { credentials, expires_at } = await post(
+        { kind: 'rtc', session_id: sessionId, stream_type: providerType },
+        rtcCredentialsResponseSchema,
+      );
+      return { credentials, expiresAt: toEpochMs(expires_at) };
+    },
+  };
+}
+
+// Built from VITE_CREDENTIAL_REFRESH_URL; null when it is not set, leaving credentials watched but not refreshed
+export function createCredentialRefresherFromEnv(
+  env: Record<string, string | undefined>,
+): CredentialRefreshHandlers | null {
+  const url = env.VITE_CREDENTIAL_REFRESH_URL;
+  return url ? createHttpCredentialRefresher({ url }) : null;
+}
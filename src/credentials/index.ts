@@ -0,0 +1,14 @@
+export {
+  CredentialManager,
+  credentialManager,
+  CREDENTIAL_LABELS,
+  DEFAULT_CREDENTIAL_MANAGER_OPTIONS,
+} from './CredentialManager';
+export type { CredentialManagerCallbacks, CredentialManagerOptions } from './CredentialManager';
+export {
+  createCredentialRefresherFromEnv,
+  createHttpCredentialRefresher,
+  DEFAULT_HTTP_CREDENTIAL_REFRESHER_OPTIONS,
+} from './httpCredentialRefresher';
+export type { HttpCredentialRefresherOptions } from './httpCredentialRefresher';
+export { getRtcTokenExpiry, getTokenExpiry, RTC_TOKEN_FIELDS } from './tokenExpiry';
@@ -0,0 +1,36 @@
+import { SessionCredentials } from '../types/api.schemas';
+import { StreamProviderType } from '../types/streaming.types';
+
+// The field each provider authenticates with; the others in SessionCredentials identify the room
+export const RTC_TOKEN_FIELDS: Record<StreamProviderType, keyof SessionCredentials> = {
+  agora: 'agora_token',
+  livekit: 'livekit_token',
+  trtc: 'trtc_user_sig',
+};
+
+/**
+ * Epoch ms from the exp claim of a JWT, such as the OpenAPI token or a LiveKit token.
+ * Agora tokens and TRTC userSigs are opaque, so their expiry is unknown here and comes from the refresh
+ * response or the SDK's own warning instead.
+ */
+export function getTokenExpiry(token: string | undefined | null): number | null {
+  const parts = token?.split('.') ?? [];
+  const payload = parts[1];
+  if (parts.length !== 3 || !payload) {
+    return null;
+  }
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    const { exp } = (JSON.parse(atob(padded)) ?? {}) as { exp?: unknown };
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+export const getRtcTokenExpiry = (providerType: StreamProviderType, credentials: SessionCredentials) => {
+  const token = credentials[RTC_TOKEN_FIELDS[providerType]];
+  return typeof token === 'string' ? getTokenExpiry(token) : null;
+};
@@ -0,0 +1,111 @@
+import type { ApiService } from '../apiService';
+import { logger } from '../core/Logger';
+import { StreamProviderType } from '../types/streaming.types';
+import {
+  DIAGNOSTICS_REPORT_VERSION,
+  DiagnosticOutcome,
+  DiagnosticResult,
+  DiagnosticsReport,
+} from '../types/diagnostics.types';
+
+export interface DiagnosticContext {
+  provider: StreamProviderType;
+  // null until a host and credential are configured
+  api: Pick<ApiService, 'getLangList' | 'getAvatarList' | 'getVoiceList'> | null;
+  avatarId: string;
+  voiceId: string;
+  // navigator.mediaDevices unless given, so checks can run against a fake
+  mediaDevices?: MediaDevices;
+}
+
+export interface DiagnosticCheck {
+  id: string;
+  name: string;
+  run: (context: DiagnosticContext) => Promise<DiagnosticOutcome>;
+}
+
+export interface PreCallDiagnosticsOptions {
+  // A check that has not settled by then fails, e.g. a permission prompt the user never answered
+  checkTimeoutMs: number;
+}
+
+export interface PreCallDiagnosticsCallbacks {
+  onCheckStart?: (check: DiagnosticCheck, index: number) => void;
+  onCheckComplete?: (result: DiagnosticResult) => void;
+}
+
+export const DEFAULT_PRE_CALL_DIAGNOSTICS_OPTIONS: PreCallDiagnosticsOptions = {
+  checkTimeoutMs: 15000,
+};
+
+export function getMediaDevices(context: DiagnosticContext): MediaDevices | undefined {
+  return context.mediaDevices ?? (typeof navigator === 'undefined' ? undefined : navigator.mediaDevices);
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs / 1000}s`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Runs the pre-call checks one after another, so permission prompts and the level meter do not fight over
+ * the microphone. A check that throws or times out fails on its own; the rest still run.
+ */
+export class PreCallDiagnostics {
+  private checks: DiagnosticCheck[];
+  private options: PreCallDiagnosticsOptions;
+  private callbacks: PreCallDiagnosticsCallbacks = {};
+
+  constructor(checks: DiagnosticCheck[], options: Partial<PreCallDiagnosticsOptions> = {}) {
+    this.checks = checks;
+    this.options = { ...DEFAULT_PRE_CALL_DIAGNOSTICS_OPTIONS, ...options };
+  }
+
+  setCallbacks(callbacks: PreCallDiagnosticsCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  async run(context: DiagnosticContext): Promise<DiagnosticsReport> {
+    const startedAt = Date.now();
+    const results: DiagnosticResult[] = [];
+
+    for (const [index, check] of this.checks.entries()) {
+      this.callbacks.onCheckStart?.(check, index);
+      const checkStartedAt = Date.now();
+      let outcome: DiagnosticOutcome;
+      try {
+        outcome = await withTimeout(check.run(context), this.options.checkTimeoutMs);
+      } catch (error) {
+        outcome = { status: 'fail', message: error instanceof Error ? error.message : String(error) };
+      }
+
+      const result: DiagnosticResult = {
+        id: check.id,
+        name: check.name,
+        ...outcome,
+        durationMs: Date.now() - checkStartedAt,
+      };
+      results.push(result);
+      this.callbacks.onCheckComplete?.(result);
+    }
+
+    const summary = { pass: 0, warn: 0, fail: 0, skip: 0 };
+    results.forEach((result) => summary[result.status]++);
+
+    const report: DiagnosticsReport = {
+      version: DIAGNOSTICS_REPORT_VERSION,
+      startedAt,
+      finishedAt: Date.now(),
+      provider: context.provider,
+      userAgent: typeof navigator === 'undefined' ? '' : navigator.userAgent,
+      passed: summary.fail === 0,
+      summary,
+      results,
+    };
+    logger.info('Pre-call diagnostics finished', { provider: context.provider, summary });
+    return report;
+  }
+}
@@ -0,0 +1,77 @@
+import { DiagnosticOutcome } from '../types/diagnostics.types';
+import { StreamingError, ErrorCode } from '../types/error.types';
+import { DiagnosticCheck } from './PreCallDiagnostics';
+
+const NO_API: DiagnosticOutcome = { status: 'skip', message: 'OpenAPI host and credential are not configured' };
+
+// The avatar list endpoint returns one page
+const AVATAR_PAGE_SIZE = 100;
+
+export const apiReachabilityCheck: DiagnosticCheck = {
+  id: 'openapi',
+  name: 'OpenAPI host',
+  run: async ({ api }) => {
+    if (!api) return { ...NO_API, status: 'fail' };
+
+    const startedAt = Date.now();
+    try {
+      const languages = await api.getLangList();
+      const latencyMs = Date.now() - startedAt;
+      return {
+        status: 'pass',
+        message: `Reachable in ${latencyMs}ms`,
+        details: { latencyMs, languages: languages.length },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = error instanceof StreamingError ? error.code : undefined;
+      if (code === ErrorCode.API_NETWORK_ERROR || code === ErrorCode.API_TIMEOUT) {
+        return { status: 'fail', message: `Could not reach the host: ${message}`, details: { code } };
+      }
+      if (code === ErrorCode.API_AUTH_FAILED) {
+        return { status: 'fail', message: `The credential was rejected: ${message}`, details: { code } };
+      }
+      return { status: 'fail', message: `The host answered with an error: ${message}`, details: { code } };
+    }
+  },
+};
+
+export const avatarCheck: DiagnosticCheck = {
+  id: 'avatar',
+  name: 'Avatar',
+  run: async ({ api, avatarId }) => {
+    if (!avatarId) return { status: 'fail', message: 'No avatar is configured' };
+    if (!api) return NO_API;
+
+    const avatars = await api.getAvatarList();
+    const avatar = avatars.find((candidate) => candidate.avatar_id === avatarId);
+    if (!avatar) {
+      return avatars.length >= AVATAR_PAGE_SIZE
+        ? { status: 'warn', message: `Avatar ${avatarId} is not among the first ${AVATAR_PAGE_SIZE} avatars` }
+        : { status: 'fail', message: `Avatar ${avatarId} does not exist for this credential` };
+    }
+
+    const details = { name: avatar.name, type: avatar.type, available: avatar.available };
+    if (!avatar.available) {
+      return { status: 'warn', message: `Avatar ${avatar.name} is not available right now`, details };
+    }
+    return { status: 'pass', message: `Avatar ${avatar.name} is available`, details };
+  },
+};
+
+export const voiceCheck: DiagnosticCheck = {
+  id: 'voice',
+  name: 'Voice',
+  run: async ({ api, voiceId }) => {
+    if (!voiceId) return { status: 'skip', message: "No voice configured, the avatar's own voice is used" };
+    if (!api) return NO_API;
+
+    // 1 is VoiceClone, 2 the prebuilt voices
+    const [cloned, prebuilt] = await Promise.all([api.getVoiceList(1), api.getVoiceList(2)]);
+    const voice = [...cloned, ...prebuilt].find((candidate) => candidate.voice_id === voiceId);
+    if (!voice) {
+      return { status: 'fail', message: `Voice ${voiceId} does not exist for this credential` };
+    }
+    return { status: 'pass', message: `Voice ${voice.name} exists`, details: { name: voice.name } };
+  },
+};
@@ -0,0 +1,96 @@
+import { DiagnosticOutcome } from '../types/diagnostics.types';
+import { StreamProviderType } from '../types/streaming.types';
+import { DiagnosticCheck } from './PreCallDiagnostics';
+
+interface TRTCSupportResult {
+  result: boolean;
+  detail?: Record<string, unknown>;
+}
+
+// The SDKs are loaded on demand so the other checks do not pull in all three
+const SDK_CHECKS: Record<StreamProviderType, () => Promise<DiagnosticOutcome>> = {
+  agora: async () => {
+    const { default: AgoraRTC } = await import('agora-rtc-sdk-ng');
+    return AgoraRTC.checkSystemRequirements()
+      ? { status: 'pass', message: `Agora SDK ${AgoraRTC.VERSION} supports this browser` }
+      : { status: 'fail', message: 'Agora SDK does not support this browser' };
+  },
+  livekit: async () => {
+    const { isBrowserSupported, version } = await import('livekit-client');
+    return isBrowserSupported()
+      ? { status: 'pass', message: `LiveKit SDK ${version} supports this browser` }
+      : { status: 'fail', message: 'LiveKit SDK does not support this browser' };
+  },
+  trtc: async () => {
+    const { default: TRTC } = await import('trtc-sdk-v5');
+    const support = (await TRTC.isSupported()) as TRTCSupportResult;
+    return support.result
+      ? { status: 'pass', message: 'TRTC SDK supports this browser', details: support.detail }
+      : { status: 'fail', message: 'TRTC SDK does not support this browser', details: support.detail };
+  },
+};
+
+export const sdkCompatibilityCheck: DiagnosticCheck = {
+  id: 'sdk-compatibility',
+  name: 'Provider SDK compatibility',
+  run: ({ provider }) => SDK_CHECKS[provider](),
+};
+
+export interface UdpConnectivityCheckOptions {
+  stunUrl: string;
+  gatherTimeoutMs: number;
+}
+
+export const DEFAULT_UDP_CONNECTIVITY_CHECK_OPTIONS: UdpConnectivityCheckOptions = {
+  stunUrl: 'stun:stun.l.google.com:19302',
+  gatherTimeoutMs: 5000,
+};
+
+/**
+ * Asks a STUN server for this machine's public address over UDP. Without an answer the media has to fall
+ * back to TCP or TURN relays, which many networks that block UDP do not allow either.
+ */
+export function createUdpConnectivityCheck(options: Partial<UdpConnectivityCheckOptions> = {}): DiagnosticCheck {
+  const { stunUrl, gatherTimeoutMs } = { ...DEFAULT_UDP_CONNECTIVITY_CHECK_OPTIONS, ...options };
+
+  return {
+    id: 'udp',
+    name: 'UDP connectivity',
+    run: async () => {
+      if (typeof RTCPeerConnection === 'undefined') {
+        return { status: 'fail', message: 'This browser does not support WebRTC' };
+      }
+
+      const connection = new RTCPeerConnection({ iceServers: [{ urls: stunUrl }] });
+      try {
+        const types = new Set<string>();
+        const gathered = new Promise<void>((resolve) => {
+          connection.onicecandidate = ({ candidate }) => {
+            if (!candidate) {
+              resolve();
+            } else if (candidate.type) {
+              types.add(candidate.type);
+            }
+          };
+          setTimeout(resolve, gatherTimeoutMs);
+        });
+
+        connection.createDataChannel('diagnostics');
+        await connection.setLocalDescription(await connection.createOffer());
+        await gathered;
+
+        const details = { stunUrl, candidateTypes: Array.from(types) };
+        if (types.has('srflx')) {
+          return { status: 'pass', message: 'UDP traffic reaches the internet', details };
+        }
+        return {
+          status: 'warn',
+          message: 'No answer from the STUN server over UDP; the network may block it and the call may not connect',
+          details,
+        };
+      } finally {
+        connection.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import { apiReachabilityCheck, avatarCheck, voiceCheck } from './apiChecks';
+import { createUdpConnectivityCheck, sdkCompatibilityCheck } from './connectivityChecks';
+import {
+  cameraPermissionCheck,
+  createAudioLevelCheck,
+  deviceEnumerationCheck,
+  microphonePermissionCheck,
+} from './mediaChecks';
+import { DiagnosticCheck } from './PreCallDiagnostics';
+
+// Permissions first so the device list afterwards comes with labels
+export function createDefaultPreCallChecks(): DiagnosticCheck[] {
+  return [
+    microphonePermissionCheck,
+    cameraPermissionCheck,
+    deviceEnumerationCheck,
+    createAudioLevelCheck(),
+    sdkCompatibilityCheck,
+    createUdpConnectivityCheck(),
+    apiReachabilityCheck,
+    avatarCheck,
+    voiceCheck,
+  ];
+}
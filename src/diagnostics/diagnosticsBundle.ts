@@ -0,0 +1,212 @@
+import { LogEntry } from '../core/Logger';
+import { DEFAULT_REDACTED_KEYS, RedactedLogEntry, redactLogContext, redactLogEntry } from '../core/logRedaction';
+import { EventHistoryEntry } from '../types/event.types';
+import { StreamingProvider } from '../types/provider.interfaces';
+import { ConnectionQuality, StreamingState, StreamProviderType } from '../types/streaming.types';
+import { MetricsSample, SessionMetricsReport, SessionMetricsSummary } from '../types/metrics.types';
+import { SessionLifecycleTimeline } from '../types/lifecycle.types';
+
+export const DIAGNOSTICS_BUNDLE_VERSION = 1;
+
+export interface DiagnosticsBundleOptions {
+  maxLogs: number;
+  maxEvents: number;
+  // Stats are sampled once a second, so the last two minutes by default
+  maxStatsSamples: number;
+  maxErrors: number;
+  // Keys whose values are replaced throughout the bundle, see redactLogContext
+  redactKeys: string[];
+}
+
+export const DEFAULT_DIAGNOSTICS_BUNDLE_OPTIONS: DiagnosticsBundleOptions = {
+  maxLogs: 500,
+  maxEvents: 200,
+  maxStatsSamples: 120,
+  maxErrors: 20,
+  redactKeys: DEFAULT_REDACTED_KEYS,
+};
+
+export interface AudioDumpAttachment {
+  name: string;
+  type: string;
+  size: number;
+  // Base64 file content
+  data: string;
+}
+
+export interface DiagnosticsErrorRecord {
+  timestamp: number;
+  // The event the error was published with, or state for the provider's current error
+  source: string;
+  code?: string;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export interface DiagnosticsBundle {
+  version: number;
+  createdAt: number;
+  userAgent: string;
+  provider: StreamProviderType;
+  sdkVersions: Partial<Record<StreamProviderType, string>>;
+  configuration: Record<string, unknown>;
+  connection: {
+    isJoined: boolean;
+    isConnecting: boolean;
+    isReconnecting: boolean;
+    networkQuality: ConnectionQuality | null;
+  } | null;
+  participants: Record<string, unknown>[];
+  stats: {
+    summary: SessionMetricsSummary | null;
+    sampleCount: number;
+    samples: MetricsSample[];
+  };
+  lifecycle: SessionLifecycleTimeline | null;
+  events: EventHistoryEntry[];
+  errors: DiagnosticsErrorRecord[];
+  logs: RedactedLogEntry[];
+  audioDumps?: AudioDumpAttachment[];
+  // Why audio was asked for but is missing
+  audioDumpError?: string;
+}
+
+export interface DiagnosticsBundleSources {
+  provider: StreamProviderType;
+  sdkVersions: Partial<Record<StreamProviderType, string>>;
+  // Plain store values; secrets are redacted here
+  configuration: Record<string, unknown>;
+  state: StreamingState | null;
+  logs: LogEntry[];
+  events: EventHistoryEntry[];
+  metrics: SessionMetricsReport | null;
+  lifecycle: SessionLifecycleTimeline | null;
+  audioDumps?: AudioDumpAttachment[];
+  audioDumpError?: string;
+}
+
+// Events that carry a StreamingError
+const ERROR_EVENTS = ['system:error', 'connection:failed', 'connection:failover'];
+
+const toErrorRecord = (timestamp: number, source: string, error: unknown): DiagnosticsErrorRecord => {
+  const { code, details } = error as { code?: string; details?: Record<string, unknown> };
+  return {
+    timestamp,
+    source,
+    ...(code !== undefined && { code }),
+    message: error instanceof Error ? error.message : String(error),
+    ...(details !== undefined && { details }),
+  };
+};
+
+const collectErrors = (events: EventHistoryEntry[], state: StreamingState | null, now: number) => {
+  const errors = events
+    .filter((entry) => ERROR_EVENTS.includes(entry.event))
+    .map((entry) => toErrorRecord(entry.timestamp, entry.event, (entry.data as { error: unknown }).error));
+
+  // Usually published already, but errors set before the history started still count
+  const current = state?.error;
+  if (current && !errors.some((error) => error.code === current.code && error.message === current.message)) {
+    errors.push(toErrorRecord(now, 'state', current));
+  }
+  return errors;
+};
+
+/**
+ * Packs everything support needs to look into a broken session into one JSON-safe object.
+ * Each list keeps only its most recent entries, and every value goes through the log redaction so
+ * tokens and the API credential never end up in the file.
+ */
+export function createDiagnosticsBundle(
+  sources: DiagnosticsBundleSources,
+  options: Partial<DiagnosticsBundleOptions> = {},
+  now = Date.now(),
+): DiagnosticsBundle {
+  const { maxLogs, maxEvents, maxStatsSamples, maxErrors, redactKeys } = {
+    ...DEFAULT_DIAGNOSTICS_BUNDLE_OPTIONS,
+    ...options,
+  };
+  const redact = <T>(value: T) => redactLogContext({ value }, redactKeys).value as T;
+  const { state, metrics } = sources;
+
+  const bundle: DiagnosticsBundle = {
+    version: DIAGNOSTICS_BUNDLE_VERSION,
+    createdAt: now,
+    userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : 'unknown',
+    provider: sources.provider,
+    sdkVersions: sources.sdkVersions,
+    configuration: redactLogContext(sources.configuration, redactKeys),
+    connection: state && {
+      isJoined: state.isJoined,
+      isConnecting: state.isConnecting,
+      isReconnecting: !!state.isReconnecting,
+      networkQuality: state.networkQuality,
+    },
+    // Tracks hold SDK objects; ids and flags are enough to tell who was there
+    participants: (state?.participants ?? []).map(({ videoTracks, audioTracks, ...participant }) =>
+      redact({
+        ...participant,
+        videoTracks: videoTracks.map(({ id, enabled, muted }) => ({ id, enabled, muted })),
+        audioTracks: audioTracks.map(({ id, enabled, muted }) => ({ id, enabled, muted })),
+      }),
+    ),
+    stats: {
+      summary: metrics?.summary ?? null,
+      sampleCount: metrics?.samples.length ?? 0,
+      samples: metrics?.samples.slice(-maxStatsSamples) ?? [],
+    },
+    lifecycle: sources.lifecycle,
+    events: redact(sources.events.slice(-maxEvents)),
+    errors: redact(collectErrors(sources.events, state, now).slice(-maxErrors)),
+    logs: sources.logs.slice(-maxLogs).map((entry) => redactLogEntry(entry, redactKeys)),
+  };
+
+  if (sources.audioDumps) {
+    bundle.audioDumps = sources.audioDumps;
+  }
+  if (sources.audioDumpError) {
+    bundle.audioDumpError = sources.audioDumpError;
+  }
+  return bundle;
+}
+
+// Versions of the SDKs that load in this build; one that fails to load is left out
+export async function getSdkVersions(): Promise<Partial<Record<StreamProviderType, string>>> {
+  const versions: Partial<Record<StreamProviderType, string>> = {};
+  const [agora, livekit, trtc] = await Promise.allSettled([
+    import('agora-rtc-sdk-ng'),
+    import('livekit-client'),
+    // TRTC does not expose its version at runtime
+    import('trtc-sdk-v5/package.json'),
+  ]);
+
+  if (agora.status === 'fulfilled') versions.agora = agora.value.default.VERSION;
+  if (livekit.status === 'fulfilled') versions.livekit = livekit.value.version;
+  if (trtc.status === 'fulfilled') versions.trtc = trtc.value.version;
+  return versions;
+}
+
+const encodeBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    // A data URL, the content follows the comma
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Runs the provider's audio dump and keeps the files instead of downloading them one by one
+export async function collectAudioDump(
+  provider: Pick<StreamingProvider, 'dumpAudio'>,
+): Promise<{ files: AudioDumpAttachment[]; error?: string }> {
+  const pending: Promise<AudioDumpAttachment>[] = [];
+  try {
+    await provider.dumpAudio((blob, name) => {
+      pending.push(encodeBase64(blob).then((data) => ({ name, type: blob.type, size: blob.size, data })));
+    });
+    const files = await Promise.all(pending);
+    return files.length > 0 ? { files } : { files, error: 'The provider produced no audio dump' };
+  } catch (error) {
+    return { files: [], error: error instanceof Error ? error.message : String(error) };
+  }
+}
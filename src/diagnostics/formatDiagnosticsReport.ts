@@ -0,0 +1,29 @@
+import { DiagnosticStatus, DiagnosticsReport } from '../types/diagnostics.types';
+
+const STATUS_LABELS: Record<DiagnosticStatus, string> = {
+  pass: 'PASS',
+  warn: 'WARN',
+  fail: 'FAIL',
+  skip: 'SKIP',
+};
+
+// Plain text for pasting into a support ticket; the JSON report carries the same data for tooling
+export function formatDiagnosticsReport(report: DiagnosticsReport): string {
+  const { summary } = report;
+  const lines = [
+    `Pre-call diagnostics (${new Date(report.startedAt).toISOString()})`,
+    `Provider: ${report.provider}`,
+    `Browser: ${report.userAgent || 'unknown'}`,
+    `Result: ${report.passed ? 'passed' : 'failed'} (${summary.pass} pass, ${summary.warn} warn, ${summary.fail} fail, ${summary.skip} skip)`,
+    '',
+  ];
+
+  report.results.forEach((result) => {
+    lines.push(`[${STATUS_LABELS[result.status]}] ${result.name}: ${result.message} (${result.durationMs}ms)`);
+    if (result.details) {
+      lines.push(`       ${JSON.stringify(result.details)}`);
+    }
+  });
+
+  return lines.join('\n');
+}
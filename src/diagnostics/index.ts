@@ -0,0 +1,38 @@
+export { PreCallDiagnostics, DEFAULT_PRE_CALL_DIAGNOSTICS_OPTIONS, getMediaDevices } from './PreCallDiagnostics';
+export type {
+  DiagnosticCheck,
+  DiagnosticContext,
+  PreCallDiagnosticsCallbacks,
+  PreCallDiagnosticsOptions,
+} from './PreCallDiagnostics';
+export {
+  cameraPermissionCheck,
+  createAudioLevelCheck,
+  deviceEnumerationCheck,
+  microphonePermissionCheck,
+  DEFAULT_AUDIO_LEVEL_CHECK_OPTIONS,
+} from './mediaChecks';
+export type { AudioLevelCheckOptions } from './mediaChecks';
+export { apiReachabilityCheck, avatarCheck, voiceCheck } from './apiChecks';
+export {
+  createUdpConnectivityCheck,
+  sdkCompatibilityCheck,
+  DEFAULT_UDP_CONNECTIVITY_CHECK_OPTIONS,
+} from './connectivityChecks';
+export type { UdpConnectivityCheckOptions } from './connectivityChecks';
+export { createDefaultPreCallChecks } from './defaultPreCallChecks';
+export { formatDiagnosticsReport } from './formatDiagnosticsReport';
+export {
+  createDiagnosticsBundle,
+  collectAudioDump,
+  getSdkVersions,
+  DEFAULT_DIAGNOSTICS_BUNDLE_OPTIONS,
+  DIAGNOSTICS_BUNDLE_VERSION,
+} from './diagnosticsBundle';
+export type {
+  AudioDumpAttachment,
+  DiagnosticsBundle,
+  DiagnosticsBundleOptions,
+  DiagnosticsBundleSources,
+  DiagnosticsErrorRecord,
+} from './diagnosticsBundle';
@@ -0,0 +1,155 @@
+import { DiagnosticOutcome, DiagnosticStatus } from '../types/diagnostics.types';
+import { DiagnosticCheck, DiagnosticContext, getMediaDevices } from './PreCallDiagnostics';
+
+const NO_MEDIA_DEVICES: DiagnosticOutcome = {
+  status: 'fail',
+  message: 'Media devices are unavailable; the page has to be served over HTTPS or from localhost',
+};
+
+// getUserMedia rejects with DOMExceptions whose name says what went wrong
+function describeMediaError(error: unknown, device: string): string {
+  const name = error instanceof Error ? error.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return `${device} permission was denied`;
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return `No ${device.toLowerCase()} was found`;
+    case 'NotReadableError':
+      return `The ${device.toLowerCase()} is in use by another application or blocked by the system`;
+    default:
+      return `Could not open the ${device.toLowerCase()}: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+async function checkPermission(
+  context: DiagnosticContext,
+  kind: 'audio' | 'video',
+  device: string,
+  failStatus: DiagnosticStatus,
+): Promise<DiagnosticOutcome> {
+  const mediaDevices = getMediaDevices(context);
+  if (!mediaDevices?.getUserMedia) return NO_MEDIA_DEVICES;
+
+  try {
+    const stream = await mediaDevices.getUserMedia({ [kind]: true });
+    stream.getTracks().forEach((track) => track.stop());
+    return { status: 'pass', message: `${device} access granted` };
+  } catch (error) {
+    return {
+      status: failStatus,
+      message: describeMediaError(error, device),
+      details: { error: error instanceof Error ? error.name : String(error) },
+    };
+  }
+}
+
+export const microphonePermissionCheck: DiagnosticCheck = {
+  id: 'microphone-permission',
+  name: 'Microphone permission',
+  run: (context) => checkPermission(context, 'audio', 'Microphone', 'fail'),
+};
+
+// Conversations work without the camera, so a missing one only warns
+export const cameraPermissionCheck: DiagnosticCheck = {
+  id: 'camera-permission',
+  name: 'Camera permission',
+  run: (context) => checkPermission(context, 'video', 'Camera', 'warn'),
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+export const deviceEnumerationCheck: DiagnosticCheck = {
+  id: 'devices',
+  name: 'Media devices',
+  run: async (context) => {
+    const mediaDevices = getMediaDevices(context);
+    if (!mediaDevices?.enumerateDevices) return NO_MEDIA_DEVICES;
+
+    const devices = await mediaDevices.enumerateDevices();
+    const count = (kind: MediaDeviceKind) => devices.filter((device) => device.kind === kind).length;
+    const details = {
+      microphones: count('audioinput'),
+      cameras: count('videoinput'),
+      speakers: count('audiooutput'),
+      // Browsers hide labels until a permission has been granted
+      labels: devices.map((device) => `${device.kind}: ${device.label || '(hidden)'}`),
+    };
+    const found = `${plural(details.microphones, 'microphone')}, ${plural(details.cameras, 'camera')}`;
+
+    if (details.microphones === 0) {
+      return { status: 'fail', message: `No microphone found (${found})`, details };
+    }
+    if (details.cameras === 0) {
+      return { status: 'warn', message: `No camera found (${found})`, details };
+    }
+    return { status: 'pass', message: `Found ${found}`, details };
+  },
+};
+
+export interface AudioLevelCheckOptions {
+  // How long to listen for
+  sampleMs: number;
+  // Loudest RMS level below this counts as silence
+  silenceThresholdDb: number;
+}
+
+export const DEFAULT_AUDIO_LEVEL_CHECK_OPTIONS: AudioLevelCheckOptions = {
+  sampleMs: 2000,
+  silenceThresholdDb: -60,
+};
+
+// Listens to the default microphone and warns when it picks up nothing at all, e.g. a hardware mute switch
+export function createAudioLevelCheck(options: Partial<AudioLevelCheckOptions> = {}): DiagnosticCheck {
+  const { sampleMs, silenceThresholdDb } = { ...DEFAULT_AUDIO_LEVEL_CHECK_OPTIONS, ...options };
+
+  return {
+    id: 'audio-level',
+    name: 'Microphone input level',
+    run: async (context) => {
+      const mediaDevices = getMediaDevices(context);
+      if (!mediaDevices?.getUserMedia) return NO_MEDIA_DEVICES;
+      if (typeof AudioContext === 'undefined') {
+        return { status: 'skip', message: 'This browser cannot measure input levels' };
+      }
+
+      let stream: MediaStream;
+      try {
+        stream = await mediaDevices.getUserMedia({ audio: true });
+      } catch (error) {
+        return { status: 'skip', message: describeMediaError(error, 'Microphone') };
+      }
+
+      const audioContext = new AudioContext();
+      try {
+        const analyser = audioContext.createAnalyser();
+        analyser.fftSize = 2048;
+        audioContext.createMediaStreamSource(stream).connect(analyser);
+
+        const samples = new Float32Array(analyser.fftSize);
+        let peakDb = -Infinity;
+        const deadline = Date.now() + sampleMs;
+        while (Date.now() < deadline) {
+          await new Promise((resolve) => setTimeout(resolve, 100));
+          analyser.getFloatTimeDomainData(samples);
+          const rms = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+          peakDb = Math.max(peakDb, 20 * Math.log10(rms));
+        }
+
+        const details = { peakDb: Number.isFinite(peakDb) ? Math.round(peakDb) : null, sampleMs };
+        if (peakDb < silenceThresholdDb) {
+          return {
+            status: 'warn',
+            message: 'The microphone picked up no sound; check it is not muted and the right input is selected',
+            details,
+          };
+        }
+        return { status: 'pass', message: `Microphone is picking up sound (peak ${details.peakDb} dBFS)`, details };
+      } finally {
+        stream.getTracks().forEach((track) => track.stop());
+        void audioContext.close();
+      }
+    },
+  };
+}
@@ -14,6 +14,18 @@ function toErrorDetails(value: unknown): Record<string, unknown> {
   return { value };
 }
 
+export interface ApiErrorContext {
+  status?: number;
+  method?: string;
+  endpoint?: string;
+}
+
+// Akool codes for a missing, invalid or expired credential and for a banned account
+const AKOOL_AUTH_CODES = [1001, 1101, 1102, 1200];
+
+// Akool has no single code for exhausted credits, so its message is matched instead
+const QUOTA_MESSAGE = /credit|quota|balance|insufficient/i;
+
 export class ErrorMapper {
   static mapAgoraError(agoraError: unknown): StreamingError {
     const error = agoraError as { code?: string | number; name?: string; message?: string };
@@ -244,23 +256,37 @@ export class ErrorMapper {
     });
   }
 
-  static mapApiError(response: unknown): StreamingError {
-    const apiResponse = response as { code?: number; msg?: string; message?: string };
+  // Akool answers business errors with HTTP 200 and its own code, gateway and server failures with an HTTP status
+  static mapApiError(response: unknown, context: ApiErrorContext = {}): StreamingError {
+    const apiResponse = response as { code?: number; msg?: string; message?: string } | null | undefined;
     const code = apiResponse?.code;
-    const message = apiResponse?.msg || apiResponse?.message || 'API request failed';
+    const { status } = context;
+    const message =
+      apiResponse?.msg ||
+      apiResponse?.message ||
+      (status ? `API request failed with HTTP ${status}` : 'API request failed');
+    const details = { ...context, akoolCode: code, akoolMsg: apiResponse?.msg };
+
+    if (status === 401 || status === 403 || (code !== undefined && AKOOL_AUTH_CODES.includes(code))) {
+      return new StreamingError(ErrorCode.API_AUTH_FAILED, message, details);
+    }
 
-    if (code === 1001) {
-      return new StreamingError(ErrorCode.INVALID_CREDENTIALS, 'Invalid API credentials', {
-        details: toErrorDetails(response),
-      });
+    if (status === 429) {
+      return new StreamingError(ErrorCode.API_RATE_LIMITED, message, details);
+    }
+
+    if (status === 402 || (code !== undefined && QUOTA_MESSAGE.test(message))) {
+      return new StreamingError(ErrorCode.API_QUOTA_EXCEEDED, message, details);
     }
 
     if (code === 1002) {
-      return new StreamingError(ErrorCode.INVALID_CONFIGURATION, 'Invalid configuration parameters', {
-        details: toErrorDetails(response),
-      });
+      return new StreamingError(ErrorCode.INVALID_CONFIGURATION, message, details);
+    }
+
+    if (status !== undefined && status >= 500) {
+      return new StreamingError(ErrorCode.API_SERVER_ERROR, message, details);
     }
 
-    return new StreamingError(ErrorCode.API_REQUEST_FAILED, message, { details: toErrorDetails(response) });
+    return new StreamingError(ErrorCode.API_REQUEST_FAILED, message, details);
   }
 }
@@ -0,0 +1,91 @@
+import { logger } from '../core/Logger';
+import { Transcript } from '../types/transcript.types';
+import { ConversationSummary, HistoryLimits, HistoryStorageBackend, StoredConversation } from '../types/history.types';
+
+export const DEFAULT_HISTORY_LIMITS: HistoryLimits = {
+  maxConversations: 50,
+  maxEntriesPerConversation: 500,
+  maxAgeMs: 30 * 24 * 60 * 60 * 1000, // 30 days
+};
+
+// A continued conversation keeps the key of its first session, so every save overwrites one record.
+// Sessions without an Akool id are keyed by when they started.
+export const getConversationId = ({ session }: Transcript): string => {
+  if (session.previousSessionIds) {
+    return session.previousSessionIds[0] ?? `session-${session.startedAt}`;
+  }
+  return session.sessionId || `session-${session.startedAt}`;
+};
+
+/**
+ * Saved conversations, one per streaming session and its continuations. Every save trims the conversation
+ * to the entry limit and then drops whole conversations that are too old or beyond the count limit, oldest first.
+ */
+export class ConversationHistory {
+  private backend: HistoryStorageBackend;
+  private limits: HistoryLimits;
+
+  constructor(backend: HistoryStorageBackend, limits: Partial<HistoryLimits> = {}) {
+    this.backend = backend;
+    this.limits = { ...DEFAULT_HISTORY_LIMITS, ...limits };
+  }
+
+  async save(transcript: Transcript, now = Date.now()): Promise<string> {
+    const id = getConversationId(transcript);
+    const entries = transcript.entries.slice(-this.limits.maxEntriesPerConversation);
+
+    await this.backend.put({ id, updatedAt: now, transcript: { ...transcript, entries } });
+    await this.prune(now);
+    return id;
+  }
+
+  // Newest first
+  async list(): Promise<ConversationSummary[]> {
+    const conversations = await this.backend.getAll();
+    return conversations.sort((a, b) => b.updatedAt - a.updatedAt).map(toSummary);
+  }
+
+  async get(id: string): Promise<Transcript | undefined> {
+    return (await this.backend.get(id))?.transcript;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.backend.delete(id);
+  }
+
+  async clear(): Promise<void> {
+    await this.backend.clear();
+  }
+
+  private async prune(now: number): Promise<void> {
+    const conversations = (await this.backend.getAll()).sort((a, b) => b.updatedAt - a.updatedAt);
+    const expired = conversations.filter(
+      (conversation, index) =>
+        index >= this.limits.maxConversations || now - conversation.updatedAt > this.limits.maxAgeMs,
+    );
+
+    if (expired.length === 0) return;
+
+    await Promise.all(expired.map((conversation) => this.backend.delete(conversation.id)));
+    logger.debug('Pruned conversation history', {
+      removed: expired.length,
+      kept: conversations.length - expired.length,
+    });
+  }
+}
+
+function toSummary({ id, updatedAt, transcript }: StoredConversation): ConversationSummary {
+  const { session, entries } = transcript;
+  const firstPrompt = entries.find((entry) => entry.kind === 'chat' && entry.sender === 'user');
+
+  return {
+    id,
+    updatedAt,
+    startedAt: session.startedAt,
+    endedAt: session.endedAt,
+    provider: session.provider,
+    avatarId: session.avatarId,
+    messageCount: entries.filter((entry) => entry.kind === 'chat').length,
+    preview: firstPrompt?.text ?? '',
+  };
+}
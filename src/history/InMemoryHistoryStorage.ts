@@ -0,0 +1,28 @@
+import { HistoryStorageBackend, StoredConversation } from '../types/history.types';
+
+// Non-persistent backend for tests and browsers without IndexedDB
+export class InMemoryHistoryStorage implements HistoryStorageBackend {
+  private conversations = new Map<string, StoredConversation>();
+
+  async getAll(): Promise<StoredConversation[]> {
+    return [...this.conversations.values()].map((conversation) => structuredClone(conversation));
+  }
+
+  async get(id: string): Promise<StoredConversation | undefined> {
+    const conversation = this.conversations.get(id);
+    return conversation ? structuredClone(conversation) : undefined;
+  }
+
+  async put(conversation: StoredConversation): Promise<void> {
+    // Copy like IndexedDB does, so later edits to the caller's object are not persisted by accident
+    this.conversations.set(conversation.id, structuredClone(conversation));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.conversations.delete(id);
+  }
+
+  async clear(): Promise<void> {
+    this.conversations.clear();
+  }
+}
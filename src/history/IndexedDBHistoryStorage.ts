@@ -0,0 +1,74 @@
+import { StreamingError, ErrorCode } from '../types/error.types';
+import { HistoryStorageBackend, StoredConversation } from '../types/history.types';
+
+const DB_NAME = 'dgd-avatar-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'conversations';
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () =>
+      reject(
+        new StreamingError(ErrorCode.RESOURCE_UNAVAILABLE, 'Conversation history storage request failed', {
+          details: { originalError: request.error?.message },
+        }),
+      );
+  });
+
+export class IndexedDBHistoryStorage implements HistoryStorageBackend {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private factory: IDBFactory;
+
+  constructor(factory: IDBFactory = indexedDB) {
+    this.factory = factory;
+  }
+
+  async getAll(): Promise<StoredConversation[]> {
+    const store = await this.store('readonly');
+    return toPromise(store.getAll() as IDBRequest<StoredConversation[]>);
+  }
+
+  async get(id: string): Promise<StoredConversation | undefined> {
+    const store = await this.store('readonly');
+    return toPromise(store.get(id) as IDBRequest<StoredConversation | undefined>);
+  }
+
+  async put(conversation: StoredConversation): Promise<void> {
+    const store = await this.store('readwrite');
+    await toPromise(store.put(conversation));
+  }
+
+  async delete(id: string): Promise<void> {
+    const store = await this.store('readwrite');
+    await toPromise(store.delete(id));
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.store('readwrite');
+    await toPromise(store.clear());
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const request = this.factory.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+
+      this.dbPromise = toPromise(request).catch((error: unknown) => {
+        // Let the next call try again, e.g. after the user re-enabled storage
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+}
@@ -0,0 +1,21 @@
+import { logger } from '../core/Logger';
+import { HistoryStorageBackend } from '../types/history.types';
+import { ConversationHistory } from './ConversationHistory';
+import { IndexedDBHistoryStorage } from './IndexedDBHistoryStorage';
+import { InMemoryHistoryStorage } from './InMemoryHistoryStorage';
+
+export { ConversationHistory, DEFAULT_HISTORY_LIMITS, getConversationId } from './ConversationHistory';
+export { IndexedDBHistoryStorage } from './IndexedDBHistoryStorage';
+export { InMemoryHistoryStorage } from './InMemoryHistoryStorage';
+
+// IndexedDB where the browser has it; jsdom and some private modes do not, and get a memory store instead
+export function createHistoryStorage(): HistoryStorageBackend {
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDBHistoryStorage(indexedDB);
+  }
+
+  logger.warn('IndexedDB unavailable, conversation history will not survive a reload');
+  return new InMemoryHistoryStorage();
+}
+
+export const conversationHistory = new ConversationHistory(createHistoryStorage());
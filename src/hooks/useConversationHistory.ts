@@ -0,0 +1,84 @@
+import { useState, useCallback, useEffect } from 'react';
+import { Message } from './useMessageState';
+import { transcriptToMessages } from './useTranscript';
+import { conversationHistory } from '../history';
+import { ConversationSummary } from '../types/history.types';
+import { logger } from '../core/Logger';
+
+interface UseConversationHistoryReturn {
+  conversations: ConversationSummary[];
+  refresh: () => Promise<void>;
+  openConversation: (id: string) => Promise<Message[] | null>;
+  getPrompts: (id: string) => Promise<string[]>;
+  removeConversation: (id: string) => Promise<void>;
+  clearHistory: () => Promise<void>;
+}
+
+// Browses conversations saved by useTranscript; storage failures are logged and leave the list as it was
+export const useConversationHistory = (): UseConversationHistoryReturn => {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setConversations(await conversationHistory.list());
+    } catch (error) {
+      logger.warn('Failed to load conversation history', { error });
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const openConversation = useCallback(async (id: string): Promise<Message[] | null> => {
+    try {
+      const transcript = await conversationHistory.get(id);
+      return transcript ? transcriptToMessages(transcript) : null;
+    } catch (error) {
+      logger.warn('Failed to open conversation', { error, id });
+      return null;
+    }
+  }, []);
+
+  const getPrompts = useCallback(async (id: string): Promise<string[]> => {
+    try {
+      const transcript = await conversationHistory.get(id);
+      return (transcript?.entries ?? [])
+        .filter((entry) => entry.kind === 'chat' && entry.sender === 'user')
+        .map((entry) => entry.text);
+    } catch (error) {
+      logger.warn('Failed to load conversation prompts', { error, id });
+      return [];
+    }
+  }, []);
+
+  const removeConversation = useCallback(
+    async (id: string) => {
+      try {
+        await conversationHistory.remove(id);
+      } catch (error) {
+        logger.warn('Failed to remove conversation', { error, id });
+      }
+      await refresh();
+    },
+    [refresh],
+  );
+
+  const clearHistory = useCallback(async () => {
+    try {
+      await conversationHistory.clear();
+    } catch (error) {
+      logger.warn('Failed to clear conversation history', { error });
+    }
+    await refresh();
+  }, [refresh]);
+
+  return {
+    conversations,
+    refresh,
+    openConversation,
+    getPrompts,
+    removeConversation,
+    clearHistory,
+  };
+};
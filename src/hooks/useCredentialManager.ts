@@ -0,0 +1,101 @@
+import { useEffect, useRef } from 'react';
+import { useStreamingContext } from './useStreamingContext';
+import { useNotifications } from '../contexts/NotificationContext';
+import { useConfigurationStore } from '../stores/configurationStore';
+import { credentialManager, CREDENTIAL_LABELS } from '../credentials';
+import { globalEventBus } from '../core/EventBus';
+import { Session } from '../types/api.schemas';
+import { CredentialKind } from '../types/credentials.types';
+import { StreamingError, ErrorCode } from '../types/error.types';
+
+interface UseCredentialManagerProps {
+  session: Session | null;
+}
+
+const formatRemaining = (ms: number) => (ms >= 60000 ? `${Math.round(ms / 60000)} min` : `${Math.ceil(ms / 1000)}s`);
+
+// Hands the current OpenAPI token and session credentials to the credential manager, applies what it renews,
+// and keeps a warning up while one of them is about to run out
+export const useCredentialManager = ({ session }: UseCredentialManagerProps): void => {
+  const { provider } = useStreamingContext();
+  const { showWarning, showError, removeNotification } = useNotifications();
+  const { openapiCredential, authMethod, setOpenapiCredential } = useConfigurationStore();
+  // Kind to the warning shown for it
+  const notificationIds = useRef(new Map<CredentialKind, string>());
+
+  const providerRef = useRef(provider);
+  providerRef.current = provider;
+
+  useEffect(() => {
+    credentialManager.setCallbacks({
+      onApiTokenRefreshed: setOpenapiCredential,
+      onRtcCredentialsRefreshed: async (credentials) => {
+        if (!providerRef.current) {
+          throw new StreamingError(ErrorCode.CREDENTIAL_REFRESH_FAILED, 'No connected provider to renew the token of');
+        }
+        await providerRef.current.renewToken(credentials);
+      },
+    });
+    return () => credentialManager.setCallbacks({});
+  }, [setOpenapiCredential]);
+
+  // API keys do not expire
+  useEffect(() => {
+    credentialManager.trackApiToken(authMethod === 'token' ? openapiCredential : null);
+  }, [openapiCredential, authMethod]);
+
+  // Followed for as long as the session exists, so a reconnect does not lose what was renewed
+  useEffect(() => {
+    credentialManager.trackRtcCredentials(
+      session ? { sessionId: session._id, providerType: session.stream_type, credentials: session.credentials } : null,
+    );
+  }, [session]);
+
+  useEffect(() => {
+    const dismiss = (kind: CredentialKind) => {
+      const id = notificationIds.current.get(kind);
+      if (id) {
+        removeNotification(id);
+        notificationIds.current.delete(kind);
+      }
+    };
+
+    const unsubscribeExpiring = globalEventBus.subscribe(
+      'credentials:expiring',
+      ({ kind, remainingMs, canRefresh }) => {
+        dismiss(kind);
+        const action = canRefresh
+          ? 'Renewing it keeps failing.'
+          : kind === 'openapi'
+            ? 'Enter a new one in the configuration panel.'
+            : 'The stream may stop when it does.';
+        // Stays up until the credential is renewed or runs out
+        notificationIds.current.set(
+          kind,
+          showWarning(
+            `The ${CREDENTIAL_LABELS[kind]} expires in ${formatRemaining(remainingMs)}. ${action}`,
+            'Credentials',
+            0,
+          ),
+        );
+      },
+    );
+    const unsubscribeRefreshed = globalEventBus.subscribe('credentials:refreshed', ({ kind }) => dismiss(kind));
+    const unsubscribeFailed = globalEventBus.subscribe('credentials:refresh-failed', ({ error, willRetry }) => {
+      if (!willRetry) {
+        showError(error.message, 'Credentials');
+      }
+    });
+    const unsubscribeExpired = globalEventBus.subscribe('credentials:expired', ({ kind }) => {
+      dismiss(kind);
+      showError(`The ${CREDENTIAL_LABELS[kind]} has expired`, 'Credentials');
+    });
+
+    return () => {
+      unsubscribeExpiring();
+      unsubscribeRefreshed();
+      unsubscribeFailed();
+      unsubscribeExpired();
+    };
+  }, [removeNotification, showError, showWarning]);
+};
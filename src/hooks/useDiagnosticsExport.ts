@@ -0,0 +1,99 @@
+import { useState, useCallback } from 'react';
+import { useStreamingContext } from './useStreamingContext';
+import { useConfigurationStore } from '../stores/configurationStore';
+import { globalEventBus } from '../core/EventBus';
+import { logger } from '../core/Logger';
+import { sessionLifecycle } from '../metrics';
+import { SessionMetricsReport } from '../types/metrics.types';
+import { AudioDumpAttachment, collectAudioDump, createDiagnosticsBundle, getSdkVersions } from '../diagnostics';
+
+interface UseDiagnosticsExportProps {
+  getMetricsReport?: () => SessionMetricsReport | null;
+}
+
+export interface DiagnosticsExportOptions {
+  // Runs the provider's audio dump first, which records for a few seconds
+  includeAudio?: boolean;
+}
+
+export interface UseDiagnosticsExportReturn {
+  isExporting: boolean;
+  // Audio dumps need a provider with a live microphone
+  canIncludeAudio: boolean;
+  exportDiagnostics: (options?: DiagnosticsExportOptions) => Promise<void>;
+}
+
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Downloads one JSON file with logs, configuration, events, stats and errors for a support ticket
+export const useDiagnosticsExport = ({
+  getMetricsReport,
+}: UseDiagnosticsExportProps = {}): UseDiagnosticsExportReturn => {
+  const { provider, providerType, state } = useStreamingContext();
+  const [isExporting, setIsExporting] = useState(false);
+  const canIncludeAudio = !!provider && !!state?.isJoined;
+
+  const exportDiagnostics = useCallback(
+    async ({ includeAudio = false }: DiagnosticsExportOptions = {}) => {
+      if (isExporting) {
+        return;
+      }
+
+      setIsExporting(true);
+      try {
+        let audioDumps: AudioDumpAttachment[] | undefined;
+        let audioDumpError: string | undefined;
+        if (includeAudio) {
+          const dump = provider ? await collectAudioDump(provider) : { files: [], error: 'No provider is connected' };
+          audioDumps = dump.files;
+          audioDumpError = dump.error;
+        }
+
+        // Actions are left out, only the settings matter
+        const configuration = Object.fromEntries(
+          Object.entries(useConfigurationStore.getState()).filter(([, value]) => typeof value !== 'function'),
+        );
+
+        const bundle = createDiagnosticsBundle({
+          provider: providerType,
+          sdkVersions: await getSdkVersions(),
+          configuration,
+          state,
+          logs: logger.getLogs(),
+          events: globalEventBus.getHistory(),
+          metrics: getMetricsReport?.() ?? null,
+          lifecycle: sessionLifecycle.getTimeline(),
+          audioDumps,
+          audioDumpError,
+        });
+
+        const name = new Date(bundle.createdAt).toISOString().replace(/[:.]/g, '-');
+        downloadFile(JSON.stringify(bundle, null, 2), `diagnostics-${providerType}-${name}.json`, 'application/json');
+        logger.info('Diagnostics exported', {
+          logs: bundle.logs.length,
+          events: bundle.events.length,
+          errors: bundle.errors.length,
+          audioDumps: bundle.audioDumps?.length,
+        });
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [isExporting, provider, providerType, state, getMetricsReport],
+  );
+
+  return {
+    isExporting,
+    canIncludeAudio,
+    exportDiagnostics,
+  };
+};
@@ -1,6 +1,7 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useStreamingContext } from './useStreamingContext';
 import { logger } from '../core/Logger';
+import { AvatarResponse, MessageDeliveryStatus } from '../types/provider.interfaces';
 
 // System event types enum
 export enum SystemEventType {
@@ -44,6 +45,10 @@ export interface Message {
   sender: MessageSender;
   messageType: MessageType;
   timestamp: number;
+  // Delivery state of messages the user sent; undefined for everything received
+  deliveryStatus?: MessageDeliveryStatus;
+  // Avatar reply still receiving chunks
+  isStreaming?: boolean;
   // System-specific fields
   systemType?: SystemEventType;
   // Additional data for tooltips and other features
@@ -62,7 +67,11 @@ interface UseMessageStateReturn {
   inputMessage: string;
   setInputMessage: (message: string) => void;
   sendMessage: () => Promise<void>;
+  sendText: (text: string) => Promise<void>;
+  retryMessage: (messageId: string) => Promise<void>;
   clearMessages: () => void;
+  // Replace the list wholesale, e.g. with an imported transcript
+  loadMessages: (messages: Message[]) => void;
   addMessage: (
     messageId: string,
     text: string,
@@ -72,6 +81,7 @@ interface UseMessageStateReturn {
     metadata?: Message['metadata'],
   ) => void;
   addChatMessage: (messageId: string, text: string, sender: MessageSender) => void;
+  applyAvatarResponse: (response: AvatarResponse) => void;
   addSystemMessage: (
     messageId: string,
     text: string,
@@ -113,39 +123,83 @@ export const useMessageState = ({ connected }: UseMessageStateProps): UseMessage
   const [sending, setSending] = useState(false);
 
   // Get provider-agnostic send function
-  const { sendMessage: sendMessageToProvider } = useStreamingContext();
+  const { sendMessage: sendMessageToProvider, onMessageDelivery } = useStreamingContext();
 
   // Stream message listening is now handled by the provider's event system
   // No direct client dependency needed
 
+  const setDeliveryStatus = useCallback((messageId: string, deliveryStatus: MessageDeliveryStatus) => {
+    setMessages((prev) => prev.map((msg) => (msg.id === messageId ? { ...msg, deliveryStatus } : msg)));
+  }, []);
+
+  // The message id doubles as the wire mid, so delivery events map straight onto bubbles
+  useEffect(() => {
+    const unsubscribe = onMessageDelivery((event) => {
+      if (event.kind === 'chat') {
+        setDeliveryStatus(event.messageId, event.status);
+      }
+    });
+
+    return unsubscribe;
+  }, [onMessageDelivery, setDeliveryStatus]);
+
+  // Send arbitrary text as a new user message, e.g. a prompt picked from history
+  const sendText = useCallback(
+    async (text: string) => {
+      if (!text.trim() || !connected || sending) return;
+
+      setSending(true);
+      const messageId = Date.now().toString();
+
+      // Add message to local state immediately
+      const newMessage: Message = {
+        id: messageId,
+        text,
+        sender: MessageSender.USER,
+        messageType: MessageType.CHAT,
+        timestamp: Date.now(),
+        deliveryStatus: 'pending',
+      };
+
+      setMessages((prev) => [...prev, newMessage]);
+
+      try {
+        await sendMessageToProvider(text, messageId);
+      } catch (error) {
+        // Keep the bubble so the user can retry it
+        setDeliveryStatus(messageId, 'failed');
+        throw error; // Re-throw so calling component can handle it
+      } finally {
+        setSending(false);
+      }
+    },
+    [sendMessageToProvider, connected, sending, setDeliveryStatus],
+  );
+
   const sendMessage = useCallback(async () => {
     if (!inputMessage.trim() || !connected || sending) return;
 
-    setSending(true);
-    const messageId = Date.now().toString();
+    setInputMessage('');
+    await sendText(inputMessage);
+  }, [sendText, connected, inputMessage, sending]);
 
-    // Add message to local state immediately
-    const newMessage: Message = {
-      id: messageId,
-      text: inputMessage,
-      sender: MessageSender.USER,
-      messageType: MessageType.CHAT,
-      timestamp: Date.now(),
-    };
+  const retryMessage = useCallback(
+    async (messageId: string) => {
+      const message = messages.find((msg) => msg.id === messageId);
+      if (!message || message.deliveryStatus !== 'failed' || !connected) return;
 
-    setMessages((prev) => [...prev, newMessage]);
-    setInputMessage('');
+      setDeliveryStatus(messageId, 'pending');
 
-    try {
-      await sendMessageToProvider(inputMessage);
-    } catch (error) {
-      // Remove the message from state if sending failed
-      setMessages((prev) => prev.filter((msg) => msg.id !== messageId));
-      throw error; // Re-throw so calling component can handle it
-    } finally {
-      setSending(false);
-    }
-  }, [sendMessageToProvider, connected, inputMessage, sending]);
+      try {
+        // Same mid as the first attempt, so the provider restarts tracking for this bubble
+        await sendMessageToProvider(message.text, messageId);
+      } catch (error) {
+        logger.warn('Retrying message failed', { messageId, error });
+        setDeliveryStatus(messageId, 'failed');
+      }
+    },
+    [messages, connected, sendMessageToProvider, setDeliveryStatus],
+  );
 
   const addMessage = useCallback(
     (
@@ -213,6 +267,35 @@ export const useMessageState = ({ connected }: UseMessageStateProps): UseMessage
     [addMessage],
   );
 
+  // Assembled responses carry their full text, so the bubble is replaced rather than appended to
+  const applyAvatarResponse = useCallback((response: AvatarResponse) => {
+    const messageId = `chat_${response.responseId}`;
+    const isStreaming = response.status !== 'final';
+    const metadata = { timings: response.timings, questionId: response.questionId };
+
+    setMessages((prev) => {
+      const existingMessageIndex = prev.findIndex((msg) => msg.id === messageId);
+      if (existingMessageIndex === -1) {
+        return [
+          ...prev,
+          {
+            id: messageId,
+            text: response.text,
+            sender: MessageSender.AVATAR,
+            messageType: MessageType.CHAT,
+            timestamp: response.timings.firstTokenAt,
+            isStreaming,
+            metadata,
+          },
+        ];
+      }
+
+      return prev.map((msg, index) =>
+        index === existingMessageIndex ? { ...msg, text: response.text, isStreaming, metadata } : msg,
+      );
+    });
+  }, []);
+
   const addSystemMessage = useCallback(
     (messageId: string, text: string, systemType: SystemEventType, metadata?: Message['metadata']) => {
       logger.debug('Adding system message', { messageId, text, systemType, metadata });
@@ -226,6 +309,11 @@ export const useMessageState = ({ connected }: UseMessageStateProps): UseMessage
     setInputMessage('');
   }, []);
 
+  const loadMessages = useCallback((loaded: Message[]) => {
+    setMessages(loaded);
+    setInputMessage('');
+  }, []);
+
   // Clean up old system messages to keep chat history manageable
   const cleanupOldSystemMessages = useCallback(() => {
     setMessages((prev) => {
@@ -257,9 +345,13 @@ export const useMessageState = ({ connected }: UseMessageStateProps): UseMessage
     inputMessage,
     setInputMessage,
     sendMessage,
+    sendText,
+    retryMessage,
     clearMessages,
+    loadMessages,
     addMessage,
     addChatMessage,
+    applyAvatarResponse,
     addSystemMessage,
     cleanupOldSystemMessages,
     formatTime,
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { logger } from '../core/Logger';
 import { useStreamingContext } from './useStreamingContext';
 import { RemoteVideoStrategyFactory } from '../providers/common/strategies';
+import { sessionLifecycle } from '../metrics';
 
 interface UseProviderAwareRemoteVideoStateOptions {
   isJoined: boolean;
@@ -23,6 +24,7 @@ export const useProviderAwareRemoteVideoState = ({
       setIsRemoteVideoPlaying(isPlaying);
 
       if (isPlaying) {
+        sessionLifecycle.mark('first-frame');
         logger.info('Remote video is ready and displaying', { providerType });
       } else {
         logger.info('Remote video stopped, showing placeholder', { providerType });
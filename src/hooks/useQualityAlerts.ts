@@ -0,0 +1,123 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useStreamingContext } from './useStreamingContext';
+import { useNotifications } from '../contexts/NotificationContext';
+import { useModal } from '../contexts/useModal';
+import { useConfigurationStore } from '../stores/configurationStore';
+import { QualityAlertEngine, parseQualityAlertRules } from '../alerts';
+import { QUALITY_ALERT_RULES_VERSION, QualityAlert, QualityAlertRecovery } from '../types/qualityAlerts.types';
+import { globalEventBus } from '../core/EventBus';
+import { logger } from '../core/Logger';
+
+export interface UseQualityAlertsReturn {
+  activeAlerts: QualityAlert[];
+  editRules: () => void;
+}
+
+// Raises a toast and a system:warning while an alert rule holds, and lets the user know when it clears
+export const useQualityAlerts = (): UseQualityAlertsReturn => {
+  const { state } = useStreamingContext();
+  const { showWarning, showError, showSuccess, removeNotification } = useNotifications();
+  const { openJsonEditor } = useModal();
+  const { qualityAlertRules, setQualityAlertRules } = useConfigurationStore();
+  const [activeAlerts, setActiveAlerts] = useState<QualityAlert[]>([]);
+  // Rule id to the notification shown for its alert
+  const notificationIds = useRef(new Map<string, string>());
+
+  const handleAlert = useCallback(
+    (alert: QualityAlert) => {
+      const show = alert.rule.severity === 'error' ? showError : showWarning;
+      // Stays up until the alert recovers
+      notificationIds.current.set(alert.rule.id, show(alert.message, 'Network Quality', 0));
+      globalEventBus.publish('system:warning', {
+        message: alert.message,
+        context: { type: 'quality-alert', ruleId: alert.rule.id, metric: alert.rule.metric, value: alert.value },
+      });
+      logger.warn('Network quality alert', { ruleId: alert.rule.id, value: alert.value });
+    },
+    [showError, showWarning],
+  );
+
+  const handleRecover = useCallback(
+    ({ alert, value, recoveredAt }: QualityAlertRecovery) => {
+      const notificationId = notificationIds.current.get(alert.rule.id);
+      if (notificationId) {
+        removeNotification(notificationId);
+        notificationIds.current.delete(alert.rule.id);
+      }
+      // Rules that were edited away did not recover, there is just nothing left to watch
+      if (value === undefined) return;
+
+      showSuccess(`Recovered: ${alert.message}`, 'Network Quality');
+      globalEventBus.publish('system:info', {
+        message: `Recovered: ${alert.message}`,
+        context: {
+          type: 'quality-recovered',
+          ruleId: alert.rule.id,
+          metric: alert.rule.metric,
+          value,
+          durationMs: recoveredAt - alert.firedAt,
+        },
+      });
+      logger.info('Network quality alert recovered', { ruleId: alert.rule.id, value });
+    },
+    [removeNotification, showSuccess],
+  );
+
+  const callbacksRef = useRef({ onAlert: handleAlert, onRecover: handleRecover });
+  callbacksRef.current = { onAlert: handleAlert, onRecover: handleRecover };
+
+  const engineRef = useRef<QualityAlertEngine | null>(null);
+  if (!engineRef.current) {
+    engineRef.current = new QualityAlertEngine(qualityAlertRules, {
+      onAlert: (alert) => callbacksRef.current.onAlert(alert),
+      onRecover: (recovery) => callbacksRef.current.onRecover(recovery),
+    });
+  }
+
+  useEffect(() => {
+    engineRef.current?.setRules(qualityAlertRules);
+    setActiveAlerts(engineRef.current?.getActiveAlerts() ?? []);
+  }, [qualityAlertRules]);
+
+  const isJoined = !!state?.isJoined;
+  const networkQuality = state?.networkQuality ?? null;
+  const detailedNetworkStats = state?.detailedNetworkStats;
+
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine || !isJoined) return;
+
+    engine.evaluate({ networkQuality, detailedNetworkStats });
+    setActiveAlerts(engine.getActiveAlerts());
+  }, [isJoined, networkQuality, detailedNetworkStats]);
+
+  // Alerts of a session that ended are dropped with it
+  useEffect(() => {
+    if (isJoined) return;
+
+    engineRef.current?.reset();
+    notificationIds.current.forEach((id) => removeNotification(id));
+    notificationIds.current.clear();
+    setActiveAlerts([]);
+  }, [isJoined, removeNotification]);
+
+  const editRules = useCallback(() => {
+    openJsonEditor(
+      { version: QUALITY_ALERT_RULES_VERSION, rules: qualityAlertRules },
+      (value) => {
+        try {
+          setQualityAlertRules(parseQualityAlertRules(value).rules);
+          showSuccess('Alert rules updated');
+        } catch (error) {
+          showError(error instanceof Error ? error.message : String(error), 'Invalid Alert Rules');
+        }
+      },
+      'Network Quality Alert Rules',
+    );
+  }, [openJsonEditor, qualityAlertRules, setQualityAlertRules, showError, showSuccess]);
+
+  return {
+    activeAlerts,
+    editRules,
+  };
+};
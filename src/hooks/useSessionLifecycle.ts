@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import { globalEventBus } from '../core/EventBus';
+import { sessionLifecycle } from '../metrics';
+import { SessionLifecycleSummary, SessionLifecycleTimeline } from '../types/lifecycle.types';
+
+export interface UseSessionLifecycleReturn {
+  // The latest session start, also after it ended
+  timeline: SessionLifecycleTimeline | null;
+  // Typical timings per provider from the stored history
+  summaries: SessionLifecycleSummary[];
+}
+
+// Follows the start-up timing of the current session as its steps are reached
+export const useSessionLifecycle = (): UseSessionLifecycleReturn => {
+  const [timeline, setTimeline] = useState(() => sessionLifecycle.getTimeline());
+  const [summaries, setSummaries] = useState(() => sessionLifecycle.summarize());
+
+  useEffect(() => {
+    const unsubscribeMark = globalEventBus.subscribe('lifecycle:mark', (event) => setTimeline(event.timeline));
+    const unsubscribeCompleted = globalEventBus.subscribe('lifecycle:completed', (event) => {
+      setTimeline(event.timeline);
+      setSummaries(sessionLifecycle.summarize());
+    });
+    return () => {
+      unsubscribeMark();
+      unsubscribeCompleted();
+    };
+  }, []);
+
+  return { timeline, summaries };
+};
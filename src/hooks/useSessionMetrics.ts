@@ -0,0 +1,132 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useStreamingContext } from './useStreamingContext';
+import {
+  MetricsExportFormat,
+  SessionMetricsInfo,
+  SessionMetricsReport,
+  SessionMetricsSummary,
+} from '../types/metrics.types';
+import {
+  SessionMetricsRecorder,
+  formatSessionMetrics,
+  sessionLifecycle,
+  METRICS_FILE_EXTENSIONS,
+  METRICS_MIME_TYPES,
+} from '../metrics';
+import { logger } from '../core/Logger';
+
+const SAMPLE_INTERVAL_MS = 1000;
+
+export type SessionMetricsDetails = Pick<SessionMetricsInfo, 'sessionId' | 'provider'>;
+
+interface UseSessionMetricsProps {
+  // Memoize this; every new object is merged into the running recording
+  sessionInfo: SessionMetricsDetails;
+  isRemoteVideoPlaying: boolean;
+}
+
+export interface UseSessionMetricsReturn {
+  hasRecording: boolean;
+  // Computed on demand so the app does not re-render on every sample
+  getSummary: () => SessionMetricsSummary | null;
+  // The latest recording with its start-up timing, also while it is still running
+  getReport: () => SessionMetricsReport | null;
+  exportMetrics: (format: MetricsExportFormat) => void;
+}
+
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Records the session's QoE timeline from the moment the provider starts connecting; the last session stays exportable
+export const useSessionMetrics = ({
+  sessionInfo,
+  isRemoteVideoPlaying,
+}: UseSessionMetricsProps): UseSessionMetricsReturn => {
+  const { state, isAvatarSpeaking } = useStreamingContext();
+  const recorderRef = useRef(new SessionMetricsRecorder());
+  const sessionInfoRef = useRef(sessionInfo);
+  const metricsRef = useRef(state?.metrics);
+  const [hasRecording, setHasRecording] = useState(false);
+
+  sessionInfoRef.current = sessionInfo;
+  metricsRef.current = state?.metrics;
+  const active = !!state && (state.isConnecting || state.isJoined || !!state.isReconnecting);
+
+  useEffect(() => {
+    const recorder = recorderRef.current;
+    if (active && !recorder.isActive()) {
+      recorder.start(sessionInfoRef.current);
+      setHasRecording(true);
+      logger.debug('Session metrics recording started', { provider: sessionInfoRef.current.provider });
+    } else if (!active && recorder.isActive()) {
+      recorder.end();
+      logger.debug('Session metrics recording stopped', { summary: recorder.getReport()?.summary });
+    }
+  }, [active]);
+
+  useEffect(() => {
+    if (!active) return;
+
+    const interval = setInterval(() => recorderRef.current.record(metricsRef.current), SAMPLE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [active]);
+
+  useEffect(() => {
+    recorderRef.current.updateSession(sessionInfo);
+  }, [sessionInfo]);
+
+  useEffect(() => {
+    recorderRef.current.setAvatarSpeaking(isAvatarSpeaking);
+  }, [isAvatarSpeaking]);
+
+  useEffect(() => {
+    if (isRemoteVideoPlaying) {
+      recorderRef.current.markFirstFrame();
+    }
+  }, [isRemoteVideoPlaying]);
+
+  const getSummary = useCallback(() => recorderRef.current.getReport()?.summary ?? null, []);
+
+  const getReport = useCallback(() => {
+    const report = recorderRef.current.getReport();
+    const lifecycle = sessionLifecycle.getTimeline();
+    if (report && lifecycle && lifecycle.sessionId === report.session.sessionId) {
+      report.lifecycle = lifecycle;
+    }
+    return report;
+  }, []);
+
+  const exportMetrics = useCallback(
+    (format: MetricsExportFormat) => {
+      const report = getReport();
+      if (!report) {
+        logger.warn('No session metrics to export');
+        return;
+      }
+
+      const name = report.session.sessionId || new Date(report.session.startedAt).toISOString();
+      downloadFile(
+        formatSessionMetrics(report, format),
+        `qoe-${report.session.provider ?? 'session'}-${name}.${METRICS_FILE_EXTENSIONS[format]}`,
+        METRICS_MIME_TYPES[format],
+      );
+      logger.info('Session metrics exported', { format, samples: report.samples.length });
+    },
+    [getReport],
+  );
+
+  return {
+    hasRecording,
+    getSummary,
+    getReport,
+    exportMetrics,
+  };
+};
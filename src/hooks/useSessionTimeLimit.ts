@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useNotifications } from '../contexts/NotificationContext';
+import { sessionTimeManager } from '../session';
+import { globalEventBus } from '../core/EventBus';
+import { Session } from '../types/api.schemas';
+import { SessionTimeStatus } from '../types/sessionTime.types';
+
+const TICK_INTERVAL_MS = 1000;
+
+interface UseSessionTimeLimitProps {
+  session: Session | null;
+  sessionExpiresAt: number | null;
+  startStreaming: () => Promise<void>;
+  closeStreaming: () => Promise<void>;
+}
+
+export interface UseSessionTimeLimitReturn {
+  // null while there is no session, and once an expired one is continued or dismissed
+  status: SessionTimeStatus | null;
+  isContinuing: boolean;
+  continueSession: () => void;
+  dismissExpired: () => void;
+}
+
+const formatRemaining = (ms: number) => (ms >= 60000 ? `${Math.round(ms / 60000)} min` : `${Math.ceil(ms / 1000)}s`);
+
+// Times the current session against its duration, closes it when that runs out and offers a continuation
+export const useSessionTimeLimit = ({
+  session,
+  sessionExpiresAt,
+  startStreaming,
+  closeStreaming,
+}: UseSessionTimeLimitProps): UseSessionTimeLimitReturn => {
+  const { showWarning, showInfo, showError } = useNotifications();
+  const [status, setStatus] = useState<SessionTimeStatus | null>(() => sessionTimeManager.getStatus());
+  const [isContinuing, setIsContinuing] = useState(false);
+
+  const startStreamingRef = useRef(startStreaming);
+  const closeStreamingRef = useRef(closeStreaming);
+  startStreamingRef.current = startStreaming;
+  closeStreamingRef.current = closeStreaming;
+
+  useEffect(() => {
+    sessionTimeManager.setCallbacks({
+      onExpire: () => closeStreamingRef.current(),
+      // The configuration still holds the avatar parameters the last session ended with
+      onContinue: () => startStreamingRef.current(),
+    });
+    return () => sessionTimeManager.setCallbacks({});
+  }, []);
+
+  useEffect(() => {
+    sessionTimeManager.track(
+      session && sessionExpiresAt !== null ? { sessionId: session._id, expiresAt: sessionExpiresAt } : null,
+    );
+    setStatus(sessionTimeManager.getStatus());
+  }, [session, sessionExpiresAt]);
+
+  // The countdown only needs to move while a session is running
+  const isRunning = status !== null && !status.expired;
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(() => setStatus(sessionTimeManager.getStatus()), TICK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  useEffect(() => {
+    const unsubscribeWarning = globalEventBus.subscribe('session:time-warning', ({ remainingMs, canContinue }) => {
+      showWarning(
+        `The session ends in ${formatRemaining(remainingMs)}.${canContinue ? ' You can continue in a new one when it does.' : ''}`,
+        'Session Time',
+      );
+    });
+    const unsubscribeExpired = globalEventBus.subscribe('session:expired', ({ canContinue }) => {
+      setStatus(sessionTimeManager.getStatus());
+      showInfo(
+        `The session reached its time limit and was closed.${canContinue ? ' Continue it from the video area.' : ''}`,
+        'Session Time',
+      );
+    });
+    const unsubscribeContinuing = globalEventBus.subscribe('session:continuing', () => setIsContinuing(true));
+    const unsubscribeContinued = globalEventBus.subscribe('session:continued', () => {
+      setIsContinuing(false);
+      setStatus(sessionTimeManager.getStatus());
+    });
+    const unsubscribeFailed = globalEventBus.subscribe('session:continuation-failed', ({ error }) => {
+      setIsContinuing(false);
+      setStatus(sessionTimeManager.getStatus());
+      showError(error.message, 'Session Time');
+    });
+
+    return () => {
+      unsubscribeWarning();
+      unsubscribeExpired();
+      unsubscribeContinuing();
+      unsubscribeContinued();
+      unsubscribeFailed();
+    };
+  }, [showWarning, showInfo, showError]);
+
+  const continueSession = useCallback(() => {
+    void sessionTimeManager.continueSession();
+  }, []);
+
+  const dismissExpired = useCallback(() => {
+    sessionTimeManager.dismissExpired();
+    setStatus(sessionTimeManager.getStatus());
+  }, []);
+
+  return { status, isContinuing, continueSession, dismissExpired };
+};
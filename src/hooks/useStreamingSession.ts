@@ -2,9 +2,12 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { ApiService, Session, SessionOptions } from '../apiService';
 import { StreamingCredentials } from '../types/provider.interfaces';
 import { StreamProviderType, VideoTrack } from '../types/streaming.types';
-import { SceneMode, E2EType } from '../types/api.schemas';
+import { SceneMode, E2EType, SystemConfig } from '../types/api.schemas';
 import { useStreamingContext } from './useStreamingContext';
+import { resolveFallbackOrder } from '../providers/ProviderManager';
+import { StreamingError, ErrorCode } from '../types/error.types';
 import { logger } from '../core/Logger';
+import { sessionLifecycle } from '../metrics';
 
 /**
  * Avatar Configuration Types and Utilities
@@ -33,11 +36,50 @@ const buildAvatarMetadata = (config: AvatarConfig) => {
   return Object.fromEntries(Object.entries(metadata).filter(([_, value]) => Boolean(value)));
 };
 
+/** Extract the provider-specific credentials from an Akool session */
+const buildStreamingCredentials = (session: Session, providerType: StreamProviderType): StreamingCredentials => {
+  const credentials = session.credentials;
+
+  // Build credentials based on the provider type
+  switch (providerType) {
+    case 'agora':
+      return {
+        agora_app_id: credentials.agora_app_id,
+        agora_channel: credentials.agora_channel,
+        agora_token: credentials.agora_token,
+        agora_uid: credentials.agora_uid,
+      };
+
+    case 'livekit':
+      return {
+        livekit_url: credentials.livekit_url,
+        livekit_token: credentials.livekit_token,
+        livekit_room_name: credentials.livekit_room_name,
+        livekit_client_identity: credentials.livekit_client_identity,
+        livekit_server_identity: credentials.livekit_server_identity,
+      };
+
+    case 'trtc':
+      return {
+        trtc_app_id: credentials.trtc_app_id,
+        trtc_user_id: credentials.trtc_user_id,
+        trtc_user_sig: credentials.trtc_user_sig,
+        trtc_room_id: credentials.trtc_room_id,
+      };
+
+    default:
+      throw new Error(`Unsupported provider type: ${providerType as string}`);
+  }
+};
+
 interface StreamingSessionState {
   isJoined: boolean;
   connected: boolean;
+  isReconnecting: boolean;
   remoteStats: unknown | null;
   session: Session | null;
+  // Epoch ms at which Akool ends the session
+  sessionExpiresAt: number | null;
   currentProvider: StreamProviderType | null;
 }
 
@@ -56,6 +98,7 @@ interface UseStreamingSessionParams {
   api: ApiService | null;
   localVideoTrack?: VideoTrack | null;
   providerType?: StreamProviderType;
+  systemConfig?: SystemConfig;
 }
 
 export const useStreamingSession = ({
@@ -73,6 +116,7 @@ export const useStreamingSession = ({
   api,
   localVideoTrack,
   providerType = 'agora',
+  systemConfig,
 }: UseStreamingSessionParams) => {
   const {
     provider,
@@ -80,6 +124,7 @@ export const useStreamingSession = ({
     state: providerState,
     switchProvider,
     connect,
+    connectWithFailover,
     disconnect,
     publishVideo,
     unpublishVideo,
@@ -91,12 +136,16 @@ export const useStreamingSession = ({
   const [state, setState] = useState<StreamingSessionState>({
     isJoined: false,
     connected: false,
+    isReconnecting: false,
     remoteStats: null,
     session: null,
+    sessionExpiresAt: null,
     currentProvider: null,
   });
 
   const sessionRef = useRef<Session | null>(null);
+  // Aborts the start in progress, see cancelStart
+  const startAbortRef = useRef<AbortController | null>(null);
   const initialParamsSentRef = useRef(false);
   const lastParamsRef = useRef<string>('');
 
@@ -107,6 +156,7 @@ export const useStreamingSession = ({
         ...prev,
         isJoined: providerState.isJoined,
         connected: providerState.isJoined,
+        isReconnecting: providerState.isReconnecting ?? false,
         currentProvider: currentProviderType,
       }));
     }
@@ -131,54 +181,33 @@ export const useStreamingSession = ({
     handleVideoTrack();
   }, [localVideoTrack, state.isJoined, provider, publishVideo, unpublishVideo]);
 
-  const buildStreamingCredentials = useCallback((): StreamingCredentials => {
-    if (!sessionRef.current) {
-      throw new Error('No active session');
-    }
-
-    const session = sessionRef.current;
-    const credentials = session.credentials;
-
-    // Build credentials based on the provider type
-    switch (providerType) {
-      case 'agora':
-        return {
-          agora_app_id: credentials.agora_app_id,
-          agora_channel: credentials.agora_channel,
-          agora_token: credentials.agora_token,
-          agora_uid: credentials.agora_uid,
-        };
-
-      case 'livekit':
-        return {
-          livekit_url: credentials.livekit_url,
-          livekit_token: credentials.livekit_token,
-          livekit_room_name: credentials.livekit_room_name,
-          livekit_client_identity: credentials.livekit_client_identity,
-          livekit_server_identity: credentials.livekit_server_identity,
-        };
-
-      case 'trtc':
-        return {
-          trtc_app_id: credentials.trtc_app_id,
-          trtc_user_id: credentials.trtc_user_id,
-          trtc_user_sig: credentials.trtc_user_sig,
-          trtc_room_id: credentials.trtc_room_id,
-        };
-
-      default:
-        throw new Error(`Unsupported provider type: ${providerType}`);
-    }
-  }, [providerType]);
-
   const startStreaming = useCallback(async () => {
     if (!api) {
       throw new Error('Please set host and token first');
     }
 
+    startAbortRef.current?.abort();
+    const controller = new AbortController();
+    startAbortRef.current = controller;
+    const { signal } = controller;
+
+    // Cancelled while the provider was joining: leave again instead of keeping a session nobody wants
+    const abandonIfCancelled = async () => {
+      if (!signal.aborted) return;
+      await disconnect();
+      const created = sessionRef.current;
+      sessionRef.current = null;
+      setState((prev) => ({ ...prev, session: null, sessionExpiresAt: null }));
+      if (created) {
+        await api.closeSession(created._id);
+      }
+      throw new StreamingError(ErrorCode.API_ABORTED, 'Start was cancelled');
+    };
+
     try {
       setState((prev) => ({ ...prev, connected: false }));
       logger.info('Starting unified streaming', { providerType, avatarId });
+      sessionLifecycle.start(providerType);
 
       // Create session with the selected stream type
       const sessionOptions: SessionOptions = {
@@ -196,10 +225,48 @@ export const useStreamingSession = ({
         e2e_type: e2eType || undefined,
       };
 
-      const session = await api.createSession(sessionOptions);
+      // Providers keep retrying a dropped connection until the Akool session itself has expired
+      const sessionExpiresAt = () => Date.now() + sessionDuration * 60 * 1000;
+
+      const candidates = systemConfig
+        ? resolveFallbackOrder({ ...systemConfig, default_provider: providerType })
+        : [providerType];
+
+      if (candidates.length > 1) {
+        // Failover mode: each attempt gets its own session created for that provider's stream type
+        const connectedProvider = await connectWithFailover(
+          candidates,
+          async (type) => {
+            const session = await api.createSession({ ...sessionOptions, stream_type: type }, { signal });
+            const expiresAt = sessionExpiresAt();
+            sessionRef.current = session;
+            sessionLifecycle.update({ provider: type, sessionId: session._id });
+            sessionLifecycle.mark('session-created');
+            setState((prev) => ({ ...prev, session, sessionExpiresAt: expiresAt }));
+            return { ...buildStreamingCredentials(session, type), session_expires_at: expiresAt };
+          },
+          async () => {
+            const session = sessionRef.current;
+            sessionRef.current = null;
+            if (session) {
+              await api.closeSession(session._id);
+            }
+          },
+        );
+        await abandonIfCancelled();
+
+        sessionLifecycle.mark('rtc-joined');
+        logger.info('Unified streaming started successfully', { providerType: connectedProvider });
+        return;
+      }
+
+      const session = await api.createSession(sessionOptions, { signal });
+      const expiresAt = sessionExpiresAt();
       sessionRef.current = session;
+      sessionLifecycle.update({ sessionId: session._id });
+      sessionLifecycle.mark('session-created');
 
-      setState((prev) => ({ ...prev, session }));
+      setState((prev) => ({ ...prev, session, sessionExpiresAt: expiresAt }));
 
       // Switch to desired provider if different, then connect
       if (currentProviderType !== providerType) {
@@ -207,13 +274,24 @@ export const useStreamingSession = ({
       }
 
       // Always connect with the credentials from the session
-      await connect(buildStreamingCredentials());
+      await connect({ ...buildStreamingCredentials(session, providerType), session_expires_at: expiresAt });
+      await abandonIfCancelled();
+      sessionLifecycle.mark('rtc-joined');
 
       logger.info('Unified streaming started successfully', { providerType });
     } catch (error) {
-      logger.error('Failed to start unified streaming', { error });
-      setState((prev) => ({ ...prev, connected: false, session: null }));
+      if (error instanceof StreamingError && error.code === ErrorCode.API_ABORTED) {
+        logger.info('Unified streaming start cancelled', { providerType });
+      } else {
+        logger.error('Failed to start unified streaming', { error });
+      }
+      sessionLifecycle.fail(error);
+      setState((prev) => ({ ...prev, connected: false, session: null, sessionExpiresAt: null }));
       throw error;
+    } finally {
+      if (startAbortRef.current === controller) {
+        startAbortRef.current = null;
+      }
     }
   }, [
     api,
@@ -224,7 +302,9 @@ export const useStreamingSession = ({
     currentProviderType,
     switchProvider,
     connect,
-    buildStreamingCredentials,
+    connectWithFailover,
+    disconnect,
+    systemConfig,
     voiceId,
     voiceUrl,
     language,
@@ -235,9 +315,15 @@ export const useStreamingSession = ({
     e2eType,
   ]);
 
+  // Stops a pending Start; the session request is aborted, or the session closed again if it already exists
+  const cancelStart = useCallback(() => {
+    startAbortRef.current?.abort();
+  }, []);
+
   const closeStreaming = useCallback(async () => {
     try {
       logger.info('Closing unified streaming');
+      sessionLifecycle.end();
 
       await disconnect();
 
@@ -248,8 +334,10 @@ export const useStreamingSession = ({
       setState({
         isJoined: false,
         connected: false,
+        isReconnecting: false,
         remoteStats: null,
         session: null,
+        sessionExpiresAt: null,
         currentProvider: null,
       });
 
@@ -270,7 +358,7 @@ export const useStreamingSession = ({
       }
 
       try {
-        await providerSendMessage(content);
+        await providerSendMessage(content, messageId);
         logger.info('Message sent via unified streaming', { messageId, providerType: currentProviderType });
       } catch (error) {
         logger.error('Failed to send message via unified streaming', { error, messageId });
@@ -294,9 +382,10 @@ export const useStreamingSession = ({
     }
   }, [provider, state.connected, providerSendInterrupt, currentProviderType]);
 
+  // Resolves to whether the avatar acknowledged the parameters, so callers can tell a rejected voice or language
   const setAvatarParams = useCallback(
-    async (force = false) => {
-      if (!provider || !state.connected) return;
+    async (force = false): Promise<boolean> => {
+      if (!provider || !state.connected) return false;
 
       const avatarConfig: AvatarConfig = {
         voiceId,
@@ -312,22 +401,31 @@ export const useStreamingSession = ({
 
       // Skip if params haven't changed and not forced
       if (!force && initialParamsSentRef.current && lastParamsRef.current === currentParams) {
-        return;
+        return true;
       }
 
       try {
-        // Call the provider's setAvatarParameters method
+        // Resolves only once the avatar acks the command
         await providerSetAvatarParameters(metadata);
+        sessionLifecycle.mark('params-acked');
 
-        logger.info('Avatar parameters set via unified streaming', {
+        logger.info('Avatar parameters accepted via unified streaming', {
           metadata,
           providerType: currentProviderType,
         });
 
-        initialParamsSentRef.current = true;
         lastParamsRef.current = currentParams;
+        return true;
       } catch (error) {
-        logger.error('Failed to set avatar parameters', { error, metadata });
+        if (error instanceof StreamingError && error.code === ErrorCode.COMMAND_REJECTED) {
+          logger.warn('Avatar rejected parameters', { error: error.message, details: error.details, metadata });
+        } else {
+          logger.error('Failed to set avatar parameters', { error, metadata });
+        }
+        return false;
+      } finally {
+        // Later changes are still sent after a rejected or unanswered first attempt
+        initialParamsSentRef.current = true;
       }
     },
     [
@@ -365,6 +463,7 @@ export const useStreamingSession = ({
 
     // Actions
     startStreaming,
+    cancelStart,
     closeStreaming,
     sendMessage,
     sendInterrupt,
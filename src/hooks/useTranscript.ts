@@ -0,0 +1,193 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { Message, MessageSender, MessageType, SystemEventType } from './useMessageState';
+import { AvatarResponseTimings } from '../types/provider.interfaces';
+import { Transcript, TranscriptEntry, TranscriptExportFormat, TranscriptSessionInfo } from '../types/transcript.types';
+import {
+  TranscriptRecorder,
+  formatTranscript,
+  parseTranscriptJson,
+  TRANSCRIPT_FILE_EXTENSIONS,
+  TRANSCRIPT_MIME_TYPES,
+} from '../transcript';
+import { conversationHistory } from '../history';
+import { globalEventBus } from '../core/EventBus';
+import { logger } from '../core/Logger';
+
+// Streamed replies update the transcript many times a second; history only needs the settled state
+const HISTORY_SAVE_DELAY_MS = 1000;
+
+export type TranscriptSessionDetails = Omit<TranscriptSessionInfo, 'startedAt' | 'endedAt'>;
+
+interface UseTranscriptProps {
+  connected: boolean;
+  messages: Message[];
+  // Memoize this; every new object is merged into the running transcript
+  sessionInfo: TranscriptSessionDetails;
+  // Gets the conversation so far when a continuation session starts, for the chat to show it again
+  onSessionContinued?: (messages: Message[]) => void;
+}
+
+interface UseTranscriptReturn {
+  hasTranscript: boolean;
+  exportTranscript: (format: TranscriptExportFormat) => void;
+  importTranscript: (file: File) => Promise<Message[]>;
+}
+
+const toTranscriptEntry = (message: Message): TranscriptEntry => {
+  const timings = message.metadata?.timings as AvatarResponseTimings | undefined;
+
+  return {
+    id: message.id,
+    sender: message.sender,
+    kind: message.messageType === MessageType.CHAT ? 'chat' : 'system',
+    text: message.text,
+    timestamp: message.timestamp,
+    systemType: message.systemType,
+    audioStartAt: timings?.audioStartAt,
+    audioEndAt: timings?.audioEndAt,
+    metadata: message.metadata,
+  };
+};
+
+const toMessage = (entry: TranscriptEntry): Message => ({
+  id: entry.id,
+  text: entry.text,
+  sender: entry.sender as MessageSender,
+  messageType: entry.kind === 'chat' ? MessageType.CHAT : MessageType.SYSTEM,
+  timestamp: entry.timestamp,
+  systemType: entry.systemType as SystemEventType | undefined,
+  metadata: entry.metadata,
+});
+
+export const transcriptToMessages = (transcript: Transcript): Message[] => transcript.entries.map(toMessage);
+
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Records the live conversation, which outlives the chat UI clearing itself on disconnect
+export const useTranscript = ({
+  connected,
+  messages,
+  sessionInfo,
+  onSessionContinued,
+}: UseTranscriptProps): UseTranscriptReturn => {
+  const recorderRef = useRef(new TranscriptRecorder());
+  const sessionInfoRef = useRef(sessionInfo);
+  const onSessionContinuedRef = useRef(onSessionContinued);
+  // Set while a continuation session is starting, so it carries the conversation on instead of starting over
+  const continuingRef = useRef(false);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [hasTranscript, setHasTranscript] = useState(false);
+
+  sessionInfoRef.current = sessionInfo;
+  onSessionContinuedRef.current = onSessionContinued;
+
+  const saveToHistory = useCallback(() => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+
+    const transcript = recorderRef.current.getTranscript();
+    if (!transcript || transcript.entries.length === 0) return;
+
+    conversationHistory.save(transcript).catch((error: unknown) => {
+      logger.warn('Failed to save conversation history', { error });
+    });
+  }, []);
+
+  const scheduleHistorySave = useCallback(() => {
+    if (saveTimerRef.current) return;
+    saveTimerRef.current = setTimeout(saveToHistory, HISTORY_SAVE_DELAY_MS);
+  }, [saveToHistory]);
+
+  useEffect(() => {
+    const recorder = recorderRef.current;
+    if (connected && !recorder.isActive()) {
+      if (continuingRef.current) {
+        continuingRef.current = false;
+        recorder.continue(sessionInfoRef.current);
+        const transcript = recorder.getTranscript();
+        if (transcript) {
+          onSessionContinuedRef.current?.(transcriptToMessages(transcript));
+        }
+        logger.debug('Transcript recording continued', { sessionId: sessionInfoRef.current.sessionId });
+      } else {
+        recorder.start(sessionInfoRef.current);
+        logger.debug('Transcript recording started', { sessionId: sessionInfoRef.current.sessionId });
+      }
+    } else if (!connected && recorder.isActive()) {
+      recorder.end();
+      saveToHistory();
+      logger.debug('Transcript recording stopped');
+    }
+  }, [connected, saveToHistory]);
+
+  useEffect(() => {
+    const unsubscribeContinuing = globalEventBus.subscribe('session:continuing', () => {
+      continuingRef.current = true;
+    });
+    const unsubscribeFailed = globalEventBus.subscribe('session:continuation-failed', () => {
+      continuingRef.current = false;
+    });
+    return () => {
+      unsubscribeContinuing();
+      unsubscribeFailed();
+    };
+  }, []);
+
+  // Flush a pending save when the chat panel goes away, e.g. on page unload
+  useEffect(() => saveToHistory, [saveToHistory]);
+
+  useEffect(() => {
+    recorderRef.current.updateSession(sessionInfo);
+  }, [sessionInfo]);
+
+  useEffect(() => {
+    const recorder = recorderRef.current;
+    if (!recorder.isActive()) return;
+
+    messages.forEach((message) => recorder.record(toTranscriptEntry(message)));
+    setHasTranscript(recorder.hasEntries());
+    scheduleHistorySave();
+  }, [messages, scheduleHistorySave]);
+
+  const exportTranscript = useCallback((format: TranscriptExportFormat) => {
+    const transcript = recorderRef.current.getTranscript();
+    if (!transcript) {
+      logger.warn('No transcript to export');
+      return;
+    }
+
+    const name = transcript.session.sessionId || new Date(transcript.session.startedAt).toISOString();
+    downloadFile(
+      formatTranscript(transcript, format),
+      `transcript-${name}.${TRANSCRIPT_FILE_EXTENSIONS[format]}`,
+      TRANSCRIPT_MIME_TYPES[format],
+    );
+    logger.info('Transcript exported', { format, entries: transcript.entries.length });
+  }, []);
+
+  const importTranscript = useCallback(async (file: File): Promise<Message[]> => {
+    const transcript: Transcript = parseTranscriptJson(await file.text());
+    logger.info('Transcript imported', {
+      sessionId: transcript.session.sessionId,
+      entries: transcript.entries.length,
+    });
+    return transcriptToMessages(transcript);
+  }, []);
+
+  return {
+    hasTranscript,
+    exportTranscript,
+    importTranscript,
+  };
+};
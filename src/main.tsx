@@ -6,6 +6,21 @@ import { StreamingContextProvider } from './contexts/StreamingContext';
 import { NotificationProvider } from './contexts/NotificationContext';
 import { ModalProvider } from './contexts/ModalContext';
 import { useConfigurationStore } from './stores/configurationStore';
+import { logger } from './core/Logger';
+import { createRemoteLogOutputFromEnv } from './core/RemoteLogOutput';
+import { createCredentialRefresherFromEnv, credentialManager } from './credentials';
+
+// Ship logs to VITE_LOG_ENDPOINT when one is configured
+const remoteLogOutput = createRemoteLogOutputFromEnv(import.meta.env);
+if (remoteLogOutput) {
+  logger.addOutput(remoteLogOutput);
+}
+
+// Renew tokens through VITE_CREDENTIAL_REFRESH_URL when one is configured; otherwise they are only watched
+const credentialRefresher = createCredentialRefresherFromEnv(import.meta.env);
+if (credentialRefresher) {
+  credentialManager.setRefreshHandlers(credentialRefresher);
+}
 
 // Wrapper component to access configuration store
 export const AppWithProvider: React.FC = () => {
@@ -0,0 +1,145 @@
+import { globalEventBus } from '../core/EventBus';
+import { logger } from '../core/Logger';
+import { EventBusInterface } from '../types/event.types';
+import { StreamProviderType } from '../types/streaming.types';
+import {
+  SESSION_LIFECYCLE_STEPS,
+  SessionLifecycleStep,
+  SessionLifecycleSummary,
+  SessionLifecycleTimeline,
+} from '../types/lifecycle.types';
+import { percentile } from './sessionMetricsFormats';
+
+const STORAGE_KEY = 'streaming-avatar-lifecycle';
+const HISTORY_LIMIT = 20;
+
+export type LifecycleHistoryStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+const copy = (timeline: SessionLifecycleTimeline): SessionLifecycleTimeline => ({
+  ...timeline,
+  marks: { ...timeline.marks },
+});
+
+/**
+ * Times one session start from the Start click to the avatar's first audio. Each step counts the first time
+ * it is reached; marks outside a running timeline are ignored, so callers can mark unconditionally.
+ * Finished timelines are kept across reloads so providers can be compared.
+ */
+export class SessionLifecycleTracker {
+  private eventBus: EventBusInterface;
+  private storage: LifecycleHistoryStorage | null;
+  private timeline: SessionLifecycleTimeline | null = null;
+  private history: SessionLifecycleTimeline[];
+
+  constructor(eventBus: EventBusInterface, storage: LifecycleHistoryStorage | null = null) {
+    this.eventBus = eventBus;
+    this.storage = storage;
+    this.history = this.load();
+  }
+
+  start(provider: StreamProviderType, now = Date.now()): void {
+    this.end(now);
+    this.timeline = { provider, startedAt: now, marks: {} };
+    logger.debug('Session lifecycle timing started', { provider });
+  }
+
+  // The provider changes on failover, the session id arrives with the session
+  update(details: Partial<Pick<SessionLifecycleTimeline, 'provider' | 'sessionId'>>): void {
+    if (this.isRunning() && this.timeline) {
+      this.timeline = { ...this.timeline, ...details };
+    }
+  }
+
+  mark(step: SessionLifecycleStep, now = Date.now()): void {
+    const timeline = this.timeline;
+    if (!timeline || !this.isRunning() || timeline.marks[step] !== undefined) {
+      return;
+    }
+
+    const elapsedMs = now - timeline.startedAt;
+    timeline.marks[step] = elapsedMs;
+    logger.info('Session lifecycle step reached', { provider: timeline.provider, step, elapsedMs });
+    this.eventBus.publish('lifecycle:mark', { step, elapsedMs, timeline: copy(timeline) });
+
+    if (SESSION_LIFECYCLE_STEPS.every((candidate) => timeline.marks[candidate] !== undefined)) {
+      this.finish(now);
+    }
+  }
+
+  fail(error: unknown, now = Date.now()): void {
+    if (this.isRunning() && this.timeline) {
+      this.timeline.error = error instanceof Error ? error.message : String(error);
+      this.finish(now);
+    }
+  }
+
+  // The session closed; steps not reached by now stay missing
+  end(now = Date.now()): void {
+    if (this.isRunning()) {
+      this.finish(now);
+    }
+  }
+
+  getTimeline(): SessionLifecycleTimeline | null {
+    return this.timeline && copy(this.timeline);
+  }
+
+  getHistory(): SessionLifecycleTimeline[] {
+    return this.history.map(copy);
+  }
+
+  summarize(): SessionLifecycleSummary[] {
+    const providers = Array.from(new Set(this.history.map((timeline) => timeline.provider)));
+    return providers.map((provider) => {
+      const timelines = this.history.filter((timeline) => timeline.provider === provider);
+      const medians: SessionLifecycleSummary['medians'] = {};
+      SESSION_LIFECYCLE_STEPS.forEach((step) => {
+        const sorted = timelines
+          .map((timeline) => timeline.marks[step])
+          .filter((value): value is number => value !== undefined)
+          .sort((a, b) => a - b);
+        const median = percentile(sorted, 50);
+        if (median !== undefined) medians[step] = median;
+      });
+      return { provider, count: timelines.length, medians };
+    });
+  }
+
+  private isRunning(): boolean {
+    return this.timeline !== null && this.timeline.endedAt === undefined;
+  }
+
+  private finish(now: number): void {
+    if (!this.timeline) return;
+
+    this.timeline.endedAt = now;
+    const timeline = copy(this.timeline);
+    this.history = [...this.history, timeline].slice(-HISTORY_LIMIT);
+    this.save();
+    logger.info('Session lifecycle timing finished', { ...timeline });
+    this.eventBus.publish('lifecycle:completed', { timeline: copy(timeline) });
+  }
+
+  private load(): SessionLifecycleTimeline[] {
+    try {
+      const stored = JSON.parse(this.storage?.getItem(STORAGE_KEY) ?? '[]') as unknown;
+      return Array.isArray(stored) ? (stored as SessionLifecycleTimeline[]) : [];
+    } catch (error) {
+      logger.warn('Ignoring unreadable session lifecycle history', { error });
+      return [];
+    }
+  }
+
+  private save(): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.history));
+    } catch (error) {
+      logger.warn('Failed to store session lifecycle history', { error });
+    }
+  }
+}
+
+export const sessionLifecycle = new SessionLifecycleTracker(
+  globalEventBus,
+  typeof localStorage === 'undefined' ? null : localStorage,
+);
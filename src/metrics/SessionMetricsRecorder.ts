@@ -0,0 +1,118 @@
+import {
+  SESSION_METRICS_FORMAT_VERSION,
+  MetricsSample,
+  QoEMetrics,
+  SessionMetricsInfo,
+  SessionMetricsReport,
+  SpeakingInterval,
+} from '../types/metrics.types';
+import { summarizeSessionMetrics } from './sessionMetricsFormats';
+
+// Providers report every one to two seconds; older metrics mean stats stopped arriving
+const STALE_METRICS_MS = 5000;
+
+/**
+ * Keeps the whole QoE timeline of one session, sampled by the caller (usually once a second),
+ * together with when the avatar spoke and when its first frame was shown.
+ */
+export class SessionMetricsRecorder {
+  private session: SessionMetricsInfo | null = null;
+  private samples: MetricsSample[] = [];
+  private speakingIntervals: SpeakingInterval[] = [];
+
+  start(session: Omit<SessionMetricsInfo, 'startedAt' | 'endedAt' | 'firstFrameAt'>, startedAt = Date.now()): void {
+    this.session = { ...session, startedAt };
+    this.samples = [];
+    this.speakingIntervals = [];
+  }
+
+  updateSession(session: Partial<Pick<SessionMetricsInfo, 'sessionId' | 'provider'>>): void {
+    if (this.session) {
+      this.session = { ...this.session, ...session };
+    }
+  }
+
+  record(metrics: QoEMetrics | null | undefined, timestamp = Date.now()): void {
+    if (!this.isActive()) {
+      return;
+    }
+
+    const sample: MetricsSample = { timestamp, avatarSpeaking: this.isSpeaking() };
+    if (metrics && timestamp - metrics.timestamp <= STALE_METRICS_MS) {
+      const video = metrics.inbound.video;
+      Object.assign(sample, {
+        rtt: metrics.network.rtt,
+        packetLoss: metrics.network.packetLoss,
+        uplinkQuality: metrics.network.uplinkQuality,
+        downlinkQuality: metrics.network.downlinkQuality,
+        videoBitrate: video?.bitrate,
+        audioBitrate: metrics.inbound.audio?.bitrate,
+        frameRate: video?.frameRate,
+        width: video?.width,
+        height: video?.height,
+        freezeTime: video?.freezeTime,
+        outboundVideoBitrate: metrics.outbound.video?.bitrate,
+        outboundAudioBitrate: metrics.outbound.audio?.bitrate,
+      });
+    }
+    this.samples.push(sample);
+  }
+
+  setAvatarSpeaking(speaking: boolean, at = Date.now()): void {
+    if (!this.isActive() || speaking === this.isSpeaking()) {
+      return;
+    }
+
+    if (speaking) {
+      this.speakingIntervals.push({ start: at });
+    } else {
+      const current = this.speakingIntervals[this.speakingIntervals.length - 1];
+      if (current) current.end = at;
+    }
+  }
+
+  // Only the first frame counts; later calls after a video restart are ignored
+  markFirstFrame(at = Date.now()): void {
+    if (this.session && this.isActive() && this.session.firstFrameAt === undefined) {
+      this.session = { ...this.session, firstFrameAt: at };
+    }
+  }
+
+  end(endedAt = Date.now()): void {
+    if (!this.session || this.session.endedAt !== undefined) {
+      return;
+    }
+
+    this.setAvatarSpeaking(false, endedAt);
+    this.session = { ...this.session, endedAt };
+  }
+
+  isActive(): boolean {
+    return this.session !== null && this.session.endedAt === undefined;
+  }
+
+  hasSamples(): boolean {
+    return this.samples.length > 0;
+  }
+
+  getReport(now = Date.now()): SessionMetricsReport | null {
+    if (!this.session) {
+      return null;
+    }
+
+    const speakingIntervals = this.speakingIntervals.map((interval) => ({ ...interval }));
+    return {
+      version: SESSION_METRICS_FORMAT_VERSION,
+      exportedAt: now,
+      session: { ...this.session },
+      summary: summarizeSessionMetrics(this.session, this.samples, speakingIntervals, now),
+      speakingIntervals,
+      samples: [...this.samples],
+    };
+  }
+
+  private isSpeaking(): boolean {
+    const current = this.speakingIntervals[this.speakingIntervals.length - 1];
+    return current !== undefined && current.end === undefined;
+  }
+}
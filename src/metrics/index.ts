@@ -0,0 +1,11 @@
+export { SessionMetricsRecorder } from './SessionMetricsRecorder';
+export {
+  formatSessionMetrics,
+  formatSessionMetricsCsv,
+  percentile,
+  summarizeSessionMetrics,
+  METRICS_FILE_EXTENSIONS,
+  METRICS_MIME_TYPES,
+} from './sessionMetricsFormats';
+export { SessionLifecycleTracker, sessionLifecycle } from './SessionLifecycleTracker';
+export type { LifecycleHistoryStorage } from './SessionLifecycleTracker';
@@ -0,0 +1,133 @@
+import {
+  MetricsExportFormat,
+  MetricsSample,
+  PercentileSummary,
+  SessionMetricsInfo,
+  SessionMetricsReport,
+  SessionMetricsSummary,
+  SpeakingInterval,
+} from '../types/metrics.types';
+
+export const METRICS_FILE_EXTENSIONS: Record<MetricsExportFormat, string> = {
+  json: 'json',
+  csv: 'csv',
+};
+
+export const METRICS_MIME_TYPES: Record<MetricsExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+};
+
+const CSV_COLUMNS: [string, (sample: MetricsSample, startedAt: number) => string | number | undefined][] = [
+  ['time', (sample) => new Date(sample.timestamp).toISOString()],
+  ['elapsed_ms', (sample, startedAt) => sample.timestamp - startedAt],
+  ['rtt_ms', (sample) => sample.rtt],
+  ['packet_loss_pct', (sample) => sample.packetLoss],
+  ['uplink', (sample) => sample.uplinkQuality],
+  ['downlink', (sample) => sample.downlinkQuality],
+  ['video_bitrate_bps', (sample) => sample.videoBitrate],
+  ['audio_bitrate_bps', (sample) => sample.audioBitrate],
+  ['fps', (sample) => sample.frameRate],
+  ['width', (sample) => sample.width],
+  ['height', (sample) => sample.height],
+  ['freeze_time_ms', (sample) => sample.freezeTime],
+  ['outbound_video_bitrate_bps', (sample) => sample.outboundVideoBitrate],
+  ['outbound_audio_bitrate_bps', (sample) => sample.outboundAudioBitrate],
+  ['avatar_speaking', (sample) => (sample.avatarSpeaking ? 1 : 0)],
+];
+
+export function formatSessionMetrics(report: SessionMetricsReport, format: MetricsExportFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(report, null, 2);
+    case 'csv':
+      return formatSessionMetricsCsv(report);
+  }
+}
+
+// One row per sample; the summary is only in the JSON export
+export function formatSessionMetricsCsv(report: SessionMetricsReport): string {
+  const header = CSV_COLUMNS.map(([name]) => name).join(',');
+  const rows = report.samples.map((sample) =>
+    CSV_COLUMNS.map(([, value]) => {
+      const cell = value(sample, report.session.startedAt);
+      return cell === undefined ? '' : escapeCsvCell(String(cell));
+    }).join(','),
+  );
+  return [header, ...rows].join('\n') + '\n';
+}
+
+// RFC 4180: quote cells holding a separator, quote or line break, doubling the quotes inside
+function escapeCsvCell(cell: string): string {
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+// Nearest-rank percentile of an ascending list
+export function percentile(sorted: number[], p: number): number | undefined {
+  if (sorted.length === 0) {
+    return undefined;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+function summarize(values: (number | undefined)[]): PercentileSummary {
+  const sorted = values.filter((value): value is number => value !== undefined).sort((a, b) => a - b);
+  return {
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+/**
+ * Freeze time comes from the provider's cumulative counter where it has one (Agora). Otherwise every sample
+ * after the first frame that reports 0 fps counts as frozen until the next sample.
+ */
+function totalFreezeTime(samples: MetricsSample[], firstFrameAt: number | undefined): number {
+  const counters = samples
+    .map((sample) => sample.freezeTime)
+    .filter((freezeTime): freezeTime is number => freezeTime !== undefined);
+  if (counters.length > 0) {
+    // The counter restarts from 0 when the track is resubscribed; after a drop its whole value is new freeze time
+    return counters.reduce((total, counter, index) => {
+      const previous = counters[index - 1] ?? 0;
+      return total + (counter >= previous ? counter - previous : counter);
+    }, 0);
+  }
+
+  if (firstFrameAt === undefined) {
+    return 0;
+  }
+  return samples.reduce((total, sample, index) => {
+    const next = samples[index + 1];
+    return sample.timestamp >= firstFrameAt && sample.frameRate === 0 && next
+      ? total + (next.timestamp - sample.timestamp)
+      : total;
+  }, 0);
+}
+
+export function summarizeSessionMetrics(
+  session: SessionMetricsInfo,
+  samples: MetricsSample[],
+  speakingIntervals: SpeakingInterval[],
+  now = Date.now(),
+): SessionMetricsSummary {
+  const endedAt = session.endedAt ?? now;
+  const freezeTime = totalFreezeTime(samples, session.firstFrameAt);
+  const videoTime = session.firstFrameAt !== undefined ? endedAt - session.firstFrameAt : 0;
+
+  return {
+    durationMs: endedAt - session.startedAt,
+    sampleCount: samples.length,
+    rtt: summarize(samples.map((sample) => sample.rtt)),
+    packetLoss: summarize(samples.map((sample) => sample.packetLoss)),
+    videoBitrate: summarize(samples.map((sample) => sample.videoBitrate)),
+    frameRate: summarize(samples.map((sample) => sample.frameRate)),
+    freezeTime,
+    freezeRatio: videoTime > 0 ? Math.min(1, freezeTime / videoTime) : undefined,
+    timeToFirstFrame: session.firstFrameAt !== undefined ? session.firstFrameAt - session.startedAt : undefined,
+    speakingTime: speakingIntervals.reduce((total, interval) => total + (interval.end ?? now) - interval.start, 0),
+    speakingCount: speakingIntervals.length,
+  };
+}
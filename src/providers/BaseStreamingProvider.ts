@@ -1,4 +1,10 @@
-import { StreamingProvider, StreamingEventHandlers, StreamingCredentials } from '../types/provider.interfaces';
+import {
+  StreamingProvider,
+  StreamingEventHandlers,
+  StreamingCredentials,
+  CustomMessageEvent,
+  AudioDumpFileHandler,
+} from '../types/provider.interfaces';
 import {
   StreamingState,
   StreamProviderType,
@@ -10,6 +16,8 @@ import {
 import { EventBus } from '../core/EventBus';
 import { logger } from '../core/Logger';
 import { globalResourceManager } from '../core/ResourceManager';
+import { SessionCredentials } from '../types/api.schemas';
+import { QualityScoringPolicy } from '../types/metrics.types';
 
 export abstract class BaseStreamingProvider implements StreamingProvider {
   public abstract readonly providerType: StreamProviderType;
@@ -40,12 +48,19 @@ export abstract class BaseStreamingProvider implements StreamingProvider {
   abstract disableAudio(): Promise<void>;
   abstract publishAudio(track: AudioTrack): Promise<void>;
   abstract unpublishAudio(): Promise<void>;
-  abstract sendMessage(content: string): Promise<void>;
+  abstract sendMessage(content: string, messageId?: string): Promise<void>;
   abstract sendInterrupt(): Promise<void>;
   abstract setAvatarParameters(metadata: Record<string, unknown>): Promise<void>;
+  abstract registerMessageHandler(
+    version: number,
+    type: string,
+    handler: (event: CustomMessageEvent) => void,
+  ): () => void;
   abstract enableNoiseReduction(): Promise<void>;
   abstract disableNoiseReduction(): Promise<void>;
-  abstract dumpAudio(): Promise<void>;
+  abstract dumpAudio(onFile?: AudioDumpFileHandler): Promise<void>;
+  abstract renewToken(credentials: SessionCredentials): Promise<void>;
+  abstract setQualityPolicy(policy: QualityScoringPolicy): void;
 
   // Common implementation for all providers
   updateState(partialState: Partial<StreamingState>): void {
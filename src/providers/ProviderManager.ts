@@ -4,6 +4,50 @@ import { StreamingProviderFactory } from './StreamingProviderFactory';
 import { logger } from '../core/Logger';
 import { EventBus } from '../core/EventBus';
 import { StreamingError, ErrorCode } from '../types/error.types';
+import { EventCallback, StreamingEventMap, StreamingEventType } from '../types/event.types';
+import { SystemConfig } from '../types/api.schemas';
+
+// Prepares provider credentials (e.g. by creating an Akool session for the given stream type)
+export type FailoverPrepareCallback = (type: StreamProviderType) => Promise<StreamingCredentials>;
+
+// Releases whatever the prepare step acquired after a failed connection attempt
+export type FailoverReleaseCallback = (type: StreamProviderType) => Promise<void>;
+
+// Failures another provider may not hit. Anything else, such as an API auth, quota or rate-limit error
+// from the prepare step, would fail the same way for every candidate and end the run instead.
+const FAILOVER_ERROR_CODES: string[] = [
+  ErrorCode.CONNECTION_FAILED,
+  ErrorCode.CONNECTION_LOST,
+  ErrorCode.NETWORK_ERROR,
+  ErrorCode.OPERATION_TIMEOUT,
+  ErrorCode.AUTHENTICATION_FAILED,
+  ErrorCode.INVALID_CREDENTIALS,
+  ErrorCode.TRACK_PUBLISH_FAILED,
+  ErrorCode.PROVIDER_ERROR,
+  ErrorCode.PROVIDER_INITIALIZATION_FAILED,
+  ErrorCode.PROVIDER_NOT_SUPPORTED,
+  // SDK errors the providers pass on without a more specific code
+  ErrorCode.UNKNOWN_ERROR,
+];
+
+/**
+ * Resolve the ordered list of providers to try for a session.
+ * The default provider always comes first; when auto fallback is enabled the remaining
+ * enabled providers follow in ascending `fallback_order`.
+ */
+export function resolveFallbackOrder(config: SystemConfig): StreamProviderType[] {
+  if (!config.auto_fallback) {
+    return [config.default_provider];
+  }
+
+  const fallbacks = config.providers
+    .filter((provider) => provider.enabled && provider.fallback_order !== undefined)
+    .filter((provider) => provider.type !== config.default_provider)
+    .sort((a, b) => (a.fallback_order ?? 0) - (b.fallback_order ?? 0))
+    .map((provider) => provider.type);
+
+  return [config.default_provider, ...new Set(fallbacks)];
+}
 
 export class ProviderManager {
   private static instance: ProviderManager;
@@ -29,6 +73,9 @@ export class ProviderManager {
       to: type,
     });
 
+    let newProvider: StreamingProvider | null = null;
+    let unsubscribeState: (() => void) | undefined;
+
     try {
       // Disconnect current provider if any
       if (this.currentProvider) {
@@ -36,10 +83,10 @@ export class ProviderManager {
       }
 
       // Create new provider
-      const newProvider = await this.providerFactory.createProviderWithCredentials(type, credentials);
+      newProvider = await this.providerFactory.createProviderWithCredentials(type, credentials);
 
       // Set up state subscription
-      newProvider.subscribe((state: StreamingState) => {
+      unsubscribeState = newProvider.subscribe((state: StreamingState) => {
         this.eventBus.publish('system:info', {
           message: 'provider-state-changed',
           context: { provider: type, state },
@@ -61,6 +108,17 @@ export class ProviderManager {
       logger.info('Provider switch completed successfully', { type });
     } catch (error) {
       logger.error('Provider switch failed', { error, type });
+
+      // A provider that never connected must not keep its client, resources or handlers alive
+      unsubscribeState?.();
+      if (newProvider) {
+        try {
+          await newProvider.disconnect();
+        } catch (disconnectError) {
+          logger.warn('Failed to clean up provider after failed connection', { provider: type, disconnectError });
+        }
+      }
+
       const streamingError =
         error instanceof StreamingError
           ? error
@@ -72,6 +130,79 @@ export class ProviderManager {
     }
   }
 
+  async connectWithFailover(
+    candidates: StreamProviderType[],
+    prepare: FailoverPrepareCallback,
+    release: FailoverReleaseCallback,
+    handlers?: StreamingEventHandlers,
+  ): Promise<StreamProviderType> {
+    const providers = candidates.filter((type) => this.isProviderSupported(type));
+    const skipped = candidates.filter((type) => !providers.includes(type));
+    if (providers.length === 0) {
+      const error = new StreamingError(
+        ErrorCode.PROVIDER_NOT_SUPPORTED,
+        'No supported provider available for failover',
+        { candidates },
+      );
+      this.eventBus.publish('connection:failover-result', { provider: null, attempted: [], skipped, error });
+      throw error;
+    }
+
+    let lastError: StreamingError | null = null;
+    const attempted: StreamProviderType[] = [];
+
+    for (const [index, type] of providers.entries()) {
+      attempted.push(type);
+      try {
+        const credentials = await prepare(type);
+        await this.switchProvider(type, credentials, handlers);
+
+        if (index > 0) {
+          logger.info('Provider failover completed', { provider: type, attempts: index + 1 });
+        }
+        this.eventBus.publish('connection:failover-result', { provider: type, attempted, skipped });
+        return type;
+      } catch (error) {
+        lastError =
+          error instanceof StreamingError
+            ? error
+            : new StreamingError(ErrorCode.CONNECTION_FAILED, `Failed to connect via ${type}`, { provider: type });
+
+        try {
+          await release(type);
+        } catch (releaseError) {
+          logger.warn('Failed to release resources after failed connection', { provider: type, releaseError });
+        }
+
+        // A cancelled start is not a provider failure
+        if (lastError.code === ErrorCode.API_ABORTED) {
+          throw lastError;
+        }
+
+        if (!FAILOVER_ERROR_CODES.includes(lastError.code)) {
+          logger.warn('Connection failed with an error failover cannot fix', { provider: type, code: lastError.code });
+          this.eventBus.publish('connection:failover-result', { provider: null, attempted, skipped, error: lastError });
+          throw lastError;
+        }
+
+        const next = providers[index + 1];
+        if (next) {
+          logger.warn('Provider connection failed, failing over', { from: type, to: next, error: lastError.message });
+          this.eventBus.publish('connection:failover', { from: type, to: next, error: lastError });
+        }
+      }
+    }
+
+    logger.error('All failover providers failed', { candidates: providers });
+    const error = new StreamingError(
+      ErrorCode.CONNECTION_FAILED,
+      `All providers failed to connect: ${lastError?.message ?? 'Unknown error'}`,
+      { providers, lastError: lastError?.code },
+    );
+    this.eventBus.publish('connection:failover-result', { provider: null, attempted, skipped, error });
+    throw error;
+  }
+
   getCurrentProvider(): StreamingProvider | null {
     return this.currentProvider;
   }
@@ -92,6 +223,10 @@ export class ProviderManager {
     });
   }
 
+  on<K extends StreamingEventType>(event: K, callback: EventCallback<StreamingEventMap[K]>): () => void {
+    return this.eventBus.subscribe(event, callback);
+  }
+
   async disconnect(): Promise<void> {
     if (this.currentProvider) {
       await this.currentProvider.disconnect();
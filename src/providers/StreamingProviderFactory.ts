@@ -1,10 +1,36 @@
-import { StreamingProvider, StreamingCredentials } from '../types/provider.interfaces';
+import { StreamingProvider, StreamingCredentials, ProviderCreateOptions } from '../types/provider.interfaces';
 import { StreamProviderType } from '../types/streaming.types';
 import { logger } from '../core/Logger';
 import { StreamingError, ErrorCode } from '../types/error.types';
+import { sessionLifecycle } from '../metrics/SessionLifecycleTracker';
+import { MessageCodecType } from './common/types/message.types';
 
 interface ProviderModule {
-  createProvider: (credentials: StreamingCredentials) => StreamingProvider;
+  createProvider: (credentials: StreamingCredentials, options?: ProviderCreateOptions) => StreamingProvider;
+}
+
+// Preferred data channel codec per provider; 'default' covers the providers without their own entry
+export type MessageCodecSettings = Partial<Record<StreamProviderType | 'default', MessageCodecType>>;
+
+const MESSAGE_CODECS: string[] = ['json', 'msgpack'];
+const PROVIDER_TYPES: string[] = ['agora', 'livekit', 'trtc'];
+
+// VITE_MESSAGE_CODEC is one codec for every provider, e.g. msgpack, or a comma-separated list of provider:codec
+// entries, e.g. agora:msgpack,trtc:json. Unknown providers and codecs are skipped.
+export function messageCodecsFromEnv(env: Record<string, string | undefined>): MessageCodecSettings {
+  const settings: MessageCodecSettings = {};
+  for (const entry of (env.VITE_MESSAGE_CODEC ?? '').split(',')) {
+    if (!entry.trim()) continue;
+
+    const [first = '', second] = entry.split(':').map((part) => part.trim());
+    const [provider, codec] = second === undefined ? ['default', first] : [first, second];
+    if ((provider !== 'default' && !PROVIDER_TYPES.includes(provider)) || !MESSAGE_CODECS.includes(codec)) {
+      logger.warn('Ignoring invalid VITE_MESSAGE_CODEC entry', { entry });
+      continue;
+    }
+    settings[provider as keyof MessageCodecSettings] = codec as MessageCodecType;
+  }
+  return settings;
 }
 
 type ProviderLoader = () => Promise<ProviderModule>;
@@ -13,6 +39,7 @@ export class StreamingProviderFactory {
   private static instance: StreamingProviderFactory;
   private providerLoaders = new Map<StreamProviderType, ProviderLoader>();
   private loadedProviders = new Map<StreamProviderType, ProviderModule>();
+  private messageCodecs: MessageCodecSettings;
 
   static getInstance(): StreamingProviderFactory {
     if (!StreamingProviderFactory.instance) {
@@ -21,7 +48,8 @@ export class StreamingProviderFactory {
     return StreamingProviderFactory.instance;
   }
 
-  constructor() {
+  constructor(messageCodecs: MessageCodecSettings = messageCodecsFromEnv(import.meta.env)) {
+    this.messageCodecs = messageCodecs;
     this.registerProviderLoaders();
   }
 
@@ -34,12 +62,14 @@ export class StreamingProviderFactory {
 
   async createProvider(type: StreamProviderType, credentials: StreamingCredentials): Promise<StreamingProvider> {
     try {
-      logger.info('Creating streaming provider', { type });
+      const messageCodec = this.messageCodecs[type] ?? this.messageCodecs.default;
+      logger.info('Creating streaming provider', { type, messageCodec });
 
       const module = await this.loadProviderModule(type);
+      sessionLifecycle.mark('provider-loaded');
 
       // Create provider with credentials
-      const provider = module.createProvider(credentials);
+      const provider = module.createProvider(credentials, { messageCodec });
 
       logger.info('Streaming provider created successfully', { type });
       return provider;
@@ -1,7 +1,12 @@
 import { ILocalVideoTrack } from 'agora-rtc-sdk-ng';
 import { logger } from '../../core/Logger';
 import { globalResourceManager } from '../../core/ResourceManager';
-import { StreamingProvider, StreamingCredentials, StreamingEventHandlers } from '../../types/provider.interfaces';
+import {
+  StreamingProvider,
+  StreamingCredentials,
+  StreamingEventHandlers,
+  AudioDumpFileHandler,
+} from '../../types/provider.interfaces';
 import {
   StreamingState,
   VideoTrack,
@@ -12,9 +17,17 @@ import {
 } from '../../types/streaming.types';
 import { Session, SessionCredentials } from '../../types/api.schemas';
 import { StreamingError, ErrorCode } from '../../types/error.types';
-import { SystemMessageEvent, ChatMessageEvent, CommandEvent } from '../../types/provider.interfaces';
+import {
+  SystemMessageEvent,
+  ChatMessageEvent,
+  CommandEvent,
+  MessageDeliveryEvent,
+  CustomMessageEvent,
+  AvatarResponse,
+} from '../../types/provider.interfaces';
 import { ChatMessage, Participant } from '../../types/streaming.types';
-import { NetworkStats } from '../../components/NetworkQuality';
+import { NetworkStats, QualityScoringPolicy } from '../../types/metrics.types';
+import { AdaptiveVideoPolicy } from '../../types/adaptiveVideo.types';
 
 // Import controllers
 import {
@@ -29,6 +42,12 @@ import { AgoraAudioController } from './controllers/AgoraAudioController';
 import { AudioControllerCallbacks } from '../../types/streaming.types';
 import { AgoraVideoController, VideoControllerCallbacks } from './controllers/AgoraVideoController';
 import { CommonMessageController } from '../common/CommonMessageController';
+import { createMessageCodec } from '../common/codecs';
+import { MessageCodecType } from '../common/types/message.types';
+import { toCustomMessageEvent } from '../common/MessageProtocolRegistry';
+import { ReconnectSupervisor, RestoreStep } from '../common/ReconnectSupervisor';
+import { AdaptiveVideoController } from '../common/AdaptiveVideoController';
+import { AgoraVideoStrategy } from './strategies/AgoraVideoStrategy';
 import { AgoraMessageAdapter } from './adapters/AgoraMessageAdapter';
 import { RTCClient } from './types';
 
@@ -46,9 +65,18 @@ export function isAgoraCredentials(credentials: unknown): credentials is AgoraCr
   return !!(creds?.agora_app_id && creds?.agora_token && creds?.agora_channel && creds?.agora_uid !== undefined);
 }
 
+// token-privilege-will-expire fires this long before the token runs out
+const AGORA_TOKEN_WARNING_MS = 30000;
+
 export interface AgoraProviderConfig {
   client: RTCClient;
   session?: Session;
+  // Preferred data channel wire format, JSON unless set; used once the peer shows it reads it
+  messageCodec?: MessageCodecType;
+  // How stats become the quality badge; the balanced policy unless set
+  qualityPolicy?: QualityScoringPolicy;
+  // Camera upload reduction on a poor uplink; the default ladder unless set
+  adaptiveVideo?: Partial<AdaptiveVideoPolicy>;
 }
 
 export class AgoraStreamingProvider implements StreamingProvider {
@@ -75,8 +103,11 @@ export class AgoraStreamingProvider implements StreamingProvider {
   private messageController: CommonMessageController;
   private audioController: AgoraAudioController;
   private videoController: AgoraVideoController;
+  private reconnectSupervisor: ReconnectSupervisor;
+  private adaptiveVideo: AdaptiveVideoController;
 
   private client: RTCClient;
+  private lastAvatarParameters: Record<string, unknown> | null = null;
 
   constructor(config: AgoraProviderConfig) {
     this.client = config.client;
@@ -86,12 +117,25 @@ export class AgoraStreamingProvider implements StreamingProvider {
     this.participantController = new AgoraParticipantController(this.client);
     this.eventController = new AgoraEventController(this.client, this.participantController);
     this.statsController = new AgoraStatsController(this.client);
+    if (config.qualityPolicy) {
+      this.statsController.setQualityPolicy(config.qualityPolicy);
+    }
     this.messageController = new CommonMessageController(new AgoraMessageAdapter(this.client), {
       maxEncodedSize: 960, // 1KB
       bytesPerSecond: 960 * 6, // 6KB/s
+      codec: createMessageCodec(config.messageCodec),
     });
     this.audioController = new AgoraAudioController(this.client);
     this.videoController = new AgoraVideoController(this.client);
+    this.adaptiveVideo = new AdaptiveVideoController(
+      'agora',
+      new AgoraVideoStrategy(this.videoController),
+      config.adaptiveVideo,
+    );
+    this.reconnectSupervisor = new ReconnectSupervisor('agora', {
+      reconnect: () => this.connectionController.reconnect(),
+      restore: () => this.getRestoreSteps(),
+    });
 
     this.setupControllerCallbacks();
 
@@ -128,6 +172,7 @@ export class AgoraStreamingProvider implements StreamingProvider {
 
     this.updateState({ isConnecting: true, error: null });
     this.eventHandlers = handlers || {};
+    this.reconnectSupervisor.setDeadline(credentials.session_expires_at ?? null);
   }
 
   private createConnectionConfig(credentials: StreamingCredentials): AgoraConnectionConfig {
@@ -142,6 +187,7 @@ export class AgoraStreamingProvider implements StreamingProvider {
       onConnected: () => this.handleConnected(),
       onDisconnected: (reason?: string) => this.handleDisconnected(reason || 'Unknown reason'),
       onConnectionFailed: (error) => this.handleConnectionFailed(error),
+      onConnectionLost: (error) => this.reconnectSupervisor.handleConnectionLost(error),
       onTokenWillExpire: () => this.handleTokenWillExpire(),
       onTokenDidExpire: () => this.handleTokenDidExpire(),
     };
@@ -178,7 +224,7 @@ export class AgoraStreamingProvider implements StreamingProvider {
 
   private handleTokenWillExpire(): void {
     logger.warn('Agora token will expire soon');
-    // Could implement token refresh logic here
+    this.eventHandlers.onTokenWillExpire?.(AGORA_TOKEN_WARNING_MS);
   }
 
   private handleTokenDidExpire(): void {
@@ -209,6 +255,8 @@ export class AgoraStreamingProvider implements StreamingProvider {
     try {
       logger.info('Disconnecting Agora streaming provider');
 
+      this.reconnectSupervisor.cancel();
+      this.lastAvatarParameters = null;
       this.stopEventListening();
       await this.connectionController.disconnect();
 
@@ -246,7 +294,9 @@ export class AgoraStreamingProvider implements StreamingProvider {
   async enableVideo(config?: VideoConfig): Promise<VideoTrack> {
     try {
       logger.info('Enabling video through Agora provider');
-      return await this.videoController.enableVideo(config);
+      const track = await this.videoController.enableVideo(config);
+      this.adaptiveVideo.setBaseline(config);
+      return track;
     } catch (error) {
       logger.error('Failed to enable video', {
         error: error instanceof Error ? error.message : String(error),
@@ -258,6 +308,7 @@ export class AgoraStreamingProvider implements StreamingProvider {
   async disableVideo(): Promise<void> {
     try {
       logger.info('Disabling video through Agora provider');
+      this.adaptiveVideo.trackUnpublished();
       await this.videoController.disableVideo();
     } catch (error) {
       logger.error('Failed to disable video', {
@@ -328,6 +379,7 @@ export class AgoraStreamingProvider implements StreamingProvider {
         await this.videoController.enableVideo();
         await this.videoController.publishVideo();
       }
+      this.adaptiveVideo.trackPublished(this.videoController.videoTrack ?? track);
     } catch (error) {
       logger.error('Failed to publish video track', {
         error: error instanceof Error ? error.message : String(error),
@@ -340,6 +392,7 @@ export class AgoraStreamingProvider implements StreamingProvider {
   async unpublishVideo(): Promise<void> {
     try {
       logger.info('Unpublishing video track');
+      this.adaptiveVideo.trackUnpublished();
       await this.videoController.unpublishVideo();
     } catch (error) {
       logger.error('Failed to unpublish video track', {
@@ -378,10 +431,8 @@ export class AgoraStreamingProvider implements StreamingProvider {
     }
   }
 
-  async sendMessage(content: string): Promise<void> {
+  async sendMessage(content: string, messageId = `msg-${Date.now()}`): Promise<void> {
     try {
-      const messageId = `msg-${Date.now()}`;
-
       await this.messageController.sendMessage(messageId, content);
     } catch (error) {
       logger.error('Failed to send message', {
@@ -409,6 +460,7 @@ export class AgoraStreamingProvider implements StreamingProvider {
     try {
       logger.info('Setting avatar parameters', { metadata });
       await this.messageController.setAvatarParameters(metadata);
+      this.lastAvatarParameters = metadata;
     } catch (error) {
       logger.error('Failed to set avatar parameters', {
         error: error instanceof Error ? error.message : String(error),
@@ -418,6 +470,12 @@ export class AgoraStreamingProvider implements StreamingProvider {
     }
   }
 
+  registerMessageHandler(version: number, type: string, handler: (event: CustomMessageEvent) => void): () => void {
+    return this.messageController.registerMessageHandler(version, type, (message) =>
+      handler(toCustomMessageEvent(message)),
+    );
+  }
+
   // Audio processing methods
   async enableNoiseReduction(): Promise<void> {
     try {
@@ -444,14 +502,21 @@ export class AgoraStreamingProvider implements StreamingProvider {
     }
   }
 
-  async dumpAudio(): Promise<void> {
-    try {
-      logger.info('Starting audio dump through Agora provider');
+  async renewToken({ agora_token }: SessionCredentials): Promise<void> {
+    if (!agora_token) {
+      throw new StreamingError(ErrorCode.INVALID_CREDENTIALS, 'Missing agora_token to renew');
+    }
+    await this.connectionController.renewToken(agora_token);
+  }
 
-      // For now, we'll simulate the audio dump process
-      // In a real implementation, this would capture and save audio data
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+  setQualityPolicy(policy: QualityScoringPolicy): void {
+    this.statsController.setQualityPolicy(policy);
+  }
 
+  async dumpAudio(onFile?: AudioDumpFileHandler): Promise<void> {
+    try {
+      logger.info('Starting audio dump through Agora provider');
+      await this.audioController.dumpAudio(onFile);
       logger.info('Audio dump completed');
     } catch (error) {
       logger.error('Failed to dump audio', {
@@ -526,6 +591,25 @@ export class AgoraStreamingProvider implements StreamingProvider {
 
     this.audioController.setCallbacks(audioCallbacks);
     this.videoController.setCallbacks(videoCallbacks);
+    this.reconnectSupervisor.setCallbacks({
+      onReconnecting: (attempt) => {
+        this.updateState({ isReconnecting: true, isConnecting: true });
+        if (attempt === 1) {
+          this.eventHandlers.onReconnecting?.();
+        }
+      },
+      onReconnected: () => {
+        this.updateState({ isReconnecting: false, isConnecting: false });
+        this.eventHandlers.onReconnected?.();
+      },
+      onGiveUp: (error) => {
+        this.updateState({ isReconnecting: false, isConnecting: false, isJoined: false, error });
+        this.eventHandlers.onError?.(error);
+      },
+    });
+    this.adaptiveVideo.setCallbacks({
+      onAdapted: (event) => this.eventHandlers.onVideoAdapted?.(event),
+    });
     // Event, stats, participant, and message controller callbacks are set in startEventListening()
   }
 
@@ -571,7 +655,9 @@ export class AgoraStreamingProvider implements StreamingProvider {
         this.updateState({
           networkQuality: stats.connectionQuality,
           detailedNetworkStats: stats.detailedStats,
+          metrics: stats.metrics,
         });
+        void this.adaptiveVideo.update(stats.connectionQuality ?? null);
       },
       onError: (error: Error) => {
         const streamingError =
@@ -623,6 +709,15 @@ export class AgoraStreamingProvider implements StreamingProvider {
       onCommand: (event: unknown) => {
         this.eventHandlers.onCommand?.(event as CommandEvent);
       },
+      onDeliveryStatusChanged: (event: unknown) => {
+        this.eventHandlers.onMessageDelivery?.(event as MessageDeliveryEvent);
+      },
+      onCustomMessage: (event: unknown) => {
+        this.eventHandlers.onCustomMessage?.(event as CustomMessageEvent);
+      },
+      onAvatarResponse: (response: unknown) => {
+        this.eventHandlers.onAvatarResponse?.(response as AvatarResponse);
+      },
       onError: (error: Error) => {
         const streamingError =
           error instanceof StreamingError ? error : new StreamingError(ErrorCode.UNKNOWN_ERROR, error.message);
@@ -648,6 +743,23 @@ export class AgoraStreamingProvider implements StreamingProvider {
     this.messageController.cleanup();
   }
 
+  // Everything the session had before the drop: published tracks, denoiser and the last set-params
+  private getRestoreSteps(): RestoreStep[] {
+    return [
+      { name: 'audio', run: () => this.audioController.republishAudio() },
+      { name: 'video', run: () => this.videoController.republishVideo() },
+      { name: 'ai-denoiser', run: () => this.audioController.reapplyAIDenoiser() },
+      {
+        name: 'set-params',
+        run: async () => {
+          if (this.lastAvatarParameters) {
+            await this.messageController.setAvatarParameters(this.lastAvatarParameters);
+          }
+        },
+      },
+    ];
+  }
+
   private mapCredentials(credentials: StreamingCredentials): SessionCredentials {
     // Type-safe extraction with defaults
     const agoraAppId = credentials.agora_app_id as string;
@@ -688,6 +800,9 @@ export class AgoraStreamingProvider implements StreamingProvider {
     try {
       logger.info('Cleaning up Agora streaming provider');
 
+      this.reconnectSupervisor.cancel();
+      this.adaptiveVideo.reset();
+
       // Clear speaking state during cleanup
       this.eventHandlers.onSpeakingStateChanged?.(false);
 
@@ -13,12 +13,10 @@ export class AgoraMessageAdapter implements MessageAdapter {
 
   async sendData(data: Uint8Array): Promise<void> {
     try {
-      // Convert Uint8Array to string for Agora's sendStreamMessage
-      const text = new TextDecoder().decode(data);
-
+      // Pass the encoded bytes through untouched; binary codecs do not survive a round trip through a string
       await (
-        this.client as unknown as { sendStreamMessage: (data: string, reliable: boolean) => Promise<void> }
-      ).sendStreamMessage(text, false);
+        this.client as unknown as { sendStreamMessage: (data: Uint8Array, reliable: boolean) => Promise<void> }
+      ).sendStreamMessage(data, false);
 
       logger.debug('Message sent via Agora', { dataSize: data.length });
     } catch (error) {
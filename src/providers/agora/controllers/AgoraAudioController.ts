@@ -5,6 +5,10 @@ import { logger } from '../../../core/Logger';
 import { StreamingError, ErrorCode } from '../../../types/error.types';
 import { ErrorMapper } from '../../../errors/ErrorMapper';
 import { AudioTrack, AudioConfig, AudioControllerCallbacks } from '../../../types/streaming.types';
+import { AudioDumpFileHandler } from '../../../types/provider.interfaces';
+
+// The denoiser normally reports the end of a dump within a few seconds
+const AUDIO_DUMP_TIMEOUT_MS = 30000;
 
 // Register the AI denoiser extension globally when the module loads
 const aiDenoiser = new AIDenoiserExtension({
@@ -21,6 +25,7 @@ export class AgoraAudioController {
   private client: IAgoraRTCClient;
   private currentTrack: IMicrophoneAudioTrack | null = null;
   private isEnabled = false;
+  private isPublished = false;
   private aiDenoiserProcessor: IAIDenoiserProcessor | null = null;
   private isNoiseReductionEnabled = false;
   private callbacks: AudioControllerCallbacks = {};
@@ -148,6 +153,7 @@ export class AgoraAudioController {
 
       this.currentTrack = null;
       this.isEnabled = false;
+      this.isPublished = false;
 
       logger.info('Audio disabled successfully', { trackId });
 
@@ -238,6 +244,7 @@ export class AgoraAudioController {
       });
 
       await this.client.publish(this.currentTrack);
+      this.isPublished = true;
 
       logger.info('Audio track published successfully', {
         trackId: this.currentTrack.getTrackId(),
@@ -274,6 +281,7 @@ export class AgoraAudioController {
         logger.debug('Client not connected, skipping unpublish for audio track');
       }
 
+      this.isPublished = false;
       logger.info('Audio track unpublished successfully');
 
       this.callbacks.onAudioTrackUnpublished?.(this.currentTrack.getTrackId());
@@ -391,37 +399,53 @@ export class AgoraAudioController {
     }
   }
 
-  // Dump audio data for analysis
-  async dumpAudio(): Promise<void> {
+  // Dump audio data for analysis; files are downloaded unless onFile takes them
+  async dumpAudio(onFile?: AudioDumpFileHandler): Promise<void> {
     try {
-      if (!this.aiDenoiserProcessor) {
+      const processor = this.aiDenoiserProcessor;
+      if (!processor) {
         logger.warn('Noise reduction processor not initialized - please enable microphone first');
         return;
       }
 
       logger.debug('Starting audio dump');
 
-      // Set up dump event listeners if not already set
-      this.aiDenoiserProcessor.ondump = (blob: Blob, name: string) => {
-        logger.info(`Audio dump received: ${name}`);
-        // Create download link for the audio file
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = name;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-      };
-
-      this.aiDenoiserProcessor.ondumpend = () => {
-        logger.info('Audio dump completed');
-      };
-
-      // Start the dump
-      this.aiDenoiserProcessor.dump();
-      logger.info('Audio dump started - will download 9 audio files automatically');
+      await new Promise<void>((resolve) => {
+        const timeout = setTimeout(() => {
+          logger.warn('Audio dump did not report completion in time');
+          resolve();
+        }, AUDIO_DUMP_TIMEOUT_MS);
+
+        // Set up dump event listeners if not already set
+        processor.ondump = (blob: Blob, name: string) => {
+          logger.info(`Audio dump received: ${name}`);
+          if (onFile) {
+            onFile(blob, name);
+            return;
+          }
+          // Create download link for the audio file
+          const url = URL.createObjectURL(blob);
+          const a = document.createElement('a');
+          a.href = url;
+          a.download = name;
+          document.body.appendChild(a);
+          a.click();
+          document.body.removeChild(a);
+          URL.revokeObjectURL(url);
+        };
+
+        processor.ondumpend = () => {
+          clearTimeout(timeout);
+          logger.info('Audio dump completed');
+          resolve();
+        };
+
+        // Start the dump
+        processor.dump();
+        logger.info(
+          onFile ? 'Audio dump started' : 'Audio dump started - will download 9 audio files automatically',
+        );
+      });
     } catch (error) {
       logger.error('Failed to start audio dump', { error });
       throw error;
@@ -466,6 +490,25 @@ export class AgoraAudioController {
     return this.isNoiseReductionEnabled;
   }
 
+  // Publish the existing microphone track again after the channel was rejoined
+  async republishAudio(): Promise<void> {
+    if (!this.currentTrack || !this.isPublished) {
+      return;
+    }
+
+    await this.publishAudio();
+  }
+
+  // Re-enable the AI denoiser on the existing track if it was on before the drop
+  async reapplyAIDenoiser(): Promise<void> {
+    if (!this.isNoiseReductionEnabled || !this.aiDenoiserProcessor) {
+      return;
+    }
+
+    await this.aiDenoiserProcessor.enable();
+    logger.info('Noise reduction re-enabled after reconnect');
+  }
+
   // Clean up method for proper resource management
   async cleanup(): Promise<void> {
     try {
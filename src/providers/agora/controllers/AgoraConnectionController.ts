@@ -12,14 +12,19 @@ export interface ConnectionEventCallbacks {
   onConnected?: () => void;
   onDisconnected?: (reason?: string) => void;
   onConnectionFailed?: (error: StreamingError) => void;
+  onConnectionLost?: (error: StreamingError) => void;
   onTokenWillExpire?: () => void;
   onTokenDidExpire?: () => void;
 }
 
+// Disconnect reasons the SDK reports when the network or server dropped us, as opposed to a leave or ban
+const RECOVERABLE_DISCONNECT_REASONS = ['NETWORK_ERROR', 'SERVER_ERROR'];
+
 export class AgoraConnectionController {
   private client: IAgoraRTCClient;
   private isConnected = false;
   private callbacks: ConnectionEventCallbacks = {};
+  private joinParams: { appId: string; channel: string; token: string; uid: number } | null = null;
 
   constructor(client: IAgoraRTCClient) {
     this.client = client;
@@ -50,6 +55,7 @@ export class AgoraConnectionController {
       await this.client.join(agora_app_id, agora_channel, agora_token, agora_uid);
 
       this.isConnected = true;
+      this.joinParams = { appId: agora_app_id, channel: agora_channel, token: agora_token, uid: agora_uid };
 
       logger.info('Successfully connected to Agora channel', {
         channelName: agora_channel,
@@ -71,6 +77,43 @@ export class AgoraConnectionController {
     }
   }
 
+  // Rejoin the channel after an unexpected drop, keeping listeners and local tracks intact
+  async reconnect(): Promise<void> {
+    if (!this.joinParams) {
+      throw new StreamingError(ErrorCode.CONNECTION_FAILED, 'No previous Agora connection to restore');
+    }
+
+    const { appId, channel, token, uid } = this.joinParams;
+
+    try {
+      if (this.client.connectionState !== 'DISCONNECTED') {
+        await this.client.leave();
+      }
+
+      await this.client.join(appId, channel, token, uid);
+      this.isConnected = true;
+
+      logger.info('Rejoined Agora channel', { channelName: channel, userId: uid });
+      this.callbacks.onConnected?.();
+    } catch (error) {
+      throw ErrorMapper.mapAgoraError(error);
+    }
+  }
+
+  // Keeps the connection; later rejoins use the new token too
+  async renewToken(token: string): Promise<void> {
+    try {
+      await this.client.renewToken(token);
+    } catch (error) {
+      throw ErrorMapper.mapAgoraError(error);
+    }
+
+    if (this.joinParams) {
+      this.joinParams = { ...this.joinParams, token };
+    }
+    logger.info('Agora token renewed');
+  }
+
   async disconnect(): Promise<void> {
     try {
       logger.info('Disconnecting from Agora channel');
@@ -88,6 +131,7 @@ export class AgoraConnectionController {
       }
 
       this.isConnected = false;
+      this.joinParams = null;
 
       logger.info('Successfully disconnected from Agora channel');
       this.callbacks.onDisconnected?.();
@@ -149,6 +193,14 @@ export class AgoraConnectionController {
       if (curState === 'DISCONNECTED' || curState === 'DISCONNECTING') {
         this.isConnected = false;
         this.callbacks.onDisconnected?.(reason);
+
+        // joinParams is only cleared by an intentional disconnect, so a drop after a successful join lands here
+        const dropped = this.joinParams !== null && curState === 'DISCONNECTED';
+        if (dropped && RECOVERABLE_DISCONNECT_REASONS.includes(String(reason))) {
+          this.callbacks.onConnectionLost?.(
+            ErrorMapper.mapAgoraError({ code: 'CONNECTION_STATE_CHANGED', message: `Disconnected: ${reason}` }),
+          );
+        }
       }
     });
 
@@ -2,7 +2,7 @@ import { IAgoraRTCClient, IAgoraRTCRemoteUser, NetworkQuality } from 'agora-rtc-
 import { logger } from '../../../core/Logger';
 import { ErrorMapper } from '../../../errors/ErrorMapper';
 import { Participant, ConnectionQuality } from '../../../types/streaming.types';
-import { NetworkStats } from '../../../components/NetworkQuality';
+import { NetworkStats } from '../../../types/metrics.types';
 import { BaseEventController, BaseEventControllerCallbacks } from '../../common/controllers/BaseEventController';
 import { BaseParticipantController } from '../../common/controllers/BaseParticipantController';
 import { ErrorHandlingConfig } from '../../../types/error.types';
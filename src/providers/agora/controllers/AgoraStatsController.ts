@@ -1,4 +1,5 @@
 import { IAgoraRTCClient, NetworkQuality } from 'agora-rtc-sdk-ng';
+import { MediaMetrics } from '../../../types/metrics.types';
 import { logger } from '../../../core/Logger';
 import {
   BaseStatsController,
@@ -9,6 +10,7 @@ import {
 export type { StatsControllerCallbacks };
 
 export class AgoraStatsController extends BaseStatsController {
+  protected readonly providerType = 'agora';
   private client: IAgoraRTCClient;
   private isListening = false;
 
@@ -54,8 +56,11 @@ export class AgoraStatsController extends BaseStatsController {
           codecType?: string;
           receiveBitrate?: number;
           receiveFrameRate?: number;
+          decodeFrameRate?: number;
           receiveResolutionWidth?: number;
           receiveResolutionHeight?: number;
+          totalFreezeTime?: number;
+          freezeRate?: number;
         }) || {};
       const firstAudioStats =
         (Object.values(audioStats)[0] as {
@@ -64,6 +69,8 @@ export class AgoraStatsController extends BaseStatsController {
           codecType?: string;
           receiveBitrate?: number;
           receiveLevel?: number;
+          totalFreezeTime?: number;
+          freezeRate?: number;
         }) || {};
 
       // Calculate RTT from video/audio stats (end2EndDelay is the most accurate RTT measurement)
@@ -71,14 +78,7 @@ export class AgoraStatsController extends BaseStatsController {
       const audioRtt = firstAudioStats?.end2EndDelay || 0;
       const avgRtt = videoRtt > 0 && audioRtt > 0 ? (videoRtt + audioRtt) / 2 : Math.max(videoRtt, audioRtt);
 
-      // Use Agora's network quality values directly
-      const connectionQuality = {
-        score: this.mapQualityToScore(stats.downlinkNetworkQuality || 0),
-        uplink: this.mapQualityToString(stats.uplinkNetworkQuality || 0),
-        downlink: this.mapQualityToString(stats.downlinkNetworkQuality || 0),
-        rtt: avgRtt,
-        packetLoss: ((firstVideoStats?.packetLossRate || 0) + (firstAudioStats?.packetLossRate || 0)) / 2,
-      };
+      const packetLoss = ((firstVideoStats?.packetLossRate || 0) + (firstAudioStats?.packetLossRate || 0)) / 2;
 
       const detailedStats: {
         video?: {
@@ -124,9 +124,52 @@ export class AgoraStatsController extends BaseStatsController {
         };
       }
 
+      const metrics = this.createMetrics(
+        {
+          rtt: avgRtt,
+          packetLoss,
+          uplinkQuality: this.linkQualityFromLevel(stats.uplinkNetworkQuality),
+          downlinkQuality: this.linkQualityFromLevel(stats.downlinkNetworkQuality),
+        },
+        {
+          video:
+            Object.keys(videoStats).length > 0
+              ? {
+                  codec: firstVideoStats.codecType,
+                  bitrate: firstVideoStats.receiveBitrate,
+                  frameRate: firstVideoStats.receiveFrameRate ?? firstVideoStats.decodeFrameRate,
+                  width: firstVideoStats.receiveResolutionWidth,
+                  height: firstVideoStats.receiveResolutionHeight,
+                  packetLoss: firstVideoStats.packetLossRate,
+                  // Agora reports freeze time in seconds
+                  freezeTime:
+                    firstVideoStats.totalFreezeTime !== undefined ? firstVideoStats.totalFreezeTime * 1000 : undefined,
+                  freezeRate: firstVideoStats.freezeRate,
+                  endToEndDelay: firstVideoStats.end2EndDelay,
+                }
+              : undefined,
+          audio:
+            Object.keys(audioStats).length > 0
+              ? {
+                  codec: firstAudioStats.codecType,
+                  bitrate: firstAudioStats.receiveBitrate,
+                  packetLoss: firstAudioStats.packetLossRate,
+                  freezeTime:
+                    firstAudioStats.totalFreezeTime !== undefined ? firstAudioStats.totalFreezeTime * 1000 : undefined,
+                  freezeRate: firstAudioStats.freezeRate,
+                  endToEndDelay: firstAudioStats.end2EndDelay,
+                }
+              : undefined,
+        },
+        this.getOutboundMetrics(),
+      );
+      // Agora's own link ratings are one input to the score alongside the media stats
+      const connectionQuality = this.scoreConnection(metrics);
+
       const networkStats = {
         connectionQuality,
         detailedStats: detailedStats,
+        metrics,
       };
 
       this.callbacks.onNetworkStatsUpdate?.(networkStats);
@@ -148,16 +191,32 @@ export class AgoraStatsController extends BaseStatsController {
     }
   }
 
-  private mapQualityToScore(quality: number): number {
-    const qualityMap = { 0: 100, 1: 100, 2: 80, 3: 60, 4: 40, 5: 20, 6: 0 };
-    return qualityMap[quality as keyof typeof qualityMap] || 0;
-  }
-
-  private mapQualityToString(quality: number): 'excellent' | 'good' | 'fair' | 'poor' {
-    if (quality <= 2) return 'excellent';
-    if (quality <= 3) return 'good';
-    if (quality <= 4) return 'fair';
-    return 'poor';
+  // Local track stats only exist while something is published
+  private getOutboundMetrics(): MediaMetrics {
+    const outbound: MediaMetrics = {};
+    if (this.client.localTracks.some((track) => track.trackMediaType === 'video')) {
+      const video = this.client.getLocalVideoStats();
+      outbound.video = {
+        codec: video.codecType,
+        bitrate: video.sendBitrate,
+        frameRate: video.sendFrameRate,
+        width: video.sendResolutionWidth,
+        height: video.sendResolutionHeight,
+        packetLoss: video.currentPacketLossRate,
+        jitter: video.sendJitterMs,
+        freezeTime: video.totalFreezeTime * 1000,
+      };
+    }
+    if (this.client.localTracks.some((track) => track.trackMediaType === 'audio')) {
+      const audio = this.client.getLocalAudioStats();
+      outbound.audio = {
+        codec: audio.codecType,
+        bitrate: audio.sendBitrate,
+        packetLoss: audio.currentPacketLossRate,
+        jitter: audio.sendJitterMs,
+      };
+    }
+    return outbound;
   }
 
   async collectStats(): Promise<ParsedWebRTCStats | null> {
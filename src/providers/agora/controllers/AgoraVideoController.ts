@@ -243,6 +243,32 @@ export class AgoraVideoController {
     }
   }
 
+  // Re-encode the camera in place, e.g. when the uplink cannot carry the configured quality
+  async setEncoderConfiguration(config: VideoConfig): Promise<void> {
+    try {
+      if (!this.currentTrack) {
+        throw new StreamingError(ErrorCode.MEDIA_DEVICE_ERROR, 'No active video track to configure');
+      }
+
+      await this.currentTrack.setEncoderConfiguration({
+        width: config.width || 640,
+        height: config.height || 480,
+        frameRate: config.frameRate || 15,
+        bitrateMin: config.bitrate ? config.bitrate * 0.8 : 500,
+        bitrateMax: config.bitrate || 1000,
+      });
+
+      logger.debug('Video encoder configuration changed', { config });
+    } catch (error) {
+      const streamingError = ErrorMapper.mapAgoraError(error);
+      logger.error('Failed to change video encoder configuration', {
+        error: streamingError.message,
+        config,
+      });
+      throw streamingError;
+    }
+  }
+
   async playVideo(elementId: string): Promise<void> {
     try {
       if (!this.currentTrack) {
@@ -300,6 +326,15 @@ export class AgoraVideoController {
     return this.isPublished;
   }
 
+  // Publish the existing camera track again after the channel was rejoined
+  async republishVideo(): Promise<void> {
+    if (!this.currentTrack || !this.isPublished) {
+      return;
+    }
+
+    await this.publishVideo();
+  }
+
   get videoTrack(): VideoTrack | null {
     return this.currentTrack ? this.convertToVideoTrack(this.currentTrack) : null;
   }
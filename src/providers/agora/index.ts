@@ -4,7 +4,7 @@ export type { AgoraProviderConfig, AgoraCredentials } from './AgoraStreamingProv
 
 // Import for factory function
 import { AgoraStreamingProvider, AgoraProviderConfig } from './AgoraStreamingProvider';
-import { StreamingProvider } from '../../types/provider.interfaces';
+import { ProviderCreateOptions, StreamingProvider } from '../../types/provider.interfaces';
 import AgoraRTC from 'agora-rtc-sdk-ng';
 import { RTCClient } from './types';
 
@@ -23,7 +23,7 @@ export type { AgoraConnectionConfig, ConnectionEventCallbacks } from './controll
 export type { VideoControllerCallbacks, VideoConfig } from './controllers/AgoraVideoController';
 
 // Factory function for provider creation
-export function createProvider(_credentials: unknown): StreamingProvider {
+export function createProvider(_credentials: unknown, options: ProviderCreateOptions = {}): StreamingProvider {
   // Create Agora RTC client
   const client = AgoraRTC.createClient({
     mode: 'rtc',
@@ -33,6 +33,7 @@ export function createProvider(_credentials: unknown): StreamingProvider {
   // Create provider config with the client
   const config: AgoraProviderConfig = {
     client,
+    messageCodec: options.messageCodec,
     // session will be set later when connecting
   };
 
@@ -1,5 +1,5 @@
 import { VideoStrategy } from '../../../types/provider.interfaces';
-import { VideoTrack } from '../../../types/streaming.types';
+import { VideoTrack, VideoConfig } from '../../../types/streaming.types';
 import { AgoraVideoController } from '../controllers/AgoraVideoController';
 import { logger } from '../../../core/Logger';
 
@@ -107,6 +107,19 @@ export class AgoraVideoStrategy implements VideoStrategy {
     }
   }
 
+  async setEncoding(track: VideoTrack, config: VideoConfig): Promise<void> {
+    try {
+      await this.videoController.setEncoderConfiguration(config);
+      logger.info('Video encoding changed', { trackId: track.id, config });
+    } catch (error) {
+      logger.error('Failed to change video encoding', {
+        error: error instanceof Error ? error.message : String(error),
+        trackId: track.id,
+      });
+      throw error;
+    }
+  }
+
   // Helper method to map MediaTrackConstraints to Agora-specific config
   private mapConstraintsToConfig(constraints?: MediaTrackConstraints): Record<string, unknown> {
     if (!constraints) {
@@ -0,0 +1,178 @@
+import { logger } from '../../core/Logger';
+import { VideoStrategy } from '../../types/provider.interfaces';
+import { ConnectionQuality, StreamProviderType, VideoConfig, VideoTrack } from '../../types/streaming.types';
+import { AdaptiveVideoPolicy, VideoAdaptationEvent, VideoEncodingStep } from '../../types/adaptiveVideo.types';
+
+export const DEFAULT_ADAPTIVE_VIDEO_POLICY: AdaptiveVideoPolicy = {
+  enabled: true,
+  steps: [
+    { name: '360p', width: 480, height: 360, frameRate: 15, bitrate: 500 },
+    { name: '240p', width: 320, height: 240, frameRate: 10, bitrate: 250 },
+    { name: '180p', width: 240, height: 180, frameRate: 7, bitrate: 120 },
+  ],
+  unpublishWhenExhausted: true,
+  downgradeAfterMs: 6000,
+  upgradeAfterMs: 15000,
+};
+
+// What the video controllers create when the app passes no config
+const DEFAULT_CAMERA: VideoEncodingStep = { name: 'configured', width: 640, height: 480, frameRate: 15, bitrate: 1000 };
+
+export interface AdaptiveVideoControllerCallbacks {
+  onAdapted?: (event: VideoAdaptationEvent) => void;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Steps the published camera down through the policy's ladder while the uplink stays poor, unpublishing it
+ * as a last resort, and back up once the uplink has been good for a while. Fair uplink holds the current step.
+ */
+export class AdaptiveVideoController {
+  private providerType: StreamProviderType;
+  private strategy: VideoStrategy;
+  private policy: AdaptiveVideoPolicy;
+  private callbacks: AdaptiveVideoControllerCallbacks = {};
+  private baseline: VideoEncodingStep = DEFAULT_CAMERA;
+  private track: VideoTrack | null = null;
+  // 0 is the configured camera, 1..steps.length the policy's steps, one more means unpublished
+  private level = 0;
+  private poorSince: number | null = null;
+  private goodSince: number | null = null;
+  private applying = false;
+
+  constructor(providerType: StreamProviderType, strategy: VideoStrategy, policy: Partial<AdaptiveVideoPolicy> = {}) {
+    this.providerType = providerType;
+    this.strategy = strategy;
+    this.policy = { ...DEFAULT_ADAPTIVE_VIDEO_POLICY, ...policy };
+  }
+
+  setCallbacks(callbacks: AdaptiveVideoControllerCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  // The config the app enabled the camera with; steps at or above it are skipped
+  setBaseline(config: VideoConfig = {}): void {
+    this.baseline = {
+      name: 'configured',
+      width: config.width ?? DEFAULT_CAMERA.width,
+      height: config.height ?? DEFAULT_CAMERA.height,
+      frameRate: config.frameRate ?? DEFAULT_CAMERA.frameRate,
+      bitrate: config.bitrate ?? DEFAULT_CAMERA.bitrate,
+    };
+  }
+
+  trackPublished(track: VideoTrack): void {
+    this.track = track;
+    this.level = 0;
+    this.poorSince = null;
+    this.goodSince = null;
+  }
+
+  // The app took the camera down itself; nothing left to adapt
+  trackUnpublished(): void {
+    this.track = null;
+    this.level = 0;
+    this.poorSince = null;
+    this.goodSince = null;
+  }
+
+  get currentStep(): VideoEncodingStep | null {
+    return this.stepAt(this.level);
+  }
+
+  async update(quality: ConnectionQuality | null, now = Date.now()): Promise<void> {
+    if (!this.policy.enabled || !this.track || !quality || this.applying) {
+      return;
+    }
+
+    if (quality.uplink === 'poor') {
+      this.goodSince = null;
+      this.poorSince ??= now;
+      if (now - this.poorSince >= this.policy.downgradeAfterMs && this.level < this.maxLevel()) {
+        await this.moveTo(this.level + 1, quality.uplink, now);
+      }
+    } else if (quality.uplink === 'fair') {
+      this.poorSince = null;
+      this.goodSince = null;
+    } else {
+      this.poorSince = null;
+      this.goodSince ??= now;
+      if (now - this.goodSince >= this.policy.upgradeAfterMs && this.level > 0) {
+        await this.moveTo(this.level - 1, quality.uplink, now);
+      }
+    }
+  }
+
+  reset(): void {
+    this.trackUnpublished();
+    this.baseline = DEFAULT_CAMERA;
+  }
+
+  private steps(): VideoEncodingStep[] {
+    return this.policy.steps.filter((step) => step.bitrate < this.baseline.bitrate);
+  }
+
+  private maxLevel(): number {
+    return this.steps().length + (this.policy.unpublishWhenExhausted ? 1 : 0);
+  }
+
+  private stepAt(level: number): VideoEncodingStep | null {
+    return level === 0 ? this.baseline : (this.steps()[level - 1] ?? null);
+  }
+
+  private async moveTo(level: number, uplink: ConnectionQuality['uplink'], now: number): Promise<void> {
+    const track = this.track;
+    if (!track) return;
+
+    const from = this.stepAt(this.level);
+    const to = this.stepAt(level);
+    const action: VideoAdaptationEvent['action'] = !to
+      ? 'unpublish'
+      : !from
+        ? 'republish'
+        : level > this.level
+          ? 'downgrade'
+          : 'upgrade';
+
+    this.applying = true;
+    try {
+      if (!to) {
+        await this.strategy.unpublishTrack(track);
+      } else {
+        await this.strategy.setEncoding(track, to);
+        if (!from) {
+          await this.strategy.publishTrack(track);
+        }
+      }
+
+      this.level = level;
+      logger.info('Adapted local camera to uplink quality', {
+        provider: this.providerType,
+        action,
+        from: from?.name ?? null,
+        to: to?.name ?? null,
+        uplink,
+      });
+      this.callbacks.onAdapted?.({
+        action,
+        from: from?.name ?? null,
+        to: to?.name ?? null,
+        encoding: to ?? undefined,
+        uplink,
+        timestamp: now,
+      });
+    } catch (error) {
+      logger.warn('Failed to adapt local camera', {
+        provider: this.providerType,
+        action,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.callbacks.onError?.(error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      // Every further step has to wait out a full window again
+      this.poorSince = null;
+      this.goodSince = null;
+      this.applying = false;
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import { logger } from '../../core/Logger';
+import { AvatarResponse } from '../../types/provider.interfaces';
+
+// Older responses are dropped once this many are held; late chunks for them start a new response
+const MAX_TRACKED_RESPONSES = 20;
+
+interface AssemblingResponse {
+  responseId: string;
+  questionId?: string;
+  chunks: Map<number, string>;
+  // idx of the fin chunk, once seen
+  finIdx?: number;
+  requestedAt?: number;
+  firstTokenAt: number;
+  finalAt?: number;
+  audioStartAt?: number;
+  audioEndAt?: number;
+}
+
+export type AvatarResponseCallback = (response: AvatarResponse) => void;
+
+/**
+ * Builds avatar replies out of their streamed chat chunks, ordering them by idx and marking a reply
+ * final once the fin chunk and every chunk before it have arrived. Speaking events and the question
+ * that prompted each reply are linked to it to record per-response timings.
+ */
+export class AvatarResponseAssembler {
+  private onUpdate: AvatarResponseCallback;
+  private responses = new Map<string, AssemblingResponse>();
+  private latest: AssemblingResponse | null = null;
+  // The response whose audio is playing; a new reply may already be streaming text meanwhile
+  private speaking: AssemblingResponse | null = null;
+  private pendingQuestion: { mid: string; sentAt: number } | null = null;
+  // Audio can start before the first text chunk of the reply it belongs to
+  private pendingAudioStartAt: number | null = null;
+
+  constructor(onUpdate: AvatarResponseCallback) {
+    this.onUpdate = onUpdate;
+  }
+
+  markQuestionSent(mid: string): void {
+    this.pendingQuestion = { mid, sentAt: Date.now() };
+  }
+
+  addChunk(text: string, mid?: string, idx?: number, fin?: boolean): void {
+    const response = this.resolveResponse(mid);
+    const chunkIdx = idx ?? response.chunks.size;
+
+    if (response.chunks.has(chunkIdx)) {
+      logger.debug('Ignoring duplicate response chunk', { responseId: response.responseId, idx: chunkIdx });
+      return;
+    }
+
+    response.chunks.set(chunkIdx, text);
+    if (fin) {
+      response.finIdx = chunkIdx;
+    }
+
+    if (!response.finalAt && this.isComplete(response)) {
+      response.finalAt = Date.now();
+    }
+
+    this.emit(response);
+  }
+
+  markAudioStart(): void {
+    const response = this.latest;
+    if (response && response.audioStartAt === undefined) {
+      response.audioStartAt = Date.now();
+      this.speaking = response;
+      this.emit(response);
+      return;
+    }
+
+    this.pendingAudioStartAt = Date.now();
+  }
+
+  markAudioEnd(): void {
+    this.pendingAudioStartAt = null;
+
+    const response = this.speaking;
+    this.speaking = null;
+    if (!response || response.audioEndAt !== undefined) {
+      return;
+    }
+
+    response.audioEndAt = Date.now();
+    this.emit(response);
+  }
+
+  clear(): void {
+    this.responses.clear();
+    this.latest = null;
+    this.speaking = null;
+    this.pendingQuestion = null;
+    this.pendingAudioStartAt = null;
+  }
+
+  private resolveResponse(mid?: string): AssemblingResponse {
+    const existing = mid ? this.responses.get(mid) : this.latest && !this.latest.finalAt ? this.latest : null;
+    if (existing) {
+      return existing;
+    }
+
+    const now = Date.now();
+    const response: AssemblingResponse = {
+      responseId: mid ?? `response-${now}`,
+      questionId: this.pendingQuestion?.mid,
+      requestedAt: this.pendingQuestion?.sentAt,
+      chunks: new Map(),
+      firstTokenAt: now,
+      audioStartAt: this.pendingAudioStartAt ?? undefined,
+    };
+
+    if (response.audioStartAt !== undefined) {
+      this.speaking = response;
+    }
+    this.pendingQuestion = null;
+    this.pendingAudioStartAt = null;
+
+    this.responses.set(response.responseId, response);
+    if (this.responses.size > MAX_TRACKED_RESPONSES) {
+      const oldest = this.responses.keys().next().value;
+      if (oldest !== undefined) {
+        this.responses.delete(oldest);
+      }
+    }
+
+    this.latest = response;
+    return response;
+  }
+
+  private isComplete(response: AssemblingResponse): boolean {
+    if (response.finIdx === undefined) {
+      return false;
+    }
+    for (let i = 0; i <= response.finIdx; i++) {
+      if (!response.chunks.has(i)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private emit(response: AssemblingResponse): void {
+    this.onUpdate(this.toAvatarResponse(response));
+  }
+
+  private toAvatarResponse(response: AssemblingResponse): AvatarResponse {
+    const text = [...response.chunks.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, chunk]) => chunk)
+      .join('');
+
+    const isSpeaking = response.audioStartAt !== undefined && response.audioEndAt === undefined;
+    const completedAt =
+      response.finalAt !== undefined && response.audioEndAt !== undefined
+        ? Math.max(response.finalAt, response.audioEndAt)
+        : undefined;
+
+    return {
+      responseId: response.responseId,
+      questionId: response.questionId,
+      text,
+      status: response.finalAt !== undefined ? 'final' : 'partial',
+      receivedChunks: response.chunks.size,
+      totalChunks: response.finIdx !== undefined ? response.finIdx + 1 : undefined,
+      isSpeaking,
+      timings: {
+        requestedAt: response.requestedAt,
+        firstTokenAt: response.firstTokenAt,
+        finalAt: response.finalAt,
+        audioStartAt: response.audioStartAt,
+        audioEndAt: response.audioEndAt,
+        completedAt,
+      },
+    };
+  }
+}
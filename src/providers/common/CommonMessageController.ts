@@ -3,6 +3,11 @@ import { StreamingError, ErrorCode } from '../../types/error.types';
 import { ChatMessage } from '../../types/streaming.types';
 import { SystemMessageEvent, ChatMessageEvent, CommandEvent } from '../../types/provider.interfaces';
 import { MessageAdapter } from './adapters/MessageAdapter';
+import { MessageDeliveryTracker } from './MessageDeliveryTracker';
+import { AvatarResponseAssembler } from './AvatarResponseAssembler';
+import { MessageProtocolRegistry, StreamMessageHandler, toCustomMessageEvent } from './MessageProtocolRegistry';
+import { JsonMessageCodec } from './codecs/JsonMessageCodec';
+import { CodecNegotiator } from './codecs/CodecNegotiator';
 import {
   MessageProviderConfig,
   MessageControllerCallbacks,
@@ -10,16 +15,50 @@ import {
   CommandPayload,
   CommandResponsePayload,
   ChatResponsePayload,
+  CommandOptions,
+  StreamMessageCodec,
 } from './types/message.types';
 
+const COMMAND_SUCCESS_CODE = 1000;
+
+// How long each command waits for its ack; interrupts should land quickly or not at all
+const DEFAULT_COMMAND_TIMEOUTS: Record<string, number> = {
+  'set-params': 15000,
+  interrupt: 5000,
+};
+const DEFAULT_COMMAND_TIMEOUT_MS = 10000;
+
+const isHighSurrogate = (code: number) => code >= 0xd800 && code <= 0xdbff;
+
+interface PendingCommand {
+  cmd: string;
+  resolve: (response: CommandResponsePayload) => void;
+  reject: (error: StreamingError) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
 export class CommonMessageController {
   private adapter: MessageAdapter;
   private config: MessageProviderConfig;
   private callbacks: MessageControllerCallbacks = {};
+  private delivery: MessageDeliveryTracker;
+  private responses: AvatarResponseAssembler;
+  private pendingCommands = new Map<string, PendingCommand>();
+  private commandSequence = 0;
+  private codecs: CodecNegotiator;
+  private protocol = new MessageProtocolRegistry();
 
   constructor(adapter: MessageAdapter, config: MessageProviderConfig) {
     this.adapter = adapter;
     this.config = config;
+    this.codecs = new CodecNegotiator(config.codec ?? new JsonMessageCodec());
+    this.registerBuiltInHandlers();
+    this.delivery = new MessageDeliveryTracker(
+      (mid, chunks) => this.retransmitChunks(mid, chunks),
+      (event) => this.callbacks.onDeliveryStatusChanged?.(event),
+      config.delivery,
+    );
+    this.responses = new AvatarResponseAssembler((response) => this.callbacks.onAvatarResponse?.(response));
   }
 
   setCallbacks(callbacks: MessageControllerCallbacks): void {
@@ -31,6 +70,28 @@ export class CommonMessageController {
     return this.adapter;
   }
 
+  // Handle an extra message type, or a whole new protocol version, without touching this controller
+  registerMessageHandler(version: number, type: string, handler: StreamMessageHandler): () => void {
+    return this.protocol.register(version, type, handler);
+  }
+
+  private registerBuiltInHandlers(): void {
+    this.protocol.register(2, 'chat', ({ mid, idx, fin, pld }) => {
+      const payload = pld as ChatResponsePayload;
+      this.confirmChatDelivery(mid, payload);
+      this.handleChatMessage(mid || `msg-${Date.now()}`, payload);
+      if (payload.from === 'bot') {
+        this.responses.addChunk(payload.text, mid, idx, fin);
+      }
+    });
+    this.protocol.register(2, 'event', ({ mid, pld }) => {
+      this.handleSystemEvent(mid || `event-${Date.now()}`, pld as unknown as { event: string });
+    });
+    this.protocol.register(2, 'command', ({ mid, pld }) => {
+      this.handleCommandMessage(mid || `cmd-${Date.now()}`, pld as CommandPayload | CommandResponsePayload);
+    });
+  }
+
   private setupMessageListener(): void {
     this.adapter.setupMessageListener(this.handleIncomingMessage.bind(this));
   }
@@ -44,17 +105,16 @@ export class CommonMessageController {
       });
 
       // Try to parse as stream message
+      let parsedData: StreamMessage;
       try {
-        const parsedData = JSON.parse(text) as Record<string, unknown>;
-        logger.debug('Parsed JSON data', { data: parsedData });
-        this.processStreamMessage(parsedData);
+        parsedData = this.decodeStreamMessage(data);
       } catch (parseError) {
-        logger.warn('Failed to parse JSON, treating as simple text message', {
+        logger.warn('Failed to decode stream message, treating as simple text message', {
           parseError: parseError instanceof Error ? parseError.message : String(parseError),
           text: text.substring(0, 100),
         });
 
-        // If not JSON, treat as simple text message
+        // Not a stream message in any known codec, treat as simple text message
         const message: ChatMessage = {
           id: `msg-${Date.now()}`,
           content: text,
@@ -63,7 +123,10 @@ export class CommonMessageController {
           type: 'text',
         };
         this.callbacks.onMessageReceived?.(message);
+        return;
       }
+
+      this.processStreamMessage(parsedData);
     } catch (error) {
       logger.error('Error handling incoming message', {
         error: error instanceof Error ? error.message : String(error),
@@ -73,32 +136,39 @@ export class CommonMessageController {
     }
   }
 
-  private processStreamMessage(data: Record<string, unknown>): void {
+  private decodeStreamMessage(data: Uint8Array): StreamMessage {
+    const message = this.codecs.decode(data);
+    logger.debug('Decoded stream message', { preferredCodec: this.codecs.preferredName, data: message });
+    return message;
+  }
+
+  private processStreamMessage(data: StreamMessage): void {
     try {
       // Validate message format
-      const streamMessage = data as unknown as StreamMessage;
-      const { v, type, mid, pld } = streamMessage;
+      const { v, type, mid } = data;
 
-      if (v !== 2) {
-        logger.debug('Ignoring message with unsupported version', { version: v });
+      if (typeof v !== 'number' || typeof type !== 'string') {
+        logger.debug('Ignoring message without version or type', { version: v, type });
         return;
       }
 
-      logger.debug('Processing stream message', { type, mid });
+      logger.debug('Processing stream message', { version: v, type, mid });
 
-      switch (type) {
-        case 'chat':
-          this.handleChatMessage(mid || `msg-${Date.now()}`, pld as ChatResponsePayload);
-          break;
-        case 'event':
-          this.handleSystemEvent(mid || `event-${Date.now()}`, pld as unknown as { event: string });
-          break;
-        case 'command':
-          this.handleCommandMessage(mid || `cmd-${Date.now()}`, pld as CommandPayload | CommandResponsePayload);
-          break;
-        default:
-          logger.debug('Unknown message type received', { type, mid });
+      const handler = this.protocol.resolve(v, type);
+      if (handler) {
+        handler(data);
+        return;
       }
+
+      // Unknown types and versions go to the app instead of being dropped
+      logger.debug('No handler for stream message, surfacing as custom message', {
+        version: v,
+        type,
+        mid,
+        knownVersion: this.protocol.supportsVersion(v),
+      });
+
+      this.callbacks.onCustomMessage?.(toCustomMessageEvent(data));
     } catch (error) {
       logger.error('Error processing stream message', {
         error: error instanceof Error ? error.message : String(error),
@@ -108,6 +178,15 @@ export class CommonMessageController {
     }
   }
 
+  private confirmChatDelivery(mid: string | undefined, payload: ChatResponsePayload): void {
+    // Any avatar reply means our question got through; user-side chat only counts when it echoes our mid
+    if (payload.from === 'bot') {
+      this.delivery.acknowledgeChat(mid);
+    } else if (mid && this.delivery.isOutstanding(mid)) {
+      this.delivery.acknowledgeChat(mid);
+    }
+  }
+
   private handleChatMessage(messageId: string, payload: ChatResponsePayload): void {
     const { text, from } = payload;
     const event: ChatMessageEvent = {
@@ -141,12 +220,14 @@ export class CommonMessageController {
         text = '🎤 Avatar started speaking';
         // Update speaking state
         this.callbacks.onSpeakingStateChanged?.(true);
+        this.responses.markAudioStart();
         break;
       case 'audio_end':
         eventType = 'avatar_audio_end';
         text = '✅ Avatar finished speaking';
         // Update speaking state
         this.callbacks.onSpeakingStateChanged?.(false);
+        this.responses.markAudioEnd();
         break;
       default:
         logger.debug('Unknown system event received', { event });
@@ -166,7 +247,10 @@ export class CommonMessageController {
     if ('code' in payload) {
       // This is a command acknowledgment
       const { cmd, code, msg } = payload;
-      const success = code === 1000;
+      const success = code === COMMAND_SUCCESS_CODE;
+      this.delivery.acknowledgeCommand(cmd, messageId);
+      this.settleCommand(messageId, payload);
+
       const statusText = success ? 'Success' : 'Failed';
       const eventType = cmd === 'interrupt' ? 'interrupt_ack' : 'set_params_ack';
 
@@ -227,13 +311,17 @@ export class CommonMessageController {
         throw new StreamingError(ErrorCode.INVALID_CONFIGURATION, 'Message content cannot be empty');
       }
 
-      const chunks = this.splitMessageIntoChunks(content, messageId);
+      const codec = this.codecs.getSendCodec();
+      const chunks = this.splitMessageIntoChunks(content, messageId, codec);
       logger.debug('Message split into chunks', {
         totalChunks: chunks.length,
         messageId,
       });
 
-      await this.sendMessageChunks(chunks, messageId);
+      this.delivery.track(messageId, 'chat');
+      this.responses.markQuestionSent(messageId);
+      await this.sendMessageChunks(chunks, messageId, codec);
+      this.delivery.markSent(messageId);
     } catch (error) {
       const streamingError =
         error instanceof StreamingError
@@ -243,6 +331,8 @@ export class CommonMessageController {
               `Failed to send message: ${error instanceof Error ? error.message : String(error)}`,
             );
 
+      this.delivery.markFailed(messageId, streamingError);
+
       logger.error('Failed to send message', {
         error: streamingError.message,
         messageId,
@@ -252,43 +342,18 @@ export class CommonMessageController {
     }
   }
 
-  async interruptResponse(): Promise<void> {
+  async interruptResponse(): Promise<CommandResponsePayload> {
     try {
       logger.info('Sending interrupt command');
-
-      if (!this.adapter.isReady()) {
-        throw new StreamingError(ErrorCode.CONNECTION_FAILED, 'Adapter not ready for sending messages');
-      }
-
-      const message: StreamMessage = {
-        v: 2,
-        type: 'command',
-        mid: `msg-${Date.now()}`,
-        pld: {
-          cmd: 'interrupt',
-        },
-      };
-
-      const jsonData = JSON.stringify(message);
-      logger.debug('Sending interrupt command', { messageSize: jsonData.length });
-
-      const encoder = new TextEncoder();
-      const data = encoder.encode(jsonData);
-
-      await this.adapter.sendData(data);
-
-      // Trigger both onCommandSent and onCommand callbacks
-      this.callbacks.onCommandSent?.('interrupt');
-
-      const commandEvent: CommandEvent = {
-        command: 'interrupt',
-      };
-      this.callbacks.onCommand?.(commandEvent);
+      return await this.sendCommand('interrupt');
     } catch (error) {
-      const streamingError = new StreamingError(
-        ErrorCode.API_REQUEST_FAILED,
-        `Failed to send interrupt: ${error instanceof Error ? error.message : String(error)}`,
-      );
+      const streamingError =
+        error instanceof StreamingError
+          ? error
+          : new StreamingError(
+              ErrorCode.API_REQUEST_FAILED,
+              `Failed to send interrupt: ${error instanceof Error ? error.message : String(error)}`,
+            );
 
       logger.error('Failed to send interrupt command', {
         error: streamingError.message,
@@ -297,7 +362,7 @@ export class CommonMessageController {
     }
   }
 
-  async setAvatarParameters(metadata: Record<string, unknown>): Promise<void> {
+  async setAvatarParameters(metadata: Record<string, unknown>): Promise<CommandResponsePayload> {
     try {
       logger.info('Setting avatar parameters', { metadata });
 
@@ -322,40 +387,15 @@ export class CommonMessageController {
         Object.entries(metadata).filter(([_, value]) => value !== undefined && value !== null && value !== ''),
       );
 
-      const message: StreamMessage = {
-        v: 2,
-        type: 'command',
-        mid: `msg-${Date.now()}`,
-        pld: {
-          cmd: 'set-params',
-          data: cleanedMeta,
-        },
-      };
-
-      const jsonData = JSON.stringify(message);
-      logger.debug('Sending avatar parameters', {
-        messageSize: jsonData.length,
-        cleanedParameters: cleanedMeta,
-      });
-
-      const encoder = new TextEncoder();
-      const data = encoder.encode(jsonData);
-
-      await this.adapter.sendData(data);
-
-      // Trigger both onCommandSent and onCommand callbacks
-      this.callbacks.onCommandSent?.('set-params', cleanedMeta);
-
-      const commandEvent: CommandEvent = {
-        command: 'set-params',
-        data: cleanedMeta,
-      };
-      this.callbacks.onCommand?.(commandEvent);
+      return await this.sendCommand('set-params', cleanedMeta);
     } catch (error) {
-      const streamingError = new StreamingError(
-        ErrorCode.API_REQUEST_FAILED,
-        `Failed to set avatar parameters: ${error instanceof Error ? error.message : String(error)}`,
-      );
+      const streamingError =
+        error instanceof StreamingError
+          ? error
+          : new StreamingError(
+              ErrorCode.API_REQUEST_FAILED,
+              `Failed to set avatar parameters: ${error instanceof Error ? error.message : String(error)}`,
+            );
 
       logger.error('Failed to set avatar parameters', {
         error: streamingError.message,
@@ -365,39 +405,106 @@ export class CommonMessageController {
     }
   }
 
-  // Private helper methods
-  private splitMessageIntoChunks(content: string, messageId: string): string[] {
-    const baseEncoded = this.encodeMessage('', 0, false, messageId);
-    const maxQuestionLength = Math.floor((this.config.maxEncodedSize - baseEncoded.length) / 4);
+  /**
+   * Send a command and wait for the server's ack with the same mid.
+   * Resolves on code 1000, rejects with COMMAND_REJECTED on any other code or OPERATION_TIMEOUT without an ack.
+   */
+  async sendCommand(
+    cmd: string,
+    data?: Record<string, unknown>,
+    options: CommandOptions = {},
+  ): Promise<CommandResponsePayload> {
+    if (!this.adapter.isReady()) {
+      throw new StreamingError(ErrorCode.CONNECTION_FAILED, 'Adapter not ready for sending messages');
+    }
 
-    const chunks: string[] = [];
-    let remainingMessage = content;
-    let chunkIndex = 0;
+    const mid = `cmd-${Date.now()}-${++this.commandSequence}`;
+    const message: StreamMessage = {
+      v: 2,
+      type: 'command',
+      mid,
+      pld: data ? { cmd, data } : { cmd },
+    };
+
+    const encoded = this.codecs.getSendCodec().encode(message);
+    logger.debug('Sending command', { cmd, mid, messageSize: encoded.length });
+
+    const timeoutMs =
+      options.timeoutMs ??
+      this.config.commandTimeouts?.[cmd] ??
+      DEFAULT_COMMAND_TIMEOUTS[cmd] ??
+      DEFAULT_COMMAND_TIMEOUT_MS;
+    const response = this.awaitCommandResponse(mid, cmd, timeoutMs);
+
+    try {
+      await this.sendTrackedCommand(mid, cmd, encoded);
+    } catch (error) {
+      // Nobody will ever see this ack, so drop the waiter without rejecting an unobserved promise
+      this.discardPendingCommand(mid);
+      throw error;
+    }
+
+    // Trigger both onCommandSent and onCommand callbacks
+    this.callbacks.onCommandSent?.(cmd, data);
+
+    const commandEvent: CommandEvent = {
+      command: cmd,
+      data,
+    };
+    this.callbacks.onCommand?.(commandEvent);
+
+    return response;
+  }
 
-    while (remainingMessage.length > 0) {
-      let chunk = remainingMessage.slice(0, maxQuestionLength);
-      let encoded = this.encodeMessage(chunk, chunkIndex, false, messageId);
+  // Private helper methods
+  // Each chunk takes the longest prefix whose encoded message still fits, measured with the codec it is sent in
+  private splitMessageIntoChunks(content: string, messageId: string, codec: StreamMessageCodec): string[] {
+    const chunks: string[] = [];
+    let offset = 0;
+
+    while (offset < content.length) {
+      const chunkIndex = chunks.length;
+      const fits = (end: number) =>
+        this.encodeMessage(codec, content.slice(offset, end), chunkIndex, false, messageId).length <=
+        this.config.maxEncodedSize;
+
+      // Binary search for the furthest end that fits; encoded size grows with the text length
+      let low = offset;
+      let high = content.length;
+      while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (fits(mid)) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
 
-      while (encoded.length > this.config.maxEncodedSize && chunk.length > 1) {
-        chunk = chunk.slice(0, Math.ceil(chunk.length / 2));
-        encoded = this.encodeMessage(chunk, chunkIndex, false, messageId);
+      let end = low;
+      // Never cut a surrogate pair in half, or both chunks end up with a broken character
+      if (end < content.length && end > offset && isHighSurrogate(content.charCodeAt(end - 1))) {
+        end--;
       }
 
-      if (encoded.length > this.config.maxEncodedSize) {
+      if (end === offset) {
         throw new StreamingError(ErrorCode.INVALID_CONFIGURATION, 'Message content too large for chunking', {
-          details: { chunkSize: encoded.length, maxSize: this.config.maxEncodedSize },
+          details: {
+            chunkSize: this.encodeMessage(codec, content.slice(offset, offset + 1), chunkIndex, false, messageId)
+              .length,
+            maxSize: this.config.maxEncodedSize,
+            codec: codec.name,
+          },
         });
       }
 
-      chunks.push(chunk);
-      remainingMessage = remainingMessage.slice(chunk.length);
-      chunkIndex++;
+      chunks.push(content.slice(offset, end));
+      offset = end;
     }
 
     return chunks;
   }
 
-  private async sendMessageChunks(chunks: string[], messageId: string): Promise<void> {
+  private async sendMessageChunks(chunks: string[], messageId: string, codec: StreamMessageCodec): Promise<void> {
     for (let i = 0; i < chunks.length; i++) {
       const isLastChunk = i === chunks.length - 1;
       const chunk = chunks[i];
@@ -405,39 +512,150 @@ export class CommonMessageController {
         logger.warn('Skipping undefined chunk', { index: i, totalChunks: chunks.length });
         continue;
       }
-      const encodedChunk = this.encodeMessage(chunk, i, isLastChunk, messageId);
-      const chunkSize = encodedChunk.length;
+      const encodedChunk = this.encodeMessage(codec, chunk, i, isLastChunk, messageId);
+      this.delivery.recordChunk(messageId, i, encodedChunk);
+      await this.sendChunk(encodedChunk, i, chunks.length, messageId);
+    }
+  }
 
-      const minimumTimeMs = Math.ceil((1000 * chunkSize) / this.config.bytesPerSecond);
-      const startTime = Date.now();
+  // Commands are tracked for their delivery status only. Their own timeout decides when they failed, since
+  // resending a slow but valid set-params while it is still pending would apply it twice.
+  private async sendTrackedCommand(mid: string, cmd: string, data: Uint8Array): Promise<void> {
+    this.delivery.track(mid, 'command', cmd);
 
-      logger.debug('Sending message chunk', {
-        chunkIndex: i + 1,
-        totalChunks: chunks.length,
-        chunkSize,
-        isLastChunk,
-        messageId,
-      });
+    try {
+      await this.adapter.sendData(data);
+    } catch (error) {
+      this.delivery.markFailed(
+        mid,
+        new StreamingError(ErrorCode.API_REQUEST_FAILED, `Failed to send ${cmd} command`, {
+          details: { messageId: mid, originalError: error },
+        }),
+      );
+      throw error;
+    }
+  }
 
-      try {
-        await this.adapter.sendData(encodedChunk);
-      } catch (error) {
-        throw new StreamingError(ErrorCode.API_REQUEST_FAILED, `Failed to send chunk ${i + 1}/${chunks.length}`, {
-          details: { chunkIndex: i, messageId, originalError: error },
+  private awaitCommandResponse(mid: string, cmd: string, timeoutMs: number): Promise<CommandResponsePayload> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingCommands.delete(mid);
+
+        const error = new StreamingError(ErrorCode.OPERATION_TIMEOUT, `No ack for ${cmd} within ${timeoutMs}ms`, {
+          details: { cmd, messageId: mid, timeoutMs },
         });
-      }
+        this.delivery.markFailed(mid, error);
+        reject(error);
+      }, timeoutMs);
+
+      this.pendingCommands.set(mid, { cmd, resolve, reject, timer });
+    });
+  }
 
-      if (!isLastChunk) {
-        const elapsedMs = Date.now() - startTime;
-        const remainingDelay = Math.max(0, minimumTimeMs - elapsedMs);
-        if (remainingDelay > 0) {
-          await new Promise((resolve) => setTimeout(resolve, remainingDelay));
+  // Acks normally echo our mid; fall back to the oldest waiter for the same command when they do not
+  private settleCommand(mid: string, response: CommandResponsePayload): void {
+    let key: string | undefined = this.pendingCommands.has(mid) ? mid : undefined;
+    if (!key) {
+      for (const [pendingMid, pending] of this.pendingCommands) {
+        if (pending.cmd === response.cmd) {
+          key = pendingMid;
+          break;
         }
       }
     }
+
+    const pending = key ? this.pendingCommands.get(key) : undefined;
+    if (!key || !pending) {
+      logger.debug('Command ack without a pending request', { cmd: response.cmd, mid });
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.pendingCommands.delete(key);
+
+    if (response.code === COMMAND_SUCCESS_CODE) {
+      pending.resolve(response);
+      return;
+    }
+
+    pending.reject(
+      new StreamingError(
+        ErrorCode.COMMAND_REJECTED,
+        `${response.cmd} rejected: ${response.msg ?? `code ${response.code}`}`,
+        {
+          details: { cmd: response.cmd, code: response.code, msg: response.msg, messageId: key },
+        },
+      ),
+    );
+  }
+
+  private discardPendingCommand(mid: string): void {
+    const pending = this.pendingCommands.get(mid);
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pendingCommands.delete(mid);
+    }
   }
 
-  private encodeMessage(text: string, idx: number, fin: boolean, messageId: string): Uint8Array {
+  // Resend the exact bytes of an unanswered message, keeping the original pacing
+  private async retransmitChunks(messageId: string, chunks: Uint8Array[]): Promise<void> {
+    if (!this.adapter.isReady()) {
+      throw new StreamingError(ErrorCode.CONNECTION_FAILED, 'Adapter not ready for sending messages');
+    }
+
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = chunks[i];
+      if (chunk) {
+        await this.sendChunk(chunk, i, chunks.length, messageId);
+      }
+    }
+  }
+
+  // Send one encoded chunk, then wait long enough to stay under the provider's byte rate
+  private async sendChunk(
+    encodedChunk: Uint8Array,
+    index: number,
+    totalChunks: number,
+    messageId: string,
+  ): Promise<void> {
+    const isLastChunk = index === totalChunks - 1;
+    const chunkSize = encodedChunk.length;
+
+    const minimumTimeMs = Math.ceil((1000 * chunkSize) / this.config.bytesPerSecond);
+    const startTime = Date.now();
+
+    logger.debug('Sending message chunk', {
+      chunkIndex: index + 1,
+      totalChunks,
+      chunkSize,
+      isLastChunk,
+      messageId,
+    });
+
+    try {
+      await this.adapter.sendData(encodedChunk);
+    } catch (error) {
+      throw new StreamingError(ErrorCode.API_REQUEST_FAILED, `Failed to send chunk ${index + 1}/${totalChunks}`, {
+        details: { chunkIndex: index, messageId, originalError: error },
+      });
+    }
+
+    if (!isLastChunk) {
+      const elapsedMs = Date.now() - startTime;
+      const remainingDelay = Math.max(0, minimumTimeMs - elapsedMs);
+      if (remainingDelay > 0) {
+        await new Promise((resolve) => setTimeout(resolve, remainingDelay));
+      }
+    }
+  }
+
+  private encodeMessage(
+    codec: StreamMessageCodec,
+    text: string,
+    idx: number,
+    fin: boolean,
+    messageId: string,
+  ): Uint8Array {
     const message: StreamMessage = {
       v: 2,
       type: 'chat',
@@ -448,10 +666,22 @@ export class CommonMessageController {
         text,
       },
     };
-    return new TextEncoder().encode(JSON.stringify(message));
+    return codec.encode(message);
   }
 
   cleanup(): void {
+    this.pendingCommands.forEach((pending, mid) => {
+      clearTimeout(pending.timer);
+      pending.reject(
+        new StreamingError(ErrorCode.MESSAGE_SEND_FAILED, `${pending.cmd} cancelled: message channel closed`, {
+          details: { cmd: pending.cmd, messageId: mid },
+        }),
+      );
+    });
+    this.pendingCommands.clear();
+    this.delivery.clear();
+    this.responses.clear();
+    this.codecs.reset();
     this.adapter.removeMessageListener();
     this.adapter.cleanup();
     this.callbacks = {};
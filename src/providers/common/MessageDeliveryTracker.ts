@@ -0,0 +1,202 @@
+import { logger } from '../../core/Logger';
+import { StreamingError, ErrorCode } from '../../types/error.types';
+import { MessageDeliveryEvent, MessageDeliveryStatus } from '../../types/provider.interfaces';
+import { DeliveryPolicy } from './types/message.types';
+
+export const DEFAULT_DELIVERY_POLICY: DeliveryPolicy = {
+  ackTimeoutMs: 10000,
+  maxRetransmits: 2,
+};
+
+type DeliveryKind = MessageDeliveryEvent['kind'];
+
+interface OutstandingMessage {
+  mid: string;
+  kind: DeliveryKind;
+  cmd?: string;
+  // Encoded chunks keyed by idx, kept so they can be sent again unchanged
+  chunks: Map<number, Uint8Array>;
+  attempts: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+export type RetransmitCallback = (mid: string, chunks: Uint8Array[]) => Promise<void>;
+export type DeliveryStatusCallback = (event: MessageDeliveryEvent) => void;
+
+/**
+ * Tracks sent messages by mid until the avatar answers them, retransmitting every chunk
+ * of a message whose response does not arrive in time and reporting the final outcome.
+ */
+export class MessageDeliveryTracker {
+  private policy: DeliveryPolicy;
+  private retransmit: RetransmitCallback;
+  private onStatusChanged: DeliveryStatusCallback;
+  // Insertion order doubles as send order for acks that do not echo the mid
+  private outstanding = new Map<string, OutstandingMessage>();
+  private lastResponseMid: string | null = null;
+
+  constructor(
+    retransmit: RetransmitCallback,
+    onStatusChanged: DeliveryStatusCallback,
+    policy: Partial<DeliveryPolicy> = {},
+  ) {
+    this.retransmit = retransmit;
+    this.onStatusChanged = onStatusChanged;
+    this.policy = { ...DEFAULT_DELIVERY_POLICY, ...policy };
+  }
+
+  track(mid: string, kind: DeliveryKind, cmd?: string): void {
+    // Tracking an existing mid again is a manual retry; start over with a fresh budget
+    this.remove(mid);
+    this.outstanding.set(mid, { mid, kind, cmd, chunks: new Map(), attempts: 1, timer: null });
+    this.emit(mid, kind, 'pending', 1);
+  }
+
+  recordChunk(mid: string, idx: number, data: Uint8Array): void {
+    this.outstanding.get(mid)?.chunks.set(idx, data);
+  }
+
+  // Called once every chunk has gone out; the response clock starts here. Entries never marked sent wait for
+  // an ack or markFailed, without retransmits.
+  markSent(mid: string): void {
+    const entry = this.outstanding.get(mid);
+    if (entry) {
+      this.armTimer(entry);
+    }
+  }
+
+  markFailed(mid: string, error: StreamingError): void {
+    const entry = this.outstanding.get(mid);
+    if (!entry) {
+      return;
+    }
+
+    this.remove(mid);
+    this.emit(mid, entry.kind, 'failed', entry.attempts, error);
+  }
+
+  // A chat reply confirms the question with the same mid, or else the oldest one still waiting.
+  // Replies stream in several chunks under one mid, so only the first chunk counts.
+  acknowledgeChat(mid?: string): void {
+    if (mid && mid === this.lastResponseMid) {
+      return;
+    }
+
+    const entry = this.findEntry('chat', mid);
+    if (entry) {
+      this.lastResponseMid = mid ?? null;
+      this.resolve(entry);
+    }
+  }
+
+  acknowledgeCommand(cmd: string, mid?: string): void {
+    const entry = this.findEntry('command', mid, cmd);
+    if (entry) {
+      this.resolve(entry);
+    }
+  }
+
+  isOutstanding(mid: string): boolean {
+    return this.outstanding.has(mid);
+  }
+
+  // Drop everything without reporting, e.g. when the controller is torn down
+  clear(): void {
+    this.outstanding.forEach((entry) => this.clearTimer(entry));
+    this.outstanding.clear();
+    this.lastResponseMid = null;
+  }
+
+  private findEntry(kind: DeliveryKind, mid?: string, cmd?: string): OutstandingMessage | undefined {
+    const exact = mid ? this.outstanding.get(mid) : undefined;
+    if (exact && exact.kind === kind) {
+      return exact;
+    }
+
+    for (const entry of this.outstanding.values()) {
+      if (entry.kind === kind && (cmd === undefined || entry.cmd === cmd)) {
+        return entry;
+      }
+    }
+    return undefined;
+  }
+
+  private resolve(entry: OutstandingMessage): void {
+    this.remove(entry.mid);
+    logger.debug('Message delivered', { mid: entry.mid, kind: entry.kind, attempts: entry.attempts });
+    this.emit(entry.mid, entry.kind, 'delivered', entry.attempts);
+  }
+
+  private armTimer(entry: OutstandingMessage): void {
+    this.clearTimer(entry);
+    entry.timer = setTimeout(() => {
+      entry.timer = null;
+      void this.handleTimeout(entry);
+    }, this.policy.ackTimeoutMs);
+  }
+
+  private async handleTimeout(entry: OutstandingMessage): Promise<void> {
+    if (this.outstanding.get(entry.mid) !== entry) {
+      return;
+    }
+
+    if (entry.attempts > this.policy.maxRetransmits) {
+      this.markFailed(
+        entry.mid,
+        new StreamingError(ErrorCode.API_REQUEST_FAILED, 'No response from avatar, message not delivered', {
+          details: { messageId: entry.mid, attempts: entry.attempts },
+        }),
+      );
+      return;
+    }
+
+    entry.attempts++;
+    const chunks = [...entry.chunks.entries()].sort(([a], [b]) => a - b).map(([, data]) => data);
+
+    logger.warn('No response for message, retransmitting', {
+      mid: entry.mid,
+      kind: entry.kind,
+      attempt: entry.attempts,
+      chunks: chunks.length,
+    });
+
+    try {
+      await this.retransmit(entry.mid, chunks);
+    } catch (error) {
+      logger.warn('Retransmit failed', {
+        mid: entry.mid,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    // An ack may have landed, or a manual retry replaced the entry, while chunks were going out
+    if (this.outstanding.get(entry.mid) === entry) {
+      this.armTimer(entry);
+    }
+  }
+
+  private remove(mid: string): void {
+    const entry = this.outstanding.get(mid);
+    if (entry) {
+      this.clearTimer(entry);
+      this.outstanding.delete(mid);
+    }
+  }
+
+  private clearTimer(entry: OutstandingMessage): void {
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+      entry.timer = null;
+    }
+  }
+
+  private emit(
+    messageId: string,
+    kind: DeliveryKind,
+    status: MessageDeliveryStatus,
+    attempts: number,
+    error?: StreamingError,
+  ): void {
+    this.onStatusChanged({ messageId, kind, status, attempts, error });
+  }
+}
@@ -0,0 +1,55 @@
+import { logger } from '../../core/Logger';
+import { CustomMessageEvent } from '../../types/provider.interfaces';
+import { StreamMessage } from './types/message.types';
+
+export type StreamMessageHandler = (message: StreamMessage) => void;
+
+export const toCustomMessageEvent = ({ v, type, mid, idx, fin, pld }: StreamMessage): CustomMessageEvent => ({
+  version: v,
+  type,
+  messageId: mid,
+  idx,
+  fin,
+  payload: pld,
+});
+
+/**
+ * Maps a (protocol version, message type) pair to the handler that processes it.
+ * Built-in v2 types are registered by the message controller; anything else is added by the app.
+ */
+export class MessageProtocolRegistry {
+  private handlers = new Map<string, StreamMessageHandler>();
+
+  register(version: number, type: string, handler: StreamMessageHandler): () => void {
+    const key = this.key(version, type);
+    if (this.handlers.has(key)) {
+      logger.warn('Replacing stream message handler', { version, type });
+    }
+
+    this.handlers.set(key, handler);
+    return () => {
+      // Only remove our own registration, not one that replaced it since
+      if (this.handlers.get(key) === handler) {
+        this.handlers.delete(key);
+      }
+    };
+  }
+
+  resolve(version: number, type: string): StreamMessageHandler | undefined {
+    return this.handlers.get(this.key(version, type));
+  }
+
+  supportsVersion(version: number): boolean {
+    const prefix = `${version}:`;
+    for (const key of this.handlers.keys()) {
+      if (key.startsWith(prefix)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private key(version: number, type: string): string {
+    return `${version}:${type}`;
+  }
+}
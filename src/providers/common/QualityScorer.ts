@@ -0,0 +1,147 @@
+import { ConnectionQuality } from '../../types/streaming.types';
+import { LinkQuality, MetricThresholds, QoEMetrics, QualityScoringPolicy } from '../../types/metrics.types';
+
+type QualityLevel = ConnectionQuality['uplink'];
+
+const LEVELS: QualityLevel[] = ['excellent', 'good', 'fair', 'poor'];
+
+const LEVEL_SCORES: Record<QualityLevel, number> = { excellent: 100, good: 80, fair: 60, poor: 30 };
+
+export type QualityPolicyName = 'balanced' | 'interactive' | 'media';
+
+export const QUALITY_POLICIES: Record<QualityPolicyName, QualityScoringPolicy> = {
+  // The thresholds the stats controllers always used
+  balanced: {
+    name: 'balanced',
+    rtt: { excellent: 100, good: 150, fair: 300 },
+    packetLoss: { excellent: 1, good: 5, fair: 10 },
+    hysteresis: { downgradeSamples: 2, upgradeSamples: 3 },
+  },
+  // Live conversation, where a slow round trip is noticeable before anything looks wrong
+  interactive: {
+    name: 'interactive',
+    rtt: { excellent: 80, good: 120, fair: 200 },
+    packetLoss: { excellent: 0.5, good: 2, fair: 5 },
+    hysteresis: { downgradeSamples: 1, upgradeSamples: 3 },
+  },
+  // Judges what the viewer sees and hears, so jitter and video freezes count too
+  media: {
+    name: 'media',
+    rtt: { excellent: 150, good: 250, fair: 400 },
+    packetLoss: { excellent: 1, good: 3, fair: 8 },
+    jitter: { excellent: 20, good: 40, fair: 80 },
+    freezeRate: { excellent: 1, good: 3, fair: 8 },
+    hysteresis: { downgradeSamples: 2, upgradeSamples: 5 },
+  },
+};
+
+interface DirectionState {
+  level: QualityLevel | null;
+  pending: QualityLevel | null;
+  pendingCount: number;
+}
+
+const levelFor = (value: number | undefined, thresholds: MetricThresholds | undefined): QualityLevel | undefined => {
+  if (value === undefined || !thresholds) return undefined;
+  if (value <= thresholds.excellent) return 'excellent';
+  if (value <= thresholds.good) return 'good';
+  if (value <= thresholds.fair) return 'fair';
+  return 'poor';
+};
+
+// Nothing to judge by counts as excellent, as before
+const worst = (levels: (QualityLevel | LinkQuality | undefined)[]): QualityLevel =>
+  LEVELS[
+    Math.max(0, ...levels.map((level) => (level && level !== 'unknown' ? LEVELS.indexOf(level) : 0)))
+  ] as QualityLevel;
+
+const highest = (...values: (number | undefined)[]): number | undefined => {
+  const known = values.filter((value): value is number => value !== undefined);
+  return known.length > 0 ? Math.max(...known) : undefined;
+};
+
+/**
+ * Scores uplink and downlink separately so a poor camera upload no longer shows as a poor avatar stream,
+ * and holds each level until a change has lasted the policy's hysteresis.
+ */
+export class QualityScorer {
+  private policy: QualityScoringPolicy;
+  private uplink: DirectionState = { level: null, pending: null, pendingCount: 0 };
+  private downlink: DirectionState = { level: null, pending: null, pendingCount: 0 };
+
+  constructor(policy: QualityScoringPolicy = QUALITY_POLICIES.balanced) {
+    this.policy = policy;
+  }
+
+  setPolicy(policy: QualityScoringPolicy): void {
+    this.policy = policy;
+    this.reset();
+  }
+
+  getPolicy(): QualityScoringPolicy {
+    return this.policy;
+  }
+
+  reset(): void {
+    this.uplink = { level: null, pending: null, pendingCount: 0 };
+    this.downlink = { level: null, pending: null, pendingCount: 0 };
+  }
+
+  evaluate(metrics: QoEMetrics): ConnectionQuality {
+    const { network, inbound, outbound } = metrics;
+    const { rtt, packetLoss, jitter, freezeRate } = this.policy;
+
+    // Without outbound media (camera and mic off) only the round trip and the provider's rating say anything
+    const uplink = this.settle(
+      this.uplink,
+      worst([
+        levelFor(network.rtt, rtt),
+        levelFor(highest(outbound.video?.packetLoss, outbound.audio?.packetLoss), packetLoss),
+        levelFor(highest(outbound.video?.jitter, outbound.audio?.jitter), jitter),
+        network.uplinkQuality,
+      ]),
+    );
+    const downlink = this.settle(
+      this.downlink,
+      worst([
+        levelFor(network.rtt, rtt),
+        levelFor(highest(inbound.video?.packetLoss, inbound.audio?.packetLoss) ?? network.packetLoss, packetLoss),
+        levelFor(highest(inbound.video?.jitter, inbound.audio?.jitter), jitter),
+        levelFor(inbound.video?.freezeRate, freezeRate),
+        network.downlinkQuality,
+      ]),
+    );
+
+    return {
+      score: Math.min(LEVEL_SCORES[uplink], LEVEL_SCORES[downlink]),
+      uplink,
+      downlink,
+      rtt: network.rtt ?? 0,
+      packetLoss: network.packetLoss ?? 0,
+    };
+  }
+
+  private settle(state: DirectionState, level: QualityLevel): QualityLevel {
+    if (state.level === null || level === state.level) {
+      state.level = level;
+      state.pending = null;
+      state.pendingCount = 0;
+      return level;
+    }
+
+    if (state.pending !== level) {
+      state.pending = level;
+      state.pendingCount = 0;
+    }
+    state.pendingCount++;
+
+    const isDowngrade = LEVELS.indexOf(level) > LEVELS.indexOf(state.level);
+    const needed = isDowngrade ? this.policy.hysteresis.downgradeSamples : this.policy.hysteresis.upgradeSamples;
+    if (state.pendingCount >= needed) {
+      state.level = level;
+      state.pending = null;
+      state.pendingCount = 0;
+    }
+    return state.level;
+  }
+}
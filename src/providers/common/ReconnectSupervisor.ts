@@ -0,0 +1,208 @@
+import { logger } from '../../core/Logger';
+import { StreamingError, ErrorCode } from '../../types/error.types';
+import { StreamProviderType } from '../../types/streaming.types';
+
+export interface ReconnectPolicy {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffMultiplier: number;
+  // Fraction of the delay randomised to avoid synchronised retries
+  jitter: number;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  backoffMultiplier: 2,
+  jitter: 0.2,
+};
+
+export interface RestoreStep {
+  name: string;
+  run: () => Promise<void>;
+}
+
+export interface ReconnectActions {
+  // Re-establish the transport using the credentials of the original connect
+  reconnect: () => Promise<void>;
+  // Steps that bring the session back to its pre-drop state; each runs even if an earlier one fails
+  restore: () => RestoreStep[];
+}
+
+export interface ReconnectSupervisorCallbacks {
+  onReconnecting?: (attempt: number, error: StreamingError) => void;
+  onReconnected?: (attempts: number) => void;
+  onGiveUp?: (error: StreamingError) => void;
+}
+
+/**
+ * Retries a lost provider connection with exponential backoff until it succeeds,
+ * the owner cancels it, or the Akool session deadline passes.
+ */
+export class ReconnectSupervisor {
+  private providerType: StreamProviderType;
+  private actions: ReconnectActions;
+  private policy: ReconnectPolicy;
+  private callbacks: ReconnectSupervisorCallbacks = {};
+  private deadline: number | null = null;
+  private generation = 0;
+  private active = false;
+  private pendingTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingResolve: (() => void) | null = null;
+
+  constructor(providerType: StreamProviderType, actions: ReconnectActions, policy: Partial<ReconnectPolicy> = {}) {
+    this.providerType = providerType;
+    this.actions = actions;
+    this.policy = { ...DEFAULT_RECONNECT_POLICY, ...policy };
+  }
+
+  setCallbacks(callbacks: ReconnectSupervisorCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  // Epoch milliseconds after which the session no longer exists on the server
+  setDeadline(deadline: number | null): void {
+    this.deadline = deadline;
+  }
+
+  get isReconnecting(): boolean {
+    return this.active;
+  }
+
+  handleConnectionLost(error: StreamingError): void {
+    if (error.code !== ErrorCode.CONNECTION_LOST) {
+      return;
+    }
+
+    if (this.active) {
+      logger.debug('Reconnect already in progress', { provider: this.providerType });
+      return;
+    }
+
+    this.active = true;
+    void this.run(error, ++this.generation);
+  }
+
+  // Stop any in-flight reconnect, e.g. when the user disconnects on purpose
+  cancel(): void {
+    if (!this.active) {
+      return;
+    }
+
+    logger.info('Reconnect cancelled', { provider: this.providerType });
+    this.generation++;
+    this.active = false;
+    this.clearPendingDelay();
+  }
+
+  private async run(initialError: StreamingError, generation: number): Promise<void> {
+    let lastError = initialError;
+    let attempt = 0;
+
+    logger.warn('Connection lost, starting reconnect', {
+      provider: this.providerType,
+      error: initialError.message,
+      deadline: this.deadline,
+    });
+
+    while (generation === this.generation) {
+      const delay = this.computeDelay(attempt);
+
+      if (this.isExpired(Date.now() + delay)) {
+        this.giveUp(lastError, attempt);
+        return;
+      }
+
+      attempt++;
+      this.callbacks.onReconnecting?.(attempt, lastError);
+      await this.wait(delay);
+
+      if (generation !== this.generation) {
+        return;
+      }
+
+      try {
+        logger.info('Reconnect attempt', { provider: this.providerType, attempt });
+        await this.actions.reconnect();
+      } catch (error) {
+        lastError =
+          error instanceof StreamingError
+            ? error
+            : new StreamingError(ErrorCode.CONNECTION_FAILED, error instanceof Error ? error.message : String(error), {
+                provider: this.providerType,
+              });
+        logger.warn('Reconnect attempt failed', { provider: this.providerType, attempt, error: lastError.message });
+        continue;
+      }
+
+      if (generation !== this.generation) {
+        return;
+      }
+
+      await this.restore();
+      this.active = false;
+
+      logger.info('Reconnected successfully', { provider: this.providerType, attempts: attempt });
+      this.callbacks.onReconnected?.(attempt);
+      return;
+    }
+  }
+
+  private async restore(): Promise<void> {
+    for (const step of this.actions.restore()) {
+      try {
+        await step.run();
+      } catch (error) {
+        logger.warn('Failed to restore session state after reconnect', {
+          provider: this.providerType,
+          step: step.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  private giveUp(lastError: StreamingError, attempts: number): void {
+    this.active = false;
+
+    const error = new StreamingError(ErrorCode.CONNECTION_LOST, 'Reconnect abandoned: session has expired', {
+      provider: this.providerType,
+      attempts,
+      lastError: lastError.message,
+    });
+
+    logger.error('Giving up on reconnect', { provider: this.providerType, attempts });
+    this.callbacks.onGiveUp?.(error);
+  }
+
+  private computeDelay(attempt: number): number {
+    const { initialDelayMs, maxDelayMs, backoffMultiplier, jitter } = this.policy;
+    const base = Math.min(initialDelayMs * Math.pow(backoffMultiplier, attempt), maxDelayMs);
+    const spread = base * jitter;
+    return Math.round(base - spread + Math.random() * spread * 2);
+  }
+
+  private isExpired(at: number): boolean {
+    return this.deadline !== null && at >= this.deadline;
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      this.pendingResolve = resolve;
+      this.pendingTimer = setTimeout(() => {
+        this.pendingTimer = null;
+        this.pendingResolve = null;
+        resolve();
+      }, ms);
+    });
+  }
+
+  private clearPendingDelay(): void {
+    if (this.pendingTimer) {
+      clearTimeout(this.pendingTimer);
+      this.pendingTimer = null;
+    }
+    this.pendingResolve?.();
+    this.pendingResolve = null;
+  }
+}
@@ -0,0 +1,73 @@
+import { logger } from '../../../core/Logger';
+import { StreamMessage, StreamMessageCodec } from '../types/message.types';
+import { JsonMessageCodec } from './JsonMessageCodec';
+
+/**
+ * Picks the wire format for outgoing messages from what the peer has shown it reads. With a binary codec
+ * configured, messages go out as JSON listing the codecs this side reads, until the peer answers in the binary
+ * codec or lists it in its own marker. JSON without a marker comes from a JSON-only peer and sends everything
+ * back to JSON. A JSON configuration never adds the marker, so its messages stay as they always were.
+ */
+export class CodecNegotiator {
+  private preferred: StreamMessageCodec;
+  private json = new JsonMessageCodec();
+  private advertising: StreamMessageCodec;
+  private peerReadsPreferred = false;
+
+  constructor(preferred: StreamMessageCodec) {
+    this.preferred = preferred;
+
+    const codecs = [preferred.name, this.json.name];
+    this.advertising = {
+      name: this.json.name,
+      encode: (message) => this.json.encode({ ...message, codecs }),
+      decode: (data) => this.json.decode(data),
+    };
+  }
+
+  get preferredName(): string {
+    return this.preferred.name;
+  }
+
+  // Callers keep the returned codec for every chunk of one message, so a switch never splits a message
+  getSendCodec(): StreamMessageCodec {
+    if (this.preferred.name === this.json.name) {
+      return this.json;
+    }
+    return this.peerReadsPreferred ? this.preferred : this.advertising;
+  }
+
+  decode(data: Uint8Array): StreamMessage {
+    if (this.preferred.name === this.json.name) {
+      return this.json.decode(data);
+    }
+
+    let message: StreamMessage;
+    try {
+      message = this.preferred.decode(data);
+    } catch {
+      // Throws when the bytes are neither, and the caller treats them as plain text
+      message = this.json.decode(data);
+      const codecs = (message as Partial<StreamMessage> | null)?.codecs;
+      this.setPeerReadsPreferred(Array.isArray(codecs) && codecs.includes(this.preferred.name));
+      return message;
+    }
+
+    this.setPeerReadsPreferred(true);
+    return message;
+  }
+
+  // A new connection may reach a different peer
+  reset(): void {
+    this.peerReadsPreferred = false;
+  }
+
+  private setPeerReadsPreferred(value: boolean): void {
+    if (this.peerReadsPreferred === value) {
+      return;
+    }
+
+    this.peerReadsPreferred = value;
+    logger.info('Message codec negotiated', { codec: value ? this.preferred.name : this.json.name });
+  }
+}
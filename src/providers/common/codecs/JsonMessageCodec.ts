@@ -0,0 +1,16 @@
+import { StreamMessage, StreamMessageCodec } from '../types/message.types';
+
+// The original wire format: one UTF-8 JSON object per data channel message
+export class JsonMessageCodec implements StreamMessageCodec {
+  readonly name = 'json';
+  private encoder = new TextEncoder();
+  private decoder = new TextDecoder();
+
+  encode(message: StreamMessage): Uint8Array {
+    return this.encoder.encode(JSON.stringify(message));
+  }
+
+  decode(data: Uint8Array): StreamMessage {
+    return JSON.parse(this.decoder.decode(data)) as StreamMessage;
+  }
+}
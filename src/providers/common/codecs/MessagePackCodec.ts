@@ -0,0 +1,435 @@
+import { StreamingError, ErrorCode } from '../../../types/error.types';
+import { StreamMessage, StreamMessageCodec } from '../types/message.types';
+
+// Format bytes from the MessagePack spec, limited to the types stream messages actually use
+const NIL = 0xc0;
+const FALSE = 0xc2;
+const TRUE = 0xc3;
+const BIN8 = 0xc4;
+const BIN16 = 0xc5;
+const BIN32 = 0xc6;
+const FLOAT32 = 0xca;
+const FLOAT64 = 0xcb;
+const UINT8 = 0xcc;
+const UINT16 = 0xcd;
+const UINT32 = 0xce;
+const UINT64 = 0xcf;
+const INT8 = 0xd0;
+const INT16 = 0xd1;
+const INT32 = 0xd2;
+const INT64 = 0xd3;
+const STR8 = 0xd9;
+const STR16 = 0xda;
+const STR32 = 0xdb;
+const ARRAY16 = 0xdc;
+const ARRAY32 = 0xdd;
+const MAP16 = 0xde;
+const MAP32 = 0xdf;
+
+const UINT32_RANGE = 0x100000000;
+
+class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private length = 0;
+
+  u8(value: number): void {
+    this.ensure(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+  }
+
+  u16(value: number): void {
+    this.ensure(2);
+    this.view.setUint16(this.length, value);
+    this.length += 2;
+  }
+
+  u32(value: number): void {
+    this.ensure(4);
+    this.view.setUint32(this.length, value);
+    this.length += 4;
+  }
+
+  i8(value: number): void {
+    this.ensure(1);
+    this.view.setInt8(this.length, value);
+    this.length += 1;
+  }
+
+  i16(value: number): void {
+    this.ensure(2);
+    this.view.setInt16(this.length, value);
+    this.length += 2;
+  }
+
+  i32(value: number): void {
+    this.ensure(4);
+    this.view.setInt32(this.length, value);
+    this.length += 4;
+  }
+
+  f64(value: number): void {
+    this.ensure(8);
+    this.view.setFloat64(this.length, value);
+    this.length += 8;
+  }
+
+  bytes(data: Uint8Array): void {
+    this.ensure(data.length);
+    this.buffer.set(data, this.length);
+    this.length += data.length;
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  private ensure(extra: number): void {
+    if (this.length + extra <= this.buffer.length) {
+      return;
+    }
+
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) {
+      size *= 2;
+    }
+
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+}
+
+class ByteReader {
+  private view: DataView;
+  offset = 0;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  get remaining(): number {
+    return this.data.length - this.offset;
+  }
+
+  u8(): number {
+    this.require(1);
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  u16(): number {
+    this.require(2);
+    const value = this.view.getUint16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    this.require(4);
+    const value = this.view.getUint32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  i8(): number {
+    this.require(1);
+    const value = this.view.getInt8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  i16(): number {
+    this.require(2);
+    const value = this.view.getInt16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  i32(): number {
+    this.require(4);
+    const value = this.view.getInt32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  f32(): number {
+    this.require(4);
+    const value = this.view.getFloat32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  f64(): number {
+    this.require(8);
+    const value = this.view.getFloat64(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  bytes(length: number): Uint8Array {
+    this.require(length);
+    const value = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  private require(length: number): void {
+    if (this.remaining < length) {
+      throw new StreamingError(ErrorCode.INVALID_PARAMETER, 'Truncated MessagePack data', {
+        details: { offset: this.offset, needed: length },
+      });
+    }
+  }
+}
+
+/**
+ * Compact binary wire format. Strings go out as raw UTF-8 with a 1-5 byte header, so unlike JSON
+ * there is no quoting or escaping overhead and more of each chunk carries message text.
+ */
+export class MessagePackCodec implements StreamMessageCodec {
+  readonly name = 'msgpack';
+  private textEncoder = new TextEncoder();
+  // fatal so that bytes which are not MessagePack fail loudly instead of decoding to garbage
+  private textDecoder = new TextDecoder('utf-8', { fatal: true });
+
+  encode(message: StreamMessage): Uint8Array {
+    const writer = new ByteWriter();
+    this.writeValue(writer, message);
+    return writer.finish();
+  }
+
+  decode(data: Uint8Array): StreamMessage {
+    const reader = new ByteReader(data);
+    const value = this.readValue(reader);
+
+    if (reader.remaining > 0) {
+      throw new StreamingError(ErrorCode.INVALID_PARAMETER, 'Trailing bytes after MessagePack message', {
+        details: { trailing: reader.remaining },
+      });
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value) || value instanceof Uint8Array) {
+      throw new StreamingError(ErrorCode.INVALID_PARAMETER, 'MessagePack data is not a stream message');
+    }
+
+    return value as unknown as StreamMessage;
+  }
+
+  private writeValue(writer: ByteWriter, value: unknown): void {
+    if (value === null || value === undefined) {
+      writer.u8(NIL);
+    } else if (typeof value === 'boolean') {
+      writer.u8(value ? TRUE : FALSE);
+    } else if (typeof value === 'number') {
+      this.writeNumber(writer, value);
+    } else if (typeof value === 'string') {
+      this.writeString(writer, value);
+    } else if (value instanceof Uint8Array) {
+      this.writeBinary(writer, value);
+    } else if (Array.isArray(value)) {
+      this.writeArrayHeader(writer, value.length);
+      value.forEach((item) => this.writeValue(writer, item));
+    } else if (typeof value === 'object') {
+      // Same as JSON.stringify: keys holding undefined are left out
+      const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+      this.writeMapHeader(writer, entries.length);
+      entries.forEach(([key, item]) => {
+        this.writeString(writer, key);
+        this.writeValue(writer, item);
+      });
+    } else {
+      throw new StreamingError(ErrorCode.INVALID_PARAMETER, `Cannot encode ${typeof value} as MessagePack`);
+    }
+  }
+
+  private writeNumber(writer: ByteWriter, value: number): void {
+    if (!Number.isInteger(value)) {
+      writer.u8(FLOAT64);
+      writer.f64(value);
+    } else if (value >= 0) {
+      if (value < 0x80) {
+        writer.u8(value);
+      } else if (value < 0x100) {
+        writer.u8(UINT8);
+        writer.u8(value);
+      } else if (value < 0x10000) {
+        writer.u8(UINT16);
+        writer.u16(value);
+      } else if (value < UINT32_RANGE) {
+        writer.u8(UINT32);
+        writer.u32(value);
+      } else {
+        // Beyond 32 bits a double is exact up to Number.MAX_SAFE_INTEGER, and simpler than 64-bit ints
+        writer.u8(FLOAT64);
+        writer.f64(value);
+      }
+    } else if (value >= -0x20) {
+      writer.i8(value);
+    } else if (value >= -0x80) {
+      writer.u8(INT8);
+      writer.i8(value);
+    } else if (value >= -0x8000) {
+      writer.u8(INT16);
+      writer.i16(value);
+    } else if (value >= -0x80000000) {
+      writer.u8(INT32);
+      writer.i32(value);
+    } else {
+      writer.u8(FLOAT64);
+      writer.f64(value);
+    }
+  }
+
+  private writeString(writer: ByteWriter, value: string): void {
+    const bytes = this.textEncoder.encode(value);
+    const length = bytes.length;
+
+    if (length < 0x20) {
+      writer.u8(0xa0 | length);
+    } else if (length < 0x100) {
+      writer.u8(STR8);
+      writer.u8(length);
+    } else if (length < 0x10000) {
+      writer.u8(STR16);
+      writer.u16(length);
+    } else {
+      writer.u8(STR32);
+      writer.u32(length);
+    }
+    writer.bytes(bytes);
+  }
+
+  private writeBinary(writer: ByteWriter, value: Uint8Array): void {
+    if (value.length < 0x100) {
+      writer.u8(BIN8);
+      writer.u8(value.length);
+    } else if (value.length < 0x10000) {
+      writer.u8(BIN16);
+      writer.u16(value.length);
+    } else {
+      writer.u8(BIN32);
+      writer.u32(value.length);
+    }
+    writer.bytes(value);
+  }
+
+  private writeArrayHeader(writer: ByteWriter, length: number): void {
+    if (length < 0x10) {
+      writer.u8(0x90 | length);
+    } else if (length < 0x10000) {
+      writer.u8(ARRAY16);
+      writer.u16(length);
+    } else {
+      writer.u8(ARRAY32);
+      writer.u32(length);
+    }
+  }
+
+  private writeMapHeader(writer: ByteWriter, length: number): void {
+    if (length < 0x10) {
+      writer.u8(0x80 | length);
+    } else if (length < 0x10000) {
+      writer.u8(MAP16);
+      writer.u16(length);
+    } else {
+      writer.u8(MAP32);
+      writer.u32(length);
+    }
+  }
+
+  private readValue(reader: ByteReader): unknown {
+    const type = reader.u8();
+
+    if (type < 0x80) return type;
+    if (type >= 0xe0) return type - 0x100;
+    if (type >= 0xa0 && type <= 0xbf) return this.readString(reader, type & 0x1f);
+    if (type >= 0x90 && type <= 0x9f) return this.readArray(reader, type & 0x0f);
+    if (type >= 0x80 && type <= 0x8f) return this.readMap(reader, type & 0x0f);
+
+    switch (type) {
+      case NIL:
+        return null;
+      case FALSE:
+        return false;
+      case TRUE:
+        return true;
+      case BIN8:
+        return reader.bytes(reader.u8()).slice();
+      case BIN16:
+        return reader.bytes(reader.u16()).slice();
+      case BIN32:
+        return reader.bytes(reader.u32()).slice();
+      case FLOAT32:
+        return reader.f32();
+      case FLOAT64:
+        return reader.f64();
+      case UINT8:
+        return reader.u8();
+      case UINT16:
+        return reader.u16();
+      case UINT32:
+        return reader.u32();
+      case UINT64:
+        return reader.u32() * UINT32_RANGE + reader.u32();
+      case INT8:
+        return reader.i8();
+      case INT16:
+        return reader.i16();
+      case INT32:
+        return reader.i32();
+      case INT64:
+        return reader.i32() * UINT32_RANGE + reader.u32();
+      case STR8:
+        return this.readString(reader, reader.u8());
+      case STR16:
+        return this.readString(reader, reader.u16());
+      case STR32:
+        return this.readString(reader, reader.u32());
+      case ARRAY16:
+        return this.readArray(reader, reader.u16());
+      case ARRAY32:
+        return this.readArray(reader, reader.u32());
+      case MAP16:
+        return this.readMap(reader, reader.u16());
+      case MAP32:
+        return this.readMap(reader, reader.u32());
+      default:
+        throw new StreamingError(ErrorCode.INVALID_PARAMETER, `Unsupported MessagePack type 0x${type.toString(16)}`, {
+          details: { offset: reader.offset - 1 },
+        });
+    }
+  }
+
+  private readString(reader: ByteReader, length: number): string {
+    return this.textDecoder.decode(reader.bytes(length));
+  }
+
+  private readArray(reader: ByteReader, length: number): unknown[] {
+    const items: unknown[] = [];
+    for (let i = 0; i < length; i++) {
+      items.push(this.readValue(reader));
+    }
+    return items;
+  }
+
+  private readMap(reader: ByteReader, length: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (let i = 0; i < length; i++) {
+      const key = this.readValue(reader);
+      if (typeof key !== 'string') {
+        throw new StreamingError(ErrorCode.INVALID_PARAMETER, 'MessagePack map keys must be strings');
+      }
+      // Keys come from the remote peer; a plain assignment to __proto__ would swap the object's prototype
+      Object.defineProperty(result, key, {
+        value: this.readValue(reader),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    }
+    return result;
+  }
+}
@@ -0,0 +1,16 @@
+import { MessageCodecType, StreamMessageCodec } from '../types/message.types';
+import { JsonMessageCodec } from './JsonMessageCodec';
+import { MessagePackCodec } from './MessagePackCodec';
+
+export { JsonMessageCodec } from './JsonMessageCodec';
+export { MessagePackCodec } from './MessagePackCodec';
+export { CodecNegotiator } from './CodecNegotiator';
+
+export function createMessageCodec(type: MessageCodecType = 'json'): StreamMessageCodec {
+  switch (type) {
+    case 'msgpack':
+      return new MessagePackCodec();
+    case 'json':
+      return new JsonMessageCodec();
+  }
+}
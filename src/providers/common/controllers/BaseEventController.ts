@@ -1,6 +1,6 @@
 import { logger } from '../../../core/Logger';
 import { Participant, ConnectionQuality } from '../../../types/streaming.types';
-import { NetworkStats } from '../../../components/NetworkQuality';
+import { NetworkStats } from '../../../types/metrics.types';
 import { BaseController } from './BaseController';
 import { ErrorHandlingConfig } from '../../../types/error.types';
 
@@ -1,5 +1,14 @@
 import { logger } from '../../../core/Logger';
-import { NetworkStats } from '../../../components/NetworkQuality';
+import {
+  LinkQuality,
+  MediaMetrics,
+  NetworkMetrics,
+  NetworkStats,
+  QoEMetrics,
+  QualityScoringPolicy,
+} from '../../../types/metrics.types';
+import { ConnectionQuality, StreamProviderType } from '../../../types/streaming.types';
+import { QualityScorer } from '../QualityScorer';
 
 // WebRTC stats interfaces
 export interface VideoStats {
@@ -26,8 +35,20 @@ export interface ParsedWebRTCStats {
     packetLoss?: number;
   };
   rtt?: number;
+  // The provider's own rating of each direction, where it has one
+  uplinkQuality?: LinkQuality;
+  downlinkQuality?: LinkQuality;
+  // Normalised per-direction media metrics, for controllers that can tell inbound from outbound
+  inbound?: MediaMetrics;
+  outbound?: MediaMetrics;
 }
 
+// Agora and TRTC rate links 0-6: 0 unknown, 1 excellent, 2 good, 3 noticeably impaired, 4-5 bad, 6 down
+const NETWORK_LEVEL_QUALITIES: LinkQuality[] = ['unknown', 'excellent', 'good', 'fair', 'poor', 'poor', 'poor'];
+
+// The same scale for the legacy detailed stats, which carry levels rather than labels
+const QUALITY_NETWORK_LEVELS: Record<LinkQuality, number> = { unknown: 0, excellent: 1, good: 2, fair: 3, poor: 4 };
+
 // Stats controller callback interface
 export interface StatsControllerCallbacks {
   onNetworkStatsUpdate?: (stats: NetworkStats) => void;
@@ -36,10 +57,12 @@ export interface StatsControllerCallbacks {
 
 // Abstract base class for WebRTC stats collection
 export abstract class BaseStatsController {
+  protected abstract readonly providerType: StreamProviderType;
   protected callbacks: StatsControllerCallbacks = {};
   protected statsCollectionInterval: NodeJS.Timeout | null = null;
   protected currentRTT = 0;
   protected currentPacketLoss = 0;
+  protected qualityScorer = new QualityScorer();
 
   constructor() {}
 
@@ -52,14 +75,37 @@ export abstract class BaseStatsController {
   abstract stopStatsCollection(): void;
   abstract collectStats(): Promise<ParsedWebRTCStats | null>;
 
+  setQualityPolicy(policy: QualityScoringPolicy): void {
+    this.qualityScorer.setPolicy(policy);
+    logger.info('Quality scoring policy changed', { policy: policy.name });
+  }
+
   // Common stats processing methods
   protected processStats(stats: ParsedWebRTCStats): NetworkStats {
-    const connectionQuality = this.calculateConnectionQuality(stats);
-    const detailedStats = this.createDetailedStats(stats);
+    const rtt = stats.rtt || this.currentRTT;
+    const packetLoss = this.calculatePacketLoss(stats);
+
+    // Update current values
+    this.currentRTT = rtt;
+    this.currentPacketLoss = packetLoss;
+
+    const metrics = this.createMetrics(
+      {
+        rtt,
+        packetLoss,
+        uplinkQuality: stats.uplinkQuality ?? 'unknown',
+        downlinkQuality: stats.downlinkQuality ?? 'unknown',
+      },
+      stats.inbound,
+      stats.outbound,
+    );
+    const connectionQuality = this.scoreConnection(metrics);
+    const detailedStats = this.createDetailedStats(stats, connectionQuality);
 
     const networkStats = {
       connectionQuality,
       detailedStats,
+      metrics,
     };
 
     // logger.info('Processed network stats', {
@@ -73,47 +119,8 @@ export abstract class BaseStatsController {
     return networkStats;
   }
 
-  protected calculateConnectionQuality(stats: ParsedWebRTCStats): {
-    score: number;
-    uplink: 'excellent' | 'good' | 'fair' | 'poor';
-    downlink: 'excellent' | 'good' | 'fair' | 'poor';
-    rtt: number;
-    packetLoss: number;
-  } {
-    const rtt = stats.rtt || this.currentRTT;
-    const packetLoss = this.calculatePacketLoss(stats);
-
-    // Update current values
-    this.currentRTT = rtt;
-    this.currentPacketLoss = packetLoss;
-
-    // Calculate quality score based on RTT and packet loss
-    let score = 100;
-
-    // RTT scoring (lower is better)
-    if (rtt > 300) score -= 40;
-    else if (rtt > 150) score -= 20;
-    else if (rtt > 100) score -= 10;
-
-    // Packet loss scoring (lower is better)
-    if (packetLoss > 10) score -= 30;
-    else if (packetLoss > 5) score -= 20;
-    else if (packetLoss > 1) score -= 10;
-
-    // Ensure score is between 0 and 100
-    score = Math.max(0, Math.min(100, score));
-
-    // Determine quality levels
-    const uplink = this.getQualityLevel(score);
-    const downlink = this.getQualityLevel(score);
-
-    return {
-      score,
-      uplink,
-      downlink,
-      rtt,
-      packetLoss,
-    };
+  protected scoreConnection(metrics: QoEMetrics): ConnectionQuality {
+    return this.qualityScorer.evaluate(metrics);
   }
 
   protected calculatePacketLoss(stats: ParsedWebRTCStats): number {
@@ -125,14 +132,28 @@ export abstract class BaseStatsController {
     return Math.max(videoLoss, audioLoss);
   }
 
-  protected getQualityLevel(score: number): 'excellent' | 'good' | 'fair' | 'poor' {
-    if (score >= 80) return 'excellent';
-    if (score >= 60) return 'good';
-    if (score >= 40) return 'fair';
-    return 'poor';
+  protected createMetrics(
+    network: NetworkMetrics,
+    inbound: MediaMetrics = {},
+    outbound: MediaMetrics = {},
+  ): QoEMetrics {
+    return {
+      provider: this.providerType,
+      timestamp: Date.now(),
+      network,
+      inbound,
+      outbound,
+    };
+  }
+
+  protected linkQualityFromLevel(level: number | undefined): LinkQuality {
+    return NETWORK_LEVEL_QUALITIES[level ?? 0] ?? 'unknown';
   }
 
-  protected createDetailedStats(stats: ParsedWebRTCStats): {
+  protected createDetailedStats(
+    stats: ParsedWebRTCStats,
+    connectionQuality: { uplink: LinkQuality; downlink: LinkQuality },
+  ): {
     video?: {
       codec?: string;
       bitrate?: number;
@@ -191,8 +212,8 @@ export abstract class BaseStatsController {
       detailedStats.network = {
         rtt: stats.network?.rtt || stats.rtt || 0,
         packetLoss: stats.network?.packetLoss || this.currentPacketLoss,
-        uplinkQuality: 0, // Default value
-        downlinkQuality: 0, // Default value
+        uplinkQuality: QUALITY_NETWORK_LEVELS[connectionQuality.uplink],
+        downlinkQuality: QUALITY_NETWORK_LEVELS[connectionQuality.downlink],
       };
     }
 
@@ -212,6 +233,7 @@ export abstract class BaseStatsController {
 
   cleanup(): void {
     this.stopStatsCollection();
+    this.qualityScorer.reset();
     this.callbacks = {};
     logger.info('Base stats controller cleanup completed');
   }
@@ -6,7 +6,22 @@ export interface StreamMessage {
   mid?: string;
   idx?: number;
   fin?: boolean;
-  pld: CommandPayload | ChatPayload | CommandResponsePayload | ChatResponsePayload;
+  // Codecs the sender reads, listed while it has not yet seen its peer read anything but JSON
+  codecs?: string[];
+  // Custom message types carry whatever payload their handler expects
+  pld: CommandPayload | ChatPayload | CommandResponsePayload | ChatResponsePayload | Record<string, unknown>;
+}
+
+// Built-in wire formats a provider can be configured with. A binary codec is only used once the peer has shown
+// it reads it; until then, and with a JSON-only peer, messages go out as JSON (see CodecNegotiator).
+export type MessageCodecType = 'json' | 'msgpack';
+
+// Turns stream messages into data channel bytes and back
+export interface StreamMessageCodec {
+  readonly name: string;
+  encode(message: StreamMessage): Uint8Array;
+  // Throws when the bytes are not a message in this codec's format
+  decode(data: Uint8Array): StreamMessage;
 }
 
 export interface CommandPayload {
@@ -25,15 +40,33 @@ export interface CommandResponsePayload {
   msg?: string;
 }
 
+export interface CommandOptions {
+  // Overrides the per-command ack timeout
+  timeoutMs?: number;
+}
+
 export interface ChatResponsePayload {
   text: string;
   from: 'bot' | 'user';
 }
 
+// Delivery tracking for sent chat messages and commands
+export interface DeliveryPolicy {
+  // How long to wait for a chat response before retransmitting; commands use their own timeout instead
+  ackTimeoutMs: number;
+  maxRetransmits: number;
+}
+
 // Provider configuration for message handling
 export interface MessageProviderConfig {
   maxEncodedSize: number;
   bytesPerSecond: number;
+  // Overrides for ack timeout and retransmit count; see DEFAULT_DELIVERY_POLICY
+  delivery?: Partial<DeliveryPolicy>;
+  // Ack timeouts by command name, e.g. { 'set-params': 15000 }
+  commandTimeouts?: Record<string, number>;
+  // Preferred wire format for stream messages, JSON when omitted; a binary codec is negotiated with the peer
+  codec?: StreamMessageCodec;
 }
 
 // Callback interfaces for message handling
@@ -53,4 +86,7 @@ export interface MessageControllerCallbacks {
   onSystemMessage?: (event: unknown) => void;
   onChatMessage?: (event: unknown) => void;
   onCommand?: (event: unknown) => void;
+  onDeliveryStatusChanged?: (event: unknown) => void;
+  onCustomMessage?: (event: unknown) => void;
+  onAvatarResponse?: (response: unknown) => void;
 }
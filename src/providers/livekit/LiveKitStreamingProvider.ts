@@ -1,7 +1,12 @@
 import { Room } from 'livekit-client';
 import { logger } from '../../core/Logger';
 import { globalResourceManager } from '../../core/ResourceManager';
-import { StreamingProvider, StreamingCredentials, StreamingEventHandlers } from '../../types/provider.interfaces';
+import {
+  StreamingProvider,
+  StreamingCredentials,
+  StreamingEventHandlers,
+  AudioDumpFileHandler,
+} from '../../types/provider.interfaces';
 import {
   StreamingState,
   VideoTrack,
@@ -12,9 +17,18 @@ import {
   ConnectionQuality,
 } from '../../types/streaming.types';
 import { StreamingError, ErrorCode } from '../../types/error.types';
-import { SystemMessageEvent, ChatMessageEvent, CommandEvent } from '../../types/provider.interfaces';
+import { SessionCredentials } from '../../types/api.schemas';
+import {
+  SystemMessageEvent,
+  ChatMessageEvent,
+  CommandEvent,
+  MessageDeliveryEvent,
+  CustomMessageEvent,
+  AvatarResponse,
+} from '../../types/provider.interfaces';
 import { ChatMessage, Participant } from '../../types/streaming.types';
-import { NetworkStats } from '../../components/NetworkQuality';
+import { NetworkStats, QualityScoringPolicy } from '../../types/metrics.types';
+import { AdaptiveVideoPolicy } from '../../types/adaptiveVideo.types';
 
 // Import controllers
 import { LiveKitConnectionController } from './controllers/LiveKitConnectionController';
@@ -27,11 +41,23 @@ import {
 import { LiveKitAudioController } from './controllers/LiveKitAudioController';
 import { LiveKitVideoController } from './controllers/LiveKitVideoController';
 import { CommonMessageController } from '../common/CommonMessageController';
+import { createMessageCodec } from '../common/codecs';
+import { MessageCodecType } from '../common/types/message.types';
+import { toCustomMessageEvent } from '../common/MessageProtocolRegistry';
+import { ReconnectSupervisor, RestoreStep } from '../common/ReconnectSupervisor';
+import { AdaptiveVideoController } from '../common/AdaptiveVideoController';
+import { LiveKitVideoStrategy } from './strategies/LiveKitVideoStrategy';
 import { LiveKitMessageAdapter } from './adapters/LiveKitMessageAdapter';
 import { isLiveKitCredentials, LiveKitCredentials } from './types';
 
 export interface LiveKitProviderConfig {
   room: Room;
+  // Preferred data channel wire format, JSON unless set; used once the peer shows it reads it
+  messageCodec?: MessageCodecType;
+  // How stats become the quality badge; the balanced policy unless set
+  qualityPolicy?: QualityScoringPolicy;
+  // Camera upload reduction on a poor uplink; the default ladder unless set
+  adaptiveVideo?: Partial<AdaptiveVideoPolicy>;
 }
 
 export class LiveKitStreamingProvider implements StreamingProvider {
@@ -58,8 +84,11 @@ export class LiveKitStreamingProvider implements StreamingProvider {
   private messageController: CommonMessageController;
   private audioController: LiveKitAudioController;
   private videoController: LiveKitVideoController;
+  private reconnectSupervisor: ReconnectSupervisor;
+  private adaptiveVideo: AdaptiveVideoController;
 
   private room: Room;
+  private lastAvatarParameters: Record<string, unknown> | null = null;
 
   constructor(config: LiveKitProviderConfig) {
     this.room = config.room;
@@ -69,12 +98,28 @@ export class LiveKitStreamingProvider implements StreamingProvider {
     this.participantController = new LiveKitParticipantController(this.room);
     this.eventController = new LiveKitEventController(this.room, this.participantController);
     this.statsController = new LiveKitStatsController(this.room);
+    if (config.qualityPolicy) {
+      this.statsController.setQualityPolicy(config.qualityPolicy);
+    }
     this.messageController = new CommonMessageController(new LiveKitMessageAdapter(this.room), {
       maxEncodedSize: 960, // 960 bytes
       bytesPerSecond: 960 * 6, // 6KB/s
+      codec: createMessageCodec(config.messageCodec),
     });
     this.audioController = new LiveKitAudioController(this.room);
     this.videoController = new LiveKitVideoController(this.room);
+    this.adaptiveVideo = new AdaptiveVideoController(
+      'livekit',
+      new LiveKitVideoStrategy(this.videoController),
+      config.adaptiveVideo,
+    );
+    this.reconnectSupervisor = new ReconnectSupervisor('livekit', {
+      reconnect: async () => {
+        await this.connectionController.reconnect();
+        this.updateState({ isJoined: true, error: null });
+      },
+      restore: () => this.getRestoreSteps(),
+    });
 
     this.setupControllerCallbacks();
 
@@ -110,6 +155,7 @@ export class LiveKitStreamingProvider implements StreamingProvider {
 
     this.updateState({ isConnecting: true, error: null });
     this.eventHandlers = handlers || {};
+    this.reconnectSupervisor.setDeadline(credentials.session_expires_at ?? null);
   }
 
   private async establishLiveKitConnection(liveKitCredentials: LiveKitCredentials): Promise<void> {
@@ -147,6 +193,8 @@ export class LiveKitStreamingProvider implements StreamingProvider {
     try {
       logger.info('Disconnecting LiveKit streaming provider');
 
+      this.reconnectSupervisor.cancel();
+      this.lastAvatarParameters = null;
       this.stopEventListening();
       await this.connectionController.disconnect();
 
@@ -184,7 +232,9 @@ export class LiveKitStreamingProvider implements StreamingProvider {
   async enableVideo(config?: VideoConfig): Promise<VideoTrack> {
     try {
       logger.info('Enabling video through LiveKit provider');
-      return await this.videoController.enableVideo(config);
+      const track = await this.videoController.enableVideo(config);
+      this.adaptiveVideo.setBaseline(config);
+      return track;
     } catch (error) {
       logger.error('Failed to enable video', {
         error: error instanceof Error ? error.message : String(error),
@@ -196,6 +246,7 @@ export class LiveKitStreamingProvider implements StreamingProvider {
   async disableVideo(): Promise<void> {
     try {
       logger.info('Disabling video through LiveKit provider');
+      this.adaptiveVideo.trackUnpublished();
       await this.videoController.disableVideo();
     } catch (error) {
       logger.error('Failed to disable video', {
@@ -258,6 +309,7 @@ export class LiveKitStreamingProvider implements StreamingProvider {
     try {
       logger.info('Publishing video track', { trackId: track.id });
       await this.videoController.publishVideo(track);
+      this.adaptiveVideo.trackPublished(track);
     } catch (error) {
       logger.error('Failed to publish video track', {
         error: error instanceof Error ? error.message : String(error),
@@ -270,6 +322,7 @@ export class LiveKitStreamingProvider implements StreamingProvider {
   async unpublishVideo(): Promise<void> {
     try {
       logger.info('Unpublishing video track');
+      this.adaptiveVideo.trackUnpublished();
       await this.videoController.unpublishVideo();
     } catch (error) {
       logger.error('Failed to unpublish video track', {
@@ -304,9 +357,8 @@ export class LiveKitStreamingProvider implements StreamingProvider {
     }
   }
 
-  async sendMessage(content: string): Promise<void> {
+  async sendMessage(content: string, messageId = `msg-${Date.now()}`): Promise<void> {
     try {
-      const messageId = `msg-${Date.now()}`;
       logger.debug('LiveKit provider sending message', { messageId, contentLength: content.length });
       await this.messageController.sendMessage(messageId, content);
       logger.info('Message sent successfully via LiveKit provider', { messageId });
@@ -336,6 +388,7 @@ export class LiveKitStreamingProvider implements StreamingProvider {
     try {
       logger.info('Setting avatar parameters', { metadata });
       await this.messageController.setAvatarParameters(metadata);
+      this.lastAvatarParameters = metadata;
     } catch (error) {
       logger.error('Failed to set avatar parameters', {
         error: error instanceof Error ? error.message : String(error),
@@ -345,6 +398,12 @@ export class LiveKitStreamingProvider implements StreamingProvider {
     }
   }
 
+  registerMessageHandler(version: number, type: string, handler: (event: CustomMessageEvent) => void): () => void {
+    return this.messageController.registerMessageHandler(version, type, (message) =>
+      handler(toCustomMessageEvent(message)),
+    );
+  }
+
   // Audio processing methods
   async enableNoiseReduction(): Promise<void> {
     try {
@@ -411,10 +470,21 @@ export class LiveKitStreamingProvider implements StreamingProvider {
     }
   }
 
-  async dumpAudio(): Promise<void> {
+  async renewToken({ livekit_token }: SessionCredentials): Promise<void> {
+    if (!livekit_token) {
+      throw new StreamingError(ErrorCode.INVALID_CREDENTIALS, 'Missing livekit_token to renew');
+    }
+    this.connectionController.renewToken(livekit_token);
+  }
+
+  setQualityPolicy(policy: QualityScoringPolicy): void {
+    this.statsController.setQualityPolicy(policy);
+  }
+
+  async dumpAudio(onFile?: AudioDumpFileHandler): Promise<void> {
     try {
       logger.info('Starting audio dump through LiveKit provider');
-      await this.audioController.dumpAudio();
+      await this.audioController.dumpAudio(onFile);
       logger.info('Audio dump completed');
     } catch (error) {
       logger.error('Failed to dump audio', {
@@ -457,6 +527,50 @@ export class LiveKitStreamingProvider implements StreamingProvider {
     // Audio controller callbacks will be set here
     // Video controller callbacks will be set here
     // Main controller callbacks are set in startEventListening()
+    this.connectionController.setCallbacks({
+      onConnectionLost: (error) => {
+        this.updateState({ isJoined: false });
+        this.reconnectSupervisor.handleConnectionLost(error);
+      },
+    });
+
+    this.reconnectSupervisor.setCallbacks({
+      onReconnecting: (attempt) => {
+        this.updateState({ isReconnecting: true, isConnecting: true });
+        if (attempt === 1) {
+          this.eventHandlers.onReconnecting?.();
+        }
+      },
+      onReconnected: () => {
+        this.updateState({ isReconnecting: false, isConnecting: false });
+        this.eventHandlers.onReconnected?.();
+      },
+      onGiveUp: (error) => {
+        this.updateState({ isReconnecting: false, isConnecting: false, isJoined: false, error });
+        this.eventHandlers.onError?.(error);
+      },
+    });
+
+    this.adaptiveVideo.setCallbacks({
+      onAdapted: (event) => this.eventHandlers.onVideoAdapted?.(event),
+    });
+  }
+
+  // Everything the session had before the drop: published tracks, denoiser and the last set-params
+  private getRestoreSteps(): RestoreStep[] {
+    return [
+      { name: 'audio', run: () => this.audioController.republishAudio() },
+      { name: 'video', run: () => this.videoController.republishVideo() },
+      { name: 'ai-denoiser', run: () => this.audioController.reapplyAIDenoiser() },
+      {
+        name: 'set-params',
+        run: async () => {
+          if (this.lastAvatarParameters) {
+            await this.messageController.setAvatarParameters(this.lastAvatarParameters);
+          }
+        },
+      },
+    ];
   }
 
   private startEventListening(): void {
@@ -510,6 +624,7 @@ export class LiveKitStreamingProvider implements StreamingProvider {
               downlinkQuality: number;
             };
           },
+          metrics: stats.metrics,
         });
       },
       onError: (error) => {
@@ -529,7 +644,9 @@ export class LiveKitStreamingProvider implements StreamingProvider {
         this.updateState({
           networkQuality: stats.connectionQuality,
           detailedNetworkStats: stats.detailedStats,
+          metrics: stats.metrics,
         });
+        void this.adaptiveVideo.update(stats.connectionQuality ?? null);
       },
       onError: (error: Error) => {
         const streamingError =
@@ -581,6 +698,15 @@ export class LiveKitStreamingProvider implements StreamingProvider {
       onCommand: (event: unknown) => {
         this.eventHandlers.onCommand?.(event as CommandEvent);
       },
+      onDeliveryStatusChanged: (event: unknown) => {
+        this.eventHandlers.onMessageDelivery?.(event as MessageDeliveryEvent);
+      },
+      onCustomMessage: (event: unknown) => {
+        this.eventHandlers.onCustomMessage?.(event as CustomMessageEvent);
+      },
+      onAvatarResponse: (response: unknown) => {
+        this.eventHandlers.onAvatarResponse?.(response as AvatarResponse);
+      },
       onError: (error: Error) => {
         const streamingError =
           error instanceof StreamingError ? error : new StreamingError(ErrorCode.UNKNOWN_ERROR, error.message);
@@ -621,6 +747,9 @@ export class LiveKitStreamingProvider implements StreamingProvider {
     logger.info('Cleaning up LiveKit provider');
 
     try {
+      this.reconnectSupervisor.cancel();
+      this.adaptiveVideo.reset();
+
       // Stop event listening
       this.stopEventListening();
 
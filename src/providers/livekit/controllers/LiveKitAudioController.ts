@@ -1,6 +1,7 @@
 import { Room, LocalAudioTrack, createLocalAudioTrack, AudioCaptureOptions } from 'livekit-client';
 import { logger } from '../../../core/Logger';
 import { StreamingError, ErrorCode } from '../../../types/error.types';
+import { AudioDumpFileHandler } from '../../../types/provider.interfaces';
 import {
   AudioTrack,
   AudioConfig,
@@ -409,7 +410,7 @@ export class LiveKitAudioController {
     return this.disableAIDenoiser();
   }
 
-  async dumpAudio(): Promise<void> {
+  async dumpAudio(_onFile?: AudioDumpFileHandler): Promise<void> {
     logger.info('Audio dump requested - LiveKit requires custom implementation');
     // Implementation would require custom audio recording and download logic
   }
@@ -492,6 +493,30 @@ export class LiveKitAudioController {
     return { ...this.aiDenoiserState };
   }
 
+  // Publish the microphone again after a room reconnect, restarting it if the SDK stopped it on disconnect
+  async republishAudio(): Promise<void> {
+    if (!this.currentTrack || !this.isEnabled) {
+      return;
+    }
+
+    if (this.currentTrack.mediaStreamTrack.readyState === 'ended') {
+      await this.currentTrack.restartTrack();
+    }
+
+    await this.publishAudio(this.convertToAudioTrack(this.currentTrack));
+  }
+
+  // Attach a fresh Krisp processor if the denoiser was on before the reconnect
+  async reapplyAIDenoiser(): Promise<void> {
+    if (!this.aiDenoiserState.isEnabled) {
+      return;
+    }
+
+    const { mode } = this.aiDenoiserState;
+    this.aiDenoiserState = { ...this.aiDenoiserState, isEnabled: false };
+    await this.enableAIDenoiser({ enabled: true, mode, processingMode: 'frontend' });
+  }
+
   // Clean up method for proper resource management
   async cleanup(): Promise<void> {
     try {
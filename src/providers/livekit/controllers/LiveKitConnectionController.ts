@@ -1,12 +1,22 @@
-import { Room, RemoteVideoTrack, RemoteAudioTrack } from 'livekit-client';
+import { Room, RemoteVideoTrack, RemoteAudioTrack, DisconnectReason } from 'livekit-client';
 import { logger } from '../../../core/Logger';
 import { StreamingError, ErrorCode } from '../../../types/error.types';
-import { isLiveKitCredentials, LiveKitConnectionControllerCallbacks } from '../types';
+import { ErrorMapper } from '../../../errors/ErrorMapper';
+import { isLiveKitCredentials, LiveKitConnectionControllerCallbacks, LiveKitCredentials } from '../types';
+
+// Disconnects that mean we were deliberately removed; retrying these cannot succeed
+const FINAL_DISCONNECT_REASONS = [
+  DisconnectReason.CLIENT_INITIATED,
+  DisconnectReason.DUPLICATE_IDENTITY,
+  DisconnectReason.PARTICIPANT_REMOVED,
+  DisconnectReason.ROOM_DELETED,
+];
 
 export class LiveKitConnectionController {
   private room: Room;
   private isConnected = false;
   private callbacks: LiveKitConnectionControllerCallbacks = {};
+  private credentials: LiveKitCredentials | null = null;
 
   constructor(room: Room) {
     this.room = room;
@@ -40,6 +50,7 @@ export class LiveKitConnectionController {
       });
 
       this.isConnected = true;
+      this.credentials = credentials;
 
       logger.info('Successfully connected to LiveKit room', {
         roomName: livekit_room_name,
@@ -71,6 +82,35 @@ export class LiveKitConnectionController {
     }
   }
 
+  // Connect to the same room again after the SDK gave up on its own resume
+  async reconnect(): Promise<void> {
+    if (!this.credentials) {
+      throw new StreamingError(ErrorCode.CONNECTION_FAILED, 'No previous LiveKit connection to restore');
+    }
+
+    const { livekit_url, livekit_token, livekit_room_name } = this.credentials;
+
+    try {
+      await this.room.connect(livekit_url, livekit_token, { autoSubscribe: true });
+      this.isConnected = true;
+
+      logger.info('Reconnected to LiveKit room', { roomName: livekit_room_name });
+      this.callbacks.onConnectionStateChanged?.(this.room.state);
+    } catch (error) {
+      throw ErrorMapper.mapLiveKitError(error);
+    }
+  }
+
+  // A joined room keeps itself authenticated; the token only matters when reconnect() joins again
+  renewToken(token: string): void {
+    if (!this.credentials) {
+      throw new StreamingError(ErrorCode.CONNECTION_FAILED, 'No LiveKit connection to renew the token of');
+    }
+
+    this.credentials = { ...this.credentials, livekit_token: token };
+    logger.info('LiveKit token renewed');
+  }
+
   async disconnect(): Promise<void> {
     try {
       logger.info('Disconnecting from LiveKit room');
@@ -84,6 +124,7 @@ export class LiveKitConnectionController {
       }
 
       this.isConnected = false;
+      this.credentials = null;
 
       logger.info('Successfully disconnected from LiveKit room');
       this.callbacks.onConnectionStateChanged?.(this.room.state);
@@ -233,6 +274,13 @@ export class LiveKitConnectionController {
 
       this.isConnected = false;
       this.callbacks.onConnectionStateChanged?.(this.room.state);
+
+      // Listeners are removed before an intentional disconnect, so anything else here was a drop
+      if (this.credentials && (reason === undefined || !FINAL_DISCONNECT_REASONS.includes(reason))) {
+        this.callbacks.onConnectionLost?.(
+          ErrorMapper.mapLiveKitError({ code: 'Disconnected', message: `Disconnected: ${String(reason)}` }),
+        );
+      }
     });
 
     // Connection quality changes
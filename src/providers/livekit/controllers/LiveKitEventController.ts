@@ -13,7 +13,7 @@ import {
 import { logger } from '../../../core/Logger';
 import { BaseEventController, BaseEventControllerCallbacks } from '../../common/controllers/BaseEventController';
 import { BaseParticipantController } from '../../common/controllers/BaseParticipantController';
-import { NetworkStats } from '../../../components/NetworkQuality';
+import { NetworkStats } from '../../../types/metrics.types';
 
 // LiveKit-specific event controller callbacks
 export interface LiveKitEventControllerCallbacks extends BaseEventControllerCallbacks {
@@ -1,5 +1,6 @@
-import { Room } from 'livekit-client';
+import { LocalAudioTrack, LocalVideoTrack, RemoteAudioTrack, RemoteVideoTrack, Room } from 'livekit-client';
 import { logger } from '../../../core/Logger';
+import { LinkQuality, MediaMetrics } from '../../../types/metrics.types';
 import {
   BaseStatsController,
   ParsedWebRTCStats,
@@ -9,7 +10,9 @@ import {
 export type { StatsControllerCallbacks };
 
 export class LiveKitStatsController extends BaseStatsController {
+  protected readonly providerType = 'livekit';
   private room: Room;
+  private byteSamples = new Map<string, { bytes: number; timestamp: number }>();
 
   constructor(room: Room) {
     super();
@@ -52,83 +55,101 @@ export class LiveKitStatsController extends BaseStatsController {
   async collectStats(): Promise<ParsedWebRTCStats | null> {
     try {
       const parsedStats: ParsedWebRTCStats = {};
+      const outbound: MediaMetrics = {};
+      const inbound: MediaMetrics = {};
 
       // Get stats from the room's local participant
       if (this.room.localParticipant) {
         const localParticipant = this.room.localParticipant;
 
-        // Get video track stats - using correct LiveKit API
-        const videoTracks = Array.from(localParticipant.videoTrackPublications.values());
-        if (videoTracks.length > 0) {
-          const videoTrackPublication = videoTracks[0];
-          const videoTrack = videoTrackPublication?.track;
-          if (videoTrack) {
-            // Get video track stats from the underlying MediaStreamTrack
-            const videoStats = (await this.getTrackStats(videoTrack as unknown as MediaStreamTrack)) as {
-              codec?: string;
-              bitrate?: number;
-              frameRate?: number;
-              width?: number;
-              height?: number;
-              packetLoss?: number;
-              rtt?: number;
-            } | null;
-            if (videoStats) {
-              parsedStats.video = {
-                codec: videoStats.codec || 'unknown',
-                bitrate: videoStats.bitrate || 0,
-                frameRate: videoStats.frameRate || 0,
-                resolution: {
-                  width: videoStats.width || 0,
-                  height: videoStats.height || 0,
-                },
-                packetLoss: videoStats.packetLoss || 0,
-                rtt: videoStats.rtt || 0,
-              };
-            }
+        const videoTrack = this.firstTrack(localParticipant.videoTrackPublications) as LocalVideoTrack | undefined;
+        if (videoTrack) {
+          // One entry per simulcast layer; the first is the highest one sent
+          const [videoStats] = await videoTrack.getSenderStats();
+          if (videoStats) {
+            outbound.video = {
+              bitrate: this.computeBitrate(`out-${videoTrack.sid}`, videoStats.bytesSent, videoStats.timestamp),
+              frameRate: videoStats.framesPerSecond,
+              width: videoStats.frameWidth,
+              height: videoStats.frameHeight,
+              packetLoss: this.lossPercent(videoStats.packetsLost, videoStats.packetsSent),
+              jitter: this.secondsToMs(videoStats.jitter),
+            };
+            parsedStats.video = {
+              codec: 'unknown',
+              bitrate: outbound.video.bitrate || 0,
+              frameRate: videoStats.framesPerSecond || 0,
+              resolution: { width: videoStats.frameWidth || 0, height: videoStats.frameHeight || 0 },
+              packetLoss: outbound.video.packetLoss || 0,
+              rtt: this.secondsToMs(videoStats.roundTripTime) || 0,
+            };
           }
         }
 
-        // Get audio track stats - using correct LiveKit API
-        const audioTracks = Array.from(localParticipant.audioTrackPublications.values());
-        if (audioTracks.length > 0) {
-          const audioTrackPublication = audioTracks[0];
-          const audioTrack = audioTrackPublication?.track;
-          if (audioTrack) {
-            // Get audio track stats from the underlying MediaStreamTrack
-            const audioStats = (await this.getTrackStats(audioTrack as unknown as MediaStreamTrack)) as {
-              codec?: string;
-              bitrate?: number;
-              packetLoss?: number;
-              rtt?: number;
-            } | null;
-            if (audioStats) {
-              parsedStats.audio = {
-                codec: audioStats.codec || 'unknown',
-                bitrate: audioStats.bitrate || 0,
-                packetLoss: audioStats.packetLoss || 0,
-                rtt: audioStats.rtt || 0,
-              };
-            }
+        const audioTrack = this.firstTrack(localParticipant.audioTrackPublications) as LocalAudioTrack | undefined;
+        if (audioTrack) {
+          const audioStats = await audioTrack.getSenderStats();
+          if (audioStats) {
+            outbound.audio = {
+              bitrate: this.computeBitrate(`out-${audioTrack.sid}`, audioStats.bytesSent, audioStats.timestamp),
+              packetLoss: this.lossPercent(audioStats.packetsLost, audioStats.packetsSent),
+              jitter: this.secondsToMs(audioStats.jitter),
+            };
+            parsedStats.audio = {
+              codec: 'unknown',
+              bitrate: outbound.audio.bitrate || 0,
+              packetLoss: outbound.audio.packetLoss || 0,
+              rtt: this.secondsToMs(audioStats.roundTripTime) || 0,
+            };
           }
         }
 
-        // Get connection quality as RTT estimate
+        // Prefer the RTT the remote end reports; fall back to an estimate from LiveKit's quality rating
+        const reportedRtt = parsedStats.video?.rtt || parsedStats.audio?.rtt;
         const connectionQuality = localParticipant.connectionQuality;
-        if (connectionQuality && connectionQuality !== 'unknown') {
-          // Convert LiveKit connection quality to RTT estimate
+        if (reportedRtt) {
+          parsedStats.rtt = reportedRtt;
+        } else if (connectionQuality && connectionQuality !== 'unknown') {
           parsedStats.rtt = this.connectionQualityToRTT(connectionQuality);
         }
+
+        // LiveKit rates the participant's connection as a whole, so it stands for both directions
+        const rating = this.connectionQualityToLinkQuality(connectionQuality);
+        parsedStats.uplinkQuality = rating;
+        parsedStats.downlinkQuality = rating;
+      }
+
+      // The avatar is the remote participant publishing media
+      for (const participant of this.room.remoteParticipants.values()) {
+        const videoTrack = this.firstTrack(participant.videoTrackPublications) as RemoteVideoTrack | undefined;
+        const audioTrack = this.firstTrack(participant.audioTrackPublications) as RemoteAudioTrack | undefined;
+        if (!videoTrack && !audioTrack) continue;
+
+        const videoStats = await videoTrack?.getReceiverStats();
+        if (videoTrack && videoStats) {
+          inbound.video = {
+            codec: videoStats.mimeType?.replace(/^video\//, ''),
+            bitrate: this.computeBitrate(`in-${videoTrack.sid}`, videoStats.bytesReceived, videoStats.timestamp),
+            width: videoStats.frameWidth,
+            height: videoStats.frameHeight,
+            packetLoss: this.lossPercent(videoStats.packetsLost, videoStats.packetsReceived),
+            jitter: this.secondsToMs(videoStats.jitter),
+          };
+        }
+
+        const audioStats = await audioTrack?.getReceiverStats();
+        if (audioTrack && audioStats) {
+          inbound.audio = {
+            bitrate: this.computeBitrate(`in-${audioTrack.sid}`, audioStats.bytesReceived, audioStats.timestamp),
+            packetLoss: this.lossPercent(audioStats.packetsLost, audioStats.packetsReceived),
+            jitter: this.secondsToMs(audioStats.jitter),
+          };
+        }
+        break;
       }
 
-      // logger.info('Collected LiveKit stats', {
-      //   hasVideo: !!parsedStats.video,
-      //   hasAudio: !!parsedStats.audio,
-      //   rtt: parsedStats.rtt,
-      //   videoBitrate: parsedStats.video?.bitrate,
-      //   audioBitrate: parsedStats.audio?.bitrate,
-      //   connectionQuality: this.room.localParticipant?.connectionQuality
-      // });
+      parsedStats.inbound = inbound;
+      parsedStats.outbound = outbound;
       return parsedStats;
     } catch (error) {
       this.handleStatsError(error, 'collectStats');
@@ -136,61 +157,45 @@ export class LiveKitStatsController extends BaseStatsController {
     }
   }
 
-  private async getTrackStats(track: MediaStreamTrack): Promise<{
-    codec?: string;
-    bitrate?: number;
-    frameRate?: number;
-    width?: number;
-    height?: number;
-    packetLoss?: number;
-    rtt?: number;
-  } | null> {
-    try {
-      // Get stats from the track's sender
-      const trackWithSender = track as MediaStreamTrack & { getSender?: () => RTCRtpSender };
-      const sender = trackWithSender.getSender ? trackWithSender.getSender() : null;
-      if (sender) {
-        const stats = await sender.getStats();
-        const statsData: {
-          codec?: string;
-          bitrate?: number;
-          frameRate?: number;
-          width?: number;
-          height?: number;
-          packetLoss?: number;
-          rtt?: number;
-        } = {};
-
-        stats.forEach((report: RTCStats) => {
-          if (report.type === 'outbound-rtp') {
-            const rtpReport = report as RTCStats & { bytesSent?: number; framesPerSecond?: number; codecId?: string };
-            statsData.bitrate = (rtpReport.bytesSent || 0) * 8; // Convert to bits per second
-            statsData.frameRate = rtpReport.framesPerSecond || 0;
-            statsData.codec = rtpReport.codecId || 'unknown';
-          }
-          if (report.type === 'candidate-pair') {
-            const candidateReport = report as RTCStats & {
-              state?: string;
-              currentRoundTripTime?: number;
-              packetsLost?: number;
-              packetsSent?: number;
-            };
-            if (candidateReport.state === 'succeeded') {
-              statsData.rtt = (candidateReport.currentRoundTripTime || 0) * 1000; // Convert to milliseconds
-              const packetsLost = candidateReport.packetsLost || 0;
-              const packetsSent = candidateReport.packetsSent || 0;
-              statsData.packetLoss =
-                packetsSent + packetsLost > 0 ? (packetsLost / (packetsSent + packetsLost)) * 100 : 0;
-            }
-          }
-        });
+  private firstTrack(publications: Map<string, { track?: unknown }>): unknown {
+    for (const publication of publications.values()) {
+      if (publication.track) return publication.track;
+    }
+    return undefined;
+  }
 
-        return statsData;
-      }
-    } catch (error) {
-      logger.debug('Failed to get track stats', { error });
+  // WebRTC only counts bytes, so bitrate comes from the change since the previous sample of the same track
+  private computeBitrate(key: string, bytes: number | undefined, timestamp: number): number | undefined {
+    if (bytes === undefined) return undefined;
+
+    const previous = this.byteSamples.get(key);
+    this.byteSamples.set(key, { bytes, timestamp });
+    if (!previous || timestamp <= previous.timestamp || bytes < previous.bytes) {
+      return undefined;
+    }
+    return Math.round(((bytes - previous.bytes) * 8 * 1000) / (timestamp - previous.timestamp));
+  }
+
+  private lossPercent(lost: number | undefined, delivered: number | undefined): number | undefined {
+    if (lost === undefined || delivered === undefined) return undefined;
+    return lost + delivered > 0 ? (lost / (lost + delivered)) * 100 : 0;
+  }
+
+  private secondsToMs(seconds: number | undefined): number | undefined {
+    return seconds === undefined ? undefined : seconds * 1000;
+  }
+
+  private connectionQualityToLinkQuality(quality: string | undefined): LinkQuality {
+    switch (quality) {
+      case 'excellent':
+      case 'good':
+      case 'poor':
+        return quality;
+      case 'lost':
+        return 'poor';
+      default:
+        return 'unknown';
     }
-    return null;
   }
 
   private connectionQualityToRTT(quality: string): number {
@@ -211,6 +216,7 @@ export class LiveKitStatsController extends BaseStatsController {
 
   cleanup(): void {
     super.cleanup();
+    this.byteSamples.clear();
     logger.info('LiveKit stats controller cleanup completed');
   }
 }
@@ -229,7 +229,8 @@ export class LiveKitVideoController {
     }
   }
 
-  async unpublishVideo(): Promise<void> {
+  // stopTrack false keeps the camera capturing so it can be published again as is
+  async unpublishVideo(stopTrack = true): Promise<void> {
     try {
       if (!this.currentTrack) {
         logger.debug('No video track to unpublish');
@@ -244,7 +245,7 @@ export class LiveKitVideoController {
       const isPublished = this.room.localParticipant.videoTrackPublications.has(this.currentTrack.sid || '');
 
       if (isPublished && this.room.state === 'connected') {
-        await this.room.localParticipant.unpublishTrack(this.currentTrack);
+        await this.room.localParticipant.unpublishTrack(this.currentTrack, stopTrack);
         logger.info('Video track unpublished successfully');
       } else {
         logger.debug('Video track not published or room not connected, skipping unpublish');
@@ -269,6 +270,49 @@ export class LiveKitVideoController {
     }
   }
 
+  // Capture resolution and frame rate go through the camera constraints, the bitrate through the sender
+  async setEncoding(config: VideoConfig): Promise<void> {
+    try {
+      if (!this.currentTrack) {
+        throw new StreamingError(ErrorCode.MEDIA_DEVICE_ERROR, 'No active video track to configure');
+      }
+
+      await this.currentTrack.mediaStreamTrack.applyConstraints({
+        width: { ideal: config.width },
+        height: { ideal: config.height },
+        frameRate: { ideal: config.frameRate },
+      });
+
+      const sender = this.currentTrack.sender;
+      if (sender && config.bitrate) {
+        const parameters = sender.getParameters();
+        parameters.encodings.forEach((encoding) => {
+          // Simulcast layers get a share that matches their scaled-down size
+          const scale = encoding.scaleResolutionDownBy ?? 1;
+          encoding.maxBitrate = Math.round(((config.bitrate ?? 0) * 1000) / (scale * scale));
+          encoding.maxFramerate = config.frameRate;
+        });
+        await sender.setParameters(parameters);
+      }
+
+      logger.debug('Video encoding changed', { config });
+    } catch (error) {
+      const streamingError =
+        error instanceof StreamingError
+          ? error
+          : new StreamingError(
+              ErrorCode.MEDIA_DEVICE_ERROR,
+              `Failed to change video encoding: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            );
+
+      logger.error('Failed to change video encoding', {
+        error: streamingError.message,
+        config,
+      });
+      throw streamingError;
+    }
+  }
+
   async muteVideo(): Promise<void> {
     try {
       if (!this.currentTrack) {
@@ -347,6 +391,19 @@ export class LiveKitVideoController {
     return this.currentTrack !== null && this.isEnabled;
   }
 
+  // Publish the camera again after a room reconnect, restarting it if the SDK stopped it on disconnect
+  async republishVideo(): Promise<void> {
+    if (!this.currentTrack || !this.isEnabled) {
+      return;
+    }
+
+    if (this.currentTrack.mediaStreamTrack.readyState === 'ended') {
+      await this.currentTrack.restartTrack();
+    }
+
+    await this.publishVideo(this.convertToVideoTrack(this.currentTrack));
+  }
+
   // Clean up method for proper resource management
   async cleanup(): Promise<void> {
     try {
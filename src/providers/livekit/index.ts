@@ -1,9 +1,12 @@
 import { Room } from 'livekit-client';
 import { LiveKitStreamingProvider, LiveKitProviderConfig } from './LiveKitStreamingProvider';
-import { StreamingProvider } from '../../types/provider.interfaces';
+import { ProviderCreateOptions, StreamingCredentials, StreamingProvider } from '../../types/provider.interfaces';
 import { logger } from '../../core/Logger';
 
-export function createProvider(): StreamingProvider {
+export function createProvider(
+  _credentials: StreamingCredentials,
+  options: ProviderCreateOptions = {},
+): StreamingProvider {
   logger.info('Creating LiveKit provider');
 
   // Create a new Room instance with default configuration
@@ -15,6 +18,7 @@ export function createProvider(): StreamingProvider {
   // Create provider config with the room
   const config: LiveKitProviderConfig = {
     room,
+    messageCodec: options.messageCodec,
   };
 
   return new LiveKitStreamingProvider(config);
@@ -1,5 +1,5 @@
 import { VideoStrategy } from '../../../types/provider.interfaces';
-import { VideoTrack } from '../../../types/streaming.types';
+import { VideoTrack, VideoConfig } from '../../../types/streaming.types';
 import { LiveKitVideoController } from '../controllers/LiveKitVideoController';
 import { logger } from '../../../core/Logger';
 
@@ -41,7 +41,7 @@ export class LiveKitVideoStrategy implements VideoStrategy {
         await this.videoController.enableVideo();
       }
 
-      // The video controller automatically publishes when enabled
+      await this.videoController.publishVideo(track);
       logger.info('Video track published successfully', { trackId: track.id });
     } catch (error) {
       logger.error('Failed to publish video track', {
@@ -56,7 +56,8 @@ export class LiveKitVideoStrategy implements VideoStrategy {
     try {
       logger.debug('Unpublishing video track', { trackId: track.id });
 
-      await this.videoController.unpublishVideo();
+      // Stopping the camera is stopTrack's job, so the track can be published again
+      await this.videoController.unpublishVideo(false);
 
       logger.info('Video track unpublished successfully', { trackId: track.id });
     } catch (error) {
@@ -100,6 +101,19 @@ export class LiveKitVideoStrategy implements VideoStrategy {
     }
   }
 
+  async setEncoding(track: VideoTrack, config: VideoConfig): Promise<void> {
+    try {
+      await this.videoController.setEncoding(config);
+      logger.info('Video encoding changed', { trackId: track.id, config });
+    } catch (error) {
+      logger.error('Failed to change video encoding', {
+        error: error instanceof Error ? error.message : String(error),
+        trackId: track.id,
+      });
+      throw error;
+    }
+  }
+
   async replaceTrack(oldTrack: VideoTrack, newTrack: VideoTrack): Promise<void> {
     try {
       logger.debug('Replacing video track', {
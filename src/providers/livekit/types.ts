@@ -42,10 +42,12 @@ export interface LiveKitVideoControllerCallbacks {
 export interface LiveKitConnectionControllerCallbacks {
   onConnectionStateChanged?: (state: string) => void;
   onConnectionError?: (error: Error) => void;
+  onConnectionLost?: (error: StreamingError) => void;
 }
 
 // Import shared types
 import { AudioTrack, VideoTrack } from '../../types/streaming.types';
+import { StreamingError } from '../../types/error.types';
 import { Room } from 'livekit-client';
 
 // LiveKit provider configuration
@@ -1,6 +1,11 @@
 import { logger } from '../../core/Logger';
 import { globalResourceManager } from '../../core/ResourceManager';
-import { StreamingProvider, StreamingCredentials, StreamingEventHandlers } from '../../types/provider.interfaces';
+import {
+  StreamingProvider,
+  StreamingCredentials,
+  StreamingEventHandlers,
+  AudioDumpFileHandler,
+} from '../../types/provider.interfaces';
 import {
   StreamingState,
   VideoTrack,
@@ -9,14 +14,22 @@ import {
   AudioConfig,
   StreamProviderType,
   Participant,
-  ConnectionQuality,
   ChatMessage,
   AIDenoiserConfig,
   AIDenoiserMode,
 } from '../../types/streaming.types';
 import { StreamingError, ErrorCode } from '../../types/error.types';
-import { SystemMessageEvent, ChatMessageEvent, CommandEvent } from '../../types/provider.interfaces';
-import { NetworkStats } from '../../components/NetworkQuality';
+import { SessionCredentials } from '../../types/api.schemas';
+import {
+  SystemMessageEvent,
+  ChatMessageEvent,
+  CommandEvent,
+  MessageDeliveryEvent,
+  CustomMessageEvent,
+  AvatarResponse,
+} from '../../types/provider.interfaces';
+import { NetworkStats, QualityScoringPolicy } from '../../types/metrics.types';
+import { AdaptiveVideoPolicy } from '../../types/adaptiveVideo.types';
 
 // Import controllers following established pattern
 import { TRTCConnectionController } from './controllers/TRTCConnectionController';
@@ -26,6 +39,12 @@ import { TRTCParticipantController } from './controllers/TRTCParticipantControll
 import { TRTCAudioController } from './controllers/TRTCAudioController';
 import { TRTCVideoController } from './controllers/TRTCVideoController';
 import { CommonMessageController } from '../common/CommonMessageController';
+import { createMessageCodec } from '../common/codecs';
+import { MessageCodecType } from '../common/types/message.types';
+import { toCustomMessageEvent } from '../common/MessageProtocolRegistry';
+import { ReconnectSupervisor, RestoreStep } from '../common/ReconnectSupervisor';
+import { AdaptiveVideoController } from '../common/AdaptiveVideoController';
+import { TRTCVideoStrategy } from './strategies/TRTCVideoStrategy';
 import { TRTCMessageAdapter } from './adapters/TRTCMessageAdapter';
 import { isTRTCCredentials, TRTCCredentials } from './types';
 import TRTC from 'trtc-sdk-v5';
@@ -40,6 +59,12 @@ export interface TRTCProviderConfig {
     reliable?: boolean;
     ordered?: boolean;
   };
+  // Preferred data channel wire format, JSON unless set; used once the peer shows it reads it
+  messageCodec?: MessageCodecType;
+  // How stats become the quality badge; the balanced policy unless set
+  qualityPolicy?: QualityScoringPolicy;
+  // Camera upload reduction on a poor uplink; the default ladder unless set
+  adaptiveVideo?: Partial<AdaptiveVideoPolicy>;
 }
 
 export class TRTCStreamingProvider implements StreamingProvider {
@@ -66,9 +91,12 @@ export class TRTCStreamingProvider implements StreamingProvider {
   private messageController: CommonMessageController;
   private audioController: TRTCAudioController;
   private videoController: TRTCVideoController;
+  private reconnectSupervisor: ReconnectSupervisor;
+  private adaptiveVideo: AdaptiveVideoController;
 
   private client: TRTC;
   private currentCredentials: TRTCCredentials | null = null;
+  private lastAvatarParameters: Record<string, unknown> | null = null;
 
   constructor(config: TRTCProviderConfig) {
     this.client = config.client;
@@ -78,12 +106,21 @@ export class TRTCStreamingProvider implements StreamingProvider {
     this.participantController = new TRTCParticipantController(this.client);
     this.eventController = new TRTCEventController(this.client, this.participantController);
     this.statsController = new TRTCStatsController(this.client);
+    if (config.qualityPolicy) {
+      this.statsController.setQualityPolicy(config.qualityPolicy);
+    }
     this.messageController = new CommonMessageController(new TRTCMessageAdapter(this.client, config.messageConfig), {
       maxEncodedSize: config.messageConfig?.maxMessageSize || 960,
       bytesPerSecond: 960 * 8, // 8KB/s rate limit
+      codec: createMessageCodec(config.messageCodec),
     });
     this.audioController = new TRTCAudioController(this.client);
     this.videoController = new TRTCVideoController(this.client);
+    this.adaptiveVideo = new AdaptiveVideoController('trtc', new TRTCVideoStrategy(this.client), config.adaptiveVideo);
+    this.reconnectSupervisor = new ReconnectSupervisor('trtc', {
+      reconnect: () => this.connectionController.reconnect(),
+      restore: () => this.getRestoreSteps(),
+    });
 
     // Set connection controller reference on video controller for connection state checks
     this.videoController.setConnectionController(this.connectionController);
@@ -125,6 +162,7 @@ export class TRTCStreamingProvider implements StreamingProvider {
 
     this.updateState({ isConnecting: true, error: null });
     this.eventHandlers = handlers || {};
+    this.reconnectSupervisor.setDeadline(credentials.session_expires_at ?? null);
   }
 
   private validateAndPrepareCredentials(credentials: StreamingCredentials): TRTCCredentials {
@@ -153,7 +191,7 @@ export class TRTCStreamingProvider implements StreamingProvider {
 
   private async setupPostConnectionFeatures(_trtcCredentials: TRTCCredentials): Promise<void> {
     // Start stats collection
-    await this.statsController.startCollecting();
+    this.statsController.startStatsCollection();
 
     // Mark message adapter as ready
     const messageAdapter = this.messageController.getAdapter() as TRTCMessageAdapter;
@@ -184,8 +222,11 @@ export class TRTCStreamingProvider implements StreamingProvider {
     try {
       logger.info('Disconnecting TRTC streaming provider');
 
+      this.reconnectSupervisor.cancel();
+      this.lastAvatarParameters = null;
+
       // Stop stats collection
-      await this.statsController.stopCollecting();
+      this.statsController.stopStatsCollection();
 
       // Disconnect from room
       await this.connectionController.disconnect();
@@ -254,10 +295,13 @@ export class TRTCStreamingProvider implements StreamingProvider {
 
   // Video methods
   async enableVideo(config?: VideoConfig): Promise<VideoTrack> {
-    return this.videoController.enableVideo(config);
+    const track = await this.videoController.enableVideo(config);
+    this.adaptiveVideo.setBaseline(config);
+    return track;
   }
 
   async disableVideo(): Promise<void> {
+    this.adaptiveVideo.trackUnpublished();
     return this.videoController.disableVideo();
   }
 
@@ -269,28 +313,36 @@ export class TRTCStreamingProvider implements StreamingProvider {
     return this.videoController.stopVideo();
   }
 
-  async publishVideo(_track: VideoTrack): Promise<void> {
-    return this.videoController.publishVideo();
+  async publishVideo(track: VideoTrack): Promise<void> {
+    await this.videoController.publishVideo();
+    this.adaptiveVideo.trackPublished(this.videoController.getCurrentTrack() ?? track);
   }
 
   async unpublishVideo(): Promise<void> {
+    this.adaptiveVideo.trackUnpublished();
     return this.videoController.unpublishVideo();
   }
 
   // Messaging methods
-  async sendMessage(content: string): Promise<void> {
-    const messageId = `msg-${Date.now()}`;
+  async sendMessage(content: string, messageId = `msg-${Date.now()}`): Promise<void> {
     return this.messageController.sendMessage(messageId, content);
   }
 
+  // Sent as a command like the other providers; as chat text it would be retransmitted as a question
   async sendInterrupt(): Promise<void> {
-    const messageId = `interrupt-${Date.now()}`;
-    return this.messageController.sendMessage(messageId, 'interrupt');
+    await this.messageController.interruptResponse();
   }
 
   // Avatar methods
   async setAvatarParameters(metadata: Record<string, unknown>): Promise<void> {
-    return this.messageController.setAvatarParameters(metadata);
+    await this.messageController.setAvatarParameters(metadata);
+    this.lastAvatarParameters = metadata;
+  }
+
+  registerMessageHandler(version: number, type: string, handler: (event: CustomMessageEvent) => void): () => void {
+    return this.messageController.registerMessageHandler(version, type, (message) =>
+      handler(toCustomMessageEvent(message)),
+    );
   }
 
   // Noise reduction methods
@@ -315,8 +367,23 @@ export class TRTCStreamingProvider implements StreamingProvider {
     return this.audioController.disableAIDenoiser();
   }
 
-  async dumpAudio(): Promise<void> {
-    return this.audioController.dumpAudio();
+  async renewToken({ trtc_user_sig }: SessionCredentials): Promise<void> {
+    if (!trtc_user_sig) {
+      throw new StreamingError(ErrorCode.INVALID_CREDENTIALS, 'Missing trtc_user_sig to renew', { provider: 'trtc' });
+    }
+
+    this.connectionController.renewUserSig(trtc_user_sig);
+    if (this.currentCredentials) {
+      this.currentCredentials = { ...this.currentCredentials, trtc_user_sig };
+    }
+  }
+
+  setQualityPolicy(policy: QualityScoringPolicy): void {
+    this.statsController.setQualityPolicy(policy);
+  }
+
+  async dumpAudio(onFile?: AudioDumpFileHandler): Promise<void> {
+    return this.audioController.dumpAudio(onFile);
   }
 
   // State management methods
@@ -334,6 +401,23 @@ export class TRTCStreamingProvider implements StreamingProvider {
     return this.currentCredentials;
   }
 
+  // Everything the session had before the drop: published tracks, denoiser and the last set-params
+  private getRestoreSteps(): RestoreStep[] {
+    return [
+      { name: 'audio', run: () => this.audioController.republishAudio() },
+      { name: 'video', run: () => this.videoController.republishVideo() },
+      { name: 'ai-denoiser', run: () => this.audioController.reapplyAIDenoiser() },
+      {
+        name: 'set-params',
+        run: async () => {
+          if (this.lastAvatarParameters) {
+            await this.messageController.setAvatarParameters(this.lastAvatarParameters);
+          }
+        },
+      },
+    ];
+  }
+
   private setupControllerCallbacks(): void {
     // Connection callbacks
     this.connectionController.setCallbacks({
@@ -353,30 +437,51 @@ export class TRTCStreamingProvider implements StreamingProvider {
         this.updateState({ isJoined: true, isConnecting: false });
         this.eventHandlers.onReconnected?.();
       },
+      onConnectionLost: (error) => {
+        this.reconnectSupervisor.handleConnectionLost(error);
+      },
       onError: (error) => {
         this.updateState({ error });
         this.eventHandlers.onError?.(error);
       },
     });
 
+    this.reconnectSupervisor.setCallbacks({
+      onReconnecting: (attempt) => {
+        this.updateState({ isReconnecting: true, isConnecting: true });
+        if (attempt === 1) {
+          this.eventHandlers.onReconnecting?.();
+        }
+      },
+      onReconnected: () => {
+        this.updateState({ isReconnecting: false, isConnecting: false });
+        this.eventHandlers.onReconnected?.();
+      },
+      onGiveUp: (error) => {
+        this.updateState({ isReconnecting: false, isConnecting: false, isJoined: false, error });
+        this.eventHandlers.onError?.(error);
+      },
+    });
+
+    this.adaptiveVideo.setCallbacks({
+      onAdapted: (event) => this.eventHandlers.onVideoAdapted?.(event),
+    });
+
     // Stats callbacks
     this.statsController.setCallbacks({
       onNetworkStatsUpdate: (stats: NetworkStats) => {
-        // Convert NetworkStats to ConnectionQuality for state
-        const connectionQuality: ConnectionQuality = {
-          score: 80, // Default score
-          uplink: 'good',
-          downlink: 'good',
-          rtt: stats.connection?.roundTripTime || 0,
-          packetLoss: stats.connection?.packetLossRate || 0,
-        };
+        const connectionQuality = stats.connectionQuality ?? null;
 
         // Store both connection quality and detailed stats
         this.updateState({
           networkQuality: connectionQuality,
           detailedNetworkStats: stats.detailedStats,
+          metrics: stats.metrics,
         });
-        this.eventHandlers.onNetworkQualityChanged?.(connectionQuality);
+        if (connectionQuality) {
+          this.eventHandlers.onNetworkQualityChanged?.(connectionQuality);
+        }
+        void this.adaptiveVideo.update(connectionQuality);
       },
       onError: (error) => {
         logger.error('Stats controller error', { error });
@@ -456,6 +561,15 @@ export class TRTCStreamingProvider implements StreamingProvider {
       onCommand: (event: unknown) => {
         this.eventHandlers.onCommand?.(event as CommandEvent);
       },
+      onDeliveryStatusChanged: (event: unknown) => {
+        this.eventHandlers.onMessageDelivery?.(event as MessageDeliveryEvent);
+      },
+      onCustomMessage: (event: unknown) => {
+        this.eventHandlers.onCustomMessage?.(event as CustomMessageEvent);
+      },
+      onAvatarResponse: (response: unknown) => {
+        this.eventHandlers.onAvatarResponse?.(response as AvatarResponse);
+      },
       onError: (error: Error) => {
         const streamingError =
           error instanceof StreamingError
@@ -530,8 +644,11 @@ export class TRTCStreamingProvider implements StreamingProvider {
     try {
       logger.info('Cleaning up TRTC provider');
 
+      this.reconnectSupervisor.cancel();
+      this.adaptiveVideo.reset();
+
       // Stop stats collection first
-      await this.statsController.stopCollecting();
+      this.statsController.stopStatsCollection();
 
       // Disconnect if still connected
       if (this._state.isJoined || this._state.isConnecting) {
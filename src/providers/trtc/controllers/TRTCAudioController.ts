@@ -1,5 +1,6 @@
 import { logger } from '../../../core/Logger';
 import { StreamingError, ErrorCode } from '../../../types/error.types';
+import { AudioDumpFileHandler } from '../../../types/provider.interfaces';
 import {
   AudioTrack,
   AudioConfig,
@@ -26,6 +27,7 @@ export class TRTCAudioController {
     isInitialized: false,
   };
   private aiDenoiserAssetsPath?: string;
+  private aiDenoiserConfig: AIDenoiserConfig | null = null;
 
   constructor(client: TRTC) {
     this.client = client;
@@ -295,6 +297,7 @@ export class TRTCAudioController {
         mode: denoiserConfig.mode || 'default',
         isInitialized: true,
       };
+      this.aiDenoiserConfig = denoiserConfig;
       this.noiseReductionEnabled = true;
       this.noiseReductionMode = 'ai';
 
@@ -351,7 +354,7 @@ export class TRTCAudioController {
     }
   }
 
-  async dumpAudio(): Promise<void> {
+  async dumpAudio(_onFile?: AudioDumpFileHandler): Promise<void> {
     logger.info('TRTC audio dump requested - feature not available in TRTC v5');
   }
 
@@ -359,6 +362,26 @@ export class TRTCAudioController {
     return this.currentTrack;
   }
 
+  // Make sure the local microphone is published again after re-entering the room
+  async republishAudio(): Promise<void> {
+    if (!this.isEnabled) {
+      return;
+    }
+
+    await this.client.updateLocalAudio({ publish: true, mute: this.isMuted });
+  }
+
+  // Restart the AI denoiser plugin, which is bound to the room session, with its previous settings
+  async reapplyAIDenoiser(): Promise<void> {
+    if (!this.aiDenoiserState.isEnabled || !this.aiDenoiserConfig) {
+      return;
+    }
+
+    const config = { ...this.aiDenoiserConfig, mode: this.aiDenoiserState.mode };
+    await this.disableAIDenoiser();
+    await this.enableAIDenoiser(config);
+  }
+
   isAudioEnabled(): boolean {
     return this.isEnabled;
   }
@@ -422,6 +445,7 @@ export class TRTCAudioController {
         mode: 'default',
         isInitialized: false,
       };
+      this.aiDenoiserConfig = null;
 
       logger.info('TRTC audio controller cleanup completed');
     } catch (error) {
@@ -8,6 +8,7 @@ export class TRTCConnectionController {
   private client: TRTC;
   private isConnected = false;
   private isConnecting = false;
+  private isLeaving = false;
   private callbacks: TRTCConnectionControllerCallbacks = {};
   private credentials: TRTCCredentials | null = null;
 
@@ -38,20 +39,12 @@ export class TRTCConnectionController {
       });
 
       this.isConnecting = true;
-      this.credentials = credentials;
-
-      const params = {
-        sdkAppId: credentials.trtc_app_id,
-        strRoomId: credentials.trtc_room_id,
-        userId: credentials.trtc_user_id,
-        userSig: credentials.trtc_user_sig,
-        role: TRTC.TYPE.ROLE_ANCHOR, // Anchor role
-      };
 
-      await this.client.enterRoom(params);
+      await this.client.enterRoom(this.toEnterRoomParams(credentials));
 
       this.isConnected = true;
       this.isConnecting = false;
+      this.credentials = credentials;
 
       logger.info('Successfully connected to TRTC room');
       this.callbacks.onConnected?.();
@@ -77,7 +70,12 @@ export class TRTCConnectionController {
 
       logger.info('Disconnecting from TRTC room');
 
-      await this.client.exitRoom();
+      this.isLeaving = true;
+      try {
+        await this.client.exitRoom();
+      } finally {
+        this.isLeaving = false;
+      }
 
       this.isConnected = false;
       this.isConnecting = false;
@@ -95,6 +93,46 @@ export class TRTCConnectionController {
     }
   }
 
+  // Re-enter the room with the last credentials after the SDK lost the connection for good
+  async reconnect(): Promise<void> {
+    if (!this.credentials) {
+      throw new StreamingError(ErrorCode.CONNECTION_FAILED, 'No previous TRTC connection to restore', {
+        provider: 'trtc',
+      });
+    }
+
+    this.isLeaving = true;
+    try {
+      await this.client.exitRoom();
+    } catch (error) {
+      logger.debug('TRTC exitRoom before reconnect failed', { error });
+    } finally {
+      this.isLeaving = false;
+    }
+
+    try {
+      await this.client.enterRoom(this.toEnterRoomParams(this.credentials));
+      this.isConnected = true;
+
+      logger.info('Re-entered TRTC room', { roomId: this.credentials.trtc_room_id });
+      this.callbacks.onConnected?.();
+    } catch (error) {
+      throw ErrorMapper.mapTRTCError(error);
+    }
+  }
+
+  // The SDK only checks userSig when entering, so the room stays up; reconnect() enters with the new one
+  renewUserSig(userSig: string): void {
+    if (!this.credentials) {
+      throw new StreamingError(ErrorCode.CONNECTION_FAILED, 'No TRTC connection to renew the userSig of', {
+        provider: 'trtc',
+      });
+    }
+
+    this.credentials = { ...this.credentials, trtc_user_sig: userSig };
+    logger.info('TRTC userSig renewed');
+  }
+
   getConnectionState(): 'connected' | 'connecting' | 'disconnected' {
     if (this.isConnected) return 'connected';
     if (this.isConnecting) return 'connecting';
@@ -131,7 +169,9 @@ export class TRTCConnectionController {
   };
 
   private handleConnectionStateChanged = (...args: unknown[]) => {
-    const [state, reason] = args as [string, string];
+    // SDK v5 passes { prevState, state }; older builds passed the state string directly
+    const [payload, reason] = args as [string | { state: string }, string | undefined];
+    const state = typeof payload === 'string' ? payload : payload?.state;
     logger.info('TRTC connection state changed', { state, reason });
 
     const wasConnected = this.isConnected;
@@ -144,8 +184,26 @@ export class TRTCConnectionController {
       logger.warn('TRTC disconnected', { reason });
       this.callbacks.onDisconnected?.();
     }
+
+    // The SDK retries internally while CONNECTING; DISCONNECTED outside of exitRoom means it gave up.
+    // Credentials are only kept after a successful enterRoom, so failed initial connects are ignored.
+    if (state === 'DISCONNECTED' && !this.isLeaving && this.credentials) {
+      this.callbacks.onConnectionLost?.(
+        ErrorMapper.mapTRTCError({ code: 'Disconnected', message: `Disconnected: ${reason ?? 'unknown'}` }),
+      );
+    }
   };
 
+  private toEnterRoomParams(credentials: TRTCCredentials) {
+    return {
+      sdkAppId: credentials.trtc_app_id,
+      strRoomId: credentials.trtc_room_id,
+      userId: credentials.trtc_user_id,
+      userSig: credentials.trtc_user_sig,
+      role: TRTC.TYPE.ROLE_ANCHOR, // Anchor role
+    };
+  }
+
   async cleanup(): Promise<void> {
     try {
       logger.info('Cleaning up TRTC connection controller');
@@ -1,5 +1,6 @@
 import { logger } from '../../../core/Logger';
-import { NetworkStats } from '../../../components/NetworkQuality';
+import { MediaMetrics, NetworkStats, QoEMetrics } from '../../../types/metrics.types';
+import { BaseStatsController, ParsedWebRTCStats } from '../../common/controllers/BaseStatsController';
 import {
   TRTCNetworkQuality,
   TRTCLocalStatistics,
@@ -62,24 +63,34 @@ interface TRTCDetailedStats {
   };
 }
 
-export class TRTCStatsController {
+export class TRTCStatsController extends BaseStatsController {
+  protected readonly providerType = 'trtc';
+  protected callbacks: TRTCStatsControllerCallbacks = {};
   private client: TRTC;
-  private callbacks: TRTCStatsControllerCallbacks = {};
   private networkQualityData: TRTCNetworkQuality | null = null;
+  // Raw SDK reports, kept for the normalised metrics
+  private lastNetworkQuality: NetworkQuality | null = null;
+  private lastStatistics: TRTCStatistics | null = null;
   private localStats: TRTCLocalStatistics | null = null;
   private remoteStats = new Map<string, TRTCRemoteStatistics>();
   private isCollecting = false;
 
   constructor(client: TRTC) {
+    super();
     this.client = client;
     this.setupEventHandlers();
   }
 
   setCallbacks(callbacks: TRTCStatsControllerCallbacks): void {
-    this.callbacks = callbacks;
+    super.setCallbacks(callbacks);
   }
 
-  private async collectStats(): Promise<NetworkStats> {
+  async collectStats(): Promise<ParsedWebRTCStats | null> {
+    // Not used: TRTC pushes network quality and statistics events, handled below
+    return null;
+  }
+
+  private async buildNetworkStats(): Promise<NetworkStats> {
     try {
       return this.createTRTCStats(this.networkQualityData, this.localStats, this.remoteStats);
     } catch (error) {
@@ -124,6 +135,7 @@ export class TRTCStatsController {
 
   private handleNetworkQuality = (networkQuality: NetworkQuality) => {
     try {
+      this.lastNetworkQuality = networkQuality;
       // Convert TRTC NetworkQuality to our internal format
       this.networkQualityData = {
         userId: 'local', // NetworkQuality doesn't have userId
@@ -149,6 +161,7 @@ export class TRTCStatsController {
 
   private handleStatistics = (stats: TRTCStatistics) => {
     try {
+      this.lastStatistics = stats;
       // Convert TRTCStatistics to our expected format
       if (stats.localStatistics) {
         const localVideo = stats.localStatistics.video?.[0];
@@ -208,7 +221,7 @@ export class TRTCStatsController {
 
   private async triggerStatsCollection(): Promise<void> {
     try {
-      const stats = await this.collectStats();
+      const stats = await this.buildNetworkStats();
       this.handleStatsUpdate(stats);
     } catch (error) {
       logger.error('Failed to trigger TRTC stats collection', { error });
@@ -320,13 +333,77 @@ export class TRTCStatsController {
 
     // Add detailed stats for comprehensive metrics display
     baseStats.detailedStats = this.convertDetailedStatsToNetworkStatsFormat(
-      this.createDetailedStats(networkQuality, localStats, remoteStats),
+      this.buildDetailedStats(networkQuality, localStats, remoteStats),
     );
+    baseStats.metrics = this.buildMetrics();
+    baseStats.connectionQuality = this.scoreConnection(baseStats.metrics);
 
     return baseStats;
   }
 
-  private createDetailedStats(
+  // TRTC reports bitrates in kbps and does not say which codec is in use
+  private buildMetrics(): QoEMetrics {
+    const quality = this.lastNetworkQuality;
+    const statistics = this.lastStatistics;
+    const kbpsToBps = (kbps: number | undefined) => (kbps === undefined ? undefined : kbps * 1000);
+
+    const inbound: MediaMetrics = {};
+    const remote = statistics?.remoteStatistics?.[0];
+    if (remote) {
+      const video = remote.video?.[0];
+      if (video) {
+        inbound.video = {
+          bitrate: kbpsToBps(video.bitrate),
+          frameRate: video.frameRate,
+          width: video.width,
+          height: video.height,
+          packetLoss: statistics.downLoss,
+          jitterBufferDelay: video.jitterBufferDelay,
+        };
+      }
+      if (remote.audio) {
+        inbound.audio = {
+          bitrate: kbpsToBps(remote.audio.bitrate),
+          packetLoss: statistics.downLoss,
+          jitterBufferDelay: remote.audio.jitterBufferDelay,
+        };
+      }
+    }
+
+    const outbound: MediaMetrics = {};
+    const local = statistics?.localStatistics;
+    if (local) {
+      const video = local.video?.[0];
+      if (video) {
+        outbound.video = {
+          bitrate: kbpsToBps(video.bitrate),
+          frameRate: video.frameRate,
+          width: video.width,
+          height: video.height,
+          packetLoss: statistics.upLoss,
+        };
+      }
+      if (local.audio) {
+        outbound.audio = {
+          bitrate: kbpsToBps(local.audio.bitrate),
+          packetLoss: statistics.upLoss,
+        };
+      }
+    }
+
+    return this.createMetrics(
+      {
+        rtt: statistics?.rtt ?? quality?.downlinkRTT,
+        packetLoss: statistics?.downLoss ?? quality?.downlinkLoss,
+        uplinkQuality: this.linkQualityFromLevel(quality?.uplinkNetworkQuality),
+        downlinkQuality: this.linkQualityFromLevel(quality?.downlinkNetworkQuality),
+      },
+      inbound,
+      outbound,
+    );
+  }
+
+  private buildDetailedStats(
     networkQuality: TRTCNetworkQuality | null,
     localStats: TRTCLocalStatistics | null,
     remoteStats: Map<string, TRTCRemoteStatistics>,
@@ -533,56 +610,46 @@ export class TRTCStatsController {
     return result;
   }
 
-  async startCollecting(): Promise<void> {
-    try {
-      if (this.isCollecting) {
-        logger.debug('TRTC stats collection already running');
-        return;
-      }
+  startStatsCollection(): void {
+    if (this.isCollecting) {
+      logger.debug('TRTC stats collection already running');
+      return;
+    }
 
-      this.isCollecting = true;
+    this.isCollecting = true;
 
-      // TRTC SDK v5 emits network quality and statistics events directly
-      // No need for interval polling - events will trigger stats updates automatically
-      logger.info('TRTC stats collection started - using event-driven updates');
-    } catch (error) {
-      logger.error('Failed to start TRTC stats collection', { error });
-      throw error;
-    }
+    // TRTC SDK v5 emits network quality and statistics events directly
+    // No need for interval polling - events will trigger stats updates automatically
+    logger.info('TRTC stats collection started - using event-driven updates');
   }
 
-  async stopCollecting(): Promise<void> {
-    try {
-      if (!this.isCollecting) {
-        logger.debug('TRTC stats collection not running');
-        return;
-      }
+  stopStatsCollection(): void {
+    if (!this.isCollecting) {
+      logger.debug('TRTC stats collection not running');
+      return;
+    }
 
-      this.isCollecting = false;
+    this.isCollecting = false;
 
-      // No interval to clear since we're using event-driven updates
-      logger.info('TRTC stats collection stopped');
-    } catch (error) {
-      logger.error('Failed to stop TRTC stats collection', { error });
-      throw error;
-    }
+    // No interval to clear since we're using event-driven updates
+    logger.info('TRTC stats collection stopped');
   }
 
   async cleanup(): Promise<void> {
     try {
       logger.info('Cleaning up TRTC stats controller');
 
-      await this.stopCollecting();
-
       // Remove event listeners
       this.client.off(TRTC.EVENT.NETWORK_QUALITY, this.handleNetworkQuality);
       this.client.off(TRTC.EVENT.STATISTICS, this.handleStatistics);
 
       // Clear data
       this.networkQualityData = null;
+      this.lastNetworkQuality = null;
+      this.lastStatistics = null;
       this.localStats = null;
       this.remoteStats.clear();
-      this.callbacks = {};
+      super.cleanup();
 
       logger.info('TRTC stats controller cleanup completed');
     } catch (error) {
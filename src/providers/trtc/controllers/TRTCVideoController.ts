@@ -178,6 +178,15 @@ export class TRTCVideoController {
     return this.currentTrack;
   }
 
+  // Make sure the local camera is published again after re-entering the room
+  async republishVideo(): Promise<void> {
+    if (!this.isEnabled) {
+      return;
+    }
+
+    await this.client.updateLocalVideo({ publish: !this.isMuted });
+  }
+
   isVideoEnabled(): boolean {
     return this.isEnabled;
   }
@@ -1,4 +1,4 @@
-import { StreamingProvider, StreamingCredentials } from '../../types/provider.interfaces';
+import { StreamingProvider, StreamingCredentials, ProviderCreateOptions } from '../../types/provider.interfaces';
 import { TRTCStreamingProvider, TRTCProviderConfig } from './TRTCStreamingProvider';
 import { logger } from '../../core/Logger';
 // TRTCCredentials type is not needed as we use the actual TRTC SDK
@@ -7,7 +7,10 @@ import TRTC from 'trtc-sdk-v5';
 // Using actual TRTC type from SDK
 
 // Factory function for creating TRTC provider
-export function createProvider(_credentials: StreamingCredentials): StreamingProvider {
+export function createProvider(
+  _credentials: StreamingCredentials,
+  options: ProviderCreateOptions = {},
+): StreamingProvider {
   logger.info('Creating TRTC provider with real SDK');
 
   // Create real TRTC client instance
@@ -16,6 +19,7 @@ export function createProvider(_credentials: StreamingCredentials): StreamingPro
   // Create provider config
   const providerConfig: TRTCProviderConfig = {
     client: trtcClient,
+    messageCodec: options.messageCodec,
     messageConfig: {
       maxMessageSize: 1024,
       defaultCmdId: 1,
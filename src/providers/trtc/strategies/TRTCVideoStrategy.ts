@@ -1,5 +1,5 @@
 import { VideoStrategy } from '../../../types/provider.interfaces';
-import { VideoTrack } from '../../../types/streaming.types';
+import { VideoTrack, VideoConfig } from '../../../types/streaming.types';
 import { logger } from '../../../core/Logger';
 import { ErrorMapper } from '../../../errors/ErrorMapper';
 import TRTC from 'trtc-sdk-v5';
@@ -47,29 +47,24 @@ export class TRTCVideoStrategy implements VideoStrategy {
         throw new Error('TRTC client not connected');
       }
 
-      // Set default video parameters
-      await this.client.updateLocalVideo({
-        option: {
-          profile: '480p',
-        },
-      });
+      // The camera was started by createTrack; this only resumes sending it
+      await this.client.updateLocalVideo({ publish: true });
 
-      await this.client.startLocalVideo();
-
-      logger.info('TRTC video track enabled', { trackId: track.id });
+      logger.info('TRTC video track published', { trackId: track.id });
     } catch (error) {
-      logger.error('Failed to enable TRTC video track', { error, trackId: track.id });
+      logger.error('Failed to publish TRTC video track', { error, trackId: track.id });
       throw ErrorMapper.mapTRTCError(error);
     }
   }
 
   async unpublishTrack(track: VideoTrack): Promise<void> {
     try {
-      this.client.stopLocalVideo();
+      // Keeps capturing so the local preview stays up and publishTrack can resume it
+      await this.client.updateLocalVideo({ publish: false });
 
-      logger.info('TRTC video track disabled', { trackId: track.id });
+      logger.info('TRTC video track unpublished', { trackId: track.id });
     } catch (error) {
-      logger.error('Failed to disable TRTC video track', { error, trackId: track.id });
+      logger.error('Failed to unpublish TRTC video track', { error, trackId: track.id });
       throw ErrorMapper.mapTRTCError(error);
     }
   }
@@ -129,6 +124,23 @@ export class TRTCVideoStrategy implements VideoStrategy {
     }
   }
 
+  async setEncoding(track: VideoTrack, config: VideoConfig): Promise<void> {
+    try {
+      const profile = {
+        width: config.width ?? 640,
+        height: config.height ?? 480,
+        frameRate: config.frameRate ?? 15,
+        bitrate: config.bitrate ?? 600,
+      };
+      await this.client.updateLocalVideo({ option: { profile } });
+
+      logger.info('TRTC video encoding changed', { trackId: track.id, profile });
+    } catch (error) {
+      logger.error('Failed to change TRTC video encoding', { error, trackId: track.id });
+      throw ErrorMapper.mapTRTCError(error);
+    }
+  }
+
   private mapQualityToParams(quality: 'low' | 'medium' | 'high'): Record<string, unknown> {
     switch (quality) {
       case 'low':
@@ -1,6 +1,7 @@
 import { StreamingCredentials } from '../../types/provider.interfaces';
 import { StreamingError } from '../../types/error.types';
 import { VideoTrack } from '../../types/streaming.types';
+import { StatsControllerCallbacks } from '../common/controllers/BaseStatsController';
 
 export interface TRTCCredentials extends StreamingCredentials {
   trtc_app_id: number;
@@ -37,6 +38,7 @@ export interface TRTCConnectionControllerCallbacks {
   onDisconnected?: () => void;
   onReconnecting?: () => void;
   onReconnected?: () => void;
+  onConnectionLost?: (error: StreamingError) => void;
   onError?: (error: StreamingError) => void;
 }
 
@@ -89,11 +91,9 @@ export interface TRTCRemoteStats {
   memoryUsage: number;
 }
 
-export interface TRTCStatsControllerCallbacks {
-  onNetworkStatsUpdate?: (stats: import('../../components/NetworkQuality').NetworkStats) => void;
+export interface TRTCStatsControllerCallbacks extends StatsControllerCallbacks {
   onLocalStatsUpdate?: (stats: TRTCLocalStats) => void;
   onRemoteStatsUpdate?: (userId: string, stats: TRTCRemoteStats) => void;
-  onError?: (error: StreamingError) => void;
 }
 
 // TRTC SDK v5 interfaces (simplified for implementation)
@@ -0,0 +1,130 @@
+// Runs on the server, never in the browser: keep this free of imports so Node can load it
+// (vite.config.ts, or your own server) with nothing but the Fetch API
+
+// How the proxy authenticates to Akool, as the token and apiKey auth methods do from the browser
+export type ProxyAuthMethod = 'token' | 'apiKey';
+
+export interface AkoolProxyOptions {
+  // Akool OpenAPI host the requests are forwarded to
+  target: string;
+  // Server-side token or API key; it is added to forwarded requests and never sent back
+  credential: string;
+  authMethod: ProxyAuthMethod;
+  // Same-origin path the app calls instead of the OpenAPI host
+  pathPrefix: string;
+  // Upstream paths that may be reached, so the proxy is not an open relay for the whole API
+  allowedPaths: string[];
+  fetch: typeof fetch;
+}
+
+// Resolves to null for requests it does not handle
+export type AkoolProxyHandler = (request: Request) => Promise<Response | null>;
+
+export const DEFAULT_API_PROXY_PATH = '/akool-proxy';
+
+// What ApiService calls
+export const AKOOL_PROXY_ALLOWED_PATHS = [
+  '/api/open/v4/liveAvatar/session/create',
+  '/api/open/v4/liveAvatar/session/close',
+  '/api/open/v3/language/list',
+  '/api/open/v4/knowledge/list',
+  '/api/open/v4/voice/list',
+  '/api/open/v4/liveAvatar/avatar/list',
+];
+
+export const DEFAULT_AKOOL_PROXY_OPTIONS: Omit<AkoolProxyOptions, 'credential' | 'fetch'> = {
+  target: 'https://openapi.akool.com',
+  authMethod: 'token',
+  pathPrefix: DEFAULT_API_PROXY_PATH,
+  allowedPaths: AKOOL_PROXY_ALLOWED_PATHS,
+};
+
+// Anything else, cookies and a browser-supplied Authorization included, stays behind
+const FORWARDED_REQUEST_HEADERS = ['accept', 'content-type'];
+
+const jsonError = (status: number, msg: string) =>
+  new Response(JSON.stringify({ code: status, msg }), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+  });
+
+/**
+ * Reference proxy for the `proxy` auth method: forwards the app's OpenAPI calls under `pathPrefix` to Akool
+ * with the credential added server-side. Requests outside `pathPrefix` are left to whatever else serves them.
+ */
+export function createAkoolProxy(
+  options: Pick<AkoolProxyOptions, 'credential'> & Partial<AkoolProxyOptions>,
+): AkoolProxyHandler {
+  const {
+    target,
+    credential,
+    authMethod,
+    pathPrefix,
+    allowedPaths,
+    fetch: fetchUpstream = fetch,
+  } = { ...DEFAULT_AKOOL_PROXY_OPTIONS, ...options };
+  const prefix = pathPrefix.replace(/\/+$/, '');
+  const targetBase = target.replace(/\/+$/, '');
+
+  return async (request) => {
+    const url = new URL(request.url);
+    if (url.pathname !== prefix && !url.pathname.startsWith(`${prefix}/`)) {
+      return null;
+    }
+
+    const path = url.pathname.slice(prefix.length);
+    if (!allowedPaths.includes(path)) {
+      return jsonError(404, `${path || '/'} is not available through this proxy`);
+    }
+    if (request.method !== 'GET' && request.method !== 'POST') {
+      return jsonError(405, `${request.method} is not allowed`);
+    }
+
+    const headers = new Headers();
+    FORWARDED_REQUEST_HEADERS.forEach((name) => {
+      const value = request.headers.get(name);
+      if (value) {
+        headers.set(name, value);
+      }
+    });
+    if (authMethod === 'token') {
+      headers.set('Authorization', `Bearer ${credential}`);
+    } else {
+      headers.set('x-api-key', credential);
+    }
+
+    let upstream: Response;
+    try {
+      upstream = await fetchUpstream(`${targetBase}${path}${url.search}`, {
+        method: request.method,
+        headers,
+        body: request.method === 'POST' ? await request.text() : undefined,
+      });
+    } catch (error) {
+      return jsonError(502, `Could not reach ${targetBase}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return new Response(await upstream.text(), {
+      status: upstream.status,
+      headers: {
+        'Content-Type': upstream.headers.get('content-type') ?? 'application/json',
+        'Cache-Control': 'no-store',
+      },
+    });
+  };
+}
+
+// Reads AKOOL_API_TOKEN or AKOOL_API_KEY, which have no VITE_ prefix so Vite never puts them in the bundle;
+// null when neither is set
+export function createAkoolProxyFromEnv(env: Record<string, string | undefined>): AkoolProxyHandler | null {
+  const credential = env.AKOOL_API_TOKEN || env.AKOOL_API_KEY;
+  if (!credential) {
+    return null;
+  }
+  return createAkoolProxy({
+    credential,
+    authMethod: env.AKOOL_API_TOKEN ? 'token' : 'apiKey',
+    target: env.AKOOL_OPENAPI_HOST || env.VITE_OPENAPI_HOST || DEFAULT_AKOOL_PROXY_OPTIONS.target,
+    pathPrefix: env.VITE_API_PROXY_PATH || DEFAULT_API_PROXY_PATH,
+  });
+}
@@ -0,0 +1,8 @@
+export {
+  AKOOL_PROXY_ALLOWED_PATHS,
+  createAkoolProxy,
+  createAkoolProxyFromEnv,
+  DEFAULT_AKOOL_PROXY_OPTIONS,
+  DEFAULT_API_PROXY_PATH,
+} from './akoolProxy';
+export type { AkoolProxyHandler, AkoolProxyOptions, ProxyAuthMethod } from './akoolProxy';
@@ -0,0 +1,319 @@
+import { logger } from '../core/Logger';
+import { AvatarResponse } from '../types/provider.interfaces';
+import {
+  ConversationScript,
+  ConversationScriptStep,
+  PromptStep,
+  ResponseExpectation,
+  ScriptRunReport,
+  ScriptStepResult,
+} from '../types/conversationScript.types';
+import { ConversationTarget } from './ConversationTarget';
+
+const DEFAULT_RESPONSE_TIMEOUT_MS = 30000;
+
+export interface ScriptRunnerOptions {
+  // Used when neither the step nor the script sets a timeout
+  responseTimeoutMs?: number;
+  onStepStart?: (index: number, step: ConversationScriptStep) => void;
+  onStepComplete?: (result: ScriptStepResult) => void;
+}
+
+export interface ResponseEvaluation {
+  failures: string[];
+  latencyMs?: number;
+  completionMs?: number;
+}
+
+interface StepOutcome {
+  failures: string[];
+  response?: AvatarResponse;
+  latencyMs?: number;
+  completionMs?: number;
+}
+
+class ScriptAbortedError extends Error {
+  constructor() {
+    super('Script run aborted');
+  }
+}
+
+const toList = (value: string | string[] | undefined): string[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+// Checks a final reply against a prompt's expectations; latency is measured from when the prompt was sent
+export function evaluateResponse(
+  expect: ResponseExpectation | undefined,
+  response: AvatarResponse,
+  sentAt: number,
+): ResponseEvaluation {
+  const requestedAt = response.timings.requestedAt ?? sentAt;
+  const latencyMs = response.timings.firstTokenAt - requestedAt;
+  const completionMs = response.timings.finalAt !== undefined ? response.timings.finalAt - requestedAt : undefined;
+  const failures: string[] = [];
+
+  if (!expect) {
+    return { failures, latencyMs, completionMs };
+  }
+
+  const text = response.text.toLowerCase();
+  toList(expect.contains)
+    .filter((needle) => !text.includes(needle.toLowerCase()))
+    .forEach((needle) => failures.push(`Response does not contain "${needle}"`));
+  toList(expect.notContains)
+    .filter((needle) => text.includes(needle.toLowerCase()))
+    .forEach((needle) => failures.push(`Response contains "${needle}"`));
+
+  if (expect.regex !== undefined && !new RegExp(expect.regex, expect.regexFlags).test(response.text)) {
+    failures.push(`Response does not match /${expect.regex}/${expect.regexFlags ?? ''}`);
+  }
+  if (expect.maxLatencyMs !== undefined && latencyMs > expect.maxLatencyMs) {
+    failures.push(`First reply took ${latencyMs}ms, over the ${expect.maxLatencyMs}ms limit`);
+  }
+  if (expect.maxCompletionMs !== undefined && completionMs !== undefined && completionMs > expect.maxCompletionMs) {
+    failures.push(`Full reply took ${completionMs}ms, over the ${expect.maxCompletionMs}ms limit`);
+  }
+
+  return { failures, latencyMs, completionMs };
+}
+
+export function describeStep(step: ConversationScriptStep): string {
+  switch (step.type) {
+    case 'prompt':
+      return `Ask "${step.text}"`;
+    case 'wait':
+      return `Wait ${step.ms}ms`;
+    case 'set-params':
+      return `Set params ${JSON.stringify(step.params)}`;
+    case 'interrupt':
+      return 'Interrupt';
+  }
+}
+
+/**
+ * Plays a conversation script against a session, one step at a time, and reports which steps passed.
+ * A failing step does not stop the run unless the script sets stopOnFailure; abort() skips whatever is left.
+ */
+export class ConversationScriptRunner {
+  private target: ConversationTarget;
+  private options: ScriptRunnerOptions;
+  private abortController: AbortController | null = null;
+
+  constructor(target: ConversationTarget, options: ScriptRunnerOptions = {}) {
+    this.target = target;
+    this.options = options;
+  }
+
+  isRunning(): boolean {
+    return this.abortController !== null;
+  }
+
+  abort(): void {
+    this.abortController?.abort();
+  }
+
+  async run(script: ConversationScript): Promise<ScriptRunReport> {
+    if (this.abortController) {
+      throw new Error('A conversation script is already running');
+    }
+
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    const startedAt = Date.now();
+    const steps: ScriptStepResult[] = [];
+    let stopped = false;
+
+    logger.info('Conversation script started', { name: script.name, steps: script.steps.length });
+
+    try {
+      for (const [index, step] of script.steps.entries()) {
+        const label = describeStep(step);
+        if (stopped || abortController.signal.aborted) {
+          steps.push({
+            index,
+            type: step.type,
+            label,
+            status: 'skipped',
+            startedAt: Date.now(),
+            durationMs: 0,
+            failures: [],
+          });
+          continue;
+        }
+
+        this.options.onStepStart?.(index, step);
+        const stepStartedAt = Date.now();
+        let outcome: StepOutcome;
+        try {
+          outcome = await this.runStep(script, step, index, abortController.signal);
+        } catch (error) {
+          if (error instanceof ScriptAbortedError) {
+            outcome = { failures: ['Aborted'] };
+          } else {
+            outcome = { failures: [error instanceof Error ? error.message : String(error)] };
+          }
+        }
+
+        const result: ScriptStepResult = {
+          index,
+          type: step.type,
+          label,
+          status: outcome.failures.length === 0 ? 'passed' : 'failed',
+          startedAt: stepStartedAt,
+          durationMs: Date.now() - stepStartedAt,
+          failures: outcome.failures,
+          response: outcome.response && {
+            responseId: outcome.response.responseId,
+            text: outcome.response.text,
+            timings: outcome.response.timings,
+          },
+          latencyMs: outcome.latencyMs,
+          completionMs: outcome.completionMs,
+        };
+        steps.push(result);
+        this.options.onStepComplete?.(result);
+
+        if (result.status === 'failed' && script.stopOnFailure) {
+          stopped = true;
+        }
+      }
+    } finally {
+      this.abortController = null;
+    }
+
+    const summary = {
+      passed: steps.filter((step) => step.status === 'passed').length,
+      failed: steps.filter((step) => step.status === 'failed').length,
+      skipped: steps.filter((step) => step.status === 'skipped').length,
+    };
+    const report: ScriptRunReport = {
+      scriptName: script.name,
+      knowledgeId: script.knowledgeId,
+      startedAt,
+      finishedAt: Date.now(),
+      passed: summary.failed === 0 && summary.skipped === 0,
+      aborted: abortController.signal.aborted,
+      summary,
+      steps,
+    };
+
+    logger.info('Conversation script finished', {
+      name: script.name,
+      result: report.passed ? 'passed' : 'failed',
+      summary,
+    });
+    return report;
+  }
+
+  private async runStep(
+    script: ConversationScript,
+    step: ConversationScriptStep,
+    index: number,
+    signal: AbortSignal,
+  ): Promise<StepOutcome> {
+    switch (step.type) {
+      case 'prompt':
+        return this.runPrompt(script, step, index, signal);
+      case 'wait':
+        await delay(step.ms, signal);
+        return { failures: [] };
+      case 'set-params':
+        await this.target.setAvatarParameters(step.params);
+        return { failures: [] };
+      case 'interrupt':
+        await this.target.sendInterrupt();
+        return { failures: [] };
+    }
+  }
+
+  private async runPrompt(
+    script: ConversationScript,
+    step: PromptStep,
+    index: number,
+    signal: AbortSignal,
+  ): Promise<StepOutcome> {
+    const messageId = `script-${Date.now()}-${index}`;
+    const timeoutMs =
+      step.timeoutMs ?? script.responseTimeoutMs ?? this.options.responseTimeoutMs ?? DEFAULT_RESPONSE_TIMEOUT_MS;
+    const sentAt = Date.now();
+    let latest: AvatarResponse | undefined;
+    let unsubscribe = () => {};
+
+    // Listen before sending so a fast reply is not missed
+    const finalResponse = new Promise<AvatarResponse>((resolve) => {
+      unsubscribe = this.target.onAvatarResponse((response) => {
+        // Replies are linked to the question that prompted them; fall back to timing when the link is missing
+        const isReply = response.questionId
+          ? response.questionId === messageId
+          : response.timings.firstTokenAt >= sentAt;
+        if (!isReply) return;
+
+        latest = response;
+        if (response.status === 'final') {
+          resolve(response);
+        }
+      });
+    });
+
+    try {
+      await this.target.sendMessage(step.text, messageId);
+      if (step.noWait) {
+        return { failures: [] };
+      }
+
+      const response = await withTimeout(finalResponse, timeoutMs, signal);
+      if (!response) {
+        return {
+          failures: [latest ? `Reply was still incomplete after ${timeoutMs}ms` : `No reply within ${timeoutMs}ms`],
+          response: latest,
+        };
+      }
+
+      return { ...evaluateResponse(step.expect, response, sentAt), response };
+    } finally {
+      unsubscribe();
+    }
+  }
+}
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new ScriptAbortedError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ScriptAbortedError());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Resolves with null once the timeout passes first
+function withTimeout<T>(promise: Promise<T>, ms: number, signal: AbortSignal): Promise<T | null> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new ScriptAbortedError());
+      return;
+    }
+
+    const settle = (value: T | null) => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+      resolve(value);
+    };
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ScriptAbortedError());
+    };
+    const timer = setTimeout(() => settle(null), ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+    void promise.then(settle);
+  });
+}
@@ -0,0 +1,56 @@
+import { CommonMessageController } from '../providers/common/CommonMessageController';
+import { MessageControllerCallbacks } from '../providers/common/types/message.types';
+import { AvatarResponse } from '../types/provider.interfaces';
+import { StreamingContextType } from '../contexts/StreamingContext';
+
+// What the script runner drives: a live session through the streaming context, or a bare controller in tests
+export interface ConversationTarget {
+  sendMessage(text: string, messageId: string): Promise<void>;
+  sendInterrupt(): Promise<void>;
+  setAvatarParameters(params: Record<string, unknown>): Promise<void>;
+  onAvatarResponse(callback: (response: AvatarResponse) => void): () => void;
+}
+
+export function createStreamingContextTarget(
+  context: Pick<StreamingContextType, 'sendMessage' | 'sendInterrupt' | 'setAvatarParameters' | 'onAvatarResponse'>,
+): ConversationTarget {
+  return {
+    sendMessage: (text, messageId) => context.sendMessage(text, messageId),
+    sendInterrupt: () => context.sendInterrupt(),
+    setAvatarParameters: (params) => context.setAvatarParameters(params),
+    onAvatarResponse: (callback) => context.onAvatarResponse(callback),
+  };
+}
+
+/**
+ * Drives a controller directly. This takes over the controller's callbacks, so pass any others the
+ * caller still needs; they are kept alongside the runner's response listener.
+ */
+export function createControllerTarget(
+  controller: CommonMessageController,
+  callbacks: MessageControllerCallbacks = {},
+): ConversationTarget {
+  const listeners = new Set<(response: AvatarResponse) => void>();
+
+  controller.setCallbacks({
+    ...callbacks,
+    onAvatarResponse: (response) => {
+      callbacks.onAvatarResponse?.(response);
+      listeners.forEach((listener) => listener(response as AvatarResponse));
+    },
+  });
+
+  return {
+    sendMessage: (text, messageId) => controller.sendMessage(messageId, text),
+    sendInterrupt: async () => {
+      await controller.interruptResponse();
+    },
+    setAvatarParameters: async (params) => {
+      await controller.setAvatarParameters(params);
+    },
+    onAvatarResponse: (callback) => {
+      listeners.add(callback);
+      return () => listeners.delete(callback);
+    },
+  };
+}
@@ -0,0 +1,5 @@
+export { ConversationScriptRunner, describeStep, evaluateResponse } from './ConversationScriptRunner';
+export type { ScriptRunnerOptions, ResponseEvaluation } from './ConversationScriptRunner';
+export { createControllerTarget, createStreamingContextTarget } from './ConversationTarget';
+export type { ConversationTarget } from './ConversationTarget';
+export { parseConversationScript } from './parseConversationScript';
@@ -0,0 +1,135 @@
+import { StreamingError, ErrorCode } from '../types/error.types';
+import {
+  CONVERSATION_SCRIPT_VERSION,
+  ConversationScript,
+  ConversationScriptStep,
+  ResponseExpectation,
+} from '../types/conversationScript.types';
+
+const invalid = (message: string, details?: Record<string, unknown>) =>
+  new StreamingError(ErrorCode.INVALID_PARAMETER, message, { details });
+
+// Accepts the JSON text of a script file or an already parsed object, e.g. from the JSON editor
+export function parseConversationScript(input: string | Record<string, unknown>): ConversationScript {
+  let data: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch (error) {
+      throw invalid('Conversation script is not valid JSON', {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (!isRecord(data) || typeof data.name !== 'string' || !Array.isArray(data.steps)) {
+    throw invalid('Conversation script needs a name and a list of steps');
+  }
+
+  const version = data.version ?? CONVERSATION_SCRIPT_VERSION;
+  if (typeof version !== 'number' || version > CONVERSATION_SCRIPT_VERSION) {
+    throw invalid(`Conversation script version ${String(version)} is not supported`, {
+      version,
+      supported: CONVERSATION_SCRIPT_VERSION,
+    });
+  }
+  if (data.knowledgeId !== undefined && typeof data.knowledgeId !== 'string') {
+    throw invalid('Conversation script knowledgeId must be a string');
+  }
+  if (data.responseTimeoutMs !== undefined && !isNonNegativeNumber(data.responseTimeoutMs)) {
+    throw invalid('Conversation script responseTimeoutMs must be a non-negative number');
+  }
+
+  return {
+    version,
+    name: data.name,
+    description: typeof data.description === 'string' ? data.description : undefined,
+    knowledgeId: data.knowledgeId,
+    responseTimeoutMs: data.responseTimeoutMs,
+    stopOnFailure: data.stopOnFailure === true,
+    steps: data.steps.map(parseStep),
+  };
+}
+
+function parseStep(step: unknown, index: number): ConversationScriptStep {
+  const fail = (reason: string) => invalid(`Step ${index + 1}: ${reason}`, { index });
+
+  if (!isRecord(step)) {
+    throw fail('must be an object');
+  }
+
+  switch (step.type) {
+    case 'prompt':
+      if (typeof step.text !== 'string' || !step.text.trim()) {
+        throw fail('prompt needs non-empty text');
+      }
+      if (step.timeoutMs !== undefined && !isNonNegativeNumber(step.timeoutMs)) {
+        throw fail('timeoutMs must be a non-negative number');
+      }
+      return {
+        type: 'prompt',
+        text: step.text,
+        expect: step.expect === undefined ? undefined : parseExpectation(step.expect, fail),
+        timeoutMs: step.timeoutMs,
+        noWait: step.noWait === true,
+      };
+    case 'wait':
+      if (!isNonNegativeNumber(step.ms)) {
+        throw fail('wait needs ms as a non-negative number');
+      }
+      return { type: 'wait', ms: step.ms };
+    case 'set-params':
+      if (!isRecord(step.params)) {
+        throw fail('set-params needs a params object');
+      }
+      return { type: 'set-params', params: step.params };
+    case 'interrupt':
+      return { type: 'interrupt' };
+    default:
+      throw fail(`unknown step type "${String(step.type)}"`);
+  }
+}
+
+function parseExpectation(expect: unknown, fail: (reason: string) => StreamingError): ResponseExpectation {
+  if (!isRecord(expect)) {
+    throw fail('expect must be an object');
+  }
+
+  const { contains, notContains, regex, regexFlags, maxLatencyMs, maxCompletionMs } = expect;
+  if (contains !== undefined && !isStringOrStrings(contains)) {
+    throw fail('expect.contains must be a string or a list of strings');
+  }
+  if (notContains !== undefined && !isStringOrStrings(notContains)) {
+    throw fail('expect.notContains must be a string or a list of strings');
+  }
+  if (regex !== undefined || regexFlags !== undefined) {
+    if (typeof regex !== 'string' || (regexFlags !== undefined && typeof regexFlags !== 'string')) {
+      throw fail('expect.regex and expect.regexFlags must be strings');
+    }
+    try {
+      new RegExp(regex, regexFlags);
+    } catch (error) {
+      throw fail(`expect.regex is invalid (${error instanceof Error ? error.message : String(error)})`);
+    }
+  }
+  if (maxLatencyMs !== undefined && !isNonNegativeNumber(maxLatencyMs)) {
+    throw fail('expect.maxLatencyMs must be a non-negative number');
+  }
+  if (maxCompletionMs !== undefined && !isNonNegativeNumber(maxCompletionMs)) {
+    throw fail('expect.maxCompletionMs must be a non-negative number');
+  }
+
+  return { contains, notContains, regex, regexFlags, maxLatencyMs, maxCompletionMs };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isStringOrStrings(value: unknown): value is string | string[] {
+  return typeof value === 'string' || (Array.isArray(value) && value.every((item) => typeof item === 'string'));
+}
@@ -0,0 +1,200 @@
+import { globalEventBus } from '../core/EventBus';
+import { logger } from '../core/Logger';
+import { EventBusInterface } from '../types/event.types';
+import { StreamingError, ErrorCode } from '../types/error.types';
+import { SessionContinuationRequest, SessionTimeStatus, TimedSession } from '../types/sessionTime.types';
+
+export interface SessionTimeManagerOptions {
+  // Remaining times at which session:time-warning is published
+  warningThresholdsMs: number[];
+  // Close this long before the backend would cut the avatar off mid-sentence
+  closeLeadMs: number;
+  // Whether the backend allows starting another session right after one ran out
+  allowContinuation: boolean;
+}
+
+export const DEFAULT_SESSION_TIME_MANAGER_OPTIONS: SessionTimeManagerOptions = {
+  warningThresholdsMs: [300000, 60000],
+  closeLeadMs: 3000,
+  allowContinuation: false,
+};
+
+export interface SessionTimeManagerCallbacks {
+  // Close the session the normal way, provider first and then closeSession
+  onExpire?: (sessionId: string) => Promise<void> | void;
+  // Start the continuation session; a rejection counts as a failed continuation
+  onContinue?: (request: SessionContinuationRequest) => Promise<void>;
+}
+
+// VITE_SESSION_WARNING_SECONDS is a comma-separated list such as 300,60; VITE_SESSION_CONTINUATION=true
+// turns on the continuation offer
+export function sessionTimeOptionsFromEnv(env: Record<string, string | undefined>): Partial<SessionTimeManagerOptions> {
+  const options: Partial<SessionTimeManagerOptions> = {};
+  if (env.VITE_SESSION_WARNING_SECONDS) {
+    options.warningThresholdsMs = env.VITE_SESSION_WARNING_SECONDS.split(',')
+      .map((value) => Number(value.trim()) * 1000)
+      .filter((value) => Number.isFinite(value) && value > 0);
+  }
+  if (env.VITE_SESSION_CONTINUATION) {
+    options.allowContinuation = env.VITE_SESSION_CONTINUATION === 'true';
+  }
+  return options;
+}
+
+/**
+ * Counts down the time an Akool session was created for. session:time-warning is published as each
+ * threshold is passed, and closeLeadMs before the end the session is closed through onExpire. A session that
+ * ran out can then be followed by a continuation session, if the backend allows it and onContinue is set.
+ */
+export class SessionTimeManager {
+  private eventBus: EventBusInterface;
+  private options: SessionTimeManagerOptions;
+  private callbacks: SessionTimeManagerCallbacks = {};
+  private session: TimedSession | null = null;
+  // Kept after the session is closed, until it is continued, dismissed or another session starts
+  private expiredSession: TimedSession | null = null;
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private continuing: Promise<boolean> | null = null;
+
+  constructor(eventBus: EventBusInterface, options: Partial<SessionTimeManagerOptions> = {}) {
+    this.eventBus = eventBus;
+    this.options = { ...DEFAULT_SESSION_TIME_MANAGER_OPTIONS, ...options };
+  }
+
+  setCallbacks(callbacks: SessionTimeManagerCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  // Tracking the same session again only reschedules when its expiry moved
+  track(session: TimedSession | null): void {
+    if (session && session.sessionId === this.session?.sessionId && session.expiresAt === this.session.expiresAt) {
+      return;
+    }
+
+    this.clearTimers();
+    this.session = session;
+    if (!session) {
+      return;
+    }
+
+    this.expiredSession = null;
+    const now = Date.now();
+    this.options.warningThresholdsMs
+      .filter((thresholdMs) => session.expiresAt - thresholdMs > now)
+      .forEach((thresholdMs) => this.addTimer(session.expiresAt - thresholdMs, () => this.warn(session, thresholdMs)));
+    this.addTimer(session.expiresAt - this.options.closeLeadMs, () => void this.expire(session));
+  }
+
+  getStatus(now = Date.now()): SessionTimeStatus | null {
+    const session = this.session ?? this.expiredSession;
+    if (!session) {
+      return null;
+    }
+
+    const expired = session === this.expiredSession;
+    return {
+      sessionId: session.sessionId,
+      expiresAt: session.expiresAt,
+      remainingMs: expired ? 0 : Math.max(0, session.expiresAt - now),
+      expired,
+      canContinue: this.canContinue(),
+    };
+  }
+
+  // Resolves to whether the continuation session started; concurrent calls share one attempt
+  continueSession(): Promise<boolean> {
+    const previous = this.expiredSession;
+    const onContinue = this.callbacks.onContinue;
+    if (!previous || !onContinue || !this.options.allowContinuation) {
+      return Promise.resolve(false);
+    }
+
+    if (!this.continuing) {
+      this.continuing = this.runContinuation(previous.sessionId, onContinue).finally(() => {
+        this.continuing = null;
+      });
+    }
+    return this.continuing;
+  }
+
+  // The user does not want to continue; forget the session that ran out
+  dismissExpired(): void {
+    this.expiredSession = null;
+  }
+
+  private async runContinuation(
+    previousSessionId: string,
+    onContinue: NonNullable<SessionTimeManagerCallbacks['onContinue']>,
+  ): Promise<boolean> {
+    logger.info('Starting a continuation session', { previousSessionId });
+    this.eventBus.publish('session:continuing', { previousSessionId });
+    try {
+      await onContinue({ previousSessionId });
+      if (this.expiredSession?.sessionId === previousSessionId) {
+        this.expiredSession = null;
+      }
+      this.eventBus.publish('session:continued', { previousSessionId });
+      return true;
+    } catch (error) {
+      const streamingError =
+        error instanceof StreamingError
+          ? error
+          : new StreamingError(
+              ErrorCode.SESSION_CONTINUATION_FAILED,
+              `Could not start a continuation session: ${error instanceof Error ? error.message : String(error)}`,
+              { previousSessionId },
+            );
+      logger.warn('Continuation session failed', { previousSessionId, error: streamingError.message });
+      this.eventBus.publish('session:continuation-failed', { previousSessionId, error: streamingError });
+      return false;
+    }
+  }
+
+  private warn(session: TimedSession, thresholdMs: number): void {
+    const remainingMs = session.expiresAt - Date.now();
+    logger.info('Session time running out', { sessionId: session.sessionId, remainingMs });
+    this.eventBus.publish('session:time-warning', {
+      sessionId: session.sessionId,
+      remainingMs,
+      thresholdMs,
+      canContinue: this.canContinue(),
+    });
+  }
+
+  private async expire(session: TimedSession): Promise<void> {
+    this.clearTimers();
+    this.session = null;
+    this.expiredSession = session;
+    logger.info('Session time is up, closing it', { sessionId: session.sessionId });
+    this.eventBus.publish('session:expired', { sessionId: session.sessionId, canContinue: this.canContinue() });
+
+    try {
+      await this.callbacks.onExpire?.(session.sessionId);
+    } catch (error) {
+      logger.warn('Failed to close the expired session', { sessionId: session.sessionId, error });
+    }
+  }
+
+  private addTimer(at: number, callback: () => void): void {
+    const timer = setTimeout(
+      () => {
+        this.timers = this.timers.filter((item) => item !== timer);
+        callback();
+      },
+      Math.max(0, at - Date.now()),
+    );
+    this.timers.push(timer);
+  }
+
+  private clearTimers(): void {
+    this.timers.forEach(clearTimeout);
+    this.timers = [];
+  }
+
+  private canContinue(): boolean {
+    return this.options.allowContinuation && !!this.callbacks.onContinue;
+  }
+}
+
+// Shared by the hook that times the current session and the countdown in the video overlay
+export const sessionTimeManager = new SessionTimeManager(globalEventBus, sessionTimeOptionsFromEnv(import.meta.env));
@@ -0,0 +1,7 @@
+export {
+  DEFAULT_SESSION_TIME_MANAGER_OPTIONS,
+  SessionTimeManager,
+  sessionTimeManager,
+  sessionTimeOptionsFromEnv,
+} from './SessionTimeManager';
+export type { SessionTimeManagerCallbacks, SessionTimeManagerOptions } from './SessionTimeManager';
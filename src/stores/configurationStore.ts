@@ -1,16 +1,24 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { StreamProviderType } from '../types/streaming.types';
-import { SceneMode, E2EType, AuthMethod } from '../types/api.schemas';
+import { SceneMode, E2EType, AuthMethod, SystemConfig } from '../types/api.schemas';
+import { QualityAlertRule } from '../types/qualityAlerts.types';
+import { DEFAULT_QUALITY_ALERT_RULES } from '../alerts/defaultQualityAlertRules';
+import { DEFAULT_API_PROXY_PATH } from '../proxy';
+import type { QualityPolicyName } from '../providers/common/QualityScorer';
 
 interface ConfigurationState {
   // Provider selection
   selectedProvider: StreamProviderType;
+  autoFallback: boolean;
+  fallbackOrder: StreamProviderType[];
 
   // OpenAPI configuration
   openapiHost: string;
   openapiCredential: string;
   authMethod: AuthMethod;
+  // Same-origin route used instead of the host with the proxy auth method
+  apiProxyPath: string;
 
   // Avatar settings
   avatarId: string;
@@ -35,11 +43,19 @@ interface ConfigurationState {
   videoQuality: 'low' | 'medium' | 'high';
   audioQuality: 'low' | 'medium' | 'high';
 
+  // Network quality alerts
+  qualityAlertRules: QualityAlertRule[];
+  // How stats become the quality badge: balanced, interactive (latency-sensitive) or media (jitter/freeze-aware)
+  qualityPolicy: QualityPolicyName;
+
   // Actions
   setSelectedProvider: (provider: StreamProviderType) => void;
+  setAutoFallback: (enabled: boolean) => void;
+  setFallbackOrder: (order: StreamProviderType[]) => void;
   setOpenapiHost: (host: string) => void;
   setOpenapiCredential: (credential: string) => void;
   setAuthMethod: (method: AuthMethod) => void;
+  setApiProxyPath: (path: string) => void;
   setAvatarId: (avatarId: string) => void;
   setVoiceId: (voiceId: string) => void;
   setKnowledgeId: (knowledgeId: string) => void;
@@ -55,6 +71,8 @@ interface ConfigurationState {
   setAudioEnabled: (enabled: boolean) => void;
   setVideoQuality: (quality: 'low' | 'medium' | 'high') => void;
   setAudioQuality: (quality: 'low' | 'medium' | 'high') => void;
+  setQualityAlertRules: (rules: QualityAlertRule[]) => void;
+  setQualityPolicy: (policy: QualityPolicyName) => void;
 
   // Getters and utilities
   isApiConfigured: () => boolean;
@@ -74,18 +92,46 @@ interface ConfigurationState {
     scene_mode?: SceneMode;
     e2e_type?: E2EType;
   };
+  getSystemConfig: () => SystemConfig;
   resetToDefaults: () => void;
   validateConfiguration: () => { isValid: boolean; errors: string[] };
 }
 
+type SystemConfigSettings = Pick<
+  ConfigurationState,
+  'selectedProvider' | 'autoFallback' | 'fallbackOrder' | 'sessionDuration'
+>;
+
+// Pure so components can memoize it on exactly the settings it reads
+export const buildSystemConfig = ({
+  selectedProvider,
+  autoFallback,
+  fallbackOrder,
+  sessionDuration,
+}: SystemConfigSettings): SystemConfig => ({
+  providers: fallbackOrder.map((type, index) => ({
+    type,
+    enabled: true,
+    credentials: {},
+    fallback_order: index,
+  })),
+  default_provider: selectedProvider,
+  auto_fallback: autoFallback,
+  session_timeout: sessionDuration * 60,
+});
+
 export const useConfigurationStore = create<ConfigurationState>()(
   persist(
     (set, get) => ({
       // Initial state - matching App.tsx defaults with environment variable fallbacks
       selectedProvider: (import.meta.env.VITE_STREAM_TYPE as 'agora' | 'livekit' | 'trtc') || 'agora',
+      autoFallback: false,
+      fallbackOrder: ['agora', 'livekit', 'trtc'],
       openapiHost: import.meta.env.VITE_OPENAPI_HOST || '',
-      openapiCredential: import.meta.env.VITE_OPENAPI_TOKEN || '',
-      authMethod: 'token',
+      // The proxy holds the credential, so a browser token is never picked up with it
+      openapiCredential: import.meta.env.VITE_AUTH_METHOD === 'proxy' ? '' : import.meta.env.VITE_OPENAPI_TOKEN || '',
+      authMethod: (import.meta.env.VITE_AUTH_METHOD as AuthMethod) || 'token',
+      apiProxyPath: import.meta.env.VITE_API_PROXY_PATH || DEFAULT_API_PROXY_PATH,
       avatarId: import.meta.env.VITE_AVATAR_ID || '',
       voiceId: import.meta.env.VITE_VOICE_ID || '',
       knowledgeId: import.meta.env.VITE_KNOWLEDGE_ID || '',
@@ -101,12 +147,19 @@ export const useConfigurationStore = create<ConfigurationState>()(
       audioEnabled: true,
       videoQuality: 'medium',
       audioQuality: 'medium',
+      qualityAlertRules: DEFAULT_QUALITY_ALERT_RULES,
+      qualityPolicy: (import.meta.env.VITE_QUALITY_POLICY as QualityPolicyName) || 'balanced',
 
       // Actions
       setSelectedProvider: (provider: StreamProviderType) => set({ selectedProvider: provider }),
+      setAutoFallback: (enabled: boolean) => set({ autoFallback: enabled }),
+      setFallbackOrder: (order: StreamProviderType[]) => set({ fallbackOrder: order }),
       setOpenapiHost: (host: string) => set({ openapiHost: host }),
       setOpenapiCredential: (credential: string) => set({ openapiCredential: credential }),
-      setAuthMethod: (method: AuthMethod) => set({ authMethod: method }),
+      // Switching to the proxy drops whatever credential was entered, so none is kept in the browser
+      setAuthMethod: (method: AuthMethod) =>
+        set(method === 'proxy' ? { authMethod: method, openapiCredential: '' } : { authMethod: method }),
+      setApiProxyPath: (path: string) => set({ apiProxyPath: path }),
       setAvatarId: (avatarId: string) => set({ avatarId }),
       setVoiceId: (voiceId: string) => set({ voiceId }),
       setKnowledgeId: (knowledgeId: string) => set({ knowledgeId }),
@@ -122,10 +175,15 @@ export const useConfigurationStore = create<ConfigurationState>()(
       setAudioEnabled: (enabled: boolean) => set({ audioEnabled: enabled }),
       setVideoQuality: (quality: 'low' | 'medium' | 'high') => set({ videoQuality: quality }),
       setAudioQuality: (quality: 'low' | 'medium' | 'high') => set({ audioQuality: quality }),
+      setQualityAlertRules: (rules: QualityAlertRule[]) => set({ qualityAlertRules: rules }),
+      setQualityPolicy: (policy: QualityPolicyName) => set({ qualityPolicy: policy }),
 
       // Getters and utilities
       isApiConfigured: () => {
         const state = get();
+        if (state.authMethod === 'proxy') {
+          return !!state.apiProxyPath;
+        }
         return !!(state.openapiHost && state.openapiCredential);
       },
 
@@ -136,7 +194,7 @@ export const useConfigurationStore = create<ConfigurationState>()(
 
       isFullyConfigured: () => {
         const state = get();
-        return !!(state.openapiHost && state.openapiCredential && state.avatarId);
+        return state.isApiConfigured() && !!state.avatarId;
       },
 
       getSessionOptions: () => {
@@ -157,12 +215,17 @@ export const useConfigurationStore = create<ConfigurationState>()(
         };
       },
 
+      getSystemConfig: () => buildSystemConfig(get()),
+
       resetToDefaults: () =>
         set({
           selectedProvider: 'agora',
+          autoFallback: false,
+          fallbackOrder: ['agora', 'livekit', 'trtc'],
           openapiHost: '',
           openapiCredential: '',
           authMethod: 'token',
+          apiProxyPath: DEFAULT_API_PROXY_PATH,
           avatarId: '',
           voiceId: '',
           knowledgeId: '',
@@ -178,17 +241,25 @@ export const useConfigurationStore = create<ConfigurationState>()(
           audioEnabled: true,
           videoQuality: 'medium',
           audioQuality: 'medium',
+          qualityAlertRules: DEFAULT_QUALITY_ALERT_RULES,
+          qualityPolicy: 'balanced',
         }),
 
       validateConfiguration: () => {
         const state = get();
         const errors: string[] = [];
 
-        if (!state.openapiHost) {
-          errors.push('OpenAPI host is required');
-        }
-        if (!state.openapiCredential) {
-          errors.push(state.authMethod === 'token' ? 'OpenAPI token is required' : 'API key is required');
+        if (state.authMethod === 'proxy') {
+          if (!state.apiProxyPath) {
+            errors.push('API proxy path is required');
+          }
+        } else {
+          if (!state.openapiHost) {
+            errors.push('OpenAPI host is required');
+          }
+          if (!state.openapiCredential) {
+            errors.push(state.authMethod === 'token' ? 'OpenAPI token is required' : 'API key is required');
+          }
         }
         if (!state.avatarId) {
           errors.push('Avatar ID is required');
@@ -208,12 +279,15 @@ export const useConfigurationStore = create<ConfigurationState>()(
     }),
     {
       name: 'streaming-avatar-config',
-      // Persist configuration including API credentials
+      // Persist configuration including API credentials, except with the proxy where there are none to keep
       partialize: (state) => ({
         selectedProvider: state.selectedProvider,
+        autoFallback: state.autoFallback,
+        fallbackOrder: state.fallbackOrder,
         openapiHost: state.openapiHost,
-        openapiCredential: state.openapiCredential,
+        openapiCredential: state.authMethod === 'proxy' ? '' : state.openapiCredential,
         authMethod: state.authMethod,
+        apiProxyPath: state.apiProxyPath,
         avatarId: state.avatarId,
         voiceId: state.voiceId,
         knowledgeId: state.knowledgeId,
@@ -229,6 +303,8 @@ export const useConfigurationStore = create<ConfigurationState>()(
         audioEnabled: state.audioEnabled,
         videoQuality: state.videoQuality,
         audioQuality: state.audioQuality,
+        qualityAlertRules: state.qualityAlertRules,
+        qualityPolicy: state.qualityPolicy,
       }),
     },
   ),
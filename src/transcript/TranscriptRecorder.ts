@@ -0,0 +1,79 @@
+import {
+  TRANSCRIPT_FORMAT_VERSION,
+  Transcript,
+  TranscriptEntry,
+  TranscriptSessionInfo,
+} from '../types/transcript.types';
+
+/**
+ * Keeps every chat and system message of one session, independent of what the chat UI still shows.
+ * Entries are upserted by id because avatar replies are re-recorded as their text streams in.
+ */
+export class TranscriptRecorder {
+  private session: TranscriptSessionInfo | null = null;
+  private entries = new Map<string, TranscriptEntry>();
+
+  start(session: Omit<TranscriptSessionInfo, 'startedAt' | 'endedAt'>, startedAt = Date.now()): void {
+    this.session = { ...session, startedAt };
+    this.entries.clear();
+  }
+
+  // A continuation session picks the conversation up where the session that ran out left it
+  continue(session: Omit<TranscriptSessionInfo, 'startedAt' | 'endedAt'>): void {
+    const previous = this.session;
+    if (!previous) {
+      this.start(session);
+      return;
+    }
+
+    const previousSessionIds = [
+      ...(previous.previousSessionIds ?? []),
+      ...(previous.sessionId ? [previous.sessionId] : []),
+    ];
+    this.session = { ...session, previousSessionIds, startedAt: previous.startedAt };
+  }
+
+  // Session details such as the voice can change mid-session; the latest values win
+  updateSession(session: Partial<Omit<TranscriptSessionInfo, 'startedAt'>>): void {
+    if (this.session) {
+      this.session = { ...this.session, ...session };
+    }
+  }
+
+  record(entry: TranscriptEntry): void {
+    if (!this.session) {
+      return;
+    }
+
+    const existing = this.entries.get(entry.id);
+    // Keep the first-seen timestamp so streamed replies stay where they started
+    this.entries.set(entry.id, existing ? { ...entry, timestamp: existing.timestamp } : entry);
+  }
+
+  end(endedAt = Date.now()): void {
+    if (this.session && this.session.endedAt === undefined) {
+      this.session = { ...this.session, endedAt };
+    }
+  }
+
+  isActive(): boolean {
+    return this.session !== null && this.session.endedAt === undefined;
+  }
+
+  hasEntries(): boolean {
+    return this.entries.size > 0;
+  }
+
+  getTranscript(): Transcript | null {
+    if (!this.session) {
+      return null;
+    }
+
+    return {
+      version: TRANSCRIPT_FORMAT_VERSION,
+      exportedAt: Date.now(),
+      session: { ...this.session },
+      entries: [...this.entries.values()].sort((a, b) => a.timestamp - b.timestamp),
+    };
+  }
+}
@@ -0,0 +1,10 @@
+export { TranscriptRecorder } from './TranscriptRecorder';
+export {
+  formatTranscript,
+  formatTranscriptJson,
+  formatTranscriptMarkdown,
+  formatTranscriptWebVtt,
+  parseTranscriptJson,
+  TRANSCRIPT_FILE_EXTENSIONS,
+  TRANSCRIPT_MIME_TYPES,
+} from './transcriptFormats';
@@ -0,0 +1,218 @@
+import { StreamingError, ErrorCode } from '../types/error.types';
+import {
+  TRANSCRIPT_FORMAT_VERSION,
+  Transcript,
+  TranscriptEntry,
+  TranscriptExportFormat,
+} from '../types/transcript.types';
+
+const AUDIO_START = 'avatar_audio_start';
+const AUDIO_END = 'avatar_audio_end';
+
+// Cue length for replies without audio events, roughly reading speed
+const ESTIMATED_CHARS_PER_SECOND = 15;
+const MIN_CUE_MS = 1000;
+
+const SENDER_LABELS: Record<TranscriptEntry['sender'], string> = {
+  user: 'User',
+  avatar: 'Avatar',
+  system: 'System',
+};
+
+export const TRANSCRIPT_FILE_EXTENSIONS: Record<TranscriptExportFormat, string> = {
+  json: 'json',
+  markdown: 'md',
+  webvtt: 'vtt',
+};
+
+export const TRANSCRIPT_MIME_TYPES: Record<TranscriptExportFormat, string> = {
+  json: 'application/json',
+  markdown: 'text/markdown',
+  webvtt: 'text/vtt',
+};
+
+export function formatTranscript(transcript: Transcript, format: TranscriptExportFormat): string {
+  switch (format) {
+    case 'json':
+      return formatTranscriptJson(transcript);
+    case 'markdown':
+      return formatTranscriptMarkdown(transcript);
+    case 'webvtt':
+      return formatTranscriptWebVtt(transcript);
+  }
+}
+
+export function formatTranscriptJson(transcript: Transcript): string {
+  return JSON.stringify(transcript, null, 2);
+}
+
+export function formatTranscriptMarkdown(transcript: Transcript): string {
+  const { session, entries } = transcript;
+  const details: [string, string | number | undefined][] = [
+    ['Session', session.sessionId],
+    ['Provider', session.provider ?? undefined],
+    ['Avatar', session.avatarId],
+    ['Voice', session.voiceId || session.voiceUrl],
+    ['Language', session.language],
+    ['Mode', session.modeType],
+    ['Knowledge base', session.knowledgeId],
+    ['Continued from', session.previousSessionIds?.join(', ')],
+    ['Started', new Date(session.startedAt).toISOString()],
+    ['Ended', session.endedAt !== undefined ? new Date(session.endedAt).toISOString() : undefined],
+  ];
+
+  const lines = ['# Avatar session transcript', '', '| Field | Value |', '| --- | --- |'];
+  details
+    .filter(([, value]) => value !== undefined && value !== '')
+    .forEach(([label, value]) => lines.push(`| ${label} | ${escapeMarkdownCell(String(value))} |`));
+
+  lines.push('', '## Conversation', '');
+  entries.forEach((entry) => {
+    const time = formatClockTime(entry.timestamp);
+    const text = escapeMarkdownText(entry.text);
+    if (entry.kind === 'system') {
+      lines.push(`_[${time}] ${text}_`, '');
+    } else {
+      lines.push(`**[${time}] ${SENDER_LABELS[entry.sender]}:** ${text}`, '');
+    }
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Subtitles for the avatar's replies, timed against the session start. Each reply is cued from its
+ * avatar_audio_start to avatar_audio_end; replies without audio events get a reading-speed estimate.
+ */
+export function formatTranscriptWebVtt(transcript: Transcript): string {
+  const origin = transcript.session.startedAt;
+  const lines = ['WEBVTT', ''];
+
+  resolveSpeechWindows(transcript.entries).forEach(({ entry, start, end }, index) => {
+    lines.push(
+      String(index + 1),
+      `${formatVttTime(start - origin)} --> ${formatVttTime(end - origin)}`,
+      `<v ${SENDER_LABELS[entry.sender]}>${escapeVttText(entry.text)}`,
+      '',
+    );
+  });
+
+  return lines.join('\n');
+}
+
+export function parseTranscriptJson(json: string): Transcript {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new StreamingError(ErrorCode.INVALID_PARAMETER, 'Transcript file is not valid JSON', {
+      details: { originalError: error instanceof Error ? error.message : String(error) },
+    });
+  }
+
+  if (!isRecord(data) || typeof data.version !== 'number' || !isRecord(data.session) || !Array.isArray(data.entries)) {
+    throw new StreamingError(ErrorCode.INVALID_PARAMETER, 'File is not a transcript export');
+  }
+  if (data.version > TRANSCRIPT_FORMAT_VERSION) {
+    throw new StreamingError(ErrorCode.INVALID_PARAMETER, `Transcript version ${data.version} is not supported`, {
+      details: { version: data.version, supported: TRANSCRIPT_FORMAT_VERSION },
+    });
+  }
+  if (typeof data.session.startedAt !== 'number') {
+    throw new StreamingError(ErrorCode.INVALID_PARAMETER, 'Transcript session has no start time');
+  }
+
+  data.entries.forEach((entry, index) => {
+    if (
+      !isRecord(entry) ||
+      typeof entry.id !== 'string' ||
+      typeof entry.text !== 'string' ||
+      typeof entry.timestamp !== 'number' ||
+      !['user', 'avatar', 'system'].includes(entry.sender as string) ||
+      !['chat', 'system'].includes(entry.kind as string)
+    ) {
+      throw new StreamingError(ErrorCode.INVALID_PARAMETER, `Transcript entry ${index + 1} is malformed`, {
+        details: { index },
+      });
+    }
+  });
+
+  return data as unknown as Transcript;
+}
+
+interface SpeechWindow {
+  entry: TranscriptEntry;
+  start: number;
+  end: number;
+}
+
+function resolveSpeechWindows(entries: TranscriptEntry[]): SpeechWindow[] {
+  const replies = entries.filter((entry) => entry.kind === 'chat' && entry.sender === 'avatar');
+  const audioEvents = entries.filter(
+    (entry) => entry.kind === 'system' && (entry.systemType === AUDIO_START || entry.systemType === AUDIO_END),
+  );
+
+  return replies.map((entry, index) => {
+    if (entry.audioStartAt !== undefined) {
+      return { entry, start: entry.audioStartAt, end: entry.audioEndAt ?? estimateEnd(entry, entry.audioStartAt) };
+    }
+
+    // Older transcripts only have the system events; use the first speaking window before the next reply
+    const nextReplyAt = replies[index + 1]?.timestamp ?? Infinity;
+    const start = audioEvents.find(
+      (event) =>
+        event.systemType === AUDIO_START && event.timestamp >= entry.timestamp && event.timestamp < nextReplyAt,
+    );
+    if (start) {
+      const end = audioEvents.find((event) => event.systemType === AUDIO_END && event.timestamp >= start.timestamp);
+      return { entry, start: start.timestamp, end: end?.timestamp ?? estimateEnd(entry, start.timestamp) };
+    }
+
+    return { entry, start: entry.timestamp, end: estimateEnd(entry, entry.timestamp) };
+  });
+}
+
+function estimateEnd(entry: TranscriptEntry, start: number): number {
+  return start + Math.max(MIN_CUE_MS, Math.round((entry.text.length / ESTIMATED_CHARS_PER_SECOND) * 1000));
+}
+
+function formatVttTime(offsetMs: number): string {
+  const total = Math.max(0, Math.round(offsetMs));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)}.${pad(millis, 3)}`;
+}
+
+function formatClockTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${pad(date.getHours(), 2)}:${pad(date.getMinutes(), 2)}:${pad(date.getSeconds(), 2)}`;
+}
+
+// Message text is shown as typed, so emphasis, links, headings and HTML in it must not render
+function escapeMarkdownText(text: string): string {
+  return text.replace(/[\\`*_[\]<>#|]/g, '\\$&');
+}
+
+// A table cell ends at a pipe or a line break
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+// Cue text must not contain a blank line or raw markup characters
+function escapeVttText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n\s*\n/g, '\n');
+}
+
+function pad(value: number, length: number): string {
+  return String(value).padStart(length, '0');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,34 @@
+import { ConnectionQuality } from './streaming.types';
+
+// One rung of the camera ladder; bitrate in kbps like VideoConfig
+export interface VideoEncodingStep {
+  name: string;
+  width: number;
+  height: number;
+  frameRate: number;
+  bitrate: number;
+}
+
+export interface AdaptiveVideoPolicy {
+  enabled: boolean;
+  // Reductions below the configured camera quality, from mildest to harshest
+  steps: VideoEncodingStep[];
+  // Stop sending the camera when the harshest step is still too much for the uplink
+  unpublishWhenExhausted: boolean;
+  // How long the uplink has to stay poor before stepping down, and good before stepping back up
+  downgradeAfterMs: number;
+  upgradeAfterMs: number;
+}
+
+export type VideoAdaptationAction = 'downgrade' | 'upgrade' | 'unpublish' | 'republish';
+
+export interface VideoAdaptationEvent {
+  action: VideoAdaptationAction;
+  // Step names; 'configured' is the camera as the app set it up, null while unpublished
+  from: string | null;
+  to: string | null;
+  // The encoding now sent, unless unpublished
+  encoding?: VideoEncodingStep;
+  uplink: ConnectionQuality['uplink'];
+  timestamp: number;
+}
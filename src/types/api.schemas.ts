@@ -66,7 +66,8 @@ export interface Knowledge {
 
 export type SceneMode = 'fast_dialogue' | 'meeting';
 export type E2EType = 'openai';
-export type AuthMethod = 'token' | 'apiKey';
+// proxy: requests go to a same-origin route that adds the credential server-side, see src/proxy
+export type AuthMethod = 'token' | 'apiKey' | 'proxy';
 
 export interface SessionOptions {
   avatar_id: string;
@@ -0,0 +1,80 @@
+import { AvatarResponse } from './provider.interfaces';
+
+export const CONVERSATION_SCRIPT_VERSION = 1;
+
+// Checks run against the final text and timings of the reply to a prompt; all given checks must pass
+export interface ResponseExpectation {
+  // Every listed string must appear, case-insensitively
+  contains?: string | string[];
+  notContains?: string | string[];
+  regex?: string;
+  regexFlags?: string;
+  // Prompt sent to first reply chunk
+  maxLatencyMs?: number;
+  // Prompt sent to final reply text
+  maxCompletionMs?: number;
+}
+
+export interface PromptStep {
+  type: 'prompt';
+  text: string;
+  expect?: ResponseExpectation;
+  // How long to wait for the final reply; the script's responseTimeoutMs otherwise
+  timeoutMs?: number;
+  // Send and move on, e.g. to interrupt the reply in the next step
+  noWait?: boolean;
+}
+
+export interface WaitStep {
+  type: 'wait';
+  ms: number;
+}
+
+export interface SetParamsStep {
+  type: 'set-params';
+  params: Record<string, unknown>;
+}
+
+export interface InterruptStep {
+  type: 'interrupt';
+}
+
+export type ConversationScriptStep = PromptStep | WaitStep | SetParamsStep | InterruptStep;
+
+export interface ConversationScript {
+  version: number;
+  name: string;
+  description?: string;
+  // Knowledge base the expectations were written against; checked against the session, not applied
+  knowledgeId?: string;
+  responseTimeoutMs?: number;
+  // Skip the remaining steps after the first failure
+  stopOnFailure?: boolean;
+  steps: ConversationScriptStep[];
+}
+
+export type ScriptStepStatus = 'passed' | 'failed' | 'skipped';
+
+export interface ScriptStepResult {
+  index: number;
+  type: ConversationScriptStep['type'];
+  label: string;
+  status: ScriptStepStatus;
+  startedAt: number;
+  durationMs: number;
+  failures: string[];
+  response?: Pick<AvatarResponse, 'responseId' | 'text' | 'timings'>;
+  latencyMs?: number;
+  completionMs?: number;
+}
+
+export interface ScriptRunReport {
+  scriptName: string;
+  knowledgeId?: string;
+  startedAt: number;
+  finishedAt: number;
+  passed: boolean;
+  aborted: boolean;
+  summary: { passed: number; failed: number; skipped: number };
+  steps: ScriptStepResult[];
+}
@@ -0,0 +1,37 @@
+import { SessionCredentials } from './api.schemas';
+import { StreamProviderType } from './streaming.types';
+
+// openapi is the bearer token for Akool requests, rtc the session's Agora/LiveKit token or TRTC userSig
+export type CredentialKind = 'openapi' | 'rtc';
+
+export interface RefreshedApiToken {
+  token: string;
+  // Epoch ms; read from the token itself when left out
+  expiresAt?: number;
+}
+
+export interface RtcCredentialRefreshRequest {
+  sessionId: string;
+  providerType: StreamProviderType;
+  credentials: SessionCredentials;
+}
+
+export interface RefreshedRtcCredentials {
+  // Only the fields that changed are needed, e.g. just agora_token
+  credentials: SessionCredentials;
+  expiresAt?: number;
+}
+
+// Pluggable, e.g. a call to your own backend; without a handler the credential is only watched
+export interface CredentialRefreshHandlers {
+  refreshApiToken?: () => Promise<RefreshedApiToken>;
+  refreshRtcCredentials?: (request: RtcCredentialRefreshRequest) => Promise<RefreshedRtcCredentials>;
+}
+
+export interface CredentialStatus {
+  kind: CredentialKind;
+  // null while the expiry is unknown
+  expiresAt: number | null;
+  refreshing: boolean;
+  canRefresh: boolean;
+}
@@ -0,0 +1,31 @@
+import { StreamProviderType } from './streaming.types';
+
+export const DIAGNOSTICS_REPORT_VERSION = 1;
+
+// skip: the check could not apply here, e.g. no voice configured or no level meter in this browser
+export type DiagnosticStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+// What a check reports; the runner adds its id, name and timing
+export interface DiagnosticOutcome {
+  status: DiagnosticStatus;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export interface DiagnosticResult extends DiagnosticOutcome {
+  id: string;
+  name: string;
+  durationMs: number;
+}
+
+export interface DiagnosticsReport {
+  version: number;
+  startedAt: number;
+  finishedAt: number;
+  provider: StreamProviderType;
+  userAgent: string;
+  // No check failed; warnings do not block a call but are worth a look
+  passed: boolean;
+  summary: Record<DiagnosticStatus, number>;
+  results: DiagnosticResult[];
+}
@@ -21,8 +21,10 @@ export enum ErrorCode {
   CONNECTION_FAILED = 'CONNECTION_FAILED',
   CONNECTION_LOST = 'CONNECTION_LOST',
   DISCONNECT_FAILED = 'DISCONNECT_FAILED',
+  SESSION_CONTINUATION_FAILED = 'SESSION_CONTINUATION_FAILED',
   AUTHENTICATION_FAILED = 'AUTHENTICATION_FAILED',
   INVALID_CREDENTIALS = 'INVALID_CREDENTIALS',
+  CREDENTIAL_REFRESH_FAILED = 'CREDENTIAL_REFRESH_FAILED',
   MEDIA_ACCESS_DENIED = 'MEDIA_ACCESS_DENIED',
   MEDIA_DEVICE_ERROR = 'MEDIA_DEVICE_ERROR',
   TRACK_PUBLISH_FAILED = 'TRACK_PUBLISH_FAILED',
@@ -39,8 +41,18 @@ export enum ErrorCode {
   RESOURCE_UNAVAILABLE = 'RESOURCE_UNAVAILABLE',
   PERMISSION_DENIED = 'PERMISSION_DENIED',
   API_REQUEST_FAILED = 'API_REQUEST_FAILED',
+  // Akool OpenAPI failures; details keep the Akool code and msg where the server sent them
+  API_AUTH_FAILED = 'API_AUTH_FAILED',
+  API_QUOTA_EXCEEDED = 'API_QUOTA_EXCEEDED',
+  API_RATE_LIMITED = 'API_RATE_LIMITED',
+  API_SERVER_ERROR = 'API_SERVER_ERROR',
+  API_NETWORK_ERROR = 'API_NETWORK_ERROR',
+  API_TIMEOUT = 'API_TIMEOUT',
+  API_ABORTED = 'API_ABORTED',
+  API_INVALID_RESPONSE = 'API_INVALID_RESPONSE',
   MESSAGE_TOO_LARGE = 'MESSAGE_TOO_LARGE',
   MESSAGE_SEND_FAILED = 'MESSAGE_SEND_FAILED',
+  COMMAND_REJECTED = 'COMMAND_REJECTED',
   PARTICIPANT_ERROR = 'PARTICIPANT_ERROR',
   ELEMENT_NOT_FOUND = 'ELEMENT_NOT_FOUND',
 }
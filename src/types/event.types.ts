@@ -1,5 +1,7 @@
 import { Participant, ConnectionQuality, ChatMessage, StreamProviderType } from './streaming.types';
 import { StreamingError } from './error.types';
+import { SessionLifecycleStep, SessionLifecycleTimeline } from './lifecycle.types';
+import { CredentialKind } from './credentials.types';
 
 export type EventCallback<T = unknown> = (data: T) => void;
 
@@ -9,6 +11,14 @@ export interface StreamingEventMap {
   'connection:disconnected': { provider: StreamProviderType; reason?: string };
   'connection:failed': { provider: StreamProviderType; error: StreamingError };
   'connection:quality-changed': { quality: ConnectionQuality };
+  'connection:failover': { from: StreamProviderType; to: StreamProviderType; error: StreamingError };
+  // Outcome of a failover run: the provider that connected, or null with the error that ended the run
+  'connection:failover-result': {
+    provider: StreamProviderType | null;
+    attempted: StreamProviderType[];
+    skipped: StreamProviderType[];
+    error?: StreamingError;
+  };
 
   // Participant events
   'participant:joined': { participant: Participant };
@@ -26,6 +36,23 @@ export interface StreamingEventMap {
   'message:sent': { messageId: string; content: string };
   'avatar:response-interrupted': { messageId: string };
 
+  // Session lifecycle timing
+  'lifecycle:mark': { step: SessionLifecycleStep; elapsedMs: number; timeline: SessionLifecycleTimeline };
+  'lifecycle:completed': { timeline: SessionLifecycleTimeline };
+
+  // Token expiry and refresh
+  'credentials:expiring': { kind: CredentialKind; expiresAt: number; remainingMs: number; canRefresh: boolean };
+  'credentials:refreshed': { kind: CredentialKind; expiresAt: number | null };
+  'credentials:refresh-failed': { kind: CredentialKind; error: StreamingError; willRetry: boolean };
+  'credentials:expired': { kind: CredentialKind };
+
+  // Session time limit
+  'session:time-warning': { sessionId: string; remainingMs: number; thresholdMs: number; canContinue: boolean };
+  'session:expired': { sessionId: string; canContinue: boolean };
+  'session:continuing': { previousSessionId: string };
+  'session:continued': { previousSessionId: string };
+  'session:continuation-failed': { previousSessionId: string; error: StreamingError };
+
   // System events
   'system:error': { error: StreamingError };
   'system:warning': { message: string; context?: Record<string, unknown> };
@@ -34,18 +61,79 @@ export interface StreamingEventMap {
 
 export type StreamingEventType = keyof StreamingEventMap;
 
+// The part before the colon, e.g. connection or system
+export type StreamingEventNamespace = StreamingEventType extends infer T
+  ? T extends `${infer Namespace}:${string}`
+    ? Namespace
+    : never
+  : never;
+
+// '*' matches every event, 'connection:*' every connection event
+export type StreamingEventWildcard = '*' | `${StreamingEventNamespace}:*`;
+
+export type StreamingEventPattern = StreamingEventType | StreamingEventWildcard;
+
+export type MatchingEventType<P extends StreamingEventPattern> = P extends StreamingEventType
+  ? P
+  : P extends `${infer Namespace}:*`
+    ? Extract<StreamingEventType, `${Namespace}:${string}`>
+    : StreamingEventType;
+
+// Wildcard listeners also get the name of the event that matched
+export type WildcardEventCallback<P extends StreamingEventWildcard> = (
+  data: StreamingEventMap[MatchingEventType<P>],
+  event: MatchingEventType<P>,
+) => void;
+
+/**
+ * Runs before an event reaches its listeners or the history. Return new data to replace the event's data,
+ * null to drop the event, or nothing to pass it on unchanged.
+ */
+export type EventMiddleware = (event: StreamingEventType, data: unknown) => unknown;
+
+export interface SubscribeOptions {
+  // Deliver matching events from the history first: true for all of them, a number for the last few
+  replay?: boolean | number;
+}
+
 export interface EventSubscription {
   event: StreamingEventType;
   callback: EventCallback;
   once?: boolean;
 }
 
+export interface EventHistoryEntry {
+  event: StreamingEventType;
+  data: unknown;
+  timestamp: number;
+}
+
 export interface EventBusInterface {
-  subscribe<K extends StreamingEventType>(event: K, callback: EventCallback<StreamingEventMap[K]>): () => void;
+  subscribe<K extends StreamingEventType>(
+    event: K,
+    callback: EventCallback<StreamingEventMap[K]>,
+    options?: SubscribeOptions,
+  ): () => void;
+  subscribe<P extends StreamingEventWildcard>(
+    pattern: P,
+    callback: WildcardEventCallback<P>,
+    options?: SubscribeOptions,
+  ): () => void;
 
   once<K extends StreamingEventType>(event: K, callback: EventCallback<StreamingEventMap[K]>): () => void;
+  once<P extends StreamingEventWildcard>(pattern: P, callback: WildcardEventCallback<P>): () => void;
 
   publish<K extends StreamingEventType>(event: K, data: StreamingEventMap[K]): void;
 
+  // Returns a function that removes the middleware again
+  use(middleware: EventMiddleware): () => void;
+
+  // Resolves with the first matching event's data, rejects with OPERATION_TIMEOUT after timeoutMs
+  waitFor<K extends StreamingEventType>(
+    event: K,
+    predicate?: (data: StreamingEventMap[K]) => boolean,
+    timeoutMs?: number,
+  ): Promise<StreamingEventMap[K]>;
+
   clear(): void;
 }
@@ -0,0 +1,37 @@
+import { StreamProviderType } from './streaming.types';
+import { Transcript } from './transcript.types';
+
+export interface HistoryLimits {
+  maxConversations: number;
+  // Older entries of a longer conversation are dropped, keeping the most recent ones
+  maxEntriesPerConversation: number;
+  maxAgeMs: number;
+}
+
+export interface StoredConversation {
+  id: string;
+  // Epoch ms of the last save; conversations are listed and pruned by this
+  updatedAt: number;
+  transcript: Transcript;
+}
+
+export interface ConversationSummary {
+  id: string;
+  updatedAt: number;
+  startedAt: number;
+  endedAt?: number;
+  provider: StreamProviderType | null;
+  avatarId: string;
+  messageCount: number;
+  // First user prompt, for recognising the conversation in a list
+  preview: string;
+}
+
+// Where conversations are kept; IndexedDB in the browser, memory in tests
+export interface HistoryStorageBackend {
+  getAll(): Promise<StoredConversation[]>;
+  get(id: string): Promise<StoredConversation | undefined>;
+  put(conversation: StoredConversation): Promise<void>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
@@ -12,3 +12,33 @@ export * from './event.types';
 
 // API schemas
 export * from './api.schemas';
+
+// Conversation transcripts
+export * from './transcript.types';
+
+// Conversation history
+export * from './history.types';
+
+// Conversation scripts
+export * from './conversationScript.types';
+
+// QoE metrics
+export * from './metrics.types';
+
+// Network quality alerts
+export * from './qualityAlerts.types';
+
+// Adaptive camera upload
+export * from './adaptiveVideo.types';
+
+// Pre-call diagnostics
+export * from './diagnostics.types';
+
+// Session lifecycle timing
+export * from './lifecycle.types';
+
+// Token expiry and refresh
+export * from './credentials.types';
+
+// Session time limit and continuation
+export * from './sessionTime.types';
@@ -0,0 +1,32 @@
+import { StreamProviderType } from './streaming.types';
+
+// In the order they normally happen after Start is clicked
+export const SESSION_LIFECYCLE_STEPS = [
+  'session-created',
+  'provider-loaded',
+  'rtc-joined',
+  'first-frame',
+  'params-acked',
+  'first-audio',
+] as const;
+
+export type SessionLifecycleStep = (typeof SESSION_LIFECYCLE_STEPS)[number];
+
+export interface SessionLifecycleTimeline {
+  provider: StreamProviderType;
+  sessionId?: string;
+  // Epoch ms of the Start click; marks are milliseconds after it
+  startedAt: number;
+  marks: Partial<Record<SessionLifecycleStep, number>>;
+  // Set once every step was reached or the session ended first
+  endedAt?: number;
+  // Why starting the session failed
+  error?: string;
+}
+
+// Median milliseconds from Start to each step over the stored timelines of one provider
+export interface SessionLifecycleSummary {
+  provider: StreamProviderType;
+  count: number;
+  medians: Partial<Record<SessionLifecycleStep, number>>;
+}
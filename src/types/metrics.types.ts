@@ -0,0 +1,228 @@
+import { ConnectionQuality, StreamProviderType } from './streaming.types';
+import { SessionLifecycleTimeline } from './lifecycle.types';
+
+// Quality of experience metrics in one shape for every provider.
+// Bitrates are in bits per second, times in milliseconds, loss and freeze rates in percent.
+
+// 'unknown' until the provider has rated the link
+export type LinkQuality = 'excellent' | 'good' | 'fair' | 'poor' | 'unknown';
+
+export interface VideoMetrics {
+  codec?: string;
+  bitrate?: number;
+  frameRate?: number;
+  width?: number;
+  height?: number;
+  packetLoss?: number;
+  // Interarrival jitter of the RTP stream
+  jitter?: number;
+  // Average time frames wait in the receive buffer
+  jitterBufferDelay?: number;
+  // Total time the stream was frozen since it started
+  freezeTime?: number;
+  freezeRate?: number;
+  // Capture on the sending side to render here
+  endToEndDelay?: number;
+}
+
+export interface AudioMetrics {
+  codec?: string;
+  bitrate?: number;
+  packetLoss?: number;
+  jitter?: number;
+  jitterBufferDelay?: number;
+  freezeTime?: number;
+  freezeRate?: number;
+  endToEndDelay?: number;
+}
+
+export interface MediaMetrics {
+  video?: VideoMetrics;
+  audio?: AudioMetrics;
+}
+
+export interface NetworkMetrics {
+  rtt?: number;
+  packetLoss?: number;
+  uplinkQuality: LinkQuality;
+  downlinkQuality: LinkQuality;
+}
+
+export interface QoEMetrics {
+  provider: StreamProviderType;
+  timestamp: number;
+  network: NetworkMetrics;
+  // The avatar's stream as received here
+  inbound: MediaMetrics;
+  // The local camera and microphone as sent
+  outbound: MediaMetrics;
+}
+
+// Upper bounds for each level of one metric; anything above fair is poor
+export interface MetricThresholds {
+  excellent: number;
+  good: number;
+  fair: number;
+}
+
+/**
+ * How QoE metrics turn into the uplink/downlink quality badge. Each direction takes the worst level of its
+ * own metrics: outbound RTP for uplink, inbound RTP for downlink, plus RTT and the provider's link rating.
+ */
+export interface QualityScoringPolicy {
+  name: string;
+  rtt: MetricThresholds;
+  packetLoss: MetricThresholds;
+  // Only scored when set, which makes the policy jitter/freeze-aware
+  jitter?: MetricThresholds;
+  freezeRate?: MetricThresholds;
+  // Consecutive samples a new level must hold before the badge shows it; downgrades usually react faster
+  hysteresis: {
+    downgradeSamples: number;
+    upgradeSamples: number;
+  };
+}
+
+// What stats controllers report on each update; dashboards should prefer the provider-neutral metrics
+export interface NetworkStats {
+  metrics?: QoEMetrics;
+  providerType?: string;
+  timestamp?: number;
+  connectionQuality?: ConnectionQuality | null;
+  localNetwork?: {
+    uplinkNetworkQuality: number;
+    downlinkNetworkQuality: number;
+  };
+  connection?: {
+    roundTripTime: number;
+    packetLossRate: number;
+  };
+  video?: {
+    codecType?: string;
+    transportDelay?: number;
+    end2EndDelay?: number;
+    receiveDelay?: number;
+    receiveFrameRate?: number;
+    receiveResolutionWidth?: number;
+    receiveResolutionHeight?: number;
+    receiveBitrate?: number;
+    packetLossRate?: number;
+    totalFreezeTime?: number;
+    freezeRate?: number;
+    sendFrameRate?: number;
+    sendResolutionWidth?: number;
+    sendResolutionHeight?: number;
+    sendBitrate?: number;
+    jitterBufferDelay?: number;
+  };
+  audio?: {
+    codecType?: string;
+    transportDelay?: number;
+    end2EndDelay?: number;
+    receiveDelay?: number;
+    receiveBitrate?: number;
+    packetLossRate?: number;
+    receiveLevel?: number;
+    sendBitrate?: number;
+    sampleRate?: number;
+    totalFreezeTime?: number;
+    freezeRate?: number;
+  };
+  // Optional detailed stats that may be available from some providers
+  detailedStats?: {
+    video?: {
+      codec?: string;
+      bitrate?: number;
+      frameRate?: number;
+      resolution?: { width: number; height: number };
+      packetLoss?: number;
+      rtt?: number;
+    };
+    audio?: {
+      codec?: string;
+      bitrate?: number;
+      packetLoss?: number;
+      volume?: number;
+      rtt?: number;
+    };
+    network?: {
+      rtt?: number;
+      packetLoss?: number;
+    };
+  };
+}
+
+// Session recording
+
+// Bumped whenever the exported JSON layout changes
+export const SESSION_METRICS_FORMAT_VERSION = 2;
+
+export type MetricsExportFormat = 'json' | 'csv';
+
+// One point of the per-second timeline; media fields describe the avatar's stream unless prefixed outbound
+export interface MetricsSample {
+  timestamp: number;
+  rtt?: number;
+  packetLoss?: number;
+  uplinkQuality?: LinkQuality;
+  downlinkQuality?: LinkQuality;
+  videoBitrate?: number;
+  audioBitrate?: number;
+  frameRate?: number;
+  width?: number;
+  height?: number;
+  // Cumulative, as reported by the provider
+  freezeTime?: number;
+  outboundVideoBitrate?: number;
+  outboundAudioBitrate?: number;
+  avatarSpeaking: boolean;
+}
+
+export interface SpeakingInterval {
+  start: number;
+  // Missing while the avatar is still speaking
+  end?: number;
+}
+
+// Undefined when no sample carried the value
+export interface PercentileSummary {
+  p50?: number;
+  p95?: number;
+  max?: number;
+}
+
+export interface SessionMetricsSummary {
+  durationMs: number;
+  sampleCount: number;
+  rtt: PercentileSummary;
+  packetLoss: PercentileSummary;
+  videoBitrate: PercentileSummary;
+  frameRate: PercentileSummary;
+  freezeTime: number;
+  // Share of the time since the first frame that video was frozen, 0 to 1
+  freezeRatio?: number;
+  // From the provider starting to connect to the avatar's first rendered frame
+  timeToFirstFrame?: number;
+  speakingTime: number;
+  speakingCount: number;
+}
+
+export interface SessionMetricsInfo {
+  sessionId?: string;
+  provider: StreamProviderType | null;
+  // Epoch ms
+  startedAt: number;
+  endedAt?: number;
+  firstFrameAt?: number;
+}
+
+export interface SessionMetricsReport {
+  version: number;
+  exportedAt: number;
+  session: SessionMetricsInfo;
+  summary: SessionMetricsSummary;
+  speakingIntervals: SpeakingInterval[];
+  samples: MetricsSample[];
+  // Start-up timing of the same session, when it was tracked
+  lifecycle?: SessionLifecycleTimeline;
+}
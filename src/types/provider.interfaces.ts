@@ -10,10 +10,22 @@ import {
   StreamProviderType,
 } from './streaming.types';
 import { StreamingError } from './error.types';
+import { VideoAdaptationEvent } from './adaptiveVideo.types';
+import { SessionCredentials } from './api.schemas';
+import { QualityScoringPolicy } from './metrics.types';
+import { MessageCodecType } from '../providers/common/types/message.types';
+
+// Settings a provider is created with, beyond its credentials
+export interface ProviderCreateOptions {
+  // Preferred data channel wire format, JSON unless set
+  messageCodec?: MessageCodecType;
+}
 
 // Generic streaming credentials interface
 export interface StreamingCredentials {
   [key: string]: unknown;
+  // Epoch ms when the Akool session expires; providers stop reconnecting after this
+  session_expires_at?: number;
 }
 
 // Message event types for provider-agnostic messaging
@@ -43,6 +55,56 @@ export interface CommandEvent {
   message?: string;
 }
 
+// A stream message with no registered handler for its (version, type) pair
+export interface CustomMessageEvent {
+  version: number;
+  type: string;
+  messageId?: string;
+  idx?: number;
+  fin?: boolean;
+  payload: unknown;
+}
+
+export type MessageDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface MessageDeliveryEvent {
+  messageId: string;
+  kind: 'chat' | 'command';
+  status: MessageDeliveryStatus;
+  // Number of transmissions so far, including the first send
+  attempts: number;
+  error?: StreamingError;
+}
+
+export type AvatarResponseStatus = 'partial' | 'final';
+
+// Epoch ms timestamps for one avatar response; anything not yet observed is undefined
+export interface AvatarResponseTimings {
+  // When the question this response answers was sent, if it came from this client
+  requestedAt?: number;
+  firstTokenAt: number;
+  // All chunks up to and including the fin chunk have arrived
+  finalAt?: number;
+  audioStartAt?: number;
+  audioEndAt?: number;
+  // Text is final and the avatar has finished speaking it
+  completedAt?: number;
+}
+
+// One bot reply assembled from its chat chunks, in idx order
+export interface AvatarResponse {
+  responseId: string;
+  // Mid of the user message that prompted it
+  questionId?: string;
+  text: string;
+  status: AvatarResponseStatus;
+  receivedChunks: number;
+  // Known once the fin chunk has arrived
+  totalChunks?: number;
+  isSpeaking: boolean;
+  timings: AvatarResponseTimings;
+}
+
 export interface StreamingEventHandlers {
   onParticipantJoined?: (participant: Participant) => void;
   onParticipantLeft?: (participantId: string) => void;
@@ -60,8 +122,18 @@ export interface StreamingEventHandlers {
   onSystemMessage?: (event: SystemMessageEvent) => void;
   onChatMessage?: (event: ChatMessageEvent) => void;
   onCommand?: (event: CommandEvent) => void;
+  onMessageDelivery?: (event: MessageDeliveryEvent) => void;
+  onCustomMessage?: (event: CustomMessageEvent) => void;
+  // Fires on every change to a response: new chunk, fin, audio start/end
+  onAvatarResponse?: (response: AvatarResponse) => void;
+  // The provider changed or paused the local camera upload to spare a poor uplink
+  onVideoAdapted?: (event: VideoAdaptationEvent) => void;
+  // The SDK warned that the RTC token runs out within remainingMs
+  onTokenWillExpire?: (remainingMs: number) => void;
 }
 
+export type AudioDumpFileHandler = (blob: Blob, name: string) => void;
+
 export interface StreamingProvider {
   readonly providerType: StreamProviderType;
   readonly state: StreamingState;
@@ -83,14 +155,24 @@ export interface StreamingProvider {
   unpublishAudio(): Promise<void>;
 
   // Communication
-  sendMessage(content: string): Promise<void>;
+  // messageId becomes the wire mid so delivery events can be matched to the caller's message
+  sendMessage(content: string, messageId?: string): Promise<void>;
   sendInterrupt(): Promise<void>;
   setAvatarParameters(metadata: Record<string, unknown>): Promise<void>;
+  // Route a (version, type) stream message to handler instead of onCustomMessage; returns an unregister function
+  registerMessageHandler(version: number, type: string, handler: (event: CustomMessageEvent) => void): () => void;
 
   // Audio processing
   enableNoiseReduction(): Promise<void>;
   disableNoiseReduction(): Promise<void>;
-  dumpAudio(): Promise<void>;
+  // Files go to onFile instead of being downloaded; resolves once the dump has finished
+  dumpAudio(onFile?: AudioDumpFileHandler): Promise<void>;
+
+  // Swap in refreshed credentials (agora_token, livekit_token or trtc_user_sig) without leaving the room
+  renewToken(credentials: SessionCredentials): Promise<void>;
+
+  // How stats become the quality badge; can change mid-session
+  setQualityPolicy(policy: QualityScoringPolicy): void;
 
   // State management
   updateState(partialState: Partial<StreamingState>): void;
@@ -117,4 +199,6 @@ export interface VideoStrategy {
   unpublishTrack(track: VideoTrack): Promise<void>;
   playTrack(track: VideoTrack, element: HTMLElement): Promise<void>;
   stopTrack(track: VideoTrack): Promise<void>;
+  // Change resolution, frame rate and bitrate (kbps) of a live camera track without republishing it
+  setEncoding(track: VideoTrack, config: VideoConfig): Promise<void>;
 }
@@ -0,0 +1,51 @@
+export const QUALITY_ALERT_RULES_VERSION = 1;
+
+// Values read from StreamingState.networkQuality and detailedNetworkStats
+export type QualityAlertMetric =
+  | 'score'
+  | 'rtt'
+  | 'packetLoss'
+  | 'videoFrameRate'
+  | 'videoBitrate'
+  | 'videoPacketLoss'
+  | 'audioBitrate'
+  | 'audioPacketLoss';
+
+export type QualityAlertOperator = '>' | '>=' | '<' | '<=';
+
+export type QualityAlertSeverity = 'warning' | 'error';
+
+export interface QualityAlertRule {
+  id: string;
+  metric: QualityAlertMetric;
+  operator: QualityAlertOperator;
+  threshold: number;
+  // How long the condition has to hold before the alert fires; fires on the first match otherwise
+  forMs?: number;
+  severity?: QualityAlertSeverity;
+  // Shown in the notification; generated from the condition otherwise
+  message?: string;
+  enabled?: boolean;
+}
+
+// The shape edited in the JSON editor and kept in the configuration store
+export interface QualityAlertRuleSet {
+  version: number;
+  rules: QualityAlertRule[];
+}
+
+export interface QualityAlert {
+  rule: QualityAlertRule;
+  message: string;
+  // The value that fired the alert
+  value: number;
+  // When the condition started to hold
+  since: number;
+  firedAt: number;
+}
+
+export interface QualityAlertRecovery {
+  alert: QualityAlert;
+  value?: number;
+  recoveredAt: number;
+}
@@ -0,0 +1,20 @@
+// The Akool session being timed; it is cut off by the backend once its duration has passed
+export interface TimedSession {
+  sessionId: string;
+  // Epoch ms
+  expiresAt: number;
+}
+
+// What a continuation session starts from; the avatar parameters are the ones in effect when the last one ended
+export interface SessionContinuationRequest {
+  previousSessionId: string;
+}
+
+export interface SessionTimeStatus {
+  sessionId: string;
+  expiresAt: number;
+  remainingMs: number;
+  // Closed by the manager when its time ran out, and not yet continued
+  expired: boolean;
+  canContinue: boolean;
+}
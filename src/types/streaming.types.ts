@@ -1,4 +1,5 @@
 import { StreamingError } from './error.types';
+import { QoEMetrics } from './metrics.types';
 
 export type StreamProviderType = 'agora' | 'livekit' | 'trtc';
 
@@ -111,6 +112,7 @@ export interface ChatMessage {
 export interface StreamingState {
   isJoined: boolean;
   isConnecting: boolean;
+  isReconnecting?: boolean;
   isSpeaking: boolean;
   participants: Participant[];
   localParticipant: Participant | null;
@@ -132,5 +134,7 @@ export interface StreamingState {
       rtt?: number;
     };
   };
+  // Provider-neutral QoE metrics from the latest stats update
+  metrics?: QoEMetrics;
   error: StreamingError | null;
 }
@@ -0,0 +1,44 @@
+import { StreamProviderType } from './streaming.types';
+
+// Bumped whenever the JSON layout changes in a way older importers cannot read
+export const TRANSCRIPT_FORMAT_VERSION = 1;
+
+export type TranscriptExportFormat = 'json' | 'markdown' | 'webvtt';
+
+export interface TranscriptSessionInfo {
+  sessionId?: string;
+  provider: StreamProviderType | null;
+  avatarId: string;
+  voiceId?: string;
+  voiceUrl?: string;
+  language?: string;
+  modeType?: number;
+  knowledgeId?: string;
+  // Sessions this conversation was carried over from after they ran out of time, oldest first
+  previousSessionIds?: string[];
+  // Epoch ms
+  startedAt: number;
+  endedAt?: number;
+}
+
+export interface TranscriptEntry {
+  id: string;
+  sender: 'user' | 'avatar' | 'system';
+  kind: 'chat' | 'system';
+  text: string;
+  // Epoch ms the message first appeared
+  timestamp: number;
+  // SystemEventType for system entries, e.g. avatar_audio_start
+  systemType?: string;
+  // When the avatar spoke this reply, from the avatar_audio_start/end events
+  audioStartAt?: number;
+  audioEndAt?: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface Transcript {
+  version: number;
+  exportedAt: number;
+  session: TranscriptSessionInfo;
+  entries: TranscriptEntry[];
+}
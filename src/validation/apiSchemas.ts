@@ -0,0 +1,112 @@
+import type { Avatar, Knowledge, Language, Session, SessionCredentials, Voice } from '../types/api.schemas';
+import { StreamProviderType } from '../types/streaming.types';
+import {
+  array,
+  boolean,
+  describeValue,
+  number,
+  object,
+  oneOf,
+  optional,
+  refine,
+  string,
+  Validator,
+} from './validators';
+
+// Mirrors of the interfaces in types/api.schemas.ts; the object() typing breaks the build when the two drift apart
+
+export const languageSchema = object<Language>({
+  lang_code: string(),
+  lang_name: string(),
+  url: string(),
+});
+
+export const knowledgeSchema = object<Knowledge>({
+  _id: string(),
+  name: string(),
+});
+
+export const voiceSchema = object<Voice>({
+  _id: string(),
+  voice_id: string(),
+  support_stream: boolean(),
+  style: array(string()),
+  scenario: array(string()),
+  age: array(string()),
+  gender: string(),
+  name: string(),
+  preview: string(),
+  text: string(),
+  locale: string(),
+  language: string(),
+  voice_model_name: string(),
+});
+
+export const avatarSchema = object<Avatar>({
+  name: string(),
+  type: number(),
+  from: number(),
+  gender: string(),
+  url: string(),
+  avatar_id: string(),
+  voice_id: string(),
+  thumbnailUrl: string(),
+  available: boolean(),
+  is_official: boolean(),
+});
+
+export const sessionCredentialsSchema = object<SessionCredentials>({
+  agora_uid: optional(number()),
+  agora_app_id: optional(string()),
+  agora_channel: optional(string()),
+  agora_token: optional(string()),
+  livekit_url: optional(string()),
+  livekit_token: optional(string()),
+  livekit_room_name: optional(string()),
+  livekit_client_identity: optional(string()),
+  livekit_server_identity: optional(string()),
+  trtc_app_id: optional(number()),
+  trtc_user_id: optional(string()),
+  trtc_user_sig: optional(string()),
+  trtc_room_id: optional(string()),
+});
+
+// Every credential is optional in the type, but each provider cannot connect without its own
+const REQUIRED_CREDENTIALS: Record<StreamProviderType, (keyof SessionCredentials)[]> = {
+  agora: ['agora_app_id', 'agora_channel', 'agora_token', 'agora_uid'],
+  livekit: ['livekit_url', 'livekit_token', 'livekit_room_name'],
+  trtc: ['trtc_app_id', 'trtc_user_id', 'trtc_user_sig', 'trtc_room_id'],
+};
+
+export const sessionSchema = refine(
+  object<Session>({
+    _id: string(),
+    uid: number(),
+    credentials: sessionCredentialsSchema,
+    stream_type: oneOf<StreamProviderType>('agora', 'livekit', 'trtc'),
+    status: number(),
+  }),
+  (session, path, issues) => {
+    REQUIRED_CREDENTIALS[session.stream_type].forEach((key) => {
+      const value = session.credentials[key];
+      if (value === undefined || value === null || value === '') {
+        issues.push({
+          path: `${path}.credentials.${key}`,
+          expected: `a value (required for ${session.stream_type})`,
+          received: describeValue(value),
+        });
+      }
+    });
+  },
+);
+
+// The data payload of each endpoint, after the { code, msg, data } envelope
+export const langListResponseSchema: Validator<{ lang_list: Language[] }> = object({
+  lang_list: array(languageSchema),
+});
+export const knowledgeListResponseSchema: Validator<{ knowledge_list: Knowledge[] }> = object({
+  knowledge_list: array(knowledgeSchema),
+});
+export const voiceListResponseSchema: Validator<{ result: Voice[] }> = object({ result: array(voiceSchema) });
+export const avatarListResponseSchema: Validator<{ result: Avatar[] }> = object({ result: array(avatarSchema) });
+export const sessionResponseSchema: Validator<Session> = sessionSchema;
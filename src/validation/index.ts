@@ -0,0 +1,28 @@
+export {
+  array,
+  boolean,
+  describeValue,
+  formatValidationIssue,
+  number,
+  object,
+  oneOf,
+  optional,
+  parseValidationMode,
+  refine,
+  string,
+  validate,
+} from './validators';
+export type { ValidationIssue, ValidationMode, Validator } from './validators';
+export {
+  avatarListResponseSchema,
+  avatarSchema,
+  knowledgeListResponseSchema,
+  knowledgeSchema,
+  langListResponseSchema,
+  languageSchema,
+  sessionCredentialsSchema,
+  sessionResponseSchema,
+  sessionSchema,
+  voiceListResponseSchema,
+  voiceSchema,
+} from './apiSchemas';
@@ -0,0 +1,114 @@
+export interface ValidationIssue {
+  // Where the mismatch is, e.g. data.result[3].voice_id
+  path: string;
+  expected: string;
+  received: string;
+}
+
+export interface Validator<T> {
+  expected: string;
+  check: (value: unknown, path: string, issues: ValidationIssue[]) => void;
+  // Never set; carries the validated type so object() shapes are checked against their interface
+  readonly type?: T;
+}
+
+// strict: a mismatch fails the call, lenient: it is logged and the data used anyway, off: not checked
+export type ValidationMode = 'strict' | 'lenient' | 'off';
+
+const VALIDATION_MODES: ValidationMode[] = ['strict', 'lenient', 'off'];
+
+export const parseValidationMode = (value: string | undefined, fallback: ValidationMode = 'lenient'): ValidationMode =>
+  VALIDATION_MODES.find((mode) => mode === value?.trim().toLowerCase()) ?? fallback;
+
+export const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return `${typeof value} ${JSON.stringify(value)}`;
+  }
+  return typeof value;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const primitive = <T>(expected: 'string' | 'number' | 'boolean'): Validator<T> => ({
+  expected,
+  check: (value, path, issues) => {
+    if (typeof value !== expected) {
+      issues.push({ path, expected, received: describeValue(value) });
+    }
+  },
+});
+
+export const string = () => primitive<string>('string');
+export const number = () => primitive<number>('number');
+export const boolean = () => primitive<boolean>('boolean');
+
+export const oneOf = <T extends string | number>(...values: T[]): Validator<T> => ({
+  expected: values.map((value) => JSON.stringify(value)).join(' | '),
+  check(value, path, issues) {
+    if (!values.includes(value as T)) {
+      issues.push({ path, expected: this.expected, received: describeValue(value) });
+    }
+  },
+});
+
+// Akool sends null as often as it leaves a field out, both count as absent
+export const optional = <T>(validator: Validator<T>): Validator<T | undefined> => ({
+  expected: `${validator.expected} | undefined`,
+  check: (value, path, issues) => {
+    if (value !== undefined && value !== null) {
+      validator.check(value, path, issues);
+    }
+  },
+});
+
+export const array = <T>(item: Validator<T>): Validator<T[]> => ({
+  expected: `${item.expected}[]`,
+  check: (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, expected: 'array', received: describeValue(value) });
+      return;
+    }
+    value.forEach((element, index) => item.check(element, `${path}[${index}]`, issues));
+  },
+});
+
+// Every key of T needs a validator; extra fields in the response are fine
+export const object = <T extends object>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> => ({
+  expected: 'object',
+  check: (value, path, issues) => {
+    if (!isRecord(value)) {
+      issues.push({ path, expected: 'object', received: describeValue(value) });
+      return;
+    }
+    (Object.keys(shape) as (keyof T & string)[]).forEach((key) =>
+      shape[key].check(value[key], `${path}.${key}`, issues),
+    );
+  },
+});
+
+// Extra rules that depend on more than one field; only run when the value itself is valid
+export const refine = <T>(
+  validator: Validator<T>,
+  refinement: (value: T, path: string, issues: ValidationIssue[]) => void,
+): Validator<T> => ({
+  expected: validator.expected,
+  check: (value, path, issues) => {
+    const before = issues.length;
+    validator.check(value, path, issues);
+    if (issues.length === before) {
+      refinement(value as T, path, issues);
+    }
+  },
+});
+
+export function validate<T>(validator: Validator<T>, value: unknown, path = 'data'): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  validator.check(value, path, issues);
+  return issues;
+}
+
+export const formatValidationIssue = ({ path, expected, received }: ValidationIssue) =>
+  `${path}: expected ${expected}, received ${received}`;
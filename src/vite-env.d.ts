@@ -11,6 +11,28 @@ interface ImportMetaEnv {
   readonly VITE_LANGUAGE: string;
   readonly VITE_BACKGROUND_URL: string;
   readonly VITE_DEBUG_FEATURES?: string;
+  // token, apiKey or proxy; proxy sends OpenAPI calls through VITE_API_PROXY_PATH without a browser-side credential
+  readonly VITE_AUTH_METHOD?: string;
+  readonly VITE_API_PROXY_PATH?: string;
+  // strict, lenient or off; how API responses that do not match their schema are handled
+  readonly VITE_API_VALIDATION?: string;
+  // Backend route that renews the OpenAPI token and RTC tokens, see createHttpCredentialRefresher
+  readonly VITE_CREDENTIAL_REFRESH_URL?: string;
+  // Comma-separated remaining seconds at which the session time warning is shown, e.g. 300,60
+  readonly VITE_SESSION_WARNING_SECONDS?: string;
+  // true to offer a continuation session when one runs out of time
+  readonly VITE_SESSION_CONTINUATION?: string;
+  // Default quality scoring policy: balanced, interactive or media
+  readonly VITE_QUALITY_POLICY?: string;
+  // Preferred data channel codec, json or msgpack, for every provider or per provider as agora:msgpack,trtc:json
+  readonly VITE_MESSAGE_CODEC?: string;
+  // Remote log shipping, off unless an endpoint is set
+  readonly VITE_LOG_ENDPOINT?: string;
+  readonly VITE_LOG_API_KEY?: string;
+  readonly VITE_LOG_BATCH_SIZE?: string;
+  readonly VITE_LOG_FLUSH_INTERVAL_MS?: string;
+  readonly VITE_LOG_SAMPLE_DEBUG?: string;
+  readonly VITE_LOG_SAMPLE_INFO?: string;
 }
 
 interface ImportMeta {
@@ -1,11 +1,64 @@
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react-swc';
 
+type AkoolProxyHandler = (request: Request) => Promise<Response | null>;
+
+// Serves the reference OpenAPI proxy from src/proxy during `pnpm dev` when AKOOL_API_TOKEN or AKOOL_API_KEY is set.
+// It is loaded through the dev server rather than imported, as tsconfig.node.json only covers this file
+function akoolProxyPlugin(env: Record<string, string>): Plugin {
+  return {
+    name: 'akool-openapi-proxy',
+    apply: 'serve',
+    async configureServer(server) {
+      const { createAkoolProxyFromEnv, DEFAULT_API_PROXY_PATH } = (await server.ssrLoadModule(
+        '/src/proxy/akoolProxy.ts',
+      )) as {
+        createAkoolProxyFromEnv: (env: Record<string, string>) => AkoolProxyHandler | null;
+        DEFAULT_API_PROXY_PATH: string;
+      };
+      const proxy = createAkoolProxyFromEnv(env);
+      if (!proxy) {
+        return;
+      }
+
+      server.middlewares.use(env.VITE_API_PROXY_PATH || DEFAULT_API_PROXY_PATH, (req, res, next) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => {
+          const headers = new Headers();
+          Object.entries(req.headers).forEach(([name, value]) => {
+            if (typeof value === 'string') {
+              headers.set(name, value);
+            }
+          });
+          const request = new Request(new URL(req.originalUrl ?? req.url ?? '/', 'http://localhost'), {
+            method: req.method,
+            headers,
+            body: chunks.length > 0 ? Buffer.concat(chunks) : undefined,
+          });
+
+          proxy(request)
+            .then(async (response) => {
+              if (!response) {
+                next();
+                return;
+              }
+              res.statusCode = response.status;
+              response.headers.forEach((value, name) => res.setHeader(name, value));
+              res.end(await response.text());
+            })
+            .catch(next);
+        });
+      });
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, process.cwd(), '');
   return defineConfig({
-    plugins: [react()],
+    plugins: [react(), akoolProxyPlugin(env)],
     base: env.VITE_SERVER_BASE,
     server: {
       host: '0.0.0.0',